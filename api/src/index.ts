@@ -6,6 +6,8 @@ import { copyFileSync, existsSync, mkdirSync } from 'fs';
 import productRoutes from './routes/products.js';
 import exportRoutes from './routes/export.js';
 import statsRoutes from './routes/stats.js';
+import reviewRoutes from './routes/review.js';
+import inventoryRoutes from './routes/inventory.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -37,6 +39,8 @@ app.use('/public', express.static(publicDir));
 app.use('/api', productRoutes);
 app.use('/api', exportRoutes);
 app.use('/api', statsRoutes);
+app.use('/api', reviewRoutes);
+app.use('/api', inventoryRoutes);
 
 // Endpoint to refresh the database copy
 app.post('/api/refresh-db', (_req, res) => {
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { getInventory } from '../services/inventory-service.js';
+
+const router = Router();
+
+// PDFs on disk vs product rows: unprocessed PDFs, missing files, folder/name mismatches, stuck rows
+router.get('/inventory', (_req, res) => {
+  try {
+    res.json(getInventory());
+  } catch (error) {
+    console.error('Error building inventory:', error);
+    res.status(500).json({ error: 'Failed to build inventory' });
+  }
+});
+
+export default router;
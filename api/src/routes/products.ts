@@ -2,19 +2,34 @@ import { Router, Request, Response } from 'express';
 import {
   getProducts,
   getProductByCode,
+  getProductLanguageVersions,
   getSubbrands
 } from '../services/product-service.js';
+import { getProductHistory } from '../services/history-service.js';
+import {
+  getOverrides,
+  setOverride,
+  clearOverride,
+  OverrideError
+} from '../services/override-service.js';
+import { parseSheetQuery } from '../services/language.js';
 
 const router = Router();
 
 router.get('/products', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
   try {
     const page = parseInt(req.query.page as string) || 1;
     const pageSize = Math.min(parseInt(req.query.pageSize as string) || 20, 100);
     const subbrand = req.query.subbrand as string | undefined;
     const search = req.query.search as string | undefined;
 
-    const result = getProducts(page, pageSize, subbrand, search);
+    const result = getProducts(page, pageSize, subbrand, search, sheet.language);
     res.json(result);
   } catch (error) {
     console.error('Error fetching products:', error);
@@ -23,9 +38,15 @@ router.get('/products', (req: Request, res: Response) => {
 });
 
 router.get('/products/:code', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
   try {
     const { code } = req.params;
-    const product = getProductByCode(code);
+    const product = getProductByCode(code, sheet);
 
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
@@ -39,6 +60,120 @@ router.get('/products/:code', (req: Request, res: Response) => {
   }
 });
 
+// All language versions side by side, default language first
+router.get('/products/:code/languages', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    const versions = getProductLanguageVersions(req.params.code, sheet.variant);
+
+    if (versions.length === 0) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching product languages:', error);
+    res.status(500).json({ error: 'Failed to fetch product languages' });
+  }
+});
+
+router.get('/products/:code/history', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    const history = getProductHistory(req.params.code, sheet);
+
+    if (!history) {
+      res.status(404).json({ error: 'No revisions found for product' });
+      return;
+    }
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching product history:', error);
+    res.status(500).json({ error: 'Failed to fetch product history' });
+  }
+});
+
+router.get('/products/:code/overrides', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    res.json(getOverrides(req.params.code, sheet));
+  } catch (error) {
+    console.error('Error fetching overrides:', error);
+    res.status(500).json({ error: 'Failed to fetch overrides' });
+  }
+});
+
+router.put('/products/:code/overrides', (req: Request, res: Response) => {
+  const { fieldPath, value, reason, createdBy } = req.body ?? {};
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  if (typeof fieldPath !== 'string' || (value !== null && typeof value !== 'string')) {
+    res.status(400).json({ error: 'fieldPath (string) and value (string or null) are required' });
+    return;
+  }
+
+  try {
+    res.json(setOverride(req.params.code, fieldPath, value, reason, createdBy, sheet));
+  } catch (error) {
+    if (error instanceof OverrideError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Error setting override:', error);
+    res.status(500).json({ error: 'Failed to set override' });
+  }
+});
+
+router.delete('/products/:code/overrides', (req: Request, res: Response) => {
+  const fieldPath = req.query.fieldPath as string | undefined;
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  if (!fieldPath) {
+    res.status(400).json({ error: 'fieldPath query parameter is required' });
+    return;
+  }
+
+  try {
+    if (!clearOverride(req.params.code, fieldPath, sheet)) {
+      res.status(404).json({ error: 'Override not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof OverrideError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Error clearing override:', error);
+    res.status(500).json({ error: 'Failed to clear override' });
+  }
+});
+
 router.get('/subbrands', (_req: Request, res: Response) => {
   try {
     const subbrands = getSubbrands();
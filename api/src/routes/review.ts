@@ -0,0 +1,157 @@
+import { Router, Request, Response } from 'express';
+import {
+  getReviewQueue,
+  getReviewItem,
+  getProductPdfPath,
+  resolveDiscrepancy,
+  assignReviewItem,
+  closeReviewItem,
+  ReviewError
+} from '../services/review-service.js';
+import { OverrideError } from '../services/override-service.js';
+import { parseSheetQuery } from '../services/language.js';
+
+const router = Router();
+
+const REVIEW_STATUSES = ['pending', 'in_progress', 'resolved', 'dismissed'];
+
+function handleWriteError(res: Response, error: unknown, message: string): void {
+  if (error instanceof ReviewError || error instanceof OverrideError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+router.get('/review/queue', (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+
+  if (status && !REVIEW_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    return;
+  }
+
+  try {
+    res.json(getReviewQueue(status));
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    res.status(500).json({ error: 'Failed to fetch review queue' });
+  }
+});
+
+router.get('/review/:code', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    const detail = getReviewItem(req.params.code, sheet);
+
+    if (!detail) {
+      res.status(404).json({ error: 'Review item not found' });
+      return;
+    }
+
+    res.json(detail);
+  } catch (error) {
+    console.error('Error fetching review item:', error);
+    res.status(500).json({ error: 'Failed to fetch review item' });
+  }
+});
+
+router.get('/review/:code/pdf', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    const pdfPath = getProductPdfPath(req.params.code, sheet);
+
+    if (!pdfPath) {
+      res.status(404).json({ error: 'PDF not found' });
+      return;
+    }
+
+    res.type('application/pdf').sendFile(pdfPath);
+  } catch (error) {
+    console.error('Error serving PDF:', error);
+    res.status(500).json({ error: 'Failed to serve PDF' });
+  }
+});
+
+router.post('/review/discrepancies/:id/resolve', (req: Request, res: Response) => {
+  const { source, value, reviewer } = req.body ?? {};
+
+  if (!['claude', 'grok', 'custom'].includes(source)) {
+    res.status(400).json({ error: 'source must be one of: claude, grok, custom' });
+    return;
+  }
+  if (source === 'custom' && value !== null && typeof value !== 'string') {
+    res.status(400).json({ error: 'value (string or null) is required for a custom correction' });
+    return;
+  }
+
+  try {
+    res.json(resolveDiscrepancy(parseInt(req.params.id), { source, value, reviewer }));
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to resolve discrepancy');
+  }
+});
+
+router.post('/review/:code/assign', (req: Request, res: Response) => {
+  const { assignee } = req.body ?? {};
+
+  if (assignee !== null && typeof assignee !== 'string') {
+    res.status(400).json({ error: 'assignee (string or null) is required' });
+    return;
+  }
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    assignReviewItem(req.params.code, assignee, sheet);
+    res.json({ success: true });
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to assign review item');
+  }
+});
+
+router.post('/review/:code/resolve', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    closeReviewItem(req.params.code, 'resolved', req.body?.notes, sheet);
+    res.json({ success: true });
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to resolve review item');
+  }
+});
+
+router.post('/review/:code/dismiss', (req: Request, res: Response) => {
+  const sheet = parseSheetQuery(req.query);
+  if ('error' in sheet) {
+    res.status(400).json({ error: sheet.error });
+    return;
+  }
+
+  try {
+    closeReviewItem(req.params.code, 'dismissed', req.body?.notes, sheet);
+    res.json({ success: true });
+  } catch (error) {
+    handleWriteError(res, error, 'Failed to dismiss review item');
+  }
+});
+
+export default router;
@@ -5,6 +5,8 @@ import {
   getIngredientDistribution,
   getComparison,
   getProductsByIngredient,
+  getVerificationStats,
+  getCostStats,
 } from '../services/stats-service.js';
 
 const router = Router();
@@ -51,6 +53,32 @@ router.get('/stats/distribution', (_req, res) => {
   }
 });
 
+// ?threshold= defaults to VERIFICATION_SIMILARITY_THRESHOLD (85)
+router.get('/stats/verification', (req, res) => {
+  try {
+    const threshold = parseFloat(req.query.threshold as string)
+      || parseFloat(process.env.VERIFICATION_SIMILARITY_THRESHOLD || '')
+      || 85;
+    const runs = Math.min(parseInt(req.query.runs as string) || 20, 100);
+    res.json(getVerificationStats(threshold, runs));
+  } catch (error) {
+    console.error('Error fetching verification stats:', error);
+    res.status(500).json({ error: 'Failed to fetch verification stats' });
+  }
+});
+
+// ?runs= recent processing runs (default 10), ?products= most expensive products (default 20)
+router.get('/stats/costs', (req, res) => {
+  try {
+    const runs = Math.min(parseInt(req.query.runs as string) || 10, 100);
+    const products = Math.min(parseInt(req.query.products as string) || 20, 500);
+    res.json(getCostStats(runs, products));
+  } catch (error) {
+    console.error('Error fetching cost stats:', error);
+    res.status(500).json({ error: 'Failed to fetch cost stats' });
+  }
+});
+
 router.get('/compare', (req, res) => {
   try {
     const codesParam = req.query.codes as string;
@@ -6,6 +6,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DB_PATH = path.resolve(__dirname, '../../../products.db');
 
 let db: Database.Database | null = null;
+let writableDb: Database.Database | null = null;
 
 export function getDb(): Database.Database {
   if (!db) {
@@ -15,11 +16,24 @@ export function getDb(): Database.Database {
   return db;
 }
 
+// Separate read-write connection, used only by endpoints that record reviewer edits
+export function getWritableDb(): Database.Database {
+  if (!writableDb) {
+    writableDb = new Database(DB_PATH);
+    writableDb.pragma('journal_mode = WAL');
+  }
+  return writableDb;
+}
+
 export function closeDb(): void {
   if (db) {
     db.close();
     db = null;
   }
+  if (writableDb) {
+    writableDb.close();
+    writableDb = null;
+  }
 }
 
 process.on('exit', closeDb);
@@ -0,0 +1,174 @@
+import { getDb } from './db.js';
+import { DEFAULT_LANGUAGE, DEFAULT_VARIANT, SheetSelector } from './language.js';
+
+// --- Interfaces ---
+
+// Subset of the extractor's ProductExtractionData stored in product_revisions.extraction_data
+interface ExtractionSnapshot {
+  productName?: string;
+  productSlogan?: string | null;
+  productDescription?: string;
+  subbrand?: string | null;
+  directions?: string;
+  caution?: string | null;
+  references?: string | null;
+  supplementFacts?: {
+    servings?: string;
+    servingsPerContainer?: string;
+    calories?: string | null;
+    protein?: string | null;
+    nutrients?: {
+      name: string;
+      amount?: string | null;
+      dailyValuePercentAdult?: string | null;
+      dailyValuePercentChildren?: string | null;
+    }[];
+  };
+  ingredients?: { name: string; isOrganic?: boolean }[];
+  dietaryAttributes?: string[];
+}
+
+export interface FieldChange {
+  fieldPath: string;
+  before: string | null;
+  after: string | null;
+  changeType: 'added' | 'removed' | 'changed';
+}
+
+export interface RevisionSummary {
+  revision_number: number;
+  created_at: string;
+  model: string | null;
+  prompt_version: string | null; // Revisions made before the prompt registry
+  prompts: PromptRef[] | null; // Templates of the model calls (`npm start prompts list`)
+  pdf_file_hash: string | null;
+  changes: FieldChange[]; // Relative to the previous revision; empty for the first
+}
+
+// Same as src/extractor/prompt-registry.ts
+export interface PromptRef {
+  id: string;
+  version: number;
+  hash: string;
+}
+
+export interface ProductHistory {
+  product_code: string;
+  language: string;
+  variant: string;
+  revisions: RevisionSummary[];
+}
+
+interface RevisionRow {
+  revision_number: number;
+  extraction_data: string;
+  model: string | null;
+  prompt_version: string | null;
+  prompts: string | null;
+  pdf_file_hash: string | null;
+  created_at: string;
+}
+
+// --- Field paths (same format as the extractor, e.g. "supplementFacts.nutrients[Vitamin C].amount") ---
+
+type FieldValues = Record<string, string | null>;
+
+function itemLabels(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}#${count}`;
+  });
+}
+
+function flattenFields(data: ExtractionSnapshot): FieldValues {
+  const fields: FieldValues = {};
+
+  for (const field of ['productName', 'productSlogan', 'productDescription', 'subbrand', 'directions', 'caution', 'references'] as const) {
+    fields[field] = data[field] ?? null;
+  }
+
+  const facts = data.supplementFacts;
+  if (facts) {
+    for (const field of ['servings', 'servingsPerContainer', 'calories', 'protein'] as const) {
+      fields[`supplementFacts.${field}`] = facts[field] ?? null;
+    }
+    const nutrients = facts.nutrients || [];
+    const labels = itemLabels(nutrients.map(n => n.name));
+    nutrients.forEach((nutrient, i) => {
+      for (const field of ['amount', 'dailyValuePercentAdult', 'dailyValuePercentChildren'] as const) {
+        fields[`supplementFacts.nutrients[${labels[i]}].${field}`] = nutrient[field] ?? null;
+      }
+    });
+  }
+
+  const ingredients = data.ingredients || [];
+  const ingredientLabels = itemLabels(ingredients.map(i => i.name));
+  ingredients.forEach((ingredient, i) => {
+    fields[`ingredients[${ingredientLabels[i]}].isOrganic`] = String(ingredient.isOrganic ?? false);
+  });
+
+  for (const attribute of data.dietaryAttributes || []) {
+    fields[`dietaryAttributes[${attribute}]`] = 'true';
+  }
+
+  return fields;
+}
+
+function diffFields(before: FieldValues, after: FieldValues): FieldChange[] {
+  const paths = new Set([...Object.keys(after), ...Object.keys(before)]);
+  const changes: FieldChange[] = [];
+
+  for (const fieldPath of paths) {
+    const oldValue = before[fieldPath] ?? null;
+    const newValue = after[fieldPath] ?? null;
+    if (oldValue === newValue) continue;
+
+    changes.push({
+      fieldPath,
+      before: oldValue,
+      after: newValue,
+      changeType: oldValue === null ? 'added' : newValue === null ? 'removed' : 'changed'
+    });
+  }
+
+  return changes;
+}
+
+// --- Queries ---
+
+export function getProductHistory(code: string, sheet: SheetSelector = {}): ProductHistory | null {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  const db = getDb();
+
+  const rows = db.prepare(`
+    SELECT revision_number, extraction_data, model, prompt_version, prompts, pdf_file_hash, created_at
+    FROM product_revisions
+    WHERE product_code = ? AND language = ? AND variant = ?
+    ORDER BY revision_number ASC
+  `).all(code, language, variant) as RevisionRow[];
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  let previous: FieldValues | null = null;
+  const revisions = rows.map(row => {
+    const fields = flattenFields(JSON.parse(row.extraction_data) as ExtractionSnapshot);
+    const changes = previous ? diffFields(previous, fields) : [];
+    previous = fields;
+
+    return {
+      revision_number: row.revision_number,
+      created_at: row.created_at,
+      model: row.model,
+      prompt_version: row.prompt_version,
+      prompts: row.prompts ? (JSON.parse(row.prompts) as PromptRef[]) : null,
+      pdf_file_hash: row.pdf_file_hash,
+      changes
+    };
+  });
+
+  return { product_code: code, language, variant, revisions };
+}
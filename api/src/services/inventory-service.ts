@@ -0,0 +1,181 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getDb } from './db.js';
+import { DEFAULT_LANGUAGE, DEFAULT_VARIANT, parseLanguage, parseVariant } from './language.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '../../..');
+
+// Same report as `npm start inventory` (src/scanner/inventory.ts)
+export interface InventoryReport {
+  generated_at: string;
+  root_path: string;
+  pdf_count: number;
+  product_count: number;
+  unprocessed_pdfs: {
+    file_path: string;
+    product_code: string;
+    language: string;
+    variant: string;
+    naming_rule: string | null;
+  }[];
+  missing_pdfs: {
+    product_code: string;
+    language: string;
+    variant: string;
+    product_name: string;
+    pdf_file_path: string;
+    extraction_status: string;
+  }[];
+  name_mismatches: {
+    product_code: string;
+    language: string;
+    variant: string;
+    product_name: string;
+    folder_name: string;
+  }[];
+  stuck_processing: {
+    product_code: string;
+    language: string;
+    variant: string;
+    product_name: string;
+    pdf_file_path: string;
+    updated_at: string | null;
+  }[];
+}
+
+interface InventoryProduct {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string;
+  pdf_file_path: string;
+  folder_path: string;
+  extraction_status: string;
+  updated_at: string | null;
+}
+
+// Entry of the NAMING_RULES_PATH file (src/scanner/naming-rules.ts); subbrandFolder is not needed here
+interface NamingRuleConfig {
+  name: string;
+  pattern: string;
+  target?: 'fileName' | 'path';
+  caseInsensitive?: boolean;
+}
+
+interface NamingRule {
+  name: string;
+  regex: RegExp;
+  target: 'fileName' | 'path';
+}
+
+interface ScannedPDF {
+  file_path: string;
+  product_code: string;
+  language: string;
+  variant: string;
+  naming_rule: string;
+}
+
+// Built-in rule of the scanner (src/scanner/naming-rules.ts)
+const DEFAULT_NAMING_RULE: NamingRuleConfig = { name: 'pi-en', pattern: '^(?<code>\\d{3,6})-PI_(?<language>EN)\\.pdf$' };
+
+// PDF_ROOT_PATH and NAMING_RULES_PATH are read like the CLI reads them, relative to the project root
+function getPdfRoot(): string {
+  return path.resolve(PROJECT_ROOT, process.env.PDF_ROOT_PATH || 'products');
+}
+
+function getNamingRules(): NamingRule[] {
+  const rulesPath = process.env.NAMING_RULES_PATH;
+  const configs = rulesPath
+    ? (JSON.parse(readFileSync(path.resolve(PROJECT_ROOT, rulesPath), 'utf-8')) as NamingRuleConfig[])
+    : [DEFAULT_NAMING_RULE];
+
+  return configs.map(rule => ({
+    name: rule.name,
+    regex: new RegExp(rule.pattern, rule.caseInsensitive ? 'i' : ''),
+    target: rule.target ?? 'fileName',
+  }));
+}
+
+// PDFs matching a naming rule. Unlike the CLI scan, the language and variant come only from the
+// rule's groups (no text-layer detection, no folder-named variants); files are matched by path.
+function scanPdfs(rootPath: string): ScannedPDF[] {
+  if (!existsSync(rootPath)) {
+    return [];
+  }
+
+  const rules = getNamingRules();
+  const pdfs: ScannedPDF[] = [];
+
+  for (const entry of readdirSync(rootPath, { recursive: true, encoding: 'utf-8' })) {
+    if (!entry.toLowerCase().endsWith('.pdf')) continue;
+
+    const relativePath = entry.split(path.sep).join('/');
+    const fileName = path.basename(relativePath);
+    for (const rule of rules) {
+      const groups = (rule.target === 'path' ? relativePath : fileName).match(rule.regex)?.groups;
+      if (!groups?.code) continue;
+
+      pdfs.push({
+        file_path: path.join(rootPath, entry),
+        product_code: groups.code,
+        language: parseLanguage(groups.language) || DEFAULT_LANGUAGE,
+        variant: parseVariant(groups.variant) || DEFAULT_VARIANT,
+        naming_rule: rule.name,
+      });
+      break;
+    }
+  }
+
+  return pdfs;
+}
+
+// "0358 Yummies" -> "Yummies" (src/scanner/file-parser.ts)
+function folderProductName(folderPath: string): string {
+  const folderName = path.basename(folderPath);
+  return folderName.replace(/^\d{3,6}\s+/, '').trim() || folderName;
+}
+
+function comparableName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function getInventory(): InventoryReport {
+  const rootPath = getPdfRoot();
+  const scanned = scanPdfs(rootPath);
+  const products = getDb().prepare(`
+    SELECT product_code, language, variant, product_name, pdf_file_path, folder_path,
+           extraction_status, updated_at
+    FROM products
+    ORDER BY product_code, language, variant
+  `).all() as InventoryProduct[];
+
+  const storedPaths = new Set(products.map(p => path.resolve(p.pdf_file_path)));
+  const sheet = (p: InventoryProduct) => ({
+    product_code: p.product_code,
+    language: p.language,
+    variant: p.variant,
+    product_name: p.product_name,
+  });
+
+  return {
+    generated_at: new Date().toISOString(),
+    root_path: rootPath,
+    pdf_count: scanned.length,
+    product_count: products.length,
+    unprocessed_pdfs: scanned.filter(pdf => !storedPaths.has(path.resolve(pdf.file_path))),
+    missing_pdfs: products
+      .filter(p => !existsSync(p.pdf_file_path))
+      .map(p => ({ ...sheet(p), pdf_file_path: p.pdf_file_path, extraction_status: p.extraction_status })),
+    // Failed rows hold the folder name as a placeholder, so only extracted names are compared
+    name_mismatches: products
+      .filter(p => p.extraction_status === 'completed')
+      .map(p => ({ ...sheet(p), folder_name: folderProductName(p.folder_path) }))
+      .filter(p => comparableName(p.folder_name) !== comparableName(p.product_name)),
+    stuck_processing: products
+      .filter(p => p.extraction_status === 'processing')
+      .map(p => ({ ...sheet(p), pdf_file_path: p.pdf_file_path, updated_at: p.updated_at })),
+  };
+}
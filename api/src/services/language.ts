@@ -0,0 +1,54 @@
+// Language of a product sheet (ISO 639-1, lowercase); mirrors src/scanner/language.ts
+export const DEFAULT_LANGUAGE = 'en';
+
+// Variant of a code and language (e.g. a flavor); '' when the code has a single sheet (src/scanner/variants.ts)
+export const DEFAULT_VARIANT = '';
+
+// One stored sheet of a product code; omitted fields fall back per endpoint
+export interface SheetSelector {
+  language?: string;
+  variant?: string;
+}
+
+// ?lang= query value: undefined when absent, null when malformed, else "fr" for "FR" / "fr-CA"
+export function parseLanguage(value: unknown): string | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().toLowerCase().match(/^([a-z]{2})(?:[-_][a-z0-9]+)?$/);
+  return match ? match[1] : null;
+}
+
+// ?variant= query value: undefined when absent, null when malformed, else the key ("Strawberry" -> "strawberry")
+export function parseVariant(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') return null;
+
+  const variant = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return variant || (value === '' ? DEFAULT_VARIANT : null);
+}
+
+// ?lang= and ?variant= of product and review endpoints
+export function parseSheetQuery(query: { lang?: unknown; variant?: unknown }): SheetSelector | { error: string } {
+  const language = parseLanguage(query.lang);
+  if (language === null) {
+    return { error: 'lang must be a language code such as en, fr or de' };
+  }
+
+  const variant = parseVariant(query.variant);
+  if (variant === null) {
+    return { error: 'variant must contain letters or digits' };
+  }
+
+  return { language, variant };
+}
+
+// ORDER BY clause listing language versions with the default first, then alphabetically
+export function languageOrder(column: string = 'language'): string {
+  return `${column} = '${DEFAULT_LANGUAGE}' DESC, ${column} ASC`;
+}
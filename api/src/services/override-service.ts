@@ -0,0 +1,274 @@
+import Database from 'better-sqlite3';
+import { getDb, getWritableDb } from './db.js';
+import { DEFAULT_LANGUAGE, DEFAULT_VARIANT, SheetSelector } from './language.js';
+
+// --- Interfaces ---
+
+export interface FieldOverride {
+  id: number;
+  product_code: string;
+  language: string;
+  variant: string;
+  field_path: string;
+  override_value: string | null;
+  extracted_value: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class OverrideError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+interface FieldAccessor {
+  read(): string | null;
+  write(value: string | null): void;
+  verify?(): void; // Called after an override is written: nutrients are then fully confident
+}
+
+// --- Field paths (same format as the extractor, e.g. "supplementFacts.nutrients[Vitamin C].amount") ---
+// Mirrors parseFieldPath in src/parser/field-paths.ts and the accessors in src/database/repository.ts;
+// src/database/__tests__/override-parity.test.ts runs the same paths through both
+
+const PRODUCT_COLUMNS: Record<string, string> = {
+  productName: 'product_name',
+  productSlogan: 'product_slogan',
+  productDescription: 'product_description',
+  subbrand: 'subbrand',
+  directions: 'directions',
+  caution: 'caution',
+  references: '`references`'
+};
+
+const SUPPLEMENT_FACTS_COLUMNS: Record<string, string> = {
+  servings: 'servings',
+  servingsPerContainer: 'servings_per_container',
+  calories: 'calories',
+  protein: 'protein'
+};
+
+const NUTRIENT_COLUMNS: Record<string, string> = {
+  dailyValuePercentAdult: 'daily_value_percent_adult',
+  dailyValuePercentChildren: 'daily_value_percent_children'
+};
+
+function parseItemLabel(label: string): { name: string; occurrence: number } {
+  const match = label.match(/^(.*)#(\d+)$/);
+  return match ? { name: match[1], occurrence: parseInt(match[2]) } : { name: label, occurrence: 1 };
+}
+
+function columnAccessor(db: Database.Database, table: string, column: string, rowId: number): FieldAccessor {
+  return {
+    read: () => {
+      const row = db.prepare(`SELECT ${column} AS value FROM ${table} WHERE id = ?`).get(rowId) as
+        | { value: string | null }
+        | undefined;
+      return row?.value ?? null;
+    },
+    write: value => {
+      db.prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`).run(value, rowId);
+    }
+  };
+}
+
+function nthRow(rows: { id: number }[], occurrence: number): number | null {
+  return rows[occurrence - 1]?.id ?? null;
+}
+
+// Locate the stored row behind a field path; throws 400 for unknown paths, null when absent
+function resolveFieldAccessor(db: Database.Database, productId: number, fieldPath: string): FieldAccessor | null {
+  if (PRODUCT_COLUMNS[fieldPath]) {
+    return columnAccessor(db, 'products', PRODUCT_COLUMNS[fieldPath], productId);
+  }
+
+  let match = fieldPath.match(/^supplementFacts\.(\w+)$/);
+  if (match && SUPPLEMENT_FACTS_COLUMNS[match[1]]) {
+    const row = db.prepare('SELECT id FROM supplement_facts WHERE product_id = ?').get(productId) as
+      | { id: number }
+      | undefined;
+    return row ? columnAccessor(db, 'supplement_facts', SUPPLEMENT_FACTS_COLUMNS[match[1]], row.id) : null;
+  }
+
+  match = fieldPath.match(/^supplementFacts\.nutrients\[(.+)\]\.(amount|dailyValuePercentAdult|dailyValuePercentChildren)$/);
+  if (match) {
+    const { name, occurrence } = parseItemLabel(match[1]);
+    const rowId = nthRow(
+      db.prepare(`
+        SELECT nv.id FROM nutritional_values nv
+        JOIN supplement_facts sf ON sf.id = nv.supplement_fact_id
+        WHERE sf.product_id = ? AND nv.nutrient_name = ?
+        ORDER BY nv.display_order
+      `).all(productId, name) as { id: number }[],
+      occurrence
+    );
+    if (rowId === null) return null;
+
+    const verify = () => {
+      db.prepare('UPDATE nutritional_values SET extraction_confidence = 1.0, needs_verification = 0 WHERE id = ?')
+        .run(rowId);
+    };
+
+    if (match[2] !== 'amount') {
+      return { ...columnAccessor(db, 'nutritional_values', NUTRIENT_COLUMNS[match[2]], rowId), verify };
+    }
+
+    // Amount is stored split into amount + unit but overridden as "100 mg"
+    return {
+      verify,
+      read: () => {
+        const row = db.prepare('SELECT amount, unit FROM nutritional_values WHERE id = ?').get(rowId) as {
+          amount: string | null;
+          unit: string | null;
+        };
+        if (!row.amount) return null;
+        return row.unit ? `${row.amount} ${row.unit}` : row.amount;
+      },
+      write: value => {
+        const parsed = value?.match(/^(<?\d+(?:\.\d+)?)\s*(.+)$/);
+        db.prepare('UPDATE nutritional_values SET amount = ?, unit = ? WHERE id = ?').run(
+          parsed ? parsed[1] : value,
+          parsed ? parsed[2] : null,
+          rowId
+        );
+      }
+    };
+  }
+
+  match = fieldPath.match(/^ingredients\[(.+)\]\.isOrganic$/);
+  if (match) {
+    const { name, occurrence } = parseItemLabel(match[1]);
+    const rowId = nthRow(
+      db.prepare('SELECT id FROM ingredients WHERE product_id = ? AND ingredient_name = ? ORDER BY display_order')
+        .all(productId, name) as { id: number }[],
+      occurrence
+    );
+    if (rowId === null) return null;
+
+    return {
+      read: () => {
+        const row = db.prepare('SELECT is_organic FROM ingredients WHERE id = ?').get(rowId) as { is_organic: number };
+        return row.is_organic ? 'true' : 'false';
+      },
+      write: value => {
+        db.prepare('UPDATE ingredients SET is_organic = ? WHERE id = ?').run(value === 'true' ? 1 : 0, rowId);
+      }
+    };
+  }
+
+  match = fieldPath.match(/^dietaryAttributes\[(.+)\]$/);
+  if (match) {
+    const attribute = match[1];
+    // Present = "true"; any other value removes the attribute
+    return {
+      read: () =>
+        db.prepare('SELECT id FROM dietary_attributes WHERE product_id = ? AND attribute_name = ?')
+          .get(productId, attribute) ? 'true' : null,
+      write: value => {
+        db.prepare('DELETE FROM dietary_attributes WHERE product_id = ? AND attribute_name = ?')
+          .run(productId, attribute);
+        if (value === 'true') {
+          db.prepare('INSERT INTO dietary_attributes (product_id, attribute_name) VALUES (?, ?)')
+            .run(productId, attribute);
+        }
+      }
+    };
+  }
+
+  throw new OverrideError(`Unknown field path: ${fieldPath}`, 400);
+}
+
+function getProductId(db: Database.Database, code: string, language: string, variant: string): number {
+  const product = db
+    .prepare('SELECT id FROM products WHERE product_code = ? AND language = ? AND variant = ?')
+    .get(code, language, variant) as
+    | { id: number }
+    | undefined;
+  if (!product) {
+    throw new OverrideError('Product not found', 404);
+  }
+  return product.id;
+}
+
+function findOverride(
+  db: Database.Database,
+  code: string,
+  language: string,
+  variant: string,
+  fieldPath: string
+): FieldOverride | undefined {
+  return db.prepare(`
+    SELECT * FROM field_overrides
+    WHERE product_code = ? AND language = ? AND variant = ? AND field_path = ?
+  `).get(code, language, variant, fieldPath) as FieldOverride | undefined;
+}
+
+// --- Queries ---
+
+export function getOverrides(code: string, sheet: SheetSelector = {}): FieldOverride[] {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM field_overrides
+    WHERE product_code = ? AND language = ? AND variant = ?
+    ORDER BY field_path ASC
+  `).all(code, language, variant) as FieldOverride[];
+}
+
+// Record an override and write it to the product rows (the extractor re-applies it after each run)
+export function setOverride(
+  code: string,
+  fieldPath: string,
+  value: string | null,
+  reason?: string,
+  createdBy?: string,
+  sheet: SheetSelector = {}
+): FieldOverride {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  const db = getWritableDb();
+
+  return db.transaction(() => {
+    const accessor = resolveFieldAccessor(db, getProductId(db, code, language, variant), fieldPath);
+    if (!accessor) {
+      throw new OverrideError(`Field ${fieldPath} does not exist on product ${code} (${language})`, 404);
+    }
+
+    const existing = findOverride(db, code, language, variant, fieldPath);
+    const extractedValue = existing ? existing.extracted_value : accessor.read();
+
+    db.prepare(`
+      INSERT INTO field_overrides (
+        product_code, language, variant, field_path, override_value, extracted_value, reason, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(product_code, language, variant, field_path) DO UPDATE SET
+        override_value = excluded.override_value,
+        reason = excluded.reason,
+        created_by = excluded.created_by,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(code, language, variant, fieldPath, value, extractedValue, reason || null, createdBy || null);
+
+    accessor.write(value);
+    accessor.verify?.();
+    return findOverride(db, code, language, variant, fieldPath)!;
+  })();
+}
+
+// Remove an override and restore the extracted value; false if none existed
+export function clearOverride(code: string, fieldPath: string, sheet: SheetSelector = {}): boolean {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  const db = getWritableDb();
+
+  return db.transaction(() => {
+    const existing = findOverride(db, code, language, variant, fieldPath);
+    if (!existing) {
+      return false;
+    }
+
+    resolveFieldAccessor(db, getProductId(db, code, language, variant), fieldPath)?.write(existing.extracted_value);
+    db.prepare('DELETE FROM field_overrides WHERE id = ?').run(existing.id);
+    return true;
+  })();
+}
@@ -1,8 +1,13 @@
 import { getDb } from './db.js';
+import { FieldOverride, getOverrides } from './override-service.js';
+import { DEFAULT_LANGUAGE, SheetSelector, languageOrder } from './language.js';
 
 export interface Product {
   id: number;
   product_code: string;
+  language: string;
+  variant: string; // '' unless the code has several sheets in this language (e.g. flavors)
+  variant_name: string | null;
   product_name: string;
   product_slogan: string | null;
   product_description: string;
@@ -31,6 +36,8 @@ export interface NutritionalValue {
   daily_value_percent_adult: string | null;
   daily_value_percent_children: string | null;
   display_order: number;
+  extraction_confidence: number; // 0-1, from verification agreement, the PDF text layer, DV% and validation
+  needs_verification: number; // 1 when the confidence is below NUTRIENT_CONFIDENCE_THRESHOLD
 }
 
 export interface Ingredient {
@@ -50,16 +57,32 @@ export interface DietaryAttribute {
 export interface ProductListItem {
   id: number;
   product_code: string;
+  language: string;
+  languages: string[]; // All completed language versions of the code, default first
+  variant_count: number; // Completed variants in this language (1 without variants)
   product_name: string;
   product_slogan: string | null;
   subbrand: string | null;
 }
 
+interface ProductListRow extends Omit<ProductListItem, 'languages'> {
+  languages: string;
+}
+
+export interface ProductVariant {
+  variant: string;
+  variant_name: string | null;
+  product_name: string;
+}
+
 export interface ProductDetail extends Product {
   supplement_facts: SupplementFact | null;
   nutritional_values: NutritionalValue[];
   ingredients: Ingredient[];
   dietary_attributes: DietaryAttribute[];
+  overrides: FieldOverride[]; // Manual corrections; values above already include them
+  languages: string[]; // Other language versions are fetched with ?lang=
+  variants: ProductVariant[]; // Variants in this language, fetched with ?variant=
 }
 
 export interface PaginatedProducts {
@@ -74,7 +97,8 @@ export function getProducts(
   page: number = 1,
   pageSize: number = 20,
   subbrand?: string,
-  search?: string
+  search?: string,
+  language?: string
 ): PaginatedProducts {
   const db = getDb();
   const offset = (page - 1) * pageSize;
@@ -82,6 +106,19 @@ export function getProducts(
   let whereClause = "WHERE extraction_status = 'completed'";
   const params: (string | number)[] = [];
 
+  // One row per product code: the requested language (else the default language or the first
+  // available) and its first variant
+  whereClause += ` AND id = (
+    SELECT p2.id FROM products p2
+    WHERE p2.product_code = products.product_code AND p2.extraction_status = 'completed'
+      ${language ? 'AND p2.language = ?' : ''}
+    ORDER BY ${languageOrder('p2.language')}, p2.variant ASC
+    LIMIT 1
+  )`;
+  if (language) {
+    params.push(language);
+  }
+
   if (subbrand) {
     whereClause += ' AND subbrand = ?';
     params.push(subbrand);
@@ -98,14 +135,29 @@ export function getProducts(
   const { count: total } = countStmt.get(...params) as { count: number };
 
   const stmt = db.prepare(`
-    SELECT id, product_code, product_name, product_slogan, subbrand
+    SELECT id, product_code, language, product_name, product_slogan, subbrand,
+           (
+             SELECT GROUP_CONCAT(language) FROM (
+               SELECT DISTINCT language FROM products v
+               WHERE v.product_code = products.product_code AND v.extraction_status = 'completed'
+               ORDER BY ${languageOrder()}
+             )
+           ) AS languages,
+           (
+             SELECT COUNT(*) FROM products v
+             WHERE v.product_code = products.product_code AND v.language = products.language
+               AND v.extraction_status = 'completed'
+           ) AS variant_count
     FROM products
     ${whereClause}
     ORDER BY product_code ASC
     LIMIT ? OFFSET ?
   `);
 
-  const products = stmt.all(...params, pageSize, offset) as ProductListItem[];
+  const products = (stmt.all(...params, pageSize, offset) as ProductListRow[]).map(row => ({
+    ...row,
+    languages: row.languages.split(',')
+  }));
 
   return {
     products,
@@ -116,16 +168,45 @@ export function getProducts(
   };
 }
 
-export function getProductByCode(code: string): ProductDetail | null {
+export function getProductLanguages(code: string): string[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT DISTINCT language FROM products
+    WHERE product_code = ? AND extraction_status = 'completed'
+    ORDER BY ${languageOrder()}
+  `).all(code) as { language: string }[];
+  return rows.map(r => r.language);
+}
+
+export function getProductVariants(code: string, language: string): ProductVariant[] {
   const db = getDb();
+  return db.prepare(`
+    SELECT variant, variant_name, product_name FROM products
+    WHERE product_code = ? AND language = ? AND extraction_status = 'completed'
+    ORDER BY variant ASC
+  `).all(code, language) as ProductVariant[];
+}
+
+// Without a language the default language version is returned, or the first one available;
+// without a variant the first variant of that language
+export function getProductByCode(code: string, sheet: SheetSelector = {}): ProductDetail | null {
+  const db = getDb();
+
+  const languages = getProductLanguages(code);
+  const language = sheet.language ?? languages[0] ?? DEFAULT_LANGUAGE;
+  const variants = getProductVariants(code, language);
+  const variant = sheet.variant ?? variants[0]?.variant;
+  if (variant === undefined) {
+    return null;
+  }
 
   const productStmt = db.prepare(`
-    SELECT id, product_code, product_name, product_slogan, product_description,
+    SELECT id, product_code, language, variant, variant_name, product_name, product_slogan, product_description,
            product_image_path, subbrand, directions, caution, \`references\`
     FROM products
-    WHERE product_code = ? AND extraction_status = 'completed'
+    WHERE product_code = ? AND language = ? AND variant = ? AND extraction_status = 'completed'
   `);
-  const product = productStmt.get(code) as Product | undefined;
+  const product = productStmt.get(code, language, variant) as Product | undefined;
 
   if (!product) {
     return null;
@@ -142,7 +223,8 @@ export function getProductByCode(code: string): ProductDetail | null {
   if (supplementFacts) {
     const nvStmt = db.prepare(`
       SELECT id, supplement_fact_id, nutrient_name, unit, amount,
-             daily_value_percent_adult, daily_value_percent_children, display_order
+             daily_value_percent_adult, daily_value_percent_children, display_order,
+             extraction_confidence, needs_verification
       FROM nutritional_values
       WHERE supplement_fact_id = ?
       ORDER BY display_order ASC
@@ -170,10 +252,21 @@ export function getProductByCode(code: string): ProductDetail | null {
     supplement_facts: supplementFacts || null,
     nutritional_values: nutritionalValues,
     ingredients,
-    dietary_attributes: dietaryAttributes
+    dietary_attributes: dietaryAttributes,
+    overrides: getOverrides(code, { language: product.language, variant: product.variant }),
+    languages,
+    variants
   };
 }
 
+// Every language version of a product, for side-by-side comparison; each language shows the
+// requested variant when it has one, else its first variant
+export function getProductLanguageVersions(code: string, variant?: string): ProductDetail[] {
+  return getProductLanguages(code)
+    .map(language => getProductByCode(code, { language, variant }) ?? getProductByCode(code, { language }))
+    .filter((product): product is ProductDetail => product !== null);
+}
+
 export function getSubbrands(): string[] {
   const db = getDb();
   const stmt = db.prepare(`
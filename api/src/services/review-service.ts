@@ -0,0 +1,347 @@
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { getDb, getWritableDb } from './db.js';
+import { setOverride } from './override-service.js';
+import { DEFAULT_LANGUAGE, DEFAULT_VARIANT, SheetSelector } from './language.js';
+
+// --- Interfaces ---
+
+export type ReviewStatus = 'pending' | 'in_progress' | 'resolved' | 'dismissed';
+
+export interface ReviewQueueItem {
+  id: number;
+  product_id: number;
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string | null;
+  total_discrepancies: number;
+  high_severity_count: number;
+  medium_severity_count: number;
+  review_status: ReviewStatus;
+  review_priority: number;
+  assigned_to: string | null;
+  review_notes: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface ReviewDiscrepancy {
+  id: number;
+  field_path: string;
+  label: string;
+  override_path: string | null; // Field path accepted by the overrides endpoint; null when not correctable
+  claude_value: string | null;
+  grok_value: string | null;
+  discrepancy_type: string;
+  severity: string;
+  confidence_score: number | null;
+  resolved: boolean;
+  resolution_notes: string | null;
+  validation_message: string | null;
+  extraction_source: string | null;
+}
+
+export interface ReviewItemDetail {
+  item: ReviewQueueItem;
+  discrepancies: ReviewDiscrepancy[];
+  has_pdf: boolean;
+  pdf_page: number | null; // 1-based page of the Supplement Facts panel, when the extractor located it
+}
+
+export interface ResolveDiscrepancyInput {
+  source: 'claude' | 'grok' | 'custom';
+  value?: string | null;
+  reviewer?: string;
+}
+
+export class ReviewError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+interface DiscrepancyRow {
+  id: number;
+  product_id: number;
+  field_path: string;
+  claude_value: string | null;
+  grok_value: string | null;
+  discrepancy_type: string;
+  severity: string;
+  confidence_score: number | null;
+  resolved: number;
+  resolution_notes: string | null;
+  validation_message: string | null;
+  extraction_source: string | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  dailyValuePercentAdult: 'DV% (adult)',
+  dailyValuePercentChildren: 'DV% (children)',
+  servings: 'Serving size',
+  servingsPerContainer: 'Servings per container',
+  calories: 'Calories',
+  protein: 'Protein'
+};
+
+const QUEUE_SELECT = `
+  SELECT q.*, COALESCE(p.language, '${DEFAULT_LANGUAGE}') AS language,
+         COALESCE(p.variant, '${DEFAULT_VARIANT}') AS variant, p.product_name
+  FROM human_review_queue q
+  LEFT JOIN products p ON p.id = q.product_id
+`;
+
+// --- Value display ---
+
+// Discrepancy values are stored JSON-encoded; whole nutrients are shown as "Name: amount (DV%)"
+function formatStoredValue(raw: string | null): string | null {
+  if (raw === null) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') {
+    const nutrient = value as { name?: string; amount?: string | null; dailyValuePercentAdult?: string | null };
+    if (nutrient.name) {
+      const amount = nutrient.amount ? `: ${nutrient.amount}` : '';
+      const dv = nutrient.dailyValuePercentAdult ? ` (${nutrient.dailyValuePercentAdult})` : '';
+      return `${nutrient.name}${amount}${dv}`;
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// --- Field paths ---
+
+// Labels as used by override paths: repeated nutrient names get "#2", "#3", ...
+function nutrientLabelsByIndex(db: Database.Database, productId: number): string[] {
+  const rows = db.prepare(`
+    SELECT nv.nutrient_name FROM nutritional_values nv
+    JOIN supplement_facts sf ON sf.id = nv.supplement_fact_id
+    WHERE sf.product_id = ?
+    ORDER BY nv.display_order
+  `).all(productId) as { nutrient_name: string }[];
+
+  const seen = new Map<string, number>();
+  return rows.map(({ nutrient_name }) => {
+    const count = (seen.get(nutrient_name) ?? 0) + 1;
+    seen.set(nutrient_name, count);
+    return count > 1 ? `${nutrient_name}#${count}` : nutrient_name;
+  });
+}
+
+// The comparison engine records nutrients by list index; map them to named, overridable paths
+function describeFieldPath(
+  fieldPath: string,
+  nutrientLabels: string[]
+): { label: string; overridePath: string | null } {
+  const nutrient = fieldPath.match(/^supplementFacts\.nutrients(?:\[(\d+)\]|\.(\d+))(?:\.(\w+))?$/);
+  if (nutrient) {
+    const name = nutrientLabels[parseInt(nutrient[1] ?? nutrient[2])];
+    const field = nutrient[3];
+    if (!name) {
+      return { label: fieldPath, overridePath: null };
+    }
+    if (!field) {
+      return { label: name, overridePath: null };
+    }
+    return {
+      label: `${name} – ${FIELD_LABELS[field] ?? field}`,
+      overridePath: FIELD_LABELS[field] ? `supplementFacts.nutrients[${name}].${field}` : null
+    };
+  }
+
+  if (/^supplementFacts\.nutrients\[grok-\d+\]$/.test(fieldPath)) {
+    return { label: 'Nutrient found only by verifier', overridePath: null };
+  }
+
+  const factsField = fieldPath.match(/^supplementFacts\.(\w+)$/);
+  if (factsField && FIELD_LABELS[factsField[1]]) {
+    return { label: FIELD_LABELS[factsField[1]], overridePath: fieldPath };
+  }
+
+  return { label: fieldPath, overridePath: null };
+}
+
+function toReviewDiscrepancy(row: DiscrepancyRow, nutrientLabels: string[]): ReviewDiscrepancy {
+  const { label, overridePath } = describeFieldPath(row.field_path, nutrientLabels);
+  return {
+    id: row.id,
+    field_path: row.field_path,
+    label,
+    override_path: overridePath,
+    claude_value: formatStoredValue(row.claude_value),
+    grok_value: formatStoredValue(row.grok_value),
+    discrepancy_type: row.discrepancy_type,
+    severity: row.severity,
+    confidence_score: row.confidence_score,
+    resolved: row.resolved === 1,
+    resolution_notes: row.resolution_notes,
+    validation_message: row.validation_message,
+    extraction_source: row.extraction_source
+  };
+}
+
+// --- Queries ---
+
+export function getReviewQueue(status?: string): ReviewQueueItem[] {
+  const db = getDb();
+  const sql = status
+    ? `${QUEUE_SELECT} WHERE q.review_status = ? ORDER BY q.review_priority DESC, q.created_at ASC`
+    : `${QUEUE_SELECT} ORDER BY q.review_priority DESC, q.created_at ASC`;
+
+  return (status ? db.prepare(sql).all(status) : db.prepare(sql).all()) as ReviewQueueItem[];
+}
+
+// Queue item of one sheet; defaults to the default language and variant
+function findQueueItem(db: Database.Database, code: string, sheet: SheetSelector): ReviewQueueItem | undefined {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  return db.prepare(`${QUEUE_SELECT} WHERE q.product_code = ? AND p.language = ? AND p.variant = ?`)
+    .get(code, language, variant) as ReviewQueueItem | undefined;
+}
+
+export function getReviewItem(code: string, sheet: SheetSelector = {}): ReviewItemDetail | null {
+  const db = getDb();
+  const item = findQueueItem(db, code, sheet);
+  if (!item) {
+    return null;
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM extraction_discrepancies
+    WHERE product_id = ?
+    ORDER BY resolved ASC,
+      CASE severity WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+      id ASC
+  `).all(item.product_id) as DiscrepancyRow[];
+
+  const nutrientLabels = nutrientLabelsByIndex(db, item.product_id);
+  const discrepancies = rows.map(row => toReviewDiscrepancy(row, nutrientLabels));
+
+  const { supplement_facts_page } = db
+    .prepare('SELECT supplement_facts_page FROM products WHERE id = ?')
+    .get(item.product_id) as { supplement_facts_page: number | null };
+
+  return {
+    item,
+    discrepancies,
+    has_pdf: getProductPdfPath(code, sheet) !== null,
+    pdf_page: supplement_facts_page
+  };
+}
+
+// Source PDF for the side-by-side view; null if unknown or no longer on disk
+export function getProductPdfPath(code: string, sheet: SheetSelector = {}): string | null {
+  const { language = DEFAULT_LANGUAGE, variant = DEFAULT_VARIANT } = sheet;
+  const row = getDb()
+    .prepare('SELECT pdf_file_path FROM products WHERE product_code = ? AND language = ? AND variant = ?')
+    .get(code, language, variant) as
+    | { pdf_file_path: string | null }
+    | undefined;
+  return row?.pdf_file_path && existsSync(row.pdf_file_path) ? row.pdf_file_path : null;
+}
+
+// --- Reviewer actions ---
+
+function requireQueueItem(db: Database.Database, code: string, sheet: SheetSelector): ReviewQueueItem {
+  const item = findQueueItem(db, code, sheet);
+  if (!item) {
+    throw new ReviewError('Review item not found', 404);
+  }
+  return item;
+}
+
+// Accept Claude's or Grok's value, or a typed correction, and record it as a field override
+export function resolveDiscrepancy(id: number, input: ResolveDiscrepancyInput): ReviewDiscrepancy {
+  const db = getWritableDb();
+  const row = db.prepare('SELECT * FROM extraction_discrepancies WHERE id = ?').get(id) as DiscrepancyRow | undefined;
+  if (!row) {
+    throw new ReviewError('Discrepancy not found', 404);
+  }
+
+  const product = db.prepare('SELECT product_code, language, variant FROM products WHERE id = ?').get(row.product_id) as {
+    product_code: string;
+    language: string;
+    variant: string;
+  };
+  const nutrientLabels = nutrientLabelsByIndex(db, row.product_id);
+  const { overridePath } = describeFieldPath(row.field_path, nutrientLabels);
+
+  const value =
+    input.source === 'claude' ? formatStoredValue(row.claude_value)
+    : input.source === 'grok' ? formatStoredValue(row.grok_value)
+    : input.value ?? null;
+
+  // Accepting Claude's value keeps the stored data as-is; anything else needs a correctable field
+  const needsOverride = input.source !== 'claude';
+  if (needsOverride && !overridePath) {
+    throw new ReviewError(`Field ${row.field_path} cannot be corrected from the review page`, 400);
+  }
+  if (needsOverride) {
+    setOverride(
+      product.product_code,
+      overridePath!,
+      value,
+      `Review: accepted ${input.source} value`,
+      input.reviewer,
+      { language: product.language, variant: product.variant }
+    );
+  }
+
+  const notes = `Accepted ${input.source} value${value !== null ? `: ${value}` : ''}`;
+  db.transaction(() => {
+    db.prepare('UPDATE extraction_discrepancies SET resolved = 1, resolution_notes = ? WHERE id = ?').run(notes, id);
+    db.prepare(`
+      UPDATE human_review_queue SET review_status = 'in_progress'
+      WHERE product_id = ? AND review_status = 'pending'
+    `).run(row.product_id);
+  })();
+
+  return toReviewDiscrepancy({ ...row, resolved: 1, resolution_notes: notes }, nutrientLabels);
+}
+
+export function assignReviewItem(code: string, assignee: string | null, sheet: SheetSelector = {}): void {
+  const db = getWritableDb();
+  const item = requireQueueItem(db, code, sheet);
+  db.prepare(`
+    UPDATE human_review_queue
+    SET assigned_to = ?,
+        review_status = CASE WHEN review_status = 'pending' THEN 'in_progress' ELSE review_status END
+    WHERE id = ?
+  `).run(assignee || null, item.id);
+}
+
+// Close a review item as resolved or dismissed
+export function closeReviewItem(
+  code: string,
+  status: 'resolved' | 'dismissed',
+  notes?: string,
+  sheet: SheetSelector = {}
+): void {
+  const db = getWritableDb();
+  const item = requireQueueItem(db, code, sheet);
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE human_review_queue
+      SET review_status = ?, review_notes = COALESCE(?, review_notes), reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(status, notes || null, item.id);
+
+    if (status === 'resolved') {
+      db.prepare(`
+        UPDATE extraction_discrepancies
+        SET resolved = 1, resolution_notes = COALESCE(resolution_notes, 'Kept extracted value')
+        WHERE product_id = ? AND resolved = 0
+      `).run(item.product_id);
+    }
+  })();
+}
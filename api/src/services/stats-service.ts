@@ -1,4 +1,5 @@
 import { getDb } from './db.js';
+import { languageOrder } from './language.js';
 
 // --- Normalization ---
 
@@ -226,6 +227,8 @@ export function getComparison(codes: string[]): ComparisonResult {
       SELECT id, product_code, product_name
       FROM products
       WHERE product_code = ? AND extraction_status = 'completed'
+      ORDER BY ${languageOrder()}, variant ASC
+      LIMIT 1
     `).get(code) as { id: number; product_code: string; product_name: string } | undefined;
 
     if (!product) continue;
@@ -280,3 +283,271 @@ export function getComparison(codes: string[]): ComparisonResult {
 
   return { products, allNormalizedIngredients, sharedCount, uniqueCount };
 }
+
+// --- Verification Similarity ---
+
+export interface VerificationRunSummary {
+  id: number;
+  command: string;
+  similarity_threshold: number;
+  products_compared: number;
+  average_similarity: number | null;
+  min_similarity: number | null;
+  below_threshold_count: number;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface LowSimilarityProduct {
+  product_code: string;
+  product_name: string;
+  similarity_score: number;
+  discrepancy_count: number;
+  field_total: number;
+  field_matching: number;
+  created_at: string;
+}
+
+export interface SimilarityBucket {
+  bucket: string; // e.g. "80-89"
+  count: number;
+}
+
+export interface VerificationStats {
+  threshold: number;
+  productsVerified: number;
+  averageSimilarity: number | null;
+  minimumSimilarity: number | null;
+  distribution: SimilarityBucket[];
+  runs: VerificationRunSummary[];
+  belowThreshold: LowSimilarityProduct[];
+}
+
+// Latest comparison per product that still has verification data
+const LATEST_VERIFICATION_RESULTS = `
+  SELECT MAX(id) FROM verification_results
+  WHERE product_id IN (SELECT product_id FROM verification_extractions)
+  GROUP BY product_id
+`;
+
+export function getVerificationStats(threshold: number, runLimit: number = 20): VerificationStats {
+  const db = getDb();
+
+  // Databases created before similarity scores were recorded
+  const hasResults = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'verification_results'"
+  ).get();
+  if (!hasResults) {
+    return {
+      threshold,
+      productsVerified: 0,
+      averageSimilarity: null,
+      minimumSimilarity: null,
+      distribution: [],
+      runs: [],
+      belowThreshold: [],
+    };
+  }
+
+  const scores = db.prepare(`
+    SELECT similarity_score FROM verification_results WHERE id IN (${LATEST_VERIFICATION_RESULTS})
+  `).all() as { similarity_score: number }[];
+
+  const buckets = Array.from({ length: 10 }, (_, i) => ({
+    bucket: `${i * 10}-${i === 9 ? 100 : i * 10 + 9}`,
+    count: 0,
+  }));
+  for (const { similarity_score } of scores) {
+    buckets[Math.min(Math.floor(similarity_score / 10), 9)].count++;
+  }
+
+  const runs = db.prepare(`
+    SELECT * FROM verification_runs
+    WHERE completed_at IS NOT NULL AND products_compared > 0
+    ORDER BY id DESC
+    LIMIT ?
+  `).all(runLimit) as VerificationRunSummary[];
+
+  const belowThreshold = db.prepare(`
+    SELECT p.product_code, p.product_name, r.similarity_score, r.discrepancy_count,
+           r.field_total, r.field_matching, r.created_at
+    FROM verification_results r
+    JOIN products p ON p.id = r.product_id
+    WHERE r.id IN (${LATEST_VERIFICATION_RESULTS}) AND r.similarity_score < ?
+    ORDER BY r.similarity_score ASC, p.product_code ASC
+  `).all(threshold) as LowSimilarityProduct[];
+
+  const total = scores.reduce((sum, s) => sum + s.similarity_score, 0);
+
+  return {
+    threshold,
+    productsVerified: scores.length,
+    averageSimilarity: scores.length > 0 ? Math.round((total / scores.length) * 10) / 10 : null,
+    minimumSimilarity: scores.length > 0 ? Math.min(...scores.map(s => s.similarity_score)) : null,
+    distribution: buckets,
+    runs: runs.reverse(), // Oldest first for trend charts
+    belowThreshold,
+  };
+}
+
+// --- API Costs ---
+
+export interface CostBreakdown {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number; // Priced calls only
+  unpriced_calls: number; // Calls to models missing from the price table
+  successful_extractions: number;
+  cost_per_extraction: number | null; // cost_usd over successful_extractions
+}
+
+export interface RunCost extends CostBreakdown {
+  run_id: number;
+  command: string;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface SubbrandCost extends CostBreakdown {
+  subbrand: string | null;
+  products: number;
+}
+
+export interface ProductCost extends CostBreakdown {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string | null;
+  subbrand: string | null;
+}
+
+export interface ModelCost {
+  provider: string;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null; // null when the model is not priced
+}
+
+export interface CostStats {
+  totals: CostBreakdown;
+  runs: RunCost[];
+  models: ModelCost[];
+  subbrands: SubbrandCost[];
+  products: ProductCost[];
+}
+
+// processing_log rows with the totals of their API calls (mirrors src/database/repository.ts)
+const LOG_COSTS = `
+  WITH call_totals AS (
+    SELECT processing_log_id, COUNT(*) as calls,
+           SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+           TOTAL(cost_usd) as cost_usd, SUM(cost_usd IS NULL) as unpriced_calls
+    FROM api_calls
+    GROUP BY processing_log_id
+  ),
+  log_costs AS (
+    SELECT l.*, COALESCE(c.calls, 0) as calls,
+           COALESCE(c.input_tokens, 0) as input_tokens, COALESCE(c.output_tokens, 0) as output_tokens,
+           COALESCE(c.cost_usd, 0) as cost_usd, COALESCE(c.unpriced_calls, 0) as unpriced_calls,
+           (l.action = 'extract' AND l.status = 'success') as succeeded
+    FROM processing_log l
+    LEFT JOIN call_totals c ON c.processing_log_id = l.id
+  )
+`;
+
+const COST_COLUMNS = `
+  COALESCE(SUM(lc.calls), 0) as calls,
+  COALESCE(SUM(lc.input_tokens), 0) as input_tokens, COALESCE(SUM(lc.output_tokens), 0) as output_tokens,
+  TOTAL(lc.cost_usd) as cost_usd, COALESCE(SUM(lc.unpriced_calls), 0) as unpriced_calls,
+  COALESCE(SUM(lc.succeeded), 0) as successful_extractions
+`;
+
+function withCostPerExtraction<T extends Omit<CostBreakdown, 'cost_per_extraction'>>(row: T): T & CostBreakdown {
+  return {
+    ...row,
+    cost_per_extraction: row.successful_extractions > 0 ? row.cost_usd / row.successful_extractions : null,
+  };
+}
+
+export function getCostStats(runLimit: number = 10, productLimit: number = 20): CostStats {
+  const db = getDb();
+
+  // Databases created before API calls were recorded
+  const hasCalls = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'api_calls'"
+  ).get();
+  if (!hasCalls) {
+    return {
+      totals: {
+        calls: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cost_usd: 0,
+        unpriced_calls: 0,
+        successful_extractions: 0,
+        cost_per_extraction: null,
+      },
+      runs: [],
+      models: [],
+      subbrands: [],
+      products: [],
+    };
+  }
+
+  const totals = db.prepare(`
+    ${LOG_COSTS}
+    SELECT ${COST_COLUMNS} FROM log_costs lc
+  `).get() as Omit<CostBreakdown, 'cost_per_extraction'>;
+
+  const runs = db.prepare(`
+    ${LOG_COSTS}
+    SELECT r.id as run_id, r.command, r.started_at, r.completed_at, ${COST_COLUMNS}
+    FROM processing_runs r
+    LEFT JOIN log_costs lc ON lc.run_id = r.id
+    GROUP BY r.id
+    ORDER BY r.id DESC
+    LIMIT ?
+  `).all(runLimit) as Omit<RunCost, 'cost_per_extraction'>[];
+
+  const models = db.prepare(`
+    SELECT provider, model, COUNT(*) as calls,
+           SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+           CASE WHEN COUNT(cost_usd) > 0 THEN TOTAL(cost_usd) END as cost_usd
+    FROM api_calls
+    GROUP BY provider, model
+    ORDER BY TOTAL(cost_usd) DESC, calls DESC
+  `).all() as ModelCost[];
+
+  const subbrands = db.prepare(`
+    ${LOG_COSTS}
+    SELECT p.subbrand, COUNT(DISTINCT p.id) as products, ${COST_COLUMNS}
+    FROM log_costs lc
+    JOIN products p ON p.product_code = lc.product_code AND p.language = lc.language AND p.variant = lc.variant
+    GROUP BY p.subbrand
+    HAVING SUM(lc.calls) > 0
+    ORDER BY cost_usd DESC, p.subbrand ASC
+  `).all() as Omit<SubbrandCost, 'cost_per_extraction'>[];
+
+  const products = db.prepare(`
+    ${LOG_COSTS}
+    SELECT lc.product_code, lc.language, lc.variant, p.product_name, p.subbrand, ${COST_COLUMNS}
+    FROM log_costs lc
+    LEFT JOIN products p ON p.product_code = lc.product_code AND p.language = lc.language AND p.variant = lc.variant
+    WHERE lc.language IS NOT NULL
+    GROUP BY lc.product_code, lc.language, lc.variant
+    HAVING SUM(lc.calls) > 0
+    ORDER BY cost_usd DESC, SUM(lc.input_tokens + lc.output_tokens) DESC
+    LIMIT ?
+  `).all(productLimit) as Omit<ProductCost, 'cost_per_extraction'>[];
+
+  return {
+    totals: withCostPerExtraction(totals),
+    runs: runs.map(withCostPerExtraction),
+    models,
+    subbrands: subbrands.map(withCostPerExtraction),
+    products: products.map(withCostPerExtraction),
+  };
+}
@@ -4,6 +4,7 @@ import ProductList from './components/ProductList'
 import ProductDetail from './components/ProductDetail'
 import StatsPage from './components/StatsPage'
 import ComparePage from './components/ComparePage'
+import ReviewPage from './components/ReviewPage'
 
 function App() {
   return (
@@ -15,6 +16,8 @@ function App() {
           <Route path="/product/:code" element={<ProductDetail />} />
           <Route path="/stats" element={<StatsPage />} />
           <Route path="/compare" element={<ComparePage />} />
+          <Route path="/review" element={<ReviewPage />} />
+          <Route path="/review/:code" element={<ReviewPage />} />
         </Routes>
       </main>
     </div>
@@ -44,6 +44,7 @@ function Header() {
     { to: '/', label: 'Products' },
     { to: '/stats', label: 'Statistics' },
     { to: '/compare', label: 'Compare' },
+    { to: '/review', label: 'Review' },
   ];
 
   return (
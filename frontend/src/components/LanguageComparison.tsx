@@ -0,0 +1,69 @@
+import { useProductLanguages } from '../hooks/useProducts';
+import SupplementFacts from './SupplementFacts';
+
+interface LanguageComparisonProps {
+  code: string;
+  variant?: string;
+}
+
+// All language versions of a product in columns, default language first
+function LanguageComparison({ code, variant }: LanguageComparisonProps) {
+  const { data: versions, isLoading, error } = useProductLanguages(code, variant);
+
+  if (isLoading) {
+    return <div className="loading">Loading language versions...</div>;
+  }
+
+  if (error || !versions) {
+    return <div className="error">Error: {error?.message ?? 'Product not found'}</div>;
+  }
+
+  return (
+    <div className="language-columns">
+      {versions.map(version => (
+        <div key={version.language} className="language-column" lang={version.language}>
+          <div className="language-column-header">
+            <span className="language-badge">{version.language}</span>
+            <h2>{version.product_name}</h2>
+            {version.product_slogan && <p className="product-slogan">{version.product_slogan}</p>}
+          </div>
+
+          {version.product_description && (
+            <section className="product-section">
+              <p>{version.product_description}</p>
+            </section>
+          )}
+
+          {version.supplement_facts && (
+            <SupplementFacts
+              supplementFacts={version.supplement_facts}
+              nutritionalValues={version.nutritional_values}
+            />
+          )}
+
+          {version.ingredients.length > 0 && (
+            <section className="product-section">
+              <p className="ingredients-list">
+                {version.ingredients.map(ing => ing.ingredient_name + (ing.is_organic ? '*' : '')).join(', ')}
+              </p>
+            </section>
+          )}
+
+          {version.directions && (
+            <section className="product-section">
+              <p>{version.directions}</p>
+            </section>
+          )}
+
+          {version.caution && (
+            <section className="product-section caution-section">
+              <p>{version.caution}</p>
+            </section>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default LanguageComparison;
@@ -1,5 +1,5 @@
 import { Link } from 'react-router-dom';
-import type { ProductListItem } from '../services/api';
+import { sheetQuery, type ProductListItem } from '../services/api';
 
 interface ProductCardProps {
   product: ProductListItem;
@@ -7,14 +7,24 @@ interface ProductCardProps {
 
 function ProductCard({ product }: ProductCardProps) {
   return (
-    <Link to={`/product/${product.product_code}`} className="product-card">
+    <Link to={`/product/${product.product_code}${sheetQuery({ language: product.language })}`} className="product-card">
       <div className="product-card-header">
         <span className="product-code">{product.product_code}</span>
         {product.subbrand && (
           <span className="product-subbrand">{product.subbrand}</span>
         )}
       </div>
+      {product.languages.length > 1 && (
+        <div className="product-card-languages">
+          {product.languages.map(lang => (
+            <span key={lang} className="language-badge">{lang}</span>
+          ))}
+        </div>
+      )}
       <h3 className="product-card-name">{product.product_name}</h3>
+      {product.variant_count > 1 && (
+        <span className="product-card-variants">{product.variant_count} variants</span>
+      )}
       {product.product_slogan && (
         <p className="product-card-slogan">{product.product_slogan}</p>
       )}
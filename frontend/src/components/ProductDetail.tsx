@@ -1,11 +1,17 @@
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useProduct } from '../hooks/useProducts';
+import { DEFAULT_LANGUAGE } from '../services/api';
 import SupplementFacts from './SupplementFacts';
+import LanguageComparison from './LanguageComparison';
 
 function ProductDetail() {
   const { code } = useParams<{ code: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const language = searchParams.get('lang') || undefined;
+  const variant = searchParams.get('variant') ?? undefined;
+  const sideBySide = searchParams.get('view') === 'languages';
   const navigate = useNavigate();
-  const { data: product, isLoading, error } = useProduct(code || '');
+  const { data: product, isLoading, error } = useProduct(code || '', { language, variant });
 
   const handleBack = () => {
     navigate(-1);
@@ -48,79 +54,124 @@ function ProductDetail() {
         {product.product_slogan && (
           <p className="product-slogan">{product.product_slogan}</p>
         )}
+        {product.variants.length > 1 && (
+          <div className="variant-switcher">
+            {product.variants.map(v => (
+              <button
+                key={v.variant}
+                className={`language-option${v.variant === product.variant ? ' language-option-active' : ''}`}
+                onClick={() => setSearchParams({
+                  ...(product.language !== DEFAULT_LANGUAGE ? { lang: product.language } : {}),
+                  variant: v.variant,
+                  ...(sideBySide ? { view: 'languages' } : {})
+                })}
+              >
+                {v.variant_name || v.product_name}
+              </button>
+            ))}
+          </div>
+        )}
+        {product.languages.length > 1 && (
+          <div className="language-switcher">
+            {product.languages.map(lang => (
+              <button
+                key={lang}
+                className={`language-option${!sideBySide && lang === product.language ? ' language-option-active' : ''}`}
+                onClick={() => setSearchParams({ lang })}
+              >
+                {lang.toUpperCase()}
+              </button>
+            ))}
+            <button
+              className={`language-option${sideBySide ? ' language-option-active' : ''}`}
+              onClick={() => setSearchParams({
+                ...(product.variant ? { variant: product.variant } : {}),
+                view: 'languages'
+              })}
+            >
+              Side by side
+            </button>
+          </div>
+        )}
       </div>
 
-      {product.dietary_attributes.length > 0 && (
-        <div className="dietary-attributes">
-          {product.dietary_attributes.map((attr) => (
-            <span key={attr.id} className="dietary-badge">
-              {attr.attribute_name}
-            </span>
-          ))}
-        </div>
-      )}
-
-      <div className="product-content">
-        <div className="product-main">
-          {product.product_description && (
-            <section className="product-section">
-              <h2>Description</h2>
-              <p>{product.product_description}</p>
-            </section>
+      {sideBySide ? (
+        <LanguageComparison code={product.product_code} variant={product.variant || undefined} />
+      ) : (
+        <>
+          {product.dietary_attributes.length > 0 && (
+            <div className="dietary-attributes">
+              {product.dietary_attributes.map((attr) => (
+                <span key={attr.id} className="dietary-badge">
+                  {attr.attribute_name}
+                </span>
+              ))}
+            </div>
           )}
 
-          {product.supplement_facts && (
-            <SupplementFacts
-              supplementFacts={product.supplement_facts}
-              nutritionalValues={product.nutritional_values}
-            />
-          )}
+          <div className="product-content">
+            <div className="product-main">
+              {product.product_description && (
+                <section className="product-section">
+                  <h2>Description</h2>
+                  <p>{product.product_description}</p>
+                </section>
+              )}
 
-          {product.ingredients.length > 0 && (
-            <section className="product-section">
-              <h2>Ingredients</h2>
-              <p className="ingredients-list">
-                {product.ingredients.map((ing, index) => (
-                  <span key={ing.id}>
-                    {ing.is_organic ? (
-                      <span className="organic-ingredient">
-                        {ing.ingredient_name}*
+              {product.supplement_facts && (
+                <SupplementFacts
+                  supplementFacts={product.supplement_facts}
+                  nutritionalValues={product.nutritional_values}
+                />
+              )}
+
+              {product.ingredients.length > 0 && (
+                <section className="product-section">
+                  <h2>Ingredients</h2>
+                  <p className="ingredients-list">
+                    {product.ingredients.map((ing, index) => (
+                      <span key={ing.id}>
+                        {ing.is_organic ? (
+                          <span className="organic-ingredient">
+                            {ing.ingredient_name}*
+                          </span>
+                        ) : (
+                          ing.ingredient_name
+                        )}
+                        {index < product.ingredients.length - 1 ? ', ' : ''}
                       </span>
-                    ) : (
-                      ing.ingredient_name
-                    )}
-                    {index < product.ingredients.length - 1 ? ', ' : ''}
-                  </span>
-                ))}
-              </p>
-              {product.ingredients.some(i => i.is_organic) && (
-                <p className="organic-note">* Organic ingredient</p>
+                    ))}
+                  </p>
+                  {product.ingredients.some(i => i.is_organic) && (
+                    <p className="organic-note">* Organic ingredient</p>
+                  )}
+                </section>
               )}
-            </section>
-          )}
 
-          {product.directions && (
-            <section className="product-section">
-              <h2>Directions</h2>
-              <p>{product.directions}</p>
-            </section>
-          )}
+              {product.directions && (
+                <section className="product-section">
+                  <h2>Directions</h2>
+                  <p>{product.directions}</p>
+                </section>
+              )}
 
-          {product.caution && (
-            <section className="product-section caution-section">
-              <h2>Caution</h2>
-              <p>{product.caution}</p>
-            </section>
-          )}
+              {product.caution && (
+                <section className="product-section caution-section">
+                  <h2>Caution</h2>
+                  <p>{product.caution}</p>
+                </section>
+              )}
 
-          {product.references && (
-            <section className="product-section">
-              <h2>References</h2>
-              <p className="references-text">{product.references}</p>
-            </section>
-          )}
-        </div>
-      </div>
+              {product.references && (
+                <section className="product-section">
+                  <h2>References</h2>
+                  <p className="references-text">{product.references}</p>
+                </section>
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
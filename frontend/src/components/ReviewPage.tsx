@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import {
+  useReviewQueue,
+  useReviewItem,
+  useResolveDiscrepancy,
+  useAssignReviewItem,
+  useCloseReviewItem,
+} from '../hooks/useReview';
+import { DEFAULT_LANGUAGE, DEFAULT_VARIANT, sheetQuery, reviewPdfUrl, type ReviewDiscrepancy, type ReviewStatus, type SheetSelector } from '../services/api';
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+function DiscrepancyRow({ code, discrepancy }: { code: string; discrepancy: ReviewDiscrepancy }) {
+  const [correction, setCorrection] = useState('');
+  const resolve = useResolveDiscrepancy(code);
+  const correctable = discrepancy.override_path !== null;
+
+  return (
+    <tr className={discrepancy.resolved ? 'review-row-resolved' : undefined}>
+      <td>
+        <div className="review-field-label">{discrepancy.label}</div>
+        {discrepancy.validation_message && (
+          <div className="review-field-note">{discrepancy.validation_message}</div>
+        )}
+        {discrepancy.resolution_notes && (
+          <div className="review-field-note">{discrepancy.resolution_notes}</div>
+        )}
+      </td>
+      <td className="review-value">{discrepancy.claude_value ?? '—'}</td>
+      <td className="review-value">{discrepancy.grok_value ?? '—'}</td>
+      <td>
+        <span className={`severity-badge severity-${discrepancy.severity}`}>{discrepancy.severity}</span>
+      </td>
+      <td className="review-actions">
+        {!discrepancy.resolved && (
+          <>
+            <div className="review-action-buttons">
+              <button
+                className="review-button"
+                disabled={resolve.isPending}
+                onClick={() => resolve.mutate({ id: discrepancy.id, source: 'claude' })}
+              >
+                Accept Claude
+              </button>
+              <button
+                className="review-button"
+                disabled={resolve.isPending || !correctable}
+                onClick={() => resolve.mutate({ id: discrepancy.id, source: 'grok' })}
+              >
+                Accept Grok
+              </button>
+            </div>
+            {correctable && (
+              <form
+                className="review-correction"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  resolve.mutate({ id: discrepancy.id, source: 'custom', value: correction.trim() || null });
+                }}
+              >
+                <input
+                  type="text"
+                  value={correction}
+                  onChange={(e) => setCorrection(e.target.value)}
+                  placeholder="Correction"
+                  className="review-input"
+                />
+                <button type="submit" className="review-button" disabled={resolve.isPending}>
+                  Save
+                </button>
+              </form>
+            )}
+            {resolve.error && <div className="review-error">{resolve.error.message}</div>}
+          </>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function ReviewItemPanel({ code, sheet }: { code: string; sheet: SheetSelector }) {
+  const { data, isLoading, error } = useReviewItem(code, sheet);
+  const assign = useAssignReviewItem(code, sheet);
+  const close = useCloseReviewItem(code, sheet);
+  const [assignee, setAssignee] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    setAssignee(data?.item.assigned_to ?? '');
+    setNotes('');
+  }, [data?.item.product_code, data?.item.assigned_to]);
+
+  if (isLoading) {
+    return <div className="loading">Loading review item...</div>;
+  }
+
+  if (error || !data) {
+    return <div className="error">Error: {error?.message ?? 'Review item not found'}</div>;
+  }
+
+  const { item, discrepancies, has_pdf, pdf_page } = data;
+  const isOpen = item.review_status === 'pending' || item.review_status === 'in_progress';
+  const openCount = discrepancies.filter(d => !d.resolved).length;
+
+  return (
+    <div className="review-item">
+      <div className="review-item-header">
+        <div>
+          <Link to={`/product/${item.product_code}${sheetQuery(item)}`} className="product-code-large">
+            {item.product_code}
+          </Link>
+          <span className="language-badge">{item.language}</span>
+          {item.variant && <span className="variant-badge">{item.variant}</span>}
+          <h2 className="review-item-title">{item.product_name}</h2>
+          <div className="review-item-meta">
+            <span className={`review-status review-status-${item.review_status}`}>
+              {STATUS_LABELS[item.review_status]}
+            </span>
+            <span>Priority {item.review_priority}</span>
+            <span>{openCount} of {discrepancies.length} discrepancies open</span>
+          </div>
+        </div>
+
+        <form
+          className="review-assign"
+          onSubmit={(e) => {
+            e.preventDefault();
+            assign.mutate(assignee.trim() || null);
+          }}
+        >
+          <input
+            type="text"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Assign to..."
+            className="review-input"
+          />
+          <button type="submit" className="review-button" disabled={assign.isPending}>
+            Assign
+          </button>
+        </form>
+      </div>
+
+      <div className="review-workspace">
+        <div className="review-discrepancies">
+          <table className="freq-table review-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Claude</th>
+                <th>Grok</th>
+                <th>Severity</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {discrepancies.map(d => (
+                <DiscrepancyRow key={d.id} code={item.product_code} discrepancy={d} />
+              ))}
+            </tbody>
+          </table>
+
+          {isOpen && (
+            <div className="review-close">
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Review notes (optional)"
+                className="review-input"
+              />
+              <button
+                className="review-button review-button-primary"
+                disabled={close.isPending}
+                onClick={() => close.mutate({ action: 'resolve', notes: notes.trim() || undefined })}
+              >
+                Mark resolved
+              </button>
+              <button
+                className="review-button"
+                disabled={close.isPending}
+                onClick={() => close.mutate({ action: 'dismiss', notes: notes.trim() || undefined })}
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+          {(assign.error || close.error) && (
+            <div className="review-error">{(assign.error || close.error)!.message}</div>
+          )}
+          {item.review_notes && <p className="review-field-note">Notes: {item.review_notes}</p>}
+        </div>
+
+        <div className="review-pdf">
+          {has_pdf ? (
+            <iframe src={`${reviewPdfUrl(item.product_code, item)}#page=${pdf_page ?? 1}`} title={`${item.product_code} PDF`} />
+          ) : (
+            <div className="ai-placeholder">Source PDF not available</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ReviewPage() {
+  const { code } = useParams<{ code: string }>();
+  const [searchParams] = useSearchParams();
+  const language = searchParams.get('lang') || undefined;
+  const variant = searchParams.get('variant') ?? undefined;
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<ReviewStatus | ''>('pending');
+  const { data: queue, isLoading, error } = useReviewQueue(status || undefined);
+
+  return (
+    <div className="review-page">
+      <h1 className="page-title">Review Queue</h1>
+
+      <div className="review-layout">
+        <aside className="review-queue">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReviewStatus | '')}
+            className="subbrand-filter"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map(s => (
+              <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+            ))}
+          </select>
+
+          {isLoading && <div className="loading">Loading queue...</div>}
+          {error && <div className="error">Error: {error.message}</div>}
+          {queue && queue.length === 0 && <p className="review-empty">No items in this queue.</p>}
+
+          <ul className="review-queue-list">
+            {queue?.map(item => (
+              <li key={item.id}>
+                <button
+                  className={`review-queue-item${
+                    item.product_code === code && item.language === (language ?? DEFAULT_LANGUAGE) &&
+                    item.variant === (variant ?? DEFAULT_VARIANT) ? ' review-queue-item-active' : ''
+                  }`}
+                  onClick={() => navigate(`/review/${item.product_code}${sheetQuery(item)}`)}
+                >
+                  <span className="review-queue-code">
+                    {item.product_code}
+                    {item.language !== DEFAULT_LANGUAGE && <span className="language-badge">{item.language}</span>}
+                    {item.variant && <span className="variant-badge">{item.variant}</span>}
+                  </span>
+                  <span className="review-queue-name">{item.product_name}</span>
+                  <span className="review-queue-meta">
+                    {item.high_severity_count} high · {item.medium_severity_count} medium
+                    {item.assigned_to && ` · ${item.assigned_to}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <section className="review-detail">
+          {code ? (
+            <ReviewItemPanel code={code} sheet={{ language, variant }} />
+          ) : (
+            <div className="ai-placeholder">Select an item from the queue to review it.</div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default ReviewPage;
@@ -7,6 +7,7 @@ interface SupplementFactsProps {
 
 function SupplementFacts({ supplementFacts, nutritionalValues }: SupplementFactsProps) {
   const hasChildrenDV = nutritionalValues.some(nv => nv.daily_value_percent_children);
+  const lowConfidenceCount = nutritionalValues.filter(nv => nv.needs_verification).length;
 
   return (
     <div className="supplement-facts">
@@ -52,7 +53,11 @@ function SupplementFacts({ supplementFacts, nutritionalValues }: SupplementFacts
             </tr>
           )}
           {nutritionalValues.map((nv, index) => (
-            <tr key={nv.id} className={index % 2 === 0 ? 'even-row' : 'odd-row'}>
+            <tr
+              key={nv.id}
+              className={`${index % 2 === 0 ? 'even-row' : 'odd-row'}${nv.needs_verification ? ' low-confidence-row' : ''}`}
+              title={nv.needs_verification ? `Low extraction confidence (${Math.round(nv.extraction_confidence * 100)}%) - verify against the PDF` : undefined}
+            >
               <td className="nutrient-name">{nv.nutrient_name}</td>
               <td className="amount">
                 {nv.amount && nv.unit ? `${nv.amount} ${nv.unit}` : nv.amount || nv.unit || '-'}
@@ -68,6 +73,11 @@ function SupplementFacts({ supplementFacts, nutritionalValues }: SupplementFacts
 
       <div className="dv-footnote">
         * Percent Daily Values are based on a 2,000 calorie diet.
+        {lowConfidenceCount > 0 && (
+          <div className="low-confidence-note">
+            {lowConfidenceCount} highlighted {lowConfidenceCount === 1 ? 'value needs' : 'values need'} verification
+          </div>
+        )}
       </div>
     </div>
   );
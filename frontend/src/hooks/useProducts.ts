@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import { fetchProducts, fetchProduct, fetchSubbrands } from '../services/api';
+import { fetchProducts, fetchProduct, fetchProductLanguages, fetchSubbrands, type SheetSelector } from '../services/api';
 
 export function useProducts(
   page: number = 1,
@@ -13,14 +13,22 @@ export function useProducts(
   });
 }
 
-export function useProduct(code: string) {
+export function useProduct(code: string, sheet: SheetSelector = {}) {
   return useQuery({
-    queryKey: ['product', code],
-    queryFn: () => fetchProduct(code),
+    queryKey: ['product', code, sheet.language, sheet.variant],
+    queryFn: () => fetchProduct(code, sheet),
     enabled: !!code
   });
 }
 
+export function useProductLanguages(code: string, variant?: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['product', code, 'languages', variant],
+    queryFn: () => fetchProductLanguages(code, variant),
+    enabled: !!code && enabled
+  });
+}
+
 export function useSubbrands() {
   return useQuery({
     queryKey: ['subbrands'],
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchReviewQueue,
+  fetchReviewItem,
+  resolveDiscrepancy,
+  assignReviewItem,
+  closeReviewItem,
+  type ResolutionSource,
+  type SheetSelector,
+  type ReviewStatus,
+} from '../services/api';
+
+export function useReviewQueue(status?: ReviewStatus) {
+  return useQuery({
+    queryKey: ['review', 'queue', status],
+    queryFn: () => fetchReviewQueue(status),
+  });
+}
+
+export function useReviewItem(code: string | undefined, sheet: SheetSelector = {}) {
+  return useQuery({
+    queryKey: ['review', 'item', code, sheet.language, sheet.variant],
+    queryFn: () => fetchReviewItem(code!, sheet),
+    enabled: !!code,
+  });
+}
+
+// Reviewer actions refresh the queue, the open item and the product's cached detail
+function useReviewMutation<TVariables>(code: string | undefined, mutationFn: (variables: TVariables) => Promise<unknown>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['review'] });
+      queryClient.invalidateQueries({ queryKey: ['product', code] });
+    },
+  });
+}
+
+export function useResolveDiscrepancy(code: string | undefined) {
+  return useReviewMutation(code, ({ id, source, value }: { id: number; source: ResolutionSource; value?: string | null }) =>
+    resolveDiscrepancy(id, source, value)
+  );
+}
+
+export function useAssignReviewItem(code: string | undefined, sheet?: SheetSelector) {
+  return useReviewMutation(code, (assignee: string | null) => assignReviewItem(code!, assignee, sheet));
+}
+
+export function useCloseReviewItem(code: string | undefined, sheet?: SheetSelector) {
+  return useReviewMutation(code, ({ action, notes }: { action: 'resolve' | 'dismiss'; notes?: string }) =>
+    closeReviewItem(code!, action, notes, sheet)
+  );
+}
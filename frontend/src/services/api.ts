@@ -1,8 +1,29 @@
 const API_BASE = '/api';
 
+export const DEFAULT_LANGUAGE = 'en';
+export const DEFAULT_VARIANT = '';
+
+// One sheet of a product code: its language and, for codes with several sheets (e.g. flavors), variant
+export interface SheetSelector {
+  language?: string;
+  variant?: string;
+}
+
+// "?lang=fr&variant=strawberry", omitting defaults so single-sheet URLs stay unchanged
+export function sheetQuery({ language, variant }: SheetSelector = {}): string {
+  const params = new URLSearchParams();
+  if (language && language !== DEFAULT_LANGUAGE) params.set('lang', language);
+  if (variant) params.set('variant', variant);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 export interface ProductListItem {
   id: number;
   product_code: string;
+  language: string;
+  languages: string[];
+  variant_count: number;
   product_name: string;
   product_slogan: string | null;
   subbrand: string | null;
@@ -34,6 +55,8 @@ export interface NutritionalValue {
   daily_value_percent_adult: string | null;
   daily_value_percent_children: string | null;
   display_order: number;
+  extraction_confidence: number;
+  needs_verification: number;
 }
 
 export interface Ingredient {
@@ -50,9 +73,32 @@ export interface DietaryAttribute {
   attribute_name: string;
 }
 
+export interface FieldOverride {
+  id: number;
+  product_code: string;
+  language: string;
+  variant: string;
+  field_path: string;
+  override_value: string | null;
+  extracted_value: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductVariant {
+  variant: string;
+  variant_name: string | null;
+  product_name: string;
+}
+
 export interface ProductDetail {
   id: number;
   product_code: string;
+  language: string;
+  variant: string;
+  variant_name: string | null;
   product_name: string;
   product_slogan: string | null;
   product_description: string;
@@ -65,13 +111,17 @@ export interface ProductDetail {
   nutritional_values: NutritionalValue[];
   ingredients: Ingredient[];
   dietary_attributes: DietaryAttribute[];
+  overrides: FieldOverride[];
+  languages: string[];
+  variants: ProductVariant[];
 }
 
 export async function fetchProducts(
   page: number = 1,
   pageSize: number = 20,
   subbrand?: string,
-  search?: string
+  search?: string,
+  language?: string
 ): Promise<PaginatedProducts> {
   const params = new URLSearchParams({
     page: page.toString(),
@@ -80,6 +130,7 @@ export async function fetchProducts(
 
   if (subbrand) params.set('subbrand', subbrand);
   if (search) params.set('search', search);
+  if (language) params.set('lang', language);
 
   const response = await fetch(`${API_BASE}/products?${params}`);
   if (!response.ok) {
@@ -88,8 +139,8 @@ export async function fetchProducts(
   return response.json();
 }
 
-export async function fetchProduct(code: string): Promise<ProductDetail> {
-  const response = await fetch(`${API_BASE}/products/${code}`);
+export async function fetchProduct(code: string, sheet?: SheetSelector): Promise<ProductDetail> {
+  const response = await fetch(`${API_BASE}/products/${code}${sheetQuery(sheet)}`);
   if (!response.ok) {
     if (response.status === 404) {
       throw new Error('Product not found');
@@ -99,6 +150,14 @@ export async function fetchProduct(code: string): Promise<ProductDetail> {
   return response.json();
 }
 
+export async function fetchProductLanguages(code: string, variant?: string): Promise<ProductDetail[]> {
+  const response = await fetch(`${API_BASE}/products/${code}/languages${sheetQuery({ variant })}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch product languages');
+  }
+  return response.json();
+}
+
 export async function fetchSubbrands(): Promise<string[]> {
   const response = await fetch(`${API_BASE}/subbrands`);
   if (!response.ok) {
@@ -184,3 +243,110 @@ export async function fetchComparison(codes: string[]): Promise<ComparisonResult
   if (!response.ok) throw new Error('Failed to fetch comparison');
   return response.json();
 }
+
+// --- Review Workbench ---
+
+export type ReviewStatus = 'pending' | 'in_progress' | 'resolved' | 'dismissed';
+
+export interface ReviewQueueItem {
+  id: number;
+  product_id: number;
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string | null;
+  total_discrepancies: number;
+  high_severity_count: number;
+  medium_severity_count: number;
+  review_status: ReviewStatus;
+  review_priority: number;
+  assigned_to: string | null;
+  review_notes: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface ReviewDiscrepancy {
+  id: number;
+  field_path: string;
+  label: string;
+  override_path: string | null;
+  claude_value: string | null;
+  grok_value: string | null;
+  discrepancy_type: string;
+  severity: string;
+  confidence_score: number | null;
+  resolved: boolean;
+  resolution_notes: string | null;
+  validation_message: string | null;
+  extraction_source: string | null;
+}
+
+export interface ReviewItemDetail {
+  item: ReviewQueueItem;
+  discrepancies: ReviewDiscrepancy[];
+  has_pdf: boolean;
+  pdf_page: number | null;
+}
+
+export type ResolutionSource = 'claude' | 'grok' | 'custom';
+
+async function postReview(path: string, body: object, failure: string): Promise<Response> {
+  const response = await fetch(`${API_BASE}/review/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || failure);
+  }
+  return response;
+}
+
+export function reviewPdfUrl(code: string, sheet?: SheetSelector): string {
+  return `${API_BASE}/review/${encodeURIComponent(code)}/pdf${sheetQuery(sheet)}`;
+}
+
+export async function fetchReviewQueue(status?: ReviewStatus): Promise<ReviewQueueItem[]> {
+  const query = status ? `?status=${status}` : '';
+  const response = await fetch(`${API_BASE}/review/queue${query}`);
+  if (!response.ok) throw new Error('Failed to fetch review queue');
+  return response.json();
+}
+
+export async function fetchReviewItem(code: string, sheet?: SheetSelector): Promise<ReviewItemDetail> {
+  const response = await fetch(`${API_BASE}/review/${encodeURIComponent(code)}${sheetQuery(sheet)}`);
+  if (!response.ok) throw new Error('Failed to fetch review item');
+  return response.json();
+}
+
+export async function resolveDiscrepancy(
+  id: number,
+  source: ResolutionSource,
+  value?: string | null
+): Promise<ReviewDiscrepancy> {
+  const response = await postReview(`discrepancies/${id}/resolve`, { source, value }, 'Failed to resolve discrepancy');
+  return response.json();
+}
+
+export async function assignReviewItem(code: string, assignee: string | null, sheet?: SheetSelector): Promise<void> {
+  await postReview(
+    `${encodeURIComponent(code)}/assign${sheetQuery(sheet)}`,
+    { assignee },
+    'Failed to assign review item'
+  );
+}
+
+export async function closeReviewItem(
+  code: string,
+  action: 'resolve' | 'dismiss',
+  notes?: string,
+  sheet?: SheetSelector
+): Promise<void> {
+  await postReview(
+    `${encodeURIComponent(code)}/${action}${sheetQuery(sheet)}`,
+    { notes },
+    `Failed to ${action} review item`
+  );
+}
@@ -0,0 +1,48 @@
+import { ProductRepository } from '../database/repository.js';
+import { env } from '../config/env.js';
+
+/**
+ * Show response cache size and lifetime hits per provider/model
+ */
+export async function showCacheStats(): Promise<void> {
+  const repository = new ProductRepository();
+  const rows = repository.getResponseCacheStatistics();
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('RESPONSE CACHE');
+  console.log('='.repeat(70));
+  console.log(`Enabled: ${env.ENABLE_RESPONSE_CACHE ? 'Yes' : 'No'}\n`);
+
+  if (rows.length === 0) {
+    console.log('Cache is empty.');
+    console.log('='.repeat(70) + '\n');
+    return;
+  }
+
+  rows.forEach((row) => {
+    console.log(`${row.provider} (${row.model})`);
+    console.log(`   Entries: ${row.entries}`);
+    console.log(`   Lifetime hits: ${row.totalHits}`);
+    console.log(`   Size: ${(row.sizeBytes / 1024).toFixed(1)} KB`);
+    console.log();
+  });
+
+  console.log('='.repeat(70) + '\n');
+}
+
+/**
+ * Delete cache entries unused for `days` days (default RESPONSE_CACHE_MAX_AGE_DAYS),
+ * or every entry when `all` is set
+ */
+export async function pruneCache(days?: number, all = false): Promise<void> {
+  const repository = new ProductRepository();
+  const maxAge = days ?? env.RESPONSE_CACHE_MAX_AGE_DAYS;
+  const removed = repository.pruneResponseCache(all ? undefined : maxAge);
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('RESPONSE CACHE PRUNE');
+  console.log('='.repeat(70));
+  console.log(all ? 'Removed all entries' : `Removed entries unused for ${maxAge}+ days`);
+  console.log(`Deleted: ${removed}`);
+  console.log('='.repeat(70) + '\n');
+}
@@ -0,0 +1,107 @@
+import { CostBreakdown, ProductRepository } from '../database/repository.js';
+import { productLabel } from '../scanner/language.js';
+import { printTable } from './inventory-commands.js';
+import { env } from '../config/env.js';
+
+/**
+ * Token usage and spend of the recorded API calls: overall, per processing run, per model,
+ * per subbrand and for the most expensive products
+ */
+export async function showCosts(runLimit: number = 10, productLimit: number = 20): Promise<void> {
+  const repository = new ProductRepository();
+  const totals = repository.getCostTotals();
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('API COSTS');
+  console.log('='.repeat(70));
+  console.log(`Prices: built-in list prices${env.MODEL_PRICING_PATH ? ` + ${env.MODEL_PRICING_PATH}` : ''}\n`);
+
+  if (totals.calls === 0) {
+    console.log('No API calls recorded yet.');
+    console.log('='.repeat(70) + '\n');
+    return;
+  }
+
+  console.log(`API calls: ${totals.calls}`);
+  console.log(`Tokens: ${formatTokens(totals.input_tokens)} in / ${formatTokens(totals.output_tokens)} out`);
+  console.log(`Spend: ${formatUsd(totals.cost_usd)}${unpricedNote(totals)}`);
+  console.log(`Successful extractions: ${totals.successful_extractions} (${costPerExtraction(totals)} each)\n`);
+
+  printTable(
+    'Recent runs',
+    repository.getCostByRun(runLimit).map((run) => [
+      `#${run.run_id}`,
+      run.command,
+      run.started_at,
+      String(run.calls),
+      formatTokens(run.input_tokens + run.output_tokens),
+      formatUsd(run.cost_usd),
+      String(run.successful_extractions),
+      costPerExtraction(run),
+    ]),
+    ['Run', 'Command', 'Started', 'Calls', 'Tokens', 'Cost', 'Extracted', 'Per extraction'],
+    false
+  );
+
+  printTable(
+    'Models',
+    repository.getCostByModel().map((row) => [
+      row.provider,
+      row.model,
+      String(row.calls),
+      formatTokens(row.input_tokens),
+      formatTokens(row.output_tokens),
+      row.cost_usd === null ? 'unpriced' : formatUsd(row.cost_usd),
+    ]),
+    ['Provider', 'Model', 'Calls', 'Input', 'Output', 'Cost'],
+    false
+  );
+
+  printTable(
+    'Subbrands',
+    repository.getCostBySubbrand().map((row) => [
+      row.subbrand || '(none)',
+      String(row.products),
+      String(row.calls),
+      formatUsd(row.cost_usd),
+      String(row.successful_extractions),
+      costPerExtraction(row),
+    ]),
+    ['Subbrand', 'Products', 'Calls', 'Cost', 'Extracted', 'Per extraction'],
+    false
+  );
+
+  printTable(
+    `Most expensive products (top ${productLimit})`,
+    repository.getCostByProduct(productLimit).map((row) => [
+      productLabel(row.product_code, row.language, row.variant),
+      row.product_name || '-',
+      String(row.calls),
+      formatTokens(row.input_tokens + row.output_tokens),
+      formatUsd(row.cost_usd),
+      String(row.successful_extractions),
+    ]),
+    ['Product', 'Name', 'Calls', 'Tokens', 'Cost', 'Extracted'],
+    false
+  );
+
+  console.log('Set MODEL_PRICING_PATH to a JSON file of { "<model prefix>": { inputPerMTok, outputPerMTok } } to change prices');
+  console.log('='.repeat(70) + '\n');
+}
+
+// Spend divided over successful extractions (failed attempts included in the spend)
+function costPerExtraction(breakdown: CostBreakdown): string {
+  return breakdown.successful_extractions > 0 ? formatUsd(breakdown.cost_usd / breakdown.successful_extractions) : '-';
+}
+
+function unpricedNote(breakdown: CostBreakdown): string {
+  return breakdown.unpriced_calls > 0 ? ` (${breakdown.unpriced_calls} unpriced calls not included)` : '';
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString('en-US');
+}
@@ -0,0 +1,312 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { ProductRepository } from '../database/repository.js';
+import { describeTruncation } from '../extractor/ai-extractor.js';
+import { createProvider } from '../extractor/provider-registry.js';
+import {
+  clearPromptOverrides,
+  findPromptTemplate,
+  formatPromptRef,
+  overridePromptTemplate,
+  PromptRef,
+} from '../extractor/prompt-registry.js';
+import { productExtractionSchema, ProductExtractionData } from '../parser/json-validator.js';
+import { scanPDFDirectory } from '../scanner/pdf-scanner.js';
+import { languageOf } from '../scanner/language.js';
+import { variantOf } from '../scanner/variants.js';
+import { PDFFileMetadata } from '../scanner/file-parser.js';
+import {
+  ACCURACY_CATEGORIES,
+  AccuracyCategory,
+  CategoryCounts,
+  CategoryScore,
+  FieldMiss,
+  scoreExtraction,
+  summarizeCounts,
+} from '../verification/accuracy.js';
+import { printTable } from './inventory-commands.js';
+import { resolvePrompt } from './prompt-commands.js';
+import { env } from '../config/env.js';
+
+export interface EvalOptions {
+  provider?: string; // Defaults to EXTRACTION_PROVIDER
+  model?: string; // Defaults to the provider's configured model
+  label?: string;
+  limit?: number; // Evaluate only the first N golden documents
+  prompts?: string[]; // Template versions to use instead of the current ones ("id@vN" or a hash, see `prompts`)
+}
+
+// Field misses listed after a run
+const MAX_MISSES_SHOWN = 25;
+
+const CATEGORY_LABELS: Record<AccuracyCategory, string> = {
+  nutrients: 'Nutrients',
+  ingredients: 'Ingredients',
+  dietaryAttributes: 'Dietary attributes',
+  textFields: 'Text fields',
+};
+
+interface GoldenDocument {
+  metadata: PDFFileMetadata;
+  goldenPath: string;
+  expected: ProductExtractionData;
+}
+
+/**
+ * Extract every PDF of a golden set that has a hand-verified <name>.json next to it, score the
+ * result field by field and record the run on the leaderboard
+ */
+export async function runEval(goldenSetPath: string, options: EvalOptions = {}): Promise<void> {
+  const rootPath = path.resolve(goldenSetPath);
+  if (!existsSync(rootPath)) {
+    console.error(`\nError: Golden set directory not found: ${rootPath}\n`);
+    process.exit(1);
+  }
+
+  const { documents, skipped } = await loadGoldenSet(rootPath);
+  const selected = options.limit ? documents.slice(0, options.limit) : documents;
+  if (selected.length === 0) {
+    console.error(`\nError: No PDFs with a golden <name>.json found in ${rootPath}\n`);
+    process.exit(1);
+  }
+
+  const providerName = options.provider || env.EXTRACTION_PROVIDER;
+  const provider = createProvider(providerName, options.model ? { model: options.model } : {});
+  if (!provider.extractProduct) {
+    console.error(`\nError: Provider "${provider.name}" does not support full product extraction\n`);
+    process.exit(1);
+  }
+
+  const repository = new ProductRepository();
+  const selectedPrompts = selectPrompts(options.prompts || [], repository);
+  const runId = repository.startEvalRun({
+    label: options.label,
+    golden_set_path: rootPath,
+    provider: provider.name,
+    model: provider.model,
+    hybrid_extraction: env.ENABLE_HYBRID_EXTRACTION ? 1 : 0,
+  });
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(`EVALUATION RUN #${runId}${options.label ? ` (${options.label})` : ''}`);
+  console.log('='.repeat(70));
+  console.log(`Golden set: ${rootPath} (${selected.length} documents)`);
+  console.log(`Provider: ${provider.name} | Model: ${provider.model} | Hybrid: ${env.ENABLE_HYBRID_EXTRACTION ? 'Yes' : 'No'}`);
+  if (selectedPrompts.length > 0) {
+    console.log(`Prompts: ${selectedPrompts.map(formatPromptRef).join(', ')}`);
+  }
+  skipped.forEach((message) => console.log(`Skipped: ${message}`));
+  console.log();
+
+  const counts: Record<AccuracyCategory, CategoryCounts[]> = { nutrients: [], ingredients: [], dietaryAttributes: [], textFields: [] };
+  const misses: Array<FieldMiss & { document: string }> = [];
+  const prompts = new Map<string, PromptRef>();
+  let failedCount = 0;
+
+  for (const [index, document] of selected.entries()) {
+    const name = path.relative(rootPath, document.goldenPath);
+    const result = await provider.extractProduct(document.metadata);
+    result.prompts?.forEach((ref) => prompts.set(ref.hash, ref));
+
+    const actual = result.success && result.data ? result.data : null;
+    const score = scoreExtraction(document.expected, actual);
+
+    // Evaluation calls are billed like any other; keep them in the cost report
+    repository.logProcessing(
+      {
+        product_code: document.metadata.productCode,
+        language: languageOf(document.metadata),
+        variant: variantOf(document.metadata),
+        pdf_file_path: document.metadata.filePath,
+        action: 'eval',
+        status: actual ? 'success' : 'error',
+        error_message: result.error,
+        processing_time_ms: result.processingTimeMs,
+      },
+      result.usage,
+      result.parses
+    );
+    for (const truncation of result.truncations || []) {
+      repository.logProcessing({
+        product_code: document.metadata.productCode,
+        language: languageOf(document.metadata),
+        variant: variantOf(document.metadata),
+        pdf_file_path: document.metadata.filePath,
+        action: 'truncation',
+        status: 'warning',
+        error_message: describeTruncation(truncation),
+      });
+    }
+    repository.insertEvalScores(runId, name, score.counts);
+
+    ACCURACY_CATEGORIES.forEach((category) => counts[category].push(score.counts[category]));
+
+    const progress = `[${index + 1}/${selected.length}]`;
+    if (actual) {
+      misses.push(...score.misses.map((miss) => ({ ...miss, document: name })));
+      console.log(`  ${progress} ${name}: F1 ${percent(summarizeCounts(Object.values(score.counts)).f1)}`);
+    } else {
+      failedCount++;
+      console.log(`  ${progress} ${name}: extraction failed (${result.error || 'unknown error'})`);
+    }
+  }
+
+  repository.completeEvalRun(runId, selected.length, failedCount, Array.from(prompts.values()));
+  clearPromptOverrides();
+
+  console.log();
+  printTable(
+    'Field accuracy',
+    [
+      ...ACCURACY_CATEGORIES.map((category) => scoreRow(CATEGORY_LABELS[category], summarizeCounts(counts[category]))),
+      scoreRow('Overall', summarizeCounts(Object.values(counts).flat())),
+    ],
+    ['Category', 'Precision', 'Recall', 'F1', 'Matched', 'Extracted', 'Golden'],
+    false
+  );
+
+  if (failedCount > 0) {
+    console.log(`Failed extractions: ${failedCount} (scored as extracting nothing)\n`);
+  }
+
+  console.log(`Field misses in extracted documents: ${misses.length}`);
+  misses.slice(0, MAX_MISSES_SHOWN).forEach((miss) => {
+    console.log(`  ${miss.document} ${miss.fieldPath}`);
+    console.log(`     golden:    ${miss.expected === null ? '(none)' : truncate(miss.expected)}`);
+    console.log(`     extracted: ${miss.actual === null ? '(none)' : truncate(miss.actual)}`);
+  });
+  if (misses.length > MAX_MISSES_SHOWN) {
+    console.log(`  ... ${misses.length - MAX_MISSES_SHOWN} more`);
+  }
+
+  console.log(`\nCompare runs with: npm start eval leaderboard`);
+  console.log('='.repeat(70) + '\n');
+}
+
+/**
+ * Completed evaluation runs ranked by overall F1
+ */
+export async function showEvalLeaderboard(limit: number = 20): Promise<void> {
+  const repository = new ProductRepository();
+  const runs = repository.getEvalRuns(limit);
+  const counts = repository.getEvalRunCounts(runs.map((run) => run.id!));
+
+  const ranked = runs
+    .map((run) => {
+      const runCounts = counts.filter((row) => row.run_id === run.id);
+      const scoreOf = (categories: readonly string[]) =>
+        summarizeCounts(
+          runCounts
+            .filter((row) => categories.includes(row.category))
+            .map((row) => ({ truePositives: row.true_positives, predicted: row.predicted, expected: row.expected }))
+        );
+
+      return {
+        run,
+        categories: ACCURACY_CATEGORIES.map((category) => scoreOf([category])),
+        overall: scoreOf(ACCURACY_CATEGORIES),
+      };
+    })
+    .sort((a, b) => (b.overall.f1 ?? -1) - (a.overall.f1 ?? -1));
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('EVALUATION LEADERBOARD');
+  console.log('='.repeat(70));
+  console.log('Precision / recall per category, ranked by overall F1\n');
+
+  printTable(
+    'Runs',
+    ranked.map(({ run, categories, overall }) => [
+      `#${run.id}`,
+      run.label || '-',
+      run.provider,
+      run.model,
+      run.hybrid_extraction ? 'hybrid' : 'vision',
+      `${run.document_count}${run.failed_count ? ` (${run.failed_count} failed)` : ''}`,
+      ...categories.map((score) => `${percent(score.precision)} / ${percent(score.recall)}`),
+      percent(overall.f1),
+      run.completed_at || '-',
+    ]),
+    ['Run', 'Label', 'Provider', 'Model', 'Mode', 'Docs', ...ACCURACY_CATEGORIES.map((c) => CATEGORY_LABELS[c]), 'F1', 'Completed']
+  );
+
+  ranked.forEach(({ run }) => {
+    const prompts = run.prompts ? (JSON.parse(run.prompts) as PromptRef[]) : [];
+    if (prompts.length > 0) {
+      console.log(`  #${run.id} prompts: ${prompts.map(formatPromptRef).join(', ')}`);
+    }
+  });
+
+  console.log('='.repeat(70) + '\n');
+}
+
+// Render the given template versions instead of the current ones for the rest of the run; the
+// versions used are recorded on the run through the prompt refs of its extractions
+function selectPrompts(specs: string[], repository: ProductRepository): PromptRef[] {
+  const records = repository.getPromptTemplateRecords();
+
+  return specs.map((spec) => {
+    const resolved = resolvePrompt(spec, records);
+    if (!resolved) {
+      console.error(`\nError: Unknown prompt "${spec}" (expected an ID, ID@vN or hash)\n`);
+      process.exit(1);
+    }
+
+    overridePromptTemplate({
+      id: resolved.ref.id,
+      version: resolved.ref.version,
+      description: findPromptTemplate(resolved.ref.id)?.description ?? '',
+      ...resolved.template,
+    });
+    return resolved.ref;
+  });
+}
+
+// PDFs of the golden set paired with the <name>.json next to them
+async function loadGoldenSet(rootPath: string): Promise<{ documents: GoldenDocument[]; skipped: string[] }> {
+  const scan = await scanPDFDirectory(rootPath);
+  const documents: GoldenDocument[] = [];
+  const skipped: string[] = [];
+
+  for (const metadata of scan.metadata) {
+    const goldenPath = metadata.filePath.replace(/\.pdf$/i, '.json');
+    const relativePath = path.relative(rootPath, metadata.filePath);
+    if (!existsSync(goldenPath)) {
+      skipped.push(`${relativePath} (no golden JSON)`);
+      continue;
+    }
+
+    const parsed = productExtractionSchema.safeParse(JSON.parse(readFileSync(goldenPath, 'utf-8')));
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
+      skipped.push(`${path.relative(rootPath, goldenPath)} (invalid: ${issues.join('; ')})`);
+      continue;
+    }
+
+    documents.push({ metadata, goldenPath, expected: parsed.data });
+  }
+
+  documents.sort((a, b) => a.goldenPath.localeCompare(b.goldenPath));
+  return { documents, skipped };
+}
+
+function scoreRow(label: string, score: CategoryScore): string[] {
+  return [
+    label,
+    percent(score.precision),
+    percent(score.recall),
+    percent(score.f1),
+    String(score.truePositives),
+    String(score.predicted),
+    String(score.expected),
+  ];
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function truncate(value: string, maxLength = 100): string {
+  const singleLine = value.replace(/\s+/g, ' ');
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+}
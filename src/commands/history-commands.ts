@@ -0,0 +1,70 @@
+import { ProductRepository } from '../database/repository.js';
+import { ProductExtractionData } from '../parser/json-validator.js';
+import { DEFAULT_LANGUAGE, productLabel } from '../scanner/language.js';
+import { DEFAULT_VARIANT } from '../scanner/variants.js';
+import { printVariantHint } from './review-commands.js';
+import { diffFieldValues, flattenProductFields, FieldValues } from '../parser/field-paths.js';
+import { formatPromptRef, PromptRef } from '../extractor/prompt-registry.js';
+
+/**
+ * Show every extraction revision of a product with field-by-field changes
+ */
+export async function showProductHistory(
+  productCode: string,
+  language: string = DEFAULT_LANGUAGE,
+  variant: string = DEFAULT_VARIANT
+): Promise<void> {
+  const repository = new ProductRepository();
+  const revisions = repository.getRevisions(productCode, language, variant);
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(`EXTRACTION HISTORY FOR PRODUCT ${productLabel(productCode, language, variant)}`);
+  console.log('='.repeat(70));
+  console.log(`Revisions: ${revisions.length}\n`);
+
+  if (revisions.length === 0) {
+    console.log('No revisions recorded.');
+    console.log('='.repeat(70) + '\n');
+    printVariantHint(repository, productCode, language);
+    return;
+  }
+
+  let previous: FieldValues | null = null;
+
+  for (const revision of revisions) {
+    const fields = flattenProductFields(JSON.parse(revision.extraction_data) as ProductExtractionData);
+
+    console.log(`Revision ${revision.revision_number} - ${revision.created_at}`);
+    if (revision.prompts) {
+      const prompts = JSON.parse(revision.prompts) as PromptRef[];
+      console.log(`   Model: ${revision.model || 'unknown'}`);
+      console.log(`   Prompts: ${prompts.map(formatPromptRef).join(', ')}`);
+    } else {
+      console.log(`   Model: ${revision.model || 'unknown'} | Prompt version: ${revision.prompt_version || 'unknown'}`);
+    }
+
+    if (!previous) {
+      console.log(`   Initial extraction (${Object.values(fields).filter((v) => v !== null).length} fields)`);
+    } else {
+      const changes = diffFieldValues(previous, fields);
+      if (changes.length === 0) {
+        console.log('   No field changes');
+      }
+      changes.forEach((change) => {
+        console.log(`   ${change.changeType.toUpperCase().padEnd(8)} ${change.fieldPath}`);
+        if (change.before !== null) console.log(`            - ${truncate(change.before)}`);
+        if (change.after !== null) console.log(`            + ${truncate(change.after)}`);
+      });
+    }
+
+    console.log();
+    previous = fields;
+  }
+
+  console.log('='.repeat(70) + '\n');
+}
+
+function truncate(value: string, maxLength = 100): string {
+  const singleLine = value.replace(/\s+/g, ' ');
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+}
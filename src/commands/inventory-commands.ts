@@ -0,0 +1,88 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ProductRepository } from '../database/repository.js';
+import { scanPDFDirectory } from '../scanner/pdf-scanner.js';
+import { reconcileInventory } from '../scanner/inventory.js';
+import { productLabel } from '../scanner/language.js';
+import { env } from '../config/env.js';
+
+/**
+ * Cross-reference the PDFs on disk with the products table, print the findings as tables
+ * and optionally write them as JSON
+ */
+export async function showInventory(outputPath?: string): Promise<void> {
+  const repository = new ProductRepository();
+  const rootPath = path.resolve(env.PDF_ROOT_PATH);
+  const scanResult = await scanPDFDirectory(rootPath, repository.getLanguagesByFileHash());
+  const report = reconcileInventory(rootPath, scanResult.metadata, repository.getInventoryProducts(), existsSync);
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('CATALOG INVENTORY');
+  console.log('='.repeat(70));
+  console.log(`PDF root: ${report.root_path}`);
+  console.log(`PDFs on disk: ${report.pdf_count} | Product rows: ${report.product_count}\n`);
+
+  printTable(
+    'PDFs Never Processed',
+    report.unprocessed_pdfs.map((pdf) => [
+      productLabel(pdf.product_code, pdf.language, pdf.variant),
+      path.relative(report.root_path, pdf.file_path),
+    ]),
+    ['Product', 'File']
+  );
+
+  printTable(
+    'Products Whose PDF Is Missing',
+    report.missing_pdfs.map((product) => [
+      productLabel(product.product_code, product.language, product.variant),
+      product.extraction_status,
+      product.pdf_file_path,
+    ]),
+    ['Product', 'Status', 'Stored path']
+  );
+
+  printTable(
+    'Folder Name Differs From Product Name',
+    report.name_mismatches.map((product) => [
+      productLabel(product.product_code, product.language, product.variant),
+      product.folder_name,
+      product.product_name,
+    ]),
+    ['Product', 'Folder', 'product_name']
+  );
+
+  printTable(
+    "Stuck In 'processing'",
+    report.stuck_processing.map((product) => [
+      productLabel(product.product_code, product.language, product.variant),
+      product.updated_at || 'unknown',
+      product.pdf_file_path,
+    ]),
+    ['Product', 'Last update', 'PDF']
+  );
+
+  if (outputPath) {
+    mkdirSync(path.dirname(outputPath) || '.', { recursive: true });
+    writeFileSync(outputPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`JSON report written to ${outputPath}`);
+  }
+
+  console.log('='.repeat(70) + '\n');
+}
+
+// Fixed-width console table; columns are sized to their longest value
+export function printTable(title: string, rows: string[][], headers: string[], showCount = true): void {
+  console.log(showCount ? `${title}: ${rows.length}` : title);
+  if (rows.length === 0) {
+    console.log();
+    return;
+  }
+
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => '  ' + cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(headers));
+  console.log(line(widths.map((width) => '-'.repeat(width))));
+  rows.forEach((row) => console.log(line(row)));
+  console.log();
+}
@@ -0,0 +1,80 @@
+import { ProductRepository } from '../database/repository.js';
+import { DEFAULT_LANGUAGE, productLabel } from '../scanner/language.js';
+import { DEFAULT_VARIANT } from '../scanner/variants.js';
+
+/**
+ * List manual field overrides for a product
+ */
+export async function showOverrides(
+  productCode: string,
+  language: string = DEFAULT_LANGUAGE,
+  variant: string = DEFAULT_VARIANT
+): Promise<void> {
+  const repository = new ProductRepository();
+  const overrides = repository.getFieldOverrides(productCode, language, variant);
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log(`FIELD OVERRIDES FOR PRODUCT ${productLabel(productCode, language, variant)}`);
+  console.log('='.repeat(70));
+  console.log(`Total overrides: ${overrides.length}\n`);
+
+  if (overrides.length === 0) {
+    console.log('No overrides set.');
+    console.log('='.repeat(70) + '\n');
+    return;
+  }
+
+  overrides.forEach((override, index) => {
+    console.log(`${index + 1}. ${override.field_path}`);
+    console.log(`   Extracted: ${override.extracted_value ?? '(none)'}`);
+    console.log(`   Override:  ${override.override_value ?? '(none)'}`);
+    if (override.reason) {
+      console.log(`   Reason: ${override.reason}`);
+    }
+    console.log(`   Updated: ${override.updated_at}${override.created_by ? ` by ${override.created_by}` : ''}`);
+    console.log();
+  });
+
+  console.log('='.repeat(70) + '\n');
+}
+
+/**
+ * Set a manual override; it is written immediately and re-applied after every extraction
+ */
+export async function setOverride(
+  productCode: string,
+  fieldPath: string,
+  value: string,
+  reason?: string,
+  language: string = DEFAULT_LANGUAGE,
+  variant: string = DEFAULT_VARIANT
+): Promise<void> {
+  const repository = new ProductRepository();
+  const override = repository.setFieldOverride(productCode, fieldPath, value, {
+    reason,
+    createdBy: process.env.USER,
+    language,
+    variant,
+  });
+
+  console.log(`\n✓ Override set for ${productLabel(productCode, language, variant)}`);
+  console.log(`  ${fieldPath}: ${override.extracted_value ?? '(none)'} -> ${override.override_value}\n`);
+}
+
+/**
+ * Clear an override and restore the extracted value
+ */
+export async function clearOverride(
+  productCode: string,
+  fieldPath: string,
+  language: string = DEFAULT_LANGUAGE,
+  variant: string = DEFAULT_VARIANT
+): Promise<void> {
+  const repository = new ProductRepository();
+
+  if (repository.clearFieldOverride(productCode, fieldPath, language, variant)) {
+    console.log(`\n✓ Override cleared for ${productCode} ${fieldPath}\n`);
+  } else {
+    console.log(`\nNo override set for ${productCode} ${fieldPath}\n`);
+  }
+}
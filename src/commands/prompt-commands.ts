@@ -0,0 +1,183 @@
+import { ProductRepository } from '../database/repository.js';
+import { PromptTemplateRecord } from '../database/schema.js';
+import {
+  diffPromptText,
+  findPromptTemplate,
+  formatPromptRef,
+  hashPromptTemplate,
+  listPromptTemplates,
+  PromptDiffLine,
+  PromptRef,
+  PromptTemplate,
+  promptRef,
+  templateVariables,
+} from '../extractor/prompt-registry.js';
+import { printTable } from './inventory-commands.js';
+
+// Unchanged lines shown around each change by `prompts diff`
+const DIFF_CONTEXT_LINES = 2;
+
+export interface ResolvedPrompt {
+  ref: PromptRef;
+  template: Pick<PromptTemplate, 'system' | 'user'>;
+  current: boolean; // The version in prompt-templates.ts
+}
+
+/**
+ * List the prompt templates in the code and the earlier versions recorded with extractions
+ */
+export async function showPrompts(): Promise<void> {
+  const repository = new ProductRepository();
+  const usage = repository.getPromptUsage();
+  const usageOf = (hash: string) => usage.find((row) => row.hash === hash);
+
+  const templates = listPromptTemplates();
+  const currentHashes = new Set(templates.map(hashPromptTemplate));
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('PROMPT TEMPLATES');
+  console.log('='.repeat(70) + '\n');
+
+  printTable(
+    'Current templates',
+    templates.map((template) => {
+      const hash = hashPromptTemplate(template);
+      return [
+        template.id,
+        `v${template.version}`,
+        hash,
+        String(usageOf(hash)?.uses ?? 0),
+        usageOf(hash)?.last_used_at || '-',
+        templateVariables(template).join(', ') || '-',
+      ];
+    }),
+    ['ID', 'Version', 'Hash', 'Uses', 'Last used', 'Variables']
+  );
+  templates.forEach((template) => console.log(`  ${template.id}: ${template.description}`));
+  console.log();
+
+  const earlier = repository.getPromptTemplateRecords().filter((record) => !currentHashes.has(record.hash));
+  printTable(
+    'Earlier versions',
+    earlier.map((record) => [
+      record.prompt_id,
+      `v${record.version}`,
+      record.hash,
+      String(usageOf(record.hash)?.uses ?? 0),
+      record.first_used_at || '-',
+    ]),
+    ['ID', 'Version', 'Hash', 'Uses', 'First used']
+  );
+
+  console.log('Compare versions with: npm start prompts diff <id|id@vN|hash> [<id|id@vN|hash>]');
+  console.log('='.repeat(70) + '\n');
+}
+
+/**
+ * Line diff between two prompt versions. With one argument it is compared against the current
+ * template of the same ID; a bare ID is compared with its most recent earlier version.
+ */
+export async function diffPrompts(fromSpec: string, toSpec?: string): Promise<void> {
+  const records = new ProductRepository().getPromptTemplateRecords();
+
+  let from = resolvePrompt(fromSpec, records);
+  let to = toSpec ? resolvePrompt(toSpec, records) : from && currentPrompt(from.ref.id);
+
+  if (from?.current && !toSpec) {
+    // Bare ID or current version: compare the previous recorded version with the code
+    const current = from;
+    const previous = records.filter((record) => record.prompt_id === current.ref.id && record.hash !== current.ref.hash).pop();
+    if (!previous) {
+      console.log(`\nNo earlier version of ${formatPromptRef(current.ref)} has been recorded.\n`);
+      return;
+    }
+    to = current;
+    from = fromRecord(previous);
+  }
+
+  if (!from || !to) {
+    console.error(`\nError: Unknown prompt "${!from ? fromSpec : toSpec}" (expected an ID, ID@vN or hash)\n`);
+    process.exit(1);
+  }
+
+  console.log(`\n${'='.repeat(70)}`);
+  console.log('PROMPT DIFF');
+  console.log('='.repeat(70));
+  console.log(`--- ${formatPromptRef(from.ref)}${from.current ? ' [current]' : ''}`);
+  console.log(`+++ ${formatPromptRef(to.ref)}${to.current ? ' [current]' : ''}\n`);
+
+  if (from.ref.hash === to.ref.hash) {
+    console.log('Templates are identical.');
+  } else {
+    printDiffSection('System prompt', diffPromptText(from.template.system ?? '', to.template.system ?? ''));
+    printDiffSection('User prompt', diffPromptText(from.template.user, to.template.user));
+  }
+
+  console.log('='.repeat(70) + '\n');
+}
+
+// "supplement-facts", "supplement-facts@v2" or a hash prefix (at least 4 characters)
+export function resolvePrompt(spec: string, records: PromptTemplateRecord[]): ResolvedPrompt | null {
+  const [id, versionText] = spec.split('@v');
+  const version = versionText !== undefined ? parseInt(versionText, 10) : undefined;
+  const current = findPromptTemplate(id);
+
+  if (current && (version === undefined || version === current.version)) {
+    return currentPrompt(id);
+  }
+
+  if (version !== undefined) {
+    // Latest text recorded under that version (there may be several without a version bump)
+    const record = records.filter((r) => r.prompt_id === id && r.version === version).pop();
+    return record ? fromRecord(record) : null;
+  }
+
+  if (/^[0-9a-f]{4,}$/.test(spec)) {
+    const currentMatch = listPromptTemplates().find((template) => hashPromptTemplate(template).startsWith(spec));
+    if (currentMatch) {
+      return currentPrompt(currentMatch.id);
+    }
+    const record = records.find((r) => r.hash.startsWith(spec));
+    return record ? fromRecord(record) : null;
+  }
+
+  return null;
+}
+
+function currentPrompt(id: string): ResolvedPrompt | null {
+  const template = findPromptTemplate(id);
+  return template ? { ref: promptRef(template), template, current: true } : null;
+}
+
+function fromRecord(record: PromptTemplateRecord): ResolvedPrompt {
+  return {
+    ref: { id: record.prompt_id, version: record.version, hash: record.hash },
+    template: { system: record.system_template ?? undefined, user: record.user_template },
+    current: false,
+  };
+}
+
+// Changed lines with DIFF_CONTEXT_LINES of context; skipped runs are shown as "..."
+function printDiffSection(title: string, lines: PromptDiffLine[]): void {
+  const changed = lines.map((line, i) => (line.type !== 'same' ? i : -1)).filter((i) => i >= 0);
+  console.log(`${title}: ${changed.length === 0 ? 'unchanged' : `${changed.length} lines changed`}`);
+  if (changed.length === 0) {
+    console.log();
+    return;
+  }
+
+  const shown = (i: number) => changed.some((c) => Math.abs(c - i) <= DIFF_CONTEXT_LINES);
+  const marker = { same: ' ', added: '+', removed: '-' } as const;
+
+  let skipped = false;
+  lines.forEach((line, i) => {
+    if (!shown(i)) {
+      if (!skipped) console.log('  ...');
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    console.log(`  ${marker[line.type]} ${line.text}`);
+  });
+  console.log();
+}
@@ -1,4 +1,8 @@
 import { ProductRepository } from '../database/repository.js';
+import { ReportFormat } from '../verification/comparison-report.js';
+import { env } from '../config/env.js';
+import { DEFAULT_LANGUAGE, productLabel } from '../scanner/language.js';
+import { DEFAULT_VARIANT } from '../scanner/variants.js';
 import path from 'path';
 
 /**
@@ -38,19 +42,24 @@ export async function showReviewQueue(status?: string): Promise<void> {
 /**
  * Show discrepancies for a specific product
  */
-export async function showDiscrepancies(productCode: string): Promise<void> {
+export async function showDiscrepancies(
+  productCode: string,
+  language: string = DEFAULT_LANGUAGE,
+  variant: string = DEFAULT_VARIANT
+): Promise<void> {
   const repository = new ProductRepository();
-  const product = repository.getProductByCode(productCode);
+  const product = repository.getProductByCode(productCode, language, variant);
 
   if (!product) {
-    console.error(`\nProduct ${productCode} not found\n`);
+    console.error(`\nProduct ${productLabel(productCode, language, variant)} not found\n`);
+    printVariantHint(repository, productCode, language);
     return;
   }
 
   const discrepancies = repository.getDiscrepanciesForProduct(product.id!);
 
   console.log(`\n${'='.repeat(70)}`);
-  console.log(`DISCREPANCIES FOR PRODUCT ${productCode}`);
+  console.log(`DISCREPANCIES FOR PRODUCT ${productLabel(product.product_code, product.language ?? language, product.variant)}`);
   console.log('='.repeat(70));
   console.log(`Product: ${product.product_name}`);
   console.log(`Total discrepancies: ${discrepancies.length}\n`);
@@ -90,9 +99,12 @@ export async function showDiscrepancies(productCode: string): Promise<void> {
 }
 
 /**
- * Generate comparison report
+ * Generate comparison report (HTML, CSV and JSON by default)
  */
-export async function generateComparisonReport(): Promise<void> {
+export async function generateComparisonReport(
+  outputPath: string = path.join(process.cwd(), 'comparison-report'),
+  formats?: ReportFormat[]
+): Promise<void> {
   const repository = new ProductRepository();
   const stats = repository.getComparisonStatistics();
 
@@ -114,11 +126,10 @@ export async function generateComparisonReport(): Promise<void> {
 
   console.log('\n' + '='.repeat(70) + '\n');
 
-  // Generate CSV report
-  const reportPath = path.join(process.cwd(), 'comparison-report.csv');
-  await repository.exportComparisonReport(reportPath);
-  console.log(`Detailed report will be exported to: ${reportPath}`);
-  console.log('(Export functionality coming soon)\n');
+  const files = await repository.exportComparisonReport(outputPath, formats);
+  console.log('Comparison report written to:');
+  files.forEach(file => console.log(`  ${file}`));
+  console.log();
 }
 
 /**
@@ -137,9 +148,12 @@ export async function resolveReview(productId: number, notes: string): Promise<v
 }
 
 /**
- * Show verification statistics
+ * Show verification statistics; lists every product below the similarity threshold when `listBelow` is set
  */
-export async function showVerificationStats(): Promise<void> {
+export async function showVerificationStats(
+  threshold: number = env.VERIFICATION_SIMILARITY_THRESHOLD,
+  listBelow: boolean = false
+): Promise<void> {
   const repository = new ProductRepository();
   const stats = repository.getComparisonStatistics();
   const reviewQueue = repository.getReviewQueue();
@@ -151,6 +165,45 @@ export async function showVerificationStats(): Promise<void> {
   console.log('Comparison Coverage:');
   console.log(`  Total products verified: ${stats.totalCompared}`);
   console.log(`  Products with discrepancies: ${stats.highDiscrepancyCount}`);
+  console.log(`  Average similarity: ${stats.averageSimilarity.toFixed(1)}%`);
+  console.log();
+
+  const distribution = repository.getSimilarityDistribution();
+  const maxCount = Math.max(...distribution.map(b => b.count));
+  if (maxCount > 0) {
+    console.log('Similarity Distribution (latest comparison per product):');
+    [...distribution].reverse().forEach(b => {
+      const bar = '#'.repeat(Math.round((b.count / maxCount) * 40));
+      console.log(`  ${b.bucket.padStart(6)}%  ${String(b.count).padStart(4)}  ${bar}`);
+    });
+    console.log();
+  }
+
+  const runs = repository.getVerificationRuns(5);
+  if (runs.length > 0) {
+    console.log('Recent Runs:');
+    runs.forEach(run => {
+      console.log(
+        `  #${run.id} ${run.started_at} ${run.command.padEnd(12)} ` +
+        `${String(run.products_compared).padStart(4)} compared, avg ${run.average_similarity}%, ` +
+        `min ${run.min_similarity}%, ${run.below_threshold_count} below ${run.similarity_threshold}%`
+      );
+    });
+    console.log();
+  }
+
+  const lowSimilarity = repository.getProductsBelowSimilarity(threshold);
+  console.log(`Below ${threshold}% Similarity: ${lowSimilarity.length}`);
+  const shown = listBelow ? lowSimilarity : lowSimilarity.slice(0, 5);
+  shown.forEach(p => {
+    console.log(
+      `  ${p.product_code.padEnd(8)} ${p.similarity_score.toFixed(1).padStart(5)}%  ` +
+      `${p.field_matching}/${p.field_total} fields match, ${p.discrepancy_count} discrepancies  ${p.product_name}`
+    );
+  });
+  if (shown.length < lowSimilarity.length) {
+    console.log(`  ... ${lowSimilarity.length - shown.length} more (npm start verification-stats --below ${threshold})`);
+  }
   console.log();
 
   console.log('Review Queue:');
@@ -179,3 +232,11 @@ export async function showVerificationStats(): Promise<void> {
 
   console.log('\n' + '='.repeat(70) + '\n');
 }
+
+// Codes with several sheets per language are only addressable with --variant
+export function printVariantHint(repository: ProductRepository, productCode: string, language: string): void {
+  const variants = repository.getProductVariants(productCode, language).map(v => v.variant).filter(Boolean);
+  if (variants.length > 0) {
+    console.log(`Variants of ${productCode} (${language}): ${variants.join(', ')} (use --variant <name>)\n`);
+  }
+}
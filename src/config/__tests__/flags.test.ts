@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { flag } from '../flags.js';
+
+describe('flag', () => {
+  it('reads "false", "0", "no" and "off" as false', () => {
+    const schema = flag(true);
+    for (const value of ['false', 'FALSE', '0', 'no', ' off ']) {
+      expect(schema.parse(value)).toBe(false);
+    }
+    for (const value of ['true', '1', 'yes', 'on']) {
+      expect(schema.parse(value)).toBe(true);
+    }
+  });
+
+  it('falls back to the default when unset or empty', () => {
+    expect(flag(true).parse(undefined)).toBe(true);
+    expect(flag(false).parse(undefined)).toBe(false);
+    expect(flag(true).parse('')).toBe(true);
+    expect(flag(false).parse('  ')).toBe(false);
+  });
+});
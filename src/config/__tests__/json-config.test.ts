@@ -0,0 +1,34 @@
+import { afterAll, afterEach, describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { readJsonConfig } from '../json-config.js';
+
+const schema = z.object({ threshold: z.number().min(0).max(1), label: z.string().default('none') });
+
+describe('readJsonConfig', () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'json-config-'));
+  const file = path.join(dir, 'config.json');
+
+  afterEach(() => rmSync(file, { force: true }));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('returns the parsed file with schema defaults applied', () => {
+    writeFileSync(file, '{"threshold": 0.5}');
+    expect(readJsonConfig(file, schema, 'test config')).toEqual({ threshold: 0.5, label: 'none' });
+  });
+
+  it('lists every schema issue under the label', () => {
+    writeFileSync(file, '{"threshold": 2, "label": 3}');
+    expect(() => readJsonConfig(file, schema, 'test config')).toThrow(
+      `Invalid test config in ${file}:\nthreshold: Number must be less than or equal to 1\nlabel: Expected string, received number`
+    );
+  });
+
+  it('reports missing files and malformed JSON as unreadable', () => {
+    expect(() => readJsonConfig(path.join(dir, 'missing.json'), schema, 'test config')).toThrow('Could not read test config');
+    writeFileSync(file, '{threshold:');
+    expect(() => readJsonConfig(file, schema, 'test config')).toThrow(`Could not read test config ${file}`);
+  });
+});
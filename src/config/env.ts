@@ -2,6 +2,7 @@ import { z } from 'zod';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { flag } from './flags.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -9,11 +10,18 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
+// Variables that are no longer read, with what replaced them (a warning is printed when set)
+const REMOVED_VARIABLES: Record<string, string> = {
+  AUTO_REVIEW_THRESHOLD: 'auto-reject is set with AUTO_REJECT_SIMILARITY or rejectSimilarity in REVIEW_POLICY_PATH',
+};
+
 // Environment variable schema
 const envSchema = z.object({
   ANTHROPIC_API_KEY: z.string().min(1, 'ANTHROPIC_API_KEY is required'),
+  ANTHROPIC_BASE_URL: z.string().default(''), // Optional API endpoint override (proxies, local mock servers)
   DATABASE_PATH: z.string().default('./products.db'),
   PDF_ROOT_PATH: z.string().default('./products'),
+  NAMING_RULES_PATH: z.string().default(''), // Optional JSON file of filename/folder naming rules (scanner/naming-rules.ts)
   CONCURRENT_PROCESSES: z.coerce.number().int().positive().default(5),
   MAX_RETRIES: z.coerce.number().int().positive().default(3),
   RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(50),
@@ -25,18 +33,50 @@ const envSchema = z.object({
 
   // Grok API Configuration
   GROK_API_KEY: z.string().default(''),
-  ENABLE_GROK_VERIFICATION: z.coerce.boolean().default(false),
+  ENABLE_GROK_VERIFICATION: flag(false),
   GROK_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(30),
   GROK_MODEL: z.string().default('grok-2-vision-1212'),
 
-  // Verification Settings
-  VERIFICATION_SIMILARITY_THRESHOLD: z.coerce.number().int().default(85),
-  AUTO_REVIEW_THRESHOLD: z.coerce.number().int().default(70),
+  // Provider Selection (names registered in extractor/provider-registry.ts)
+  EXTRACTION_PROVIDER: z.string().default('anthropic'),
+  VERIFICATION_PROVIDER: z.string().default('grok'),
+
+  // OpenAI-compatible provider (self-hosted or third-party vision models)
+  OPENAI_COMPAT_BASE_URL: z.string().default('http://localhost:11434/v1'),
+  OPENAI_COMPAT_API_KEY: z.string().default(''),
+  OPENAI_COMPAT_MODEL: z.string().default(''),
+  OPENAI_COMPAT_MAX_TOKENS: z.coerce.number().int().positive().default(2000),
+  OPENAI_COMPAT_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(60),
+
+  // Verification Settings (review routing, see verification/review-policy.ts)
+  VERIFICATION_SIMILARITY_THRESHOLD: z.coerce.number().min(0).max(100).default(85), // Minimum similarity to auto-accept
+  AUTO_REJECT_SIMILARITY: z.coerce.number().min(0).max(100).default(0), // Below this similarity, auto-reject (0 disables)
+  REVIEW_POLICY_PATH: z.string().default(''), // Optional JSON file overriding any review policy field
+  NUTRIENT_CONFIDENCE_THRESHOLD: z.coerce.number().min(0).max(1).default(0.7), // Nutrients scored below are flagged needs_verification
 
   // Extraction Settings
-  ENABLE_HYBRID_EXTRACTION: z.coerce.boolean().default(true),
-  USE_TEXT_EXTRACTION_FOR_INGREDIENTS: z.coerce.boolean().default(true),
-  ENABLE_STRICT_NORMALIZATION: z.coerce.boolean().default(false),
+  ENABLE_HYBRID_EXTRACTION: flag(true),
+  USE_TEXT_EXTRACTION_FOR_INGREDIENTS: flag(true),
+  ENABLE_STRICT_NORMALIZATION: flag(false),
+  ENABLE_TOOL_OUTPUT: flag(true), // Anthropic replies as tool arguments; the JSON repair cascade stays as fallback
+  MODEL_PRICING_PATH: z.string().default(''), // Optional JSON file of per-model token prices (extractor/pricing.ts)
+  ENABLE_PAGE_ROUTING: flag(true), // Send only the Supplement Facts page for supplement facts
+  PDF_RENDER_DPI: z.coerce.number().int().positive().default(150), // Rasterization for image-only providers
+
+  // Response Cache (skips API calls when PDF, prompt, model and temperature are unchanged)
+  ENABLE_RESPONSE_CACHE: flag(true),
+  RESPONSE_CACHE_MAX_AGE_DAYS: z.coerce.number().int().positive().default(30),
+
+  // Per-run budgets (0 = unlimited); a batch stops starting PDFs once one is used up
+  BUDGET_MAX_COST_USD: z.coerce.number().min(0).default(0),
+  BUDGET_MAX_TOKENS: z.coerce.number().int().min(0).default(0),
+  BUDGET_MAX_API_CALLS: z.coerce.number().int().min(0).default(0),
+
+  // Message Batches (process --batch-api): how often to check whether submitted batches have ended
+  BATCH_POLL_INTERVAL_SECONDS: z.coerce.number().int().positive().default(60),
+
+  // Watch Mode (a PDF is queued once it has not changed for this long)
+  WATCH_DEBOUNCE_MS: z.coerce.number().int().positive().default(2000),
 });
 
 // Parse and validate environment variables
@@ -44,11 +84,28 @@ function validateEnv() {
   try {
     const parsed = envSchema.parse(process.env);
 
+    // The logger reads env, so this cannot go through it
+    for (const [name, replacement] of Object.entries(REMOVED_VARIABLES)) {
+      if (process.env[name] !== undefined) {
+        console.warn(`${name} is no longer used and is ignored: ${replacement}`);
+      }
+    }
+
     // Validate Grok API key if verification is enabled
-    if (parsed.ENABLE_GROK_VERIFICATION && !parsed.GROK_API_KEY) {
+    if (
+      parsed.ENABLE_GROK_VERIFICATION &&
+      parsed.VERIFICATION_PROVIDER === 'grok' &&
+      !parsed.GROK_API_KEY
+    ) {
       throw new Error('GROK_API_KEY is required when ENABLE_GROK_VERIFICATION is true');
     }
 
+    // Validate model name for the OpenAI-compatible provider if it is selected
+    const usesOpenAICompat = parsed.ENABLE_GROK_VERIFICATION && parsed.VERIFICATION_PROVIDER === 'openai-compatible';
+    if (usesOpenAICompat && !parsed.OPENAI_COMPAT_MODEL) {
+      throw new Error('OPENAI_COMPAT_MODEL is required when the openai-compatible provider is selected');
+    }
+
     return parsed;
   } catch (error) {
     if (error instanceof z.ZodError) {
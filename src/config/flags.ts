@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+// Boolean env flag; unlike z.coerce.boolean(), "false", "0", "no" and "off" read as false, and an
+// empty value (FLAG=) falls back to the default
+export const flag = (defaultValue: boolean) =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const normalized = value.trim().toLowerCase();
+    return normalized === '' ? undefined : !FALSE_VALUES.includes(normalized);
+  }, z.boolean().default(defaultValue));
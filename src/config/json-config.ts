@@ -0,0 +1,21 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+// Read and validate a JSON config file; `label` names it in errors, e.g. "review policy"
+export function readJsonConfig<T extends z.ZodTypeAny>(filePath: string, schema: T, label: string): z.output<T> {
+  const resolved = path.resolve(filePath);
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${label} ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Invalid ${label} in ${resolved}:\n${issues.join('\n')}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,21 @@
+import { env } from './env.js';
+import { readJsonConfig } from './json-config.js';
+import {
+  CompiledNamingRule,
+  compileNamingRules,
+  DEFAULT_NAMING_RULES,
+  namingRulesSchema,
+} from '../scanner/naming-rules.js';
+
+let rulesInstance: CompiledNamingRule[] | null = null;
+
+// Rules from the NAMING_RULES_PATH JSON file, or the built-in <code>-PI_EN.pdf rule
+export function getNamingRules(): CompiledNamingRule[] {
+  if (!rulesInstance) {
+    rulesInstance = compileNamingRules(
+      env.NAMING_RULES_PATH ? readJsonConfig(env.NAMING_RULES_PATH, namingRulesSchema, 'naming rules') : DEFAULT_NAMING_RULES
+    );
+  }
+
+  return rulesInstance;
+}
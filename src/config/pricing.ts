@@ -0,0 +1,29 @@
+import { env } from './env.js';
+import { readJsonConfig } from './json-config.js';
+import { computeCallCost, DEFAULT_PRICE_TABLE, PriceTable, priceTableSchema } from '../extractor/pricing.js';
+
+let tableInstance: PriceTable | null = null;
+
+// Built-in list prices, with models added or overridden by the MODEL_PRICING_PATH JSON file
+export function getPriceTable(): PriceTable {
+  if (!tableInstance) {
+    tableInstance = {
+      ...DEFAULT_PRICE_TABLE,
+      ...(env.MODEL_PRICING_PATH ? readJsonConfig(env.MODEL_PRICING_PATH, priceTableSchema, 'price table') : {}),
+    };
+  }
+
+  return tableInstance;
+}
+
+// Cost of one call in USD under the configured prices (null when the model is not priced).
+// `priceFactor` scales list prices, e.g. BATCH_PRICE_FACTOR for Message Batches requests.
+export function estimateCallCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  priceFactor: number = 1
+): number | null {
+  const cost = computeCallCost(model, inputTokens, outputTokens, getPriceTable());
+  return cost === null ? null : cost * priceFactor;
+}
@@ -0,0 +1,23 @@
+import { env } from './env.js';
+import { readJsonConfig } from './json-config.js';
+import {
+  DEFAULT_REVIEW_POLICY,
+  mergeReviewPolicy,
+  ReviewPolicy,
+  reviewPolicyOverridesSchema,
+} from '../verification/review-policy.js';
+
+let policyInstance: ReviewPolicy | null = null;
+
+// Thresholds from env, with any field overridden by the REVIEW_POLICY_PATH JSON file
+export function getReviewPolicy(): ReviewPolicy {
+  if (!policyInstance) {
+    policyInstance = mergeReviewPolicy(DEFAULT_REVIEW_POLICY, {
+      acceptSimilarity: env.VERIFICATION_SIMILARITY_THRESHOLD,
+      rejectSimilarity: env.AUTO_REJECT_SIMILARITY,
+      ...(env.REVIEW_POLICY_PATH ? readJsonConfig(env.REVIEW_POLICY_PATH, reviewPolicyOverridesSchema, 'review policy') : {}),
+    });
+  }
+
+  return policyInstance;
+}
@@ -0,0 +1,137 @@
+import { afterAll, beforeEach, describe, it, expect, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import type { PDFFileMetadata } from '../../scanner/file-parser.js';
+import type { ProductExtractionData } from '../../parser/json-validator.js';
+
+// The CLI (ProductRepository) and the API (api/src/services/override-service.ts) each resolve field
+// paths to rows; both run here against one in-memory database and must leave the same data behind
+const shared = vi.hoisted(() => ({ db: null as Database.Database | null }));
+
+vi.mock('../../config/env.js', () => ({ env: { DATABASE_PATH: ':memory:', LOG_DIR: '/tmp' } }));
+vi.mock('../../utils/logger.js', () => ({
+  default: { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined },
+}));
+vi.mock('../../config/database.js', () => ({ getDatabase: () => shared.db }));
+vi.mock('../../../api/src/services/db.js', () => ({ getDb: () => shared.db, getWritableDb: () => shared.db }));
+
+const { initializeDatabase } = await import('../schema.js');
+const { ProductRepository } = await import('../repository.js');
+const api = await import('../../../api/src/services/override-service.js');
+
+const data: ProductExtractionData = {
+  productName: 'Yummies',
+  productDescription: 'Gummies',
+  directions: 'Chew 2 gummies daily.',
+  caution: null,
+  supplementFacts: {
+    servings: '2 gummies',
+    servingsPerContainer: '30',
+    nutrients: [
+      { name: 'Vitamin C', amount: '90 mg', dailyValuePercentAdult: '100' },
+      { name: 'Zinc', amount: '5 mg', dailyValuePercentAdult: '45' },
+      { name: 'Zinc', amount: '2 mg', dailyValuePercentAdult: '18' },
+    ],
+  },
+  ingredients: [{ name: 'Gelatin', isOrganic: false }, { name: 'Sugar', isOrganic: true }],
+  dietaryAttributes: ['Gluten Free'],
+} as ProductExtractionData;
+
+const OVERRIDES: Array<[fieldPath: string, value: string | null]> = [
+  ['directions', 'Chew 1 gummy daily.'],
+  ['supplementFacts.servings', '1 gummy'],
+  ['supplementFacts.nutrients[Vitamin C].amount', '<1 g'],
+  ['supplementFacts.nutrients[Zinc#2].amount', '2.5 mg RAE'],
+  ['supplementFacts.nutrients[Zinc#2].dailyValuePercentAdult', '23'],
+  ['supplementFacts.nutrients[Zinc].amount', 'trace'],
+  ['ingredients[Sugar].isOrganic', 'false'],
+  ['dietaryAttributes[Gluten Free]', 'false'],
+  ['dietaryAttributes[Vegan]', 'true'],
+];
+
+function metadata(productCode: string): PDFFileMetadata {
+  return {
+    productCode,
+    productName: 'Yummies',
+    filePath: `/pdfs/${productCode} Yummies/${productCode}-PI_EN.pdf`,
+    folderPath: `/pdfs/${productCode} Yummies`,
+    fileName: `${productCode}-PI_EN.pdf`,
+  };
+}
+
+// Everything an override can touch, without IDs, so two products can be compared
+function snapshot(productCode: string) {
+  const db = shared.db!;
+  const { id } = db.prepare('SELECT id FROM products WHERE product_code = ?').get(productCode) as { id: number };
+  return {
+    product: db.prepare('SELECT directions FROM products WHERE id = ?').get(id),
+    facts: db.prepare('SELECT servings, servings_per_container FROM supplement_facts WHERE product_id = ?').get(id),
+    nutrients: db.prepare(`
+      SELECT nv.nutrient_name, nv.amount, nv.unit, nv.daily_value_percent_adult, nv.extraction_confidence, nv.needs_verification
+      FROM nutritional_values nv JOIN supplement_facts sf ON sf.id = nv.supplement_fact_id
+      WHERE sf.product_id = ? ORDER BY nv.display_order
+    `).all(id),
+    ingredients: db.prepare('SELECT ingredient_name, is_organic FROM ingredients WHERE product_id = ? ORDER BY display_order').all(id),
+    attributes: db.prepare('SELECT attribute_name FROM dietary_attributes WHERE product_id = ? ORDER BY attribute_name').all(id),
+    overrides: db
+      .prepare('SELECT field_path, override_value, extracted_value FROM field_overrides WHERE product_code = ? ORDER BY field_path')
+      .all(productCode),
+  };
+}
+
+describe('field overrides in the CLI and the API', () => {
+  let repository: InstanceType<typeof ProductRepository>;
+
+  beforeEach(() => {
+    shared.db?.close();
+    shared.db = new Database(':memory:');
+    initializeDatabase(shared.db);
+
+    repository = new ProductRepository();
+    repository.insertProduct(metadata('0101'), data, '{}');
+    repository.insertProduct(metadata('0102'), data, '{}');
+  });
+
+  afterAll(() => shared.db?.close());
+
+  it('write the same rows for every kind of field path', () => {
+    for (const [fieldPath, value] of OVERRIDES) {
+      repository.setFieldOverride('0101', fieldPath, value);
+      api.setOverride('0102', fieldPath, value);
+    }
+
+    const cli = snapshot('0101');
+    expect(snapshot('0102')).toEqual(cli);
+    expect(cli.nutrients).toContainEqual(
+      expect.objectContaining({ nutrient_name: 'Zinc', amount: '2.5', unit: 'mg RAE', extraction_confidence: 1, needs_verification: 0 })
+    );
+  });
+
+  it('restore the same extracted values when cleared', () => {
+    const before = snapshot('0101');
+    for (const [fieldPath, value] of OVERRIDES) {
+      repository.setFieldOverride('0101', fieldPath, value);
+      api.setOverride('0102', fieldPath, value);
+    }
+    for (const [fieldPath] of OVERRIDES) {
+      expect(repository.clearFieldOverride('0101', fieldPath)).toBe(true);
+      expect(api.clearOverride('0102', fieldPath)).toBe(true);
+    }
+
+    expect(snapshot('0102')).toEqual(snapshot('0101'));
+    expect(snapshot('0101').nutrients.map((row) => (row as { amount: string }).amount)).toEqual(
+      before.nutrients.map((row) => (row as { amount: string }).amount)
+    );
+  });
+
+  it('reject the same unknown and missing paths', () => {
+    for (const fieldPath of ['productCode', 'supplementFacts.nutrients[Zinc].unit', 'ingredients[Sugar].amount']) {
+      expect(() => repository.setFieldOverride('0101', fieldPath, 'x')).toThrow('Unknown field path');
+      expect(() => api.setOverride('0102', fieldPath, 'x')).toThrow('Unknown field path');
+    }
+
+    for (const fieldPath of ['supplementFacts.nutrients[Zinc#3].amount', 'ingredients[Honey].isOrganic']) {
+      expect(() => repository.setFieldOverride('0101', fieldPath, 'x')).toThrow('does not exist');
+      expect(() => api.setOverride('0102', fieldPath, 'x')).toThrow('does not exist');
+    }
+  });
+});
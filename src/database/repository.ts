@@ -9,11 +9,37 @@ import {
   ProcessingLog,
   ExtractionDiscrepancy,
   HumanReviewQueue,
+  VerificationExtraction,
+  ResponseCacheEntry,
+  ProductRevision,
+  FieldOverride,
+  VerificationRun,
+  PromptTemplateRecord,
+  EvalRun,
+  EvalScore,
+  ProcessingRun,
+  MessageBatch,
+  MessageBatchRequestRow,
 } from './schema.js';
 import { ProductExtractionData, SupplementFactsData } from '../parser/json-validator.js';
+import { FieldTarget, parseFieldPath } from '../parser/field-paths.js';
 import { PDFFileMetadata } from '../scanner/file-parser.js';
-import { Discrepancy } from '../verification/comparison-engine.js';
-import { ValidationWarning } from '../extractor/ai-extractor.js';
+import { DEFAULT_LANGUAGE, languageOf, productKey, productLabel } from '../scanner/language.js';
+import { DEFAULT_VARIANT, variantOf } from '../scanner/variants.js';
+import { InventoryProduct } from '../scanner/inventory.js';
+import { ComparisonEngine, ComparisonResult, Discrepancy } from '../verification/comparison-engine.js';
+import {
+  buildComparisonReport,
+  ComparisonInput,
+  ReportFormat,
+  writeComparisonReport,
+} from '../verification/comparison-report.js';
+import { ReplyParse, ValidationWarning } from '../extractor/ai-extractor.js';
+import { ApiUsage } from '../extractor/provider.js';
+import { MessageBatchReply } from '../extractor/message-batches.js';
+import { NutrientConfidence } from '../verification/nutrient-confidence.js';
+import { findPromptTemplate, hashPromptTemplate, PromptRef } from '../extractor/prompt-registry.js';
+import { AccuracyCategory, CategoryCounts } from '../verification/accuracy.js';
 import logger from '../utils/logger.js';
 import crypto from 'crypto';
 
@@ -22,8 +48,147 @@ export interface VerificationData {
   supplementFacts?: SupplementFactsData;
   extractionTimeMs?: number;
   modelVersion?: string;
+  prompt?: PromptRef; // Template of the verification call
+  comparison?: ComparisonResult; // Recorded in verification_results
+  runId?: number; // verification_runs row the comparison belongs to
+}
+
+export interface SimilarityBucket {
+  bucket: string;
+  count: number;
+}
+
+export interface LowSimilarityProduct {
+  product_code: string;
+  product_name: string;
+  similarity_score: number;
+  discrepancy_count: number;
+  field_total: number;
+  field_matching: number;
+  created_at: string;
+}
+
+// Provenance recorded with each product revision
+export interface RevisionInfo {
+  model?: string;
+  prompts?: PromptRef[];
+}
+
+// Revisions and verification rows made with one prompt template
+export interface PromptUsage {
+  prompt_id: string;
+  hash: string;
+  uses: number;
+  last_used_at: string | null;
+}
+
+// Token and dollar totals over a group of processing_log rows and their API calls
+export interface CostBreakdown {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number; // Priced calls only
+  unpriced_calls: number; // Calls to models missing from the price table
+  successful_extractions: number;
+}
+
+export interface RunCost extends CostBreakdown {
+  run_id: number;
+  command: string;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface SubbrandCost extends CostBreakdown {
+  subbrand: string | null;
+  products: number;
+}
+
+export interface ProductCost extends CostBreakdown {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string | null;
+  subbrand: string | null;
+}
+
+export interface ReplyParseCount {
+  part: string;
+  strategy: string;
+  replies: number;
+}
+
+export interface ModelCost {
+  provider: string;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null; // null when the model is not priced
 }
 
+// Read/write access to the stored value behind a field path
+interface FieldAccessor {
+  read(): string | null;
+  write(value: string | null): void;
+  verify?(): void; // Called after an override is written: nutrients are then fully confident
+}
+
+const PRODUCT_COLUMNS: Record<Extract<FieldTarget, { kind: 'product' }>['field'], string> = {
+  productName: 'product_name',
+  productSlogan: 'product_slogan',
+  productDescription: 'product_description',
+  subbrand: 'subbrand',
+  directions: 'directions',
+  caution: 'caution',
+  references: '"references"',
+};
+
+const SUPPLEMENT_FACTS_COLUMNS: Record<Extract<FieldTarget, { kind: 'supplementFacts' }>['field'], string> = {
+  servings: 'servings',
+  servingsPerContainer: 'servings_per_container',
+  calories: 'calories',
+  protein: 'protein',
+};
+
+const NUTRIENT_COLUMNS: Record<'dailyValuePercentAdult' | 'dailyValuePercentChildren', string> = {
+  dailyValuePercentAdult: 'daily_value_percent_adult',
+  dailyValuePercentChildren: 'daily_value_percent_children',
+};
+
+// Latest comparison per product, limited to products whose verification data is current
+const LATEST_VERIFICATION_RESULTS = `
+  SELECT MAX(id) FROM verification_results
+  WHERE product_id IN (SELECT product_id FROM verification_extractions)
+  GROUP BY product_id
+`;
+
+// processing_log rows with the totals of their API calls (mirrored in api/src/services/stats-service.ts)
+const LOG_COSTS = `
+  WITH call_totals AS (
+    SELECT processing_log_id, COUNT(*) as calls,
+           SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+           TOTAL(cost_usd) as cost_usd, SUM(cost_usd IS NULL) as unpriced_calls
+    FROM api_calls
+    GROUP BY processing_log_id
+  ),
+  log_costs AS (
+    SELECT l.*, COALESCE(c.calls, 0) as calls,
+           COALESCE(c.input_tokens, 0) as input_tokens, COALESCE(c.output_tokens, 0) as output_tokens,
+           COALESCE(c.cost_usd, 0) as cost_usd, COALESCE(c.unpriced_calls, 0) as unpriced_calls,
+           (l.action = 'extract' AND l.status = 'success') as succeeded
+    FROM processing_log l
+    LEFT JOIN call_totals c ON c.processing_log_id = l.id
+  )
+`;
+
+const COST_COLUMNS = `
+  COALESCE(SUM(lc.calls), 0) as calls,
+  COALESCE(SUM(lc.input_tokens), 0) as input_tokens, COALESCE(SUM(lc.output_tokens), 0) as output_tokens,
+  TOTAL(lc.cost_usd) as cost_usd, COALESCE(SUM(lc.unpriced_calls), 0) as unpriced_calls,
+  COALESCE(SUM(lc.succeeded), 0) as successful_extractions
+`;
+
 export class ProductRepository {
   private db: Database.Database;
 
@@ -36,7 +201,9 @@ export class ProductRepository {
     metadata: PDFFileMetadata,
     extractionData: ProductExtractionData,
     rawResponse: string,
-    verificationData?: VerificationData
+    verificationData?: VerificationData,
+    revision: RevisionInfo = {},
+    nutrientConfidence: NutrientConfidence[] = [] // Per nutrient, in order; unscored nutrients keep the defaults
   ): number {
     return this.db.transaction(() => {
       // Generate deterministic hash for ID tracking
@@ -45,6 +212,9 @@ export class ProductRepository {
       // Insert or update main product
       const productId = this.insertProductData(metadata, extractionData, rawResponse, idHash);
 
+      // Snapshot this extraction before related rows are replaced
+      this.insertRevision(productId, metadata, extractionData, revision);
+
       // Delete existing related records (for re-extraction scenarios)
       this.deleteRelatedData(productId);
 
@@ -52,7 +222,8 @@ export class ProductRepository {
       if (extractionData.supplementFacts && productId) {
         this.insertSupplementFactsWithExplicitId(
           productId,
-          extractionData.supplementFacts
+          extractionData.supplementFacts,
+          nutrientConfidence
         );
       }
 
@@ -69,13 +240,131 @@ export class ProductRepository {
       // Insert verification data if provided
       if (verificationData) {
         this.insertVerificationData(productId, verificationData);
+        if (verificationData.comparison) {
+          this.insertVerificationResult(productId, metadata.productCode, verificationData.comparison, verificationData.runId);
+        }
       }
 
-      logger.info(`Inserted/updated product ${metadata.productCode} with ID ${productId}`);
+      // Manual corrections win over freshly extracted values
+      this.reapplyFieldOverrides(productId, metadata.productCode, languageOf(metadata), variantOf(metadata));
+
+      logger.info(
+        `Inserted/updated product ${productLabel(metadata.productCode, languageOf(metadata), variantOf(metadata))} with ID ${productId}`
+      );
       return productId;
     })();
   }
 
+  // Append a revision snapshot of the full extraction
+  private insertRevision(
+    productId: number,
+    metadata: PDFFileMetadata,
+    extractionData: ProductExtractionData,
+    revision: RevisionInfo
+  ): void {
+    this.db.prepare(`
+      INSERT INTO product_revisions (
+        product_id, product_code, language, variant, revision_number, extraction_data,
+        model, prompts, pdf_file_hash
+      ) VALUES (
+        ?, ?, ?, ?,
+        (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM product_revisions WHERE product_id = ?),
+        ?, ?, ?, ?
+      )
+    `).run(
+      productId,
+      metadata.productCode,
+      languageOf(metadata),
+      variantOf(metadata),
+      productId,
+      JSON.stringify(extractionData),
+      revision.model || null,
+      revision.prompts ? JSON.stringify(revision.prompts) : null,
+      metadata.fileHash || null
+    );
+
+    this.recordPromptTemplates(revision.prompts || []);
+  }
+
+  // Keep the text of each template the first time it is used. A template edited without a
+  // version bump gets a second row under the same version, which is logged.
+  private recordPromptTemplates(refs: PromptRef[]): void {
+    for (const ref of refs) {
+      const template = findPromptTemplate(ref.id);
+      if (!template || template.version !== ref.version || hashPromptTemplate(template) !== ref.hash) {
+        continue; // Replayed extraction of an older template, recorded when it was used
+      }
+
+      const inserted = this.db.prepare(`
+        INSERT OR IGNORE INTO prompt_templates (prompt_id, version, hash, description, system_template, user_template)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(ref.id, ref.version, ref.hash, template.description, template.system ?? null, template.user);
+
+      if (inserted.changes > 0) {
+        const sameVersion = this.db.prepare(
+          'SELECT COUNT(*) as count FROM prompt_templates WHERE prompt_id = ? AND version = ? AND hash != ?'
+        ).get(ref.id, ref.version, ref.hash) as { count: number };
+        if (sameVersion.count > 0) {
+          logger.warn(`Prompt template ${ref.id} changed without a version bump (still v${ref.version}, now ${ref.hash})`);
+        }
+      }
+    }
+  }
+
+  // Every template text recorded so far, oldest first
+  getPromptTemplateRecords(): PromptTemplateRecord[] {
+    return this.db.prepare(
+      'SELECT * FROM prompt_templates ORDER BY prompt_id, first_used_at, version'
+    ).all() as PromptTemplateRecord[];
+  }
+
+  // How often each template hash was used by product revisions and verification extractions
+  getPromptUsage(): PromptUsage[] {
+    return this.db.prepare(`
+      SELECT prompt_id, hash, SUM(uses) as uses, MAX(last_used_at) as last_used_at
+      FROM (
+        SELECT json_extract(p.value, '$.id') as prompt_id, json_extract(p.value, '$.hash') as hash,
+               COUNT(*) as uses, MAX(r.created_at) as last_used_at
+        FROM product_revisions r, json_each(r.prompts) p
+        WHERE r.prompts IS NOT NULL
+        GROUP BY 1, 2
+        UNION ALL
+        SELECT prompt_id, prompt_hash, COUNT(*), MAX(created_at)
+        FROM verification_extractions
+        WHERE prompt_hash IS NOT NULL
+        GROUP BY 1, 2
+      )
+      GROUP BY prompt_id, hash
+    `).all() as PromptUsage[];
+  }
+
+  // Get all revisions of a product, oldest first
+  getRevisions(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): ProductRevision[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM product_revisions WHERE product_code = ? AND language = ? AND variant = ? ORDER BY revision_number'
+    );
+    return stmt.all(productCode, language, variant) as ProductRevision[];
+  }
+
+  // Get the most recent revision of a product
+  getLatestRevision(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): ProductRevision | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM product_revisions
+      WHERE product_code = ? AND language = ? AND variant = ?
+      ORDER BY revision_number DESC LIMIT 1
+    `);
+    const result = stmt.get(productCode, language, variant);
+    return result ? (result as ProductRevision) : null;
+  }
+
   // Generate deterministic ID hash
   private generateIdHash(productCode: string, filePath: string): string {
     const hashInput = `${productCode}::${filePath}`;
@@ -111,12 +400,13 @@ export class ProductRepository {
   ): number {
     const stmt = this.db.prepare(`
       INSERT INTO products (
-        product_code, product_name, product_slogan, product_description,
+        product_code, language, variant, variant_name, product_name, product_slogan, product_description,
         subbrand, directions, caution, "references",
         pdf_file_path, folder_path, extraction_status, raw_ai_response,
-        id_verification_hash, raw_text_extraction
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(product_code) DO UPDATE SET
+        id_verification_hash, raw_text_extraction, pdf_file_hash, pdf_modified_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(product_code, language, variant) DO UPDATE SET
+        variant_name = excluded.variant_name,
         product_name = excluded.product_name,
         product_slogan = excluded.product_slogan,
         product_description = excluded.product_description,
@@ -130,11 +420,17 @@ export class ProductRepository {
         raw_ai_response = excluded.raw_ai_response,
         id_verification_hash = excluded.id_verification_hash,
         raw_text_extraction = excluded.raw_text_extraction,
+        pdf_file_hash = COALESCE(excluded.pdf_file_hash, products.pdf_file_hash),
+        pdf_modified_at = COALESCE(excluded.pdf_modified_at, products.pdf_modified_at),
+        orphaned_at = NULL,
         updated_at = CURRENT_TIMESTAMP
     `);
 
     stmt.run(
       metadata.productCode,
+      languageOf(metadata),
+      variantOf(metadata),
+      metadata.variantName || null,
       data.productName,
       data.productSlogan || null,
       data.productDescription,
@@ -147,13 +443,15 @@ export class ProductRepository {
       'completed',
       rawResponse,
       idHash,
-      null // raw_text_extraction - can be added later if needed
+      null, // raw_text_extraction - can be added later if needed
+      metadata.fileHash || null,
+      metadata.fileModifiedAt || null
     );
 
     // Get the product ID (either newly inserted or existing)
     const product = this.db
-      .prepare('SELECT id FROM products WHERE product_code = ?')
-      .get(metadata.productCode) as { id: number };
+      .prepare('SELECT id FROM products WHERE product_code = ? AND language = ? AND variant = ?')
+      .get(metadata.productCode, languageOf(metadata), variantOf(metadata)) as { id: number };
 
     return product.id;
   }
@@ -161,7 +459,8 @@ export class ProductRepository {
   // Insert supplement facts with explicit ID = productId (ensures ID alignment)
   private insertSupplementFactsWithExplicitId(
     productId: number,
-    supplementFacts: NonNullable<ProductExtractionData['supplementFacts']>
+    supplementFacts: NonNullable<ProductExtractionData['supplementFacts']>,
+    nutrientConfidence: NutrientConfidence[]
   ): void {
     // CRITICAL: Set supplement_facts.id = productId explicitly
     const stmt = this.db.prepare(`
@@ -181,7 +480,7 @@ export class ProductRepository {
 
     // Insert nutritional values
     if (supplementFacts.nutrients && supplementFacts.nutrients.length > 0) {
-      this.insertNutritionalValues(productId, supplementFacts.nutrients);
+      this.insertNutritionalValues(productId, supplementFacts.nutrients, nutrientConfidence);
     }
   }
 
@@ -209,17 +508,20 @@ export class ProductRepository {
 
   private insertNutritionalValues(
     supplementFactId: number,
-    nutrients: NonNullable<ProductExtractionData['supplementFacts']>['nutrients']
+    nutrients: NonNullable<ProductExtractionData['supplementFacts']>['nutrients'],
+    nutrientConfidence: NutrientConfidence[]
   ): void {
     const stmt = this.db.prepare(`
       INSERT INTO nutritional_values (
         supplement_fact_id, nutrient_name, unit, amount,
-        daily_value_percent_adult, daily_value_percent_children, display_order
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        daily_value_percent_adult, daily_value_percent_children, display_order,
+        extraction_confidence, needs_verification
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     nutrients.forEach((nutrient, index) => {
       const { amount, unit } = this.parseAmountUnit(nutrient.amount);
+      const confidence = nutrientConfidence[index];
       stmt.run(
         supplementFactId,
         nutrient.name,
@@ -227,7 +529,9 @@ export class ProductRepository {
         amount,
         nutrient.dailyValuePercentAdult || null,
         nutrient.dailyValuePercentChildren || null,
-        index
+        index,
+        confidence?.confidence ?? 1.0,
+        confidence?.needsVerification ? 1 : 0
       );
     });
   }
@@ -276,37 +580,193 @@ export class ProductRepository {
   ): void {
     const stmt = this.db.prepare(`
       INSERT INTO products (
-        product_code, product_name, pdf_file_path, folder_path,
-        extraction_status, error_message, raw_ai_response, subbrand
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(product_code) DO UPDATE SET
+        product_code, language, variant, variant_name, product_name, pdf_file_path, folder_path,
+        extraction_status, error_message, raw_ai_response, subbrand,
+        pdf_file_hash, pdf_modified_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(product_code, language, variant) DO UPDATE SET
         extraction_status = 'failed',
         error_message = excluded.error_message,
         raw_ai_response = excluded.raw_ai_response,
+        pdf_file_hash = COALESCE(excluded.pdf_file_hash, products.pdf_file_hash),
+        pdf_modified_at = COALESCE(excluded.pdf_modified_at, products.pdf_modified_at),
+        orphaned_at = NULL,
         updated_at = CURRENT_TIMESTAMP
     `);
 
     stmt.run(
       metadata.productCode,
+      languageOf(metadata),
+      variantOf(metadata),
+      metadata.variantName || null,
       metadata.productName,
       metadata.filePath,
       metadata.folderPath,
       'failed',
       errorMessage,
       rawResponse || null,
-      metadata.subbrand || null
+      metadata.subbrand || null,
+      metadata.fileHash || null,
+      metadata.fileModifiedAt || null
     );
   }
 
   // Check if product already processed
-  isProductProcessed(productCode: string): boolean {
+  isProductProcessed(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): boolean {
     const stmt = this.db.prepare(
-      'SELECT id FROM products WHERE product_code = ? AND extraction_status = ?'
+      'SELECT id FROM products WHERE product_code = ? AND language = ? AND variant = ? AND extraction_status = ?'
     );
-    const result = stmt.get(productCode, 'completed');
+    const result = stmt.get(productCode, language, variant, 'completed');
     return result !== undefined;
   }
 
+  // Language of the products extracted from each PDF hash, so scans can skip text-layer language
+  // detection for unchanged PDFs. Hashes stored under more than one language are left out.
+  getLanguagesByFileHash(): Map<string, string> {
+    const rows = this.db.prepare(`
+      SELECT pdf_file_hash, MIN(language) AS language
+      FROM products
+      WHERE pdf_file_hash IS NOT NULL
+      GROUP BY pdf_file_hash
+      HAVING COUNT(DISTINCT language) = 1
+    `).all() as Array<{ pdf_file_hash: string; language: string }>;
+
+    return new Map(rows.map((row) => [row.pdf_file_hash, row.language]));
+  }
+
+  // Stored fingerprints keyed by productKey(code, language, variant) (for change detection)
+  getFileFingerprints(): Map<string, Pick<Product, 'pdf_file_hash' | 'pdf_modified_at' | 'updated_at' | 'extraction_status'>> {
+    const rows = this.db.prepare(`
+      SELECT product_code, language, variant, pdf_file_hash, pdf_modified_at, updated_at, extraction_status
+      FROM products
+    `).all() as Array<
+      Pick<Product, 'product_code' | 'pdf_file_hash' | 'pdf_modified_at' | 'updated_at' | 'extraction_status'> & {
+        language: string;
+        variant: string;
+      }
+    >;
+
+    return new Map(
+      rows.map(({ product_code, language, variant, ...fingerprint }) => [productKey(product_code, language, variant), fingerprint])
+    );
+  }
+
+  // Record a fingerprint without re-extracting (backfill for rows extracted before v7)
+  updateFileFingerprint(
+    productCode: string,
+    language: string,
+    variant: string,
+    fileHash: string,
+    fileModifiedAt: string
+  ): void {
+    this.db.prepare(`
+      UPDATE products
+      SET pdf_file_hash = ?, pdf_modified_at = ?
+      WHERE product_code = ? AND language = ? AND variant = ?
+    `).run(fileHash, fileModifiedAt, productCode, language, variant);
+  }
+
+  // Store the 0-based page of the Supplement Facts panel found in the text layer (kept 1-based, as
+  // PDF viewers number pages); null clears a page from an earlier extraction
+  setSupplementFactsPage(productId: number, page: number | null): void {
+    this.db
+      .prepare('UPDATE products SET supplement_facts_page = ? WHERE id = ?')
+      .run(page === null ? null : page + 1, productId);
+  }
+
+  // A sheet's variant changes when a sibling with the same code and language appears or goes away
+  // (a lone sheet is variant ''). Move the row stored under its old variant, found by the PDF path,
+  // with its revisions and field overrides, so it is not orphaned. Returns the number of rows moved.
+  moveRenamedVariants(scanned: PDFFileMetadata[]): number {
+    const scannedKeys = new Set(scanned.map((pdf) => productKey(pdf.productCode, languageOf(pdf), variantOf(pdf))));
+    const exists = this.db.prepare('SELECT 1 FROM products WHERE product_code = ? AND language = ? AND variant = ?');
+    const previous = this.db.prepare(
+      'SELECT id, variant FROM products WHERE product_code = ? AND language = ? AND pdf_file_path = ? AND variant != ?'
+    );
+    const moveProduct = this.db.prepare('UPDATE products SET variant = ?, variant_name = ? WHERE id = ?');
+    const moveRevisions = this.db.prepare('UPDATE product_revisions SET variant = ? WHERE product_id = ?');
+    const moveOverrides = this.db.prepare(
+      'UPDATE field_overrides SET variant = ? WHERE product_code = ? AND language = ? AND variant = ?'
+    );
+
+    return this.db.transaction(() => {
+      let moved = 0;
+      for (const pdf of scanned) {
+        const language = languageOf(pdf);
+        const variant = variantOf(pdf);
+        if (exists.get(pdf.productCode, language, variant)) continue;
+
+        const row = previous.get(pdf.productCode, language, pdf.filePath, variant) as { id: number; variant: string } | undefined;
+        if (!row || scannedKeys.has(productKey(pdf.productCode, language, row.variant))) continue;
+
+        moveProduct.run(variant, pdf.variantName ?? null, row.id);
+        moveRevisions.run(variant, row.id);
+        moveOverrides.run(variant, pdf.productCode, language, row.variant);
+
+        logger.info(
+          `Moved ${productLabel(pdf.productCode, language, row.variant)} to ${productLabel(pdf.productCode, language, variant)}`
+        );
+        moved++;
+      }
+      return moved;
+    })();
+  }
+
+  // Flag products whose PDF was not found in the latest scan; un-flag those that reappeared.
+  // Scanned sheets are identified by productKey(code, language, variant).
+  markOrphanedProducts(scannedKeys: string[]): number {
+    return this.db.transaction(() => {
+      const scanned = new Set(scannedKeys);
+      const products = this.db
+        .prepare('SELECT id, product_code, language, variant, orphaned_at FROM products')
+        .all() as Array<{ id: number; product_code: string; language: string; variant: string; orphaned_at: string | null }>;
+
+      const flag = this.db.prepare(
+        'UPDATE products SET orphaned_at = CURRENT_TIMESTAMP WHERE id = ?'
+      );
+      const unflag = this.db.prepare(
+        'UPDATE products SET orphaned_at = NULL WHERE id = ?'
+      );
+
+      let orphaned = 0;
+      for (const product of products) {
+        if (!scanned.has(productKey(product.product_code, product.language, product.variant))) {
+          if (!product.orphaned_at) {
+            flag.run(product.id);
+          }
+          orphaned++;
+        } else if (product.orphaned_at) {
+          unflag.run(product.id);
+        }
+      }
+
+      return orphaned;
+    })();
+  }
+
+  // Get products whose source PDF is missing
+  getOrphanedProducts(): Product[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM products WHERE orphaned_at IS NOT NULL ORDER BY product_code'
+    );
+    return stmt.all() as Product[];
+  }
+
+  // Every product row with the fields the inventory report reconciles against the scan
+  getInventoryProducts(): InventoryProduct[] {
+    const stmt = this.db.prepare(`
+      SELECT product_code, language, variant, product_name, pdf_file_path, folder_path,
+             extraction_status, updated_at
+      FROM products
+      ORDER BY product_code, language, variant
+    `);
+    return stmt.all() as InventoryProduct[];
+  }
+
   // Get failed products
   getFailedProducts(): Product[] {
     const stmt = this.db.prepare(
@@ -315,6 +775,14 @@ export class ProductRepository {
     return stmt.all('failed') as Product[];
   }
 
+  // Get products that have a stored model reply (for offline reprocessing)
+  getProductsWithRawResponse(): Product[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM products WHERE raw_ai_response IS NOT NULL AND raw_ai_response != '' ORDER BY product_code"
+    );
+    return stmt.all() as Product[];
+  }
+
   // Get all products
   getAllProducts(): Product[] {
     const stmt = this.db.prepare('SELECT * FROM products ORDER BY product_code');
@@ -322,7 +790,11 @@ export class ProductRepository {
   }
 
   // Get product with all related data
-  getProductWithDetails(productCode: string): {
+  getProductWithDetails(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): {
     product: Product | null;
     supplementFacts: SupplementFact | null;
     nutrients: NutritionalValue[];
@@ -330,8 +802,8 @@ export class ProductRepository {
     dietaryAttributes: DietaryAttribute[];
   } | null {
     const product = this.db
-      .prepare('SELECT * FROM products WHERE product_code = ?')
-      .get(productCode) as Product | undefined;
+      .prepare('SELECT * FROM products WHERE product_code = ? AND language = ? AND variant = ?')
+      .get(productCode, language, variant) as Product | undefined;
 
     if (!product) {
       return null;
@@ -366,22 +838,45 @@ export class ProductRepository {
     };
   }
 
-  // Log processing action
-  logProcessing(log: Omit<ProcessingLog, 'id' | 'timestamp'>): void {
-    const stmt = this.db.prepare(`
+  // Log processing action with the API calls made for it; returns the processing_log ID
+  logProcessing(
+    log: Omit<ProcessingLog, 'id' | 'timestamp'>,
+    usage: ApiUsage[] = [],
+    parses: ReplyParse[] = []
+  ): number {
+    const logStmt = this.db.prepare(`
       INSERT INTO processing_log (
-        product_code, pdf_file_path, action, status, error_message, processing_time_ms
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        product_code, language, variant, pdf_file_path, action, status, error_message, processing_time_ms, run_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const callStmt = this.db.prepare(`
+      INSERT INTO api_calls (processing_log_id, provider, model, prompt_id, input_tokens, output_tokens, cost_usd)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
+    const parseStmt = this.db.prepare('INSERT INTO reply_parses (processing_log_id, part, strategy) VALUES (?, ?, ?)');
 
-    stmt.run(
-      log.product_code || null,
-      log.pdf_file_path || null,
-      log.action,
-      log.status,
-      log.error_message || null,
-      log.processing_time_ms || null
-    );
+    return this.db.transaction(() => {
+      const logId = logStmt.run(
+        log.product_code || null,
+        log.language ?? null,
+        log.variant ?? null,
+        log.pdf_file_path || null,
+        log.action,
+        log.status,
+        log.error_message || null,
+        log.processing_time_ms || null,
+        log.run_id ?? null
+      ).lastInsertRowid as number;
+
+      for (const call of usage) {
+        callStmt.run(logId, call.provider, call.model, call.promptId ?? null, call.inputTokens, call.outputTokens, call.costUsd);
+      }
+      for (const parse of parses) {
+        parseStmt.run(logId, parse.part, parse.strategy);
+      }
+
+      return logId;
+    })();
   }
 
   // Get processing statistics
@@ -453,13 +948,16 @@ export class ProductRepository {
     const stmt = this.db.prepare(`
       INSERT INTO verification_extractions (
         product_id, raw_grok_response, supplement_facts_data,
-        extraction_time_ms, model_version
-      ) VALUES (?, ?, ?, ?, ?)
+        extraction_time_ms, model_version, prompt_id, prompt_version, prompt_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(product_id) DO UPDATE SET
         raw_grok_response = excluded.raw_grok_response,
         supplement_facts_data = excluded.supplement_facts_data,
         extraction_time_ms = excluded.extraction_time_ms,
         model_version = excluded.model_version,
+        prompt_id = excluded.prompt_id,
+        prompt_version = excluded.prompt_version,
+        prompt_hash = excluded.prompt_hash,
         created_at = CURRENT_TIMESTAMP
     `);
 
@@ -468,8 +966,110 @@ export class ProductRepository {
       data.rawResponse,
       data.supplementFacts ? JSON.stringify(data.supplementFacts) : null,
       data.extractionTimeMs || null,
-      data.modelVersion || 'grok-2-vision-1212'
+      data.modelVersion || 'grok-2-vision-1212',
+      data.prompt?.id || null,
+      data.prompt?.version ?? null,
+      data.prompt?.hash || null
     );
+
+    this.recordPromptTemplates(data.prompt ? [data.prompt] : []);
+  }
+
+  // Get stored Grok verification data for a product
+  getVerificationExtraction(productId: number): VerificationExtraction | null {
+    const stmt = this.db.prepare('SELECT * FROM verification_extractions WHERE product_id = ?');
+    const result = stmt.get(productId);
+    return result ? (result as VerificationExtraction) : null;
+  }
+
+  // Record a comparison's similarity score and field counts (kept across re-extractions)
+  private insertVerificationResult(
+    productId: number,
+    productCode: string,
+    comparison: ComparisonResult,
+    runId?: number
+  ): void {
+    this.db.prepare(`
+      INSERT INTO verification_results (
+        run_id, product_id, product_code, similarity_score, field_total, field_matching,
+        field_different, field_missing, discrepancy_count, recommends_review
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      runId ?? null,
+      productId,
+      productCode,
+      comparison.similarityScore,
+      comparison.fieldCounts.total,
+      comparison.fieldCounts.matching,
+      comparison.fieldCounts.different,
+      comparison.fieldCounts.missing,
+      comparison.discrepancies.length,
+      comparison.recommendsReview ? 1 : 0
+    );
+  }
+
+  // Open a verification run for a process/retry/reprocess invocation
+  startVerificationRun(command: string, similarityThreshold: number): number {
+    const result = this.db
+      .prepare('INSERT INTO verification_runs (command, similarity_threshold) VALUES (?, ?)')
+      .run(command, similarityThreshold);
+    return result.lastInsertRowid as number;
+  }
+
+  // Close a run and store aggregates over the comparisons recorded during it
+  completeVerificationRun(runId: number): VerificationRun {
+    this.db.prepare(`
+      UPDATE verification_runs SET
+        products_compared = (SELECT COUNT(*) FROM verification_results WHERE run_id = verification_runs.id),
+        average_similarity = (SELECT ROUND(AVG(similarity_score), 1) FROM verification_results WHERE run_id = verification_runs.id),
+        min_similarity = (SELECT MIN(similarity_score) FROM verification_results WHERE run_id = verification_runs.id),
+        below_threshold_count = (
+          SELECT COUNT(*) FROM verification_results
+          WHERE run_id = verification_runs.id AND similarity_score < verification_runs.similarity_threshold
+        ),
+        completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(runId);
+
+    return this.db.prepare('SELECT * FROM verification_runs WHERE id = ?').get(runId) as VerificationRun;
+  }
+
+  // Most recent completed runs that compared at least one product, newest first
+  getVerificationRuns(limit: number = 10): VerificationRun[] {
+    return this.db.prepare(`
+      SELECT * FROM verification_runs
+      WHERE completed_at IS NOT NULL AND products_compared > 0
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(limit) as VerificationRun[];
+  }
+
+  // Latest score per product that still has verification data, in 10-point buckets
+  getSimilarityDistribution(): SimilarityBucket[] {
+    const rows = this.db.prepare(`
+      SELECT MIN(CAST(similarity_score / 10 AS INTEGER), 9) * 10 as bucket, COUNT(*) as count
+      FROM verification_results
+      WHERE id IN (${LATEST_VERIFICATION_RESULTS})
+      GROUP BY bucket
+    `).all() as Array<{ bucket: number; count: number }>;
+
+    const counts = new Map(rows.map(r => [r.bucket, r.count]));
+    return Array.from({ length: 10 }, (_, i) => ({
+      bucket: `${i * 10}-${i === 9 ? 100 : i * 10 + 9}`,
+      count: counts.get(i * 10) ?? 0,
+    }));
+  }
+
+  // Products whose latest comparison scored below the threshold, lowest first
+  getProductsBelowSimilarity(threshold: number): LowSimilarityProduct[] {
+    return this.db.prepare(`
+      SELECT p.product_code, p.product_name, r.similarity_score, r.discrepancy_count,
+             r.field_total, r.field_matching, r.created_at
+      FROM verification_results r
+      JOIN products p ON p.id = r.product_id
+      WHERE r.id IN (${LATEST_VERIFICATION_RESULTS}) AND r.similarity_score < ?
+      ORDER BY r.similarity_score ASC, p.product_code ASC
+    `).all(threshold) as LowSimilarityProduct[];
   }
 
   // Insert discrepancies between Claude and Grok
@@ -530,27 +1130,18 @@ export class ProductRepository {
     logger.info(`Inserted ${warnings.length} validation warnings for product ${productId}`);
   }
 
-  // Add product to human review queue
+  // Add product to human review queue; priority comes from the review policy
   addToReviewQueue(
     productId: number,
     productCode: string,
     discrepancies: Discrepancy[],
-    validationWarnings?: ValidationWarning[]
+    validationWarnings: ValidationWarning[],
+    priority: number
   ): void {
-    const comparisonHighCount = discrepancies.filter(d => d.severity === 'high').length;
-    const comparisonMediumCount = discrepancies.filter(d => d.severity === 'medium').length;
-
-    const validationHighCount = (validationWarnings || []).filter(w => w.severity === 'high').length;
-    const validationMediumCount = (validationWarnings || []).filter(w => w.severity === 'medium').length;
-
-    // Total counts
-    const totalHighCount = comparisonHighCount + validationHighCount;
-    const totalMediumCount = comparisonMediumCount + validationMediumCount;
-    const totalDiscrepancies = discrepancies.length + (validationWarnings || []).length;
-
-    // Priority formula: validation errors weighted higher (3x) than comparison discrepancies (2x)
-    // because they indicate persistent data quality issues
-    const priority = (validationHighCount * 3) + (comparisonHighCount * 2) + totalMediumCount;
+    const issues = [...discrepancies, ...validationWarnings];
+    const totalHighCount = issues.filter(d => d.severity === 'high').length;
+    const totalMediumCount = issues.filter(d => d.severity === 'medium').length;
+    const totalDiscrepancies = issues.length;
 
     const stmt = this.db.prepare(`
       INSERT INTO human_review_queue (
@@ -596,13 +1187,32 @@ export class ProductRepository {
     return stmt.all(productId) as ExtractionDiscrepancy[];
   }
 
-  // Get product by code
-  getProductByCode(productCode: string): Product | null {
-    const stmt = this.db.prepare('SELECT * FROM products WHERE product_code = ?');
-    const result = stmt.get(productCode);
+  // Get product by code, language and variant
+  getProductByCode(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): Product | null {
+    const stmt = this.db.prepare('SELECT * FROM products WHERE product_code = ? AND language = ? AND variant = ?');
+    const result = stmt.get(productCode, language, variant);
     return result ? (result as Product) : null;
   }
 
+  // Languages stored for a product code, default language first
+  getProductLanguages(productCode: string): string[] {
+    const rows = this.db
+      .prepare('SELECT DISTINCT language FROM products WHERE product_code = ? ORDER BY language = ? DESC, language')
+      .all(productCode, DEFAULT_LANGUAGE) as Array<{ language: string }>;
+    return rows.map(row => row.language);
+  }
+
+  // Variants stored for a product code and language ('' when it has a single sheet)
+  getProductVariants(productCode: string, language: string = DEFAULT_LANGUAGE): Array<Pick<Product, 'variant' | 'variant_name'>> {
+    return this.db
+      .prepare('SELECT variant, variant_name FROM products WHERE product_code = ? AND language = ? ORDER BY variant')
+      .all(productCode, language) as Array<Pick<Product, 'variant' | 'variant_name'>>;
+  }
+
   // Mark review as resolved
   markReviewResolved(productId: number, notes: string): void {
     const stmt = this.db.prepare(`
@@ -635,17 +1245,695 @@ export class ProductRepository {
       .prepare("SELECT COUNT(DISTINCT product_id) as count FROM extraction_discrepancies WHERE severity = 'high'")
       .get() as { count: number };
 
+    const similarity = this.db
+      .prepare(`SELECT AVG(similarity_score) as average FROM verification_results WHERE id IN (${LATEST_VERIFICATION_RESULTS})`)
+      .get() as { average: number | null };
+
     return {
       totalCompared: totalCompared.count,
-      averageSimilarity: 0, // TODO: Calculate from comparison results
+      averageSimilarity: similarity.average !== null ? Math.round(similarity.average * 10) / 10 : 0,
       highDiscrepancyCount: highDiscrepancies.count,
       pendingReviewCount: pendingReviews.count
     };
   }
 
-  // Export comparison report to CSV
-  async exportComparisonReport(outputPath: string): Promise<void> {
-    // TODO: Implement CSV export of comparison data
-    logger.info(`Export comparison report to ${outputPath} - not yet implemented`);
+  // Claude and Grok supplement facts for every verified product, re-compared with the engine
+  getComparisonInputs(): ComparisonInput[] {
+    const rows = this.db.prepare(`
+      SELECT p.id, p.product_code, p.product_name, v.supplement_facts_data, q.review_status
+      FROM products p
+      JOIN verification_extractions v ON v.product_id = p.id
+      LEFT JOIN human_review_queue q ON q.product_id = p.id
+      WHERE p.extraction_status = 'completed' AND v.supplement_facts_data IS NOT NULL
+      ORDER BY p.product_code
+    `).all() as Array<{
+      id: number;
+      product_code: string;
+      product_name: string;
+      supplement_facts_data: string;
+      review_status: string | null;
+    }>;
+
+    const engine = new ComparisonEngine();
+    const inputs: ComparisonInput[] = [];
+
+    for (const row of rows) {
+      const claude = this.getComparedSupplementFacts(row.id);
+      if (!claude) continue;
+
+      const grok = JSON.parse(row.supplement_facts_data) as SupplementFactsData;
+      grok.nutrients = grok.nutrients || [];
+
+      inputs.push({
+        productCode: row.product_code,
+        productName: row.product_name,
+        reviewStatus: row.review_status,
+        claude,
+        grok,
+        result: engine.compareSupplementFacts(claude, grok),
+      });
+    }
+
+    return inputs;
+  }
+
+  // Supplement facts as extracted: latest revision snapshot, else the stored rows (pre-revision products)
+  private getComparedSupplementFacts(productId: number): SupplementFactsData | null {
+    const revision = this.db
+      .prepare('SELECT * FROM product_revisions WHERE product_id = ? ORDER BY revision_number DESC LIMIT 1')
+      .get(productId) as ProductRevision | undefined;
+    if (revision) {
+      const data = JSON.parse(revision.extraction_data) as ProductExtractionData;
+      return data.supplementFacts ? { ...data.supplementFacts, nutrients: data.supplementFacts.nutrients || [] } : null;
+    }
+
+    const facts = this.db
+      .prepare('SELECT * FROM supplement_facts WHERE product_id = ?')
+      .get(productId) as SupplementFact | undefined;
+    if (!facts) return null;
+
+    const nutrients = this.db
+      .prepare('SELECT * FROM nutritional_values WHERE supplement_fact_id = ? ORDER BY display_order')
+      .all(facts.id) as NutritionalValue[];
+
+    return {
+      servings: facts.servings || '',
+      servingsPerContainer: facts.servings_per_container || '',
+      calories: facts.calories,
+      protein: facts.protein,
+      nutrients: nutrients.map(n => ({
+        name: n.nutrient_name,
+        amount: n.amount ? [n.amount, n.unit].filter(Boolean).join(' ') : null,
+        dailyValuePercentAdult: n.daily_value_percent_adult,
+        dailyValuePercentChildren: n.daily_value_percent_children,
+      })),
+    };
+  }
+
+  // Write the Claude vs Grok comparison report; returns the files written
+  async exportComparisonReport(outputPath: string, formats?: ReportFormat[]): Promise<string[]> {
+    const report = buildComparisonReport(this.getComparisonInputs());
+    const files = writeComparisonReport(report, outputPath, formats);
+    logger.info(`Exported comparison report for ${report.products.length} products to ${files.join(', ')}`);
+    return files;
+  }
+
+  // ===== RESPONSE CACHE METHODS =====
+
+  // Look up a cached model response and record the hit
+  getCachedResponse(cacheKey: string): ResponseCacheEntry | null {
+    const entry = this.db
+      .prepare('SELECT * FROM response_cache WHERE cache_key = ?')
+      .get(cacheKey) as ResponseCacheEntry | undefined;
+
+    if (!entry) {
+      return null;
+    }
+
+    this.db
+      .prepare('UPDATE response_cache SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE cache_key = ?')
+      .run(cacheKey);
+
+    return entry;
+  }
+
+  // Store a model response under its content-addressed key
+  setCachedResponse(entry: ResponseCacheEntry): void {
+    this.db.prepare(`
+      INSERT INTO response_cache (cache_key, provider, model, pdf_hash, response_text)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(cache_key) DO UPDATE SET
+        response_text = excluded.response_text,
+        created_at = CURRENT_TIMESTAMP
+    `).run(entry.cache_key, entry.provider, entry.model, entry.pdf_hash, entry.response_text);
+  }
+
+  // Remove cached responses (e.g. replies that failed to parse)
+  deleteCachedResponses(cacheKeys: string[]): void {
+    const stmt = this.db.prepare('DELETE FROM response_cache WHERE cache_key = ?');
+    for (const key of cacheKeys) {
+      stmt.run(key);
+    }
+  }
+
+  // Remove every cached response for a PDF (all providers and prompts); returns the number removed
+  deleteCachedResponsesForPdf(pdfHash: string): number {
+    return this.db.prepare('DELETE FROM response_cache WHERE pdf_hash = ?').run(pdfHash).changes;
+  }
+
+  // Delete entries not used within the given number of days (all entries if omitted)
+  pruneResponseCache(olderThanDays?: number): number {
+    if (olderThanDays === undefined) {
+      return this.db.prepare('DELETE FROM response_cache').run().changes;
+    }
+
+    return this.db.prepare(`
+      DELETE FROM response_cache
+      WHERE COALESCE(last_hit_at, created_at) < datetime('now', ?)
+    `).run(`-${olderThanDays} days`).changes;
+  }
+
+  // Get cache size and lifetime hit counts per provider
+  getResponseCacheStatistics(): Array<{
+    provider: string;
+    model: string;
+    entries: number;
+    totalHits: number;
+    sizeBytes: number;
+  }> {
+    return this.db.prepare(`
+      SELECT
+        provider,
+        model,
+        COUNT(*) as entries,
+        COALESCE(SUM(hit_count), 0) as totalHits,
+        COALESCE(SUM(LENGTH(response_text)), 0) as sizeBytes
+      FROM response_cache
+      GROUP BY provider, model
+      ORDER BY provider, model
+    `).all() as Array<{
+      provider: string;
+      model: string;
+      entries: number;
+      totalHits: number;
+      sizeBytes: number;
+    }>;
+  }
+
+  // ===== EVALUATION METHODS =====
+
+  startEvalRun(run: Pick<EvalRun, 'label' | 'golden_set_path' | 'provider' | 'model' | 'hybrid_extraction'>): number {
+    const result = this.db.prepare(`
+      INSERT INTO eval_runs (label, golden_set_path, provider, model, hybrid_extraction)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(run.label ?? null, run.golden_set_path, run.provider, run.model, run.hybrid_extraction);
+    return result.lastInsertRowid as number;
+  }
+
+  insertEvalScores(runId: number, document: string, counts: Record<AccuracyCategory, CategoryCounts>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO eval_scores (run_id, document, category, true_positives, predicted, expected)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const [category, count] of Object.entries(counts)) {
+        stmt.run(runId, document, category, count.truePositives, count.predicted, count.expected);
+      }
+    })();
+  }
+
+  completeEvalRun(runId: number, documentCount: number, failedCount: number, prompts: PromptRef[]): void {
+    this.db.prepare(`
+      UPDATE eval_runs SET document_count = ?, failed_count = ?, prompts = ?, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(documentCount, failedCount, JSON.stringify(prompts), runId);
+  }
+
+  // Completed runs, newest first
+  getEvalRuns(limit: number = 20): EvalRun[] {
+    return this.db.prepare(`
+      SELECT * FROM eval_runs
+      WHERE completed_at IS NOT NULL
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(limit) as EvalRun[];
+  }
+
+  // Field counts per category of the given runs, summed over their documents
+  getEvalRunCounts(runIds: number[]): Array<Omit<EvalScore, 'id' | 'document'>> {
+    if (runIds.length === 0) {
+      return [];
+    }
+
+    return this.db.prepare(`
+      SELECT run_id, category,
+             SUM(true_positives) as true_positives, SUM(predicted) as predicted, SUM(expected) as expected
+      FROM eval_scores
+      WHERE run_id IN (${runIds.map(() => '?').join(', ')})
+      GROUP BY run_id, category
+    `).all(...runIds) as Array<Omit<EvalScore, 'id' | 'document'>>;
+  }
+
+  // ===== COST METHODS =====
+
+  // Group the processing_log rows (and API calls) of one process/watch/retry/reprocess invocation
+  startProcessingRun(command: string): number {
+    const result = this.db.prepare('INSERT INTO processing_runs (command) VALUES (?)').run(command);
+    return result.lastInsertRowid as number;
+  }
+
+  completeProcessingRun(runId: number): ProcessingRun {
+    this.db.prepare('UPDATE processing_runs SET completed_at = CURRENT_TIMESTAMP WHERE id = ?').run(runId);
+    return this.db.prepare('SELECT * FROM processing_runs WHERE id = ?').get(runId) as ProcessingRun;
+  }
+
+  // Everything logged, including calls made outside processing runs (e.g. eval)
+  getCostTotals(): CostBreakdown {
+    return this.db.prepare(`
+      ${LOG_COSTS}
+      SELECT ${COST_COLUMNS} FROM log_costs lc
+    `).get() as CostBreakdown;
+  }
+
+  // Most recent runs, newest first
+  getCostByRun(limit: number = 10): RunCost[] {
+    return this.db.prepare(`
+      ${LOG_COSTS}
+      SELECT r.id as run_id, r.command, r.started_at, r.completed_at, ${COST_COLUMNS}
+      FROM processing_runs r
+      LEFT JOIN log_costs lc ON lc.run_id = r.id
+      GROUP BY r.id
+      ORDER BY r.id DESC
+      LIMIT ?
+    `).all(limit) as RunCost[];
+  }
+
+  getRunCost(runId: number): RunCost | null {
+    const row = this.db.prepare(`
+      ${LOG_COSTS}
+      SELECT r.id as run_id, r.command, r.started_at, r.completed_at, ${COST_COLUMNS}
+      FROM processing_runs r
+      LEFT JOIN log_costs lc ON lc.run_id = r.id
+      WHERE r.id = ?
+      GROUP BY r.id
+    `).get(runId) as RunCost | undefined;
+    return row || null;
+  }
+
+  // Products are attributed from schema version 15 on, when processing_log started recording language and variant
+  getCostBySubbrand(): SubbrandCost[] {
+    return this.db.prepare(`
+      ${LOG_COSTS}
+      SELECT p.subbrand, COUNT(DISTINCT p.id) as products, ${COST_COLUMNS}
+      FROM log_costs lc
+      JOIN products p ON p.product_code = lc.product_code AND p.language = lc.language AND p.variant = lc.variant
+      GROUP BY p.subbrand
+      HAVING SUM(lc.calls) > 0
+      ORDER BY cost_usd DESC, p.subbrand ASC
+    `).all() as SubbrandCost[];
+  }
+
+  // Most expensive products first
+  getCostByProduct(limit: number = 20): ProductCost[] {
+    return this.db.prepare(`
+      ${LOG_COSTS}
+      SELECT lc.product_code, lc.language, lc.variant, p.product_name, p.subbrand, ${COST_COLUMNS}
+      FROM log_costs lc
+      LEFT JOIN products p ON p.product_code = lc.product_code AND p.language = lc.language AND p.variant = lc.variant
+      WHERE lc.language IS NOT NULL
+      GROUP BY lc.product_code, lc.language, lc.variant
+      HAVING SUM(lc.calls) > 0
+      ORDER BY cost_usd DESC, SUM(lc.input_tokens + lc.output_tokens) DESC
+      LIMIT ?
+    `).all(limit) as ProductCost[];
+  }
+
+  getCostByModel(): ModelCost[] {
+    return this.db.prepare(`
+      SELECT provider, model, COUNT(*) as calls,
+             SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+             CASE WHEN COUNT(cost_usd) > 0 THEN TOTAL(cost_usd) END as cost_usd
+      FROM api_calls
+      GROUP BY provider, model
+      ORDER BY TOTAL(cost_usd) DESC, calls DESC
+    `).all() as ModelCost[];
+  }
+
+  // ===== REPLY PARSE METHODS =====
+
+  // Replies per extraction part and parse strategy, for one processing run or overall
+  getReplyParseCounts(runId?: number): ReplyParseCount[] {
+    return this.db.prepare(`
+      SELECT rp.part, rp.strategy, COUNT(*) as replies
+      FROM reply_parses rp
+      JOIN processing_log l ON l.id = rp.processing_log_id
+      ${runId !== undefined ? 'WHERE l.run_id = ?' : ''}
+      GROUP BY rp.part, rp.strategy
+      ORDER BY rp.part, replies DESC
+    `).all(...(runId !== undefined ? [runId] : [])) as ReplyParseCount[];
+  }
+
+  // ===== MESSAGE BATCH METHODS =====
+
+  // Record a submitted Message Batch with the requests it carries
+  insertMessageBatch(
+    batch: Pick<MessageBatch, 'batch_id' | 'model' | 'status'>,
+    requests: Array<Omit<MessageBatchRequestRow, 'id' | 'message_batch_id'>>
+  ): number {
+    const requestStmt = this.db.prepare(`
+      INSERT INTO message_batch_requests (
+        message_batch_id, custom_id, product_code, language, variant, metadata, part,
+        prompt_id, prompt_version, prompt_hash, cache_key, pdf_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    return this.db.transaction(() => {
+      const result = this.db.prepare(`
+        INSERT INTO message_batches (batch_id, model, status, request_count) VALUES (?, ?, ?, ?)
+      `).run(batch.batch_id, batch.model, batch.status, requests.length);
+      const messageBatchId = result.lastInsertRowid as number;
+
+      for (const request of requests) {
+        requestStmt.run(
+          messageBatchId,
+          request.custom_id,
+          request.product_code,
+          request.language,
+          request.variant,
+          request.metadata,
+          request.part,
+          request.prompt_id,
+          request.prompt_version,
+          request.prompt_hash,
+          request.cache_key,
+          request.pdf_hash
+        );
+      }
+
+      return messageBatchId;
+    })();
+  }
+
+  // Batches whose results have not all gone through the pipeline yet, oldest first
+  getUnprocessedMessageBatches(): MessageBatch[] {
+    return this.db.prepare(`
+      SELECT * FROM message_batches WHERE processed_at IS NULL ORDER BY id
+    `).all() as MessageBatch[];
+  }
+
+  updateMessageBatchStatus(id: number, status: MessageBatch['status'], endedAt: string | null): void {
+    this.db.prepare('UPDATE message_batches SET status = ?, ended_at = ? WHERE id = ?').run(status, endedAt, id);
+  }
+
+  completeMessageBatch(id: number): void {
+    this.db.prepare('UPDATE message_batches SET processed_at = CURRENT_TIMESTAMP WHERE id = ?').run(id);
+  }
+
+  // Store downloaded results; downloading the same results again overwrites them
+  saveMessageBatchResults(messageBatchId: number, replies: MessageBatchReply[]): void {
+    const stmt = this.db.prepare(`
+      UPDATE message_batch_requests
+      SET result = ?, response_text = ?, stop_reason = ?, error_message = ?, input_tokens = ?, output_tokens = ?
+      WHERE message_batch_id = ? AND custom_id = ?
+    `);
+
+    this.db.transaction(() => {
+      for (const reply of replies) {
+        stmt.run(
+          reply.result,
+          reply.text,
+          reply.stopReason,
+          reply.error ?? null,
+          reply.inputTokens,
+          reply.outputTokens,
+          messageBatchId,
+          reply.customId
+        );
+      }
+    })();
+  }
+
+  // Requests of a batch, in submission order; `pendingOnly` leaves out PDFs already processed
+  getMessageBatchRequests(messageBatchId: number, pendingOnly: boolean = false): MessageBatchRequestRow[] {
+    return this.db.prepare(`
+      SELECT * FROM message_batch_requests
+      WHERE message_batch_id = ? ${pendingOnly ? 'AND processed_at IS NULL' : ''}
+      ORDER BY id
+    `).all(messageBatchId) as MessageBatchRequestRow[];
+  }
+
+  markMessageBatchRequestsProcessed(ids: number[]): void {
+    const stmt = this.db.prepare('UPDATE message_batch_requests SET processed_at = CURRENT_TIMESTAMP WHERE id = ?');
+    this.db.transaction(() => {
+      for (const id of ids) {
+        stmt.run(id);
+      }
+    })();
+  }
+
+  // ===== FIELD OVERRIDE METHODS =====
+
+  // Get manual overrides for a product
+  getFieldOverrides(
+    productCode: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): FieldOverride[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM field_overrides WHERE product_code = ? AND language = ? AND variant = ? ORDER BY field_path'
+    );
+    return stmt.all(productCode, language, variant) as FieldOverride[];
+  }
+
+  // Set (or replace) an override and write it to the stored product data
+  setFieldOverride(
+    productCode: string,
+    fieldPath: string,
+    value: string | null,
+    options: { reason?: string; createdBy?: string; language?: string; variant?: string } = {}
+  ): FieldOverride {
+    const language = options.language || DEFAULT_LANGUAGE;
+    const variant = options.variant || DEFAULT_VARIANT;
+    const label = productLabel(productCode, language, variant);
+
+    return this.db.transaction(() => {
+      const { accessor } = this.resolveOverrideTarget(productCode, language, variant, fieldPath);
+      if (!accessor) {
+        throw new Error(`Field ${fieldPath} does not exist on product ${label}`);
+      }
+
+      // Keep the originally extracted value when an override is replaced
+      const existing = this.getFieldOverride(productCode, language, variant, fieldPath);
+      const extractedValue = existing ? existing.extracted_value ?? null : accessor.read();
+
+      this.db.prepare(`
+        INSERT INTO field_overrides (
+          product_code, language, variant, field_path, override_value, extracted_value, reason, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(product_code, language, variant, field_path) DO UPDATE SET
+          override_value = excluded.override_value,
+          reason = excluded.reason,
+          created_by = excluded.created_by,
+          updated_at = CURRENT_TIMESTAMP
+      `).run(
+        productCode,
+        language,
+        variant,
+        fieldPath,
+        value,
+        extractedValue,
+        options.reason || null,
+        options.createdBy || null
+      );
+
+      accessor.write(value);
+      accessor.verify?.();
+      logger.info(`Override set for ${label} ${fieldPath}`);
+
+      return this.getFieldOverride(productCode, language, variant, fieldPath)!;
+    })();
+  }
+
+  // Remove an override and restore the extracted value; false if none existed
+  clearFieldOverride(
+    productCode: string,
+    fieldPath: string,
+    language: string = DEFAULT_LANGUAGE,
+    variant: string = DEFAULT_VARIANT
+  ): boolean {
+    return this.db.transaction(() => {
+      const existing = this.getFieldOverride(productCode, language, variant, fieldPath);
+      if (!existing) {
+        return false;
+      }
+
+      const { accessor } = this.resolveOverrideTarget(productCode, language, variant, fieldPath);
+      accessor?.write(existing.extracted_value ?? null);
+
+      this.db
+        .prepare('DELETE FROM field_overrides WHERE id = ?')
+        .run(existing.id);
+
+      logger.info(`Override cleared for ${productLabel(productCode, language, variant)} ${fieldPath}`);
+      return true;
+    })();
+  }
+
+  private getFieldOverride(
+    productCode: string,
+    language: string,
+    variant: string,
+    fieldPath: string
+  ): FieldOverride | null {
+    const result = this.db
+      .prepare('SELECT * FROM field_overrides WHERE product_code = ? AND language = ? AND variant = ? AND field_path = ?')
+      .get(productCode, language, variant, fieldPath);
+    return result ? (result as FieldOverride) : null;
+  }
+
+  // Re-apply overrides after an extraction rewrote the product rows
+  private reapplyFieldOverrides(productId: number, productCode: string, language: string, variant: string): void {
+    const overrides = this.getFieldOverrides(productCode, language, variant);
+    const updateExtracted = this.db.prepare(
+      'UPDATE field_overrides SET extracted_value = ? WHERE id = ?'
+    );
+
+    for (const override of overrides) {
+      const target = parseFieldPath(override.field_path);
+      const accessor = target ? this.resolveFieldAccessor(productId, target) : null;
+
+      if (!accessor) {
+        logger.warn(`Override ${override.field_path} no longer matches extracted data for ${productCode}`);
+        updateExtracted.run(null, override.id);
+        continue;
+      }
+
+      updateExtracted.run(accessor.read(), override.id);
+      accessor.write(override.override_value);
+      accessor.verify?.();
+    }
+
+    if (overrides.length > 0) {
+      logger.info(`Re-applied ${overrides.length} field overrides for ${productCode}`);
+    }
+  }
+
+  private resolveOverrideTarget(
+    productCode: string,
+    language: string,
+    variant: string,
+    fieldPath: string
+  ): { productId: number; accessor: FieldAccessor | null } {
+    const target = parseFieldPath(fieldPath);
+    if (!target) {
+      throw new Error(`Unknown field path: ${fieldPath}`);
+    }
+
+    const product = this.getProductByCode(productCode, language, variant);
+    if (!product?.id) {
+      throw new Error(`Product ${productLabel(productCode, language, variant)} not found`);
+    }
+
+    return { productId: product.id, accessor: this.resolveFieldAccessor(product.id, target) };
+  }
+
+  // Locate the stored row behind a field path; null when the product has no such row.
+  // api/src/services/override-service.ts mirrors this (see __tests__/override-parity.test.ts)
+  private resolveFieldAccessor(productId: number, target: FieldTarget): FieldAccessor | null {
+    switch (target.kind) {
+      case 'product':
+        return this.columnAccessor('products', PRODUCT_COLUMNS[target.field], productId);
+
+      case 'supplementFacts': {
+        const row = this.db
+          .prepare('SELECT id FROM supplement_facts WHERE product_id = ?')
+          .get(productId) as { id: number } | undefined;
+        return row
+          ? this.columnAccessor('supplement_facts', SUPPLEMENT_FACTS_COLUMNS[target.field], row.id)
+          : null;
+      }
+
+      case 'nutrient': {
+        const rows = this.db.prepare(`
+          SELECT nv.id FROM nutritional_values nv
+          JOIN supplement_facts sf ON sf.id = nv.supplement_fact_id
+          WHERE sf.product_id = ? AND nv.nutrient_name = ?
+          ORDER BY nv.display_order
+        `).all(productId, target.name) as Array<{ id: number }>;
+        const row = rows[target.occurrence - 1];
+        if (!row) {
+          return null;
+        }
+
+        const verify = () => {
+          this.db
+            .prepare('UPDATE nutritional_values SET extraction_confidence = 1.0, needs_verification = 0 WHERE id = ?')
+            .run(row.id);
+        };
+
+        if (target.field !== 'amount') {
+          return { ...this.columnAccessor('nutritional_values', NUTRIENT_COLUMNS[target.field], row.id), verify };
+        }
+
+        // Amount is stored split into amount + unit but overridden as "100 mg"
+        return {
+          verify,
+          read: () => {
+            const value = this.db
+              .prepare('SELECT amount, unit FROM nutritional_values WHERE id = ?')
+              .get(row.id) as { amount: string | null; unit: string | null };
+            if (!value.amount) return null;
+            return value.unit ? `${value.amount} ${value.unit}` : value.amount;
+          },
+          write: (value) => {
+            const { amount, unit } = this.parseAmountUnit(value);
+            this.db
+              .prepare('UPDATE nutritional_values SET amount = ?, unit = ? WHERE id = ?')
+              .run(amount, unit, row.id);
+          },
+        };
+      }
+
+      case 'ingredient': {
+        const rows = this.db.prepare(
+          'SELECT id FROM ingredients WHERE product_id = ? AND ingredient_name = ? ORDER BY display_order'
+        ).all(productId, target.name) as Array<{ id: number }>;
+        const row = rows[target.occurrence - 1];
+        if (!row) {
+          return null;
+        }
+
+        return {
+          read: () => {
+            const value = this.db
+              .prepare('SELECT is_organic FROM ingredients WHERE id = ?')
+              .get(row.id) as { is_organic: number };
+            return value.is_organic ? 'true' : 'false';
+          },
+          write: (value) => {
+            this.db
+              .prepare('UPDATE ingredients SET is_organic = ? WHERE id = ?')
+              .run(value === 'true' ? 1 : 0, row.id);
+          },
+        };
+      }
+
+      case 'dietaryAttribute':
+        // Present = "true"; any other value removes the attribute
+        return {
+          read: () => {
+            const row = this.db
+              .prepare('SELECT id FROM dietary_attributes WHERE product_id = ? AND attribute_name = ?')
+              .get(productId, target.name);
+            return row ? 'true' : null;
+          },
+          write: (value) => {
+            this.db
+              .prepare('DELETE FROM dietary_attributes WHERE product_id = ? AND attribute_name = ?')
+              .run(productId, target.name);
+            if (value === 'true') {
+              this.db
+                .prepare('INSERT INTO dietary_attributes (product_id, attribute_name) VALUES (?, ?)')
+                .run(productId, target.name);
+            }
+          },
+        };
+    }
+  }
+
+  // Accessor for a single column of a single row (column names come from the maps above)
+  private columnAccessor(table: string, column: string, rowId: number): FieldAccessor {
+    return {
+      read: () => {
+        const row = this.db.prepare(`SELECT ${column} AS value FROM ${table} WHERE id = ?`).get(rowId) as
+          | { value: string | null }
+          | undefined;
+        return row?.value ?? null;
+      },
+      write: (value) => {
+        this.db.prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`).run(value, rowId);
+      },
+    };
   }
 }
@@ -1,7 +1,7 @@
 import Database from 'better-sqlite3';
 import logger from '../utils/logger.js';
 
-export const SCHEMA_VERSION = 5;
+export const SCHEMA_VERSION = 19;
 
 export function initializeDatabase(db: Database.Database): void {
   logger.info('Initializing database schema...');
@@ -28,7 +28,9 @@ export function initializeDatabase(db: Database.Database): void {
     return;
   }
 
-  // Apply migrations
+  // Apply migrations. Foreign keys are off while migrating so that rebuilding a
+  // parent table (products in v11) does not cascade-delete its child rows.
+  db.pragma('foreign_keys = OFF');
   db.transaction(() => {
     const currentVer = currentVersion.version || 0;
 
@@ -435,6 +437,529 @@ export function initializeDatabase(db: Database.Database): void {
       logger.info('Version 5 migration completed: Amount split into unit and amount');
     }
 
+    // Version 6: Content-addressed cache of model responses
+    if (currentVer < 6) {
+      logger.info('Applying migration to version 6: Adding response cache...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS response_cache (
+          cache_key TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          pdf_hash TEXT NOT NULL,
+          response_text TEXT NOT NULL,
+          hit_count INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_hit_at DATETIME
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_response_cache_created ON response_cache(created_at);
+      `);
+
+      logger.info('Version 6 migration completed: Response cache added');
+    }
+
+    // Version 7: Source file fingerprints for incremental re-extraction
+    if (currentVer < 7) {
+      logger.info('Applying migration to version 7: Adding PDF fingerprints...');
+
+      db.exec(`
+        ALTER TABLE products ADD COLUMN pdf_file_hash TEXT;
+        ALTER TABLE products ADD COLUMN pdf_modified_at DATETIME;
+        ALTER TABLE products ADD COLUMN orphaned_at DATETIME;
+
+        CREATE INDEX IF NOT EXISTS idx_products_orphaned ON products(orphaned_at);
+      `);
+
+      logger.info('Version 7 migration completed: PDF fingerprints added');
+    }
+
+    // Version 8: Snapshot every extraction so re-extractions keep their history
+    if (currentVer < 8) {
+      logger.info('Applying migration to version 8: Adding product revisions...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS product_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_id INTEGER NOT NULL,
+          product_code TEXT NOT NULL,
+          revision_number INTEGER NOT NULL,
+          extraction_data TEXT NOT NULL,
+          model TEXT,
+          prompt_version TEXT,
+          pdf_file_hash TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(product_id, revision_number),
+          FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_product_revisions_code ON product_revisions(product_code);
+      `);
+
+      logger.info('Version 8 migration completed: Product revisions added');
+    }
+
+    // Version 9: Manual field overrides re-applied after every extraction
+    if (currentVer < 9) {
+      logger.info('Applying migration to version 9: Adding field overrides...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS field_overrides (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_code TEXT NOT NULL,
+          field_path TEXT NOT NULL,
+          override_value TEXT,
+          extracted_value TEXT,
+          reason TEXT,
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(product_code, field_path)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_field_overrides_product ON field_overrides(product_code);
+      `);
+
+      logger.info('Version 9 migration completed: Field overrides added');
+    }
+
+    // Version 10: Similarity score of every Claude/Grok comparison, grouped by verification run
+    if (currentVer < 10) {
+      logger.info('Applying migration to version 10: Adding verification results...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS verification_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          command TEXT NOT NULL,
+          similarity_threshold REAL NOT NULL,
+          products_compared INTEGER DEFAULT 0,
+          average_similarity REAL,
+          min_similarity REAL,
+          below_threshold_count INTEGER DEFAULT 0,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+
+        CREATE TABLE IF NOT EXISTS verification_results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id INTEGER,
+          product_id INTEGER NOT NULL,
+          product_code TEXT NOT NULL,
+          similarity_score REAL NOT NULL,
+          field_total INTEGER NOT NULL,
+          field_matching INTEGER NOT NULL,
+          field_different INTEGER NOT NULL,
+          field_missing INTEGER NOT NULL,
+          discrepancy_count INTEGER NOT NULL,
+          recommends_review INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (run_id) REFERENCES verification_runs(id) ON DELETE SET NULL,
+          FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_verification_results_product ON verification_results(product_id);
+        CREATE INDEX IF NOT EXISTS idx_verification_results_run ON verification_results(run_id);
+      `);
+
+      logger.info('Version 10 migration completed: Verification results added');
+    }
+
+    // Version 11: One product row per code and language (multi-language sheets)
+    if (currentVer < 11) {
+      logger.info('Applying migration to version 11: Adding product languages...');
+
+      // product_code is no longer unique on its own; SQLite can only drop the constraint by rebuilding the table
+      db.exec(`
+        CREATE TABLE products_v11 (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_code TEXT NOT NULL,
+          language TEXT NOT NULL DEFAULT 'en',
+          product_name TEXT NOT NULL,
+          product_slogan TEXT,
+          product_description TEXT,
+          product_image_path TEXT,
+          subbrand TEXT,
+          directions TEXT,
+          caution TEXT,
+          "references" TEXT,
+          pdf_file_path TEXT NOT NULL,
+          folder_path TEXT NOT NULL,
+          extraction_date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          extraction_status TEXT DEFAULT 'pending' CHECK(extraction_status IN ('pending', 'processing', 'completed', 'failed')),
+          error_message TEXT,
+          raw_ai_response TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          id_verification_hash TEXT,
+          raw_text_extraction TEXT,
+          pdf_file_hash TEXT,
+          pdf_modified_at DATETIME,
+          orphaned_at DATETIME,
+          UNIQUE(product_code, language)
+        )
+      `);
+
+      db.exec(`
+        INSERT INTO products_v11 (
+          id, product_code, language, product_name, product_slogan, product_description,
+          product_image_path, subbrand, directions, caution, "references", pdf_file_path,
+          folder_path, extraction_date, extraction_status, error_message, raw_ai_response,
+          created_at, updated_at, id_verification_hash, raw_text_extraction, pdf_file_hash,
+          pdf_modified_at, orphaned_at
+        )
+        SELECT
+          id, product_code, 'en', product_name, product_slogan, product_description,
+          product_image_path, subbrand, directions, caution, "references", pdf_file_path,
+          folder_path, extraction_date, extraction_status, error_message, raw_ai_response,
+          created_at, updated_at, id_verification_hash, raw_text_extraction, pdf_file_hash,
+          pdf_modified_at, orphaned_at
+        FROM products
+      `);
+
+      db.exec('DROP TABLE products');
+      db.exec('ALTER TABLE products_v11 RENAME TO products');
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_products_code ON products(product_code);
+        CREATE INDEX IF NOT EXISTS idx_products_status ON products(extraction_status);
+        CREATE INDEX IF NOT EXISTS idx_products_subbrand ON products(subbrand);
+        CREATE INDEX IF NOT EXISTS idx_products_language ON products(language);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_products_id_hash ON products(id_verification_hash);
+      `);
+
+      // Revisions and overrides are kept per language version
+      db.exec(`
+        ALTER TABLE product_revisions ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+
+        CREATE TABLE field_overrides_v11 (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_code TEXT NOT NULL,
+          language TEXT NOT NULL DEFAULT 'en',
+          field_path TEXT NOT NULL,
+          override_value TEXT,
+          extracted_value TEXT,
+          reason TEXT,
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(product_code, language, field_path)
+        );
+
+        INSERT INTO field_overrides_v11 (
+          id, product_code, field_path, override_value, extracted_value,
+          reason, created_by, created_at, updated_at
+        )
+        SELECT
+          id, product_code, field_path, override_value, extracted_value,
+          reason, created_by, created_at, updated_at
+        FROM field_overrides;
+
+        DROP TABLE field_overrides;
+        ALTER TABLE field_overrides_v11 RENAME TO field_overrides;
+
+        CREATE INDEX IF NOT EXISTS idx_field_overrides_product ON field_overrides(product_code, language);
+      `);
+
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Version 11 migration left ${violations.length} foreign key violations`);
+      }
+
+      logger.info('Version 11 migration completed: Product languages added');
+    }
+
+    // Version 12: Variants (e.g. flavors) of a product code, one row per PDF
+    if (currentVer < 12) {
+      logger.info('Applying migration to version 12: Adding product variants...');
+
+      // variant '' is the only version of a product; named variants share the code and language
+      db.exec(`
+        CREATE TABLE products_v12 (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_code TEXT NOT NULL,
+          language TEXT NOT NULL DEFAULT 'en',
+          variant TEXT NOT NULL DEFAULT '',
+          variant_name TEXT,
+          product_name TEXT NOT NULL,
+          product_slogan TEXT,
+          product_description TEXT,
+          product_image_path TEXT,
+          subbrand TEXT,
+          directions TEXT,
+          caution TEXT,
+          "references" TEXT,
+          pdf_file_path TEXT NOT NULL,
+          folder_path TEXT NOT NULL,
+          extraction_date DATETIME DEFAULT CURRENT_TIMESTAMP,
+          extraction_status TEXT DEFAULT 'pending' CHECK(extraction_status IN ('pending', 'processing', 'completed', 'failed')),
+          error_message TEXT,
+          raw_ai_response TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          id_verification_hash TEXT,
+          raw_text_extraction TEXT,
+          pdf_file_hash TEXT,
+          pdf_modified_at DATETIME,
+          orphaned_at DATETIME,
+          UNIQUE(product_code, language, variant)
+        )
+      `);
+
+      db.exec(`
+        INSERT INTO products_v12 (
+          id, product_code, language, product_name, product_slogan, product_description,
+          product_image_path, subbrand, directions, caution, "references", pdf_file_path,
+          folder_path, extraction_date, extraction_status, error_message, raw_ai_response,
+          created_at, updated_at, id_verification_hash, raw_text_extraction, pdf_file_hash,
+          pdf_modified_at, orphaned_at
+        )
+        SELECT
+          id, product_code, language, product_name, product_slogan, product_description,
+          product_image_path, subbrand, directions, caution, "references", pdf_file_path,
+          folder_path, extraction_date, extraction_status, error_message, raw_ai_response,
+          created_at, updated_at, id_verification_hash, raw_text_extraction, pdf_file_hash,
+          pdf_modified_at, orphaned_at
+        FROM products
+      `);
+
+      db.exec('DROP TABLE products');
+      db.exec('ALTER TABLE products_v12 RENAME TO products');
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_products_code ON products(product_code);
+        CREATE INDEX IF NOT EXISTS idx_products_status ON products(extraction_status);
+        CREATE INDEX IF NOT EXISTS idx_products_subbrand ON products(subbrand);
+        CREATE INDEX IF NOT EXISTS idx_products_language ON products(language);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_products_id_hash ON products(id_verification_hash);
+      `);
+
+      // Revisions and overrides are kept per variant
+      db.exec(`
+        ALTER TABLE product_revisions ADD COLUMN variant TEXT NOT NULL DEFAULT '';
+
+        CREATE TABLE field_overrides_v12 (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_code TEXT NOT NULL,
+          language TEXT NOT NULL DEFAULT 'en',
+          variant TEXT NOT NULL DEFAULT '',
+          field_path TEXT NOT NULL,
+          override_value TEXT,
+          extracted_value TEXT,
+          reason TEXT,
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(product_code, language, variant, field_path)
+        );
+
+        INSERT INTO field_overrides_v12 (
+          id, product_code, language, field_path, override_value, extracted_value,
+          reason, created_by, created_at, updated_at
+        )
+        SELECT
+          id, product_code, language, field_path, override_value, extracted_value,
+          reason, created_by, created_at, updated_at
+        FROM field_overrides;
+
+        DROP TABLE field_overrides;
+        ALTER TABLE field_overrides_v12 RENAME TO field_overrides;
+
+        CREATE INDEX IF NOT EXISTS idx_field_overrides_product ON field_overrides(product_code, language, variant);
+      `);
+
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Version 12 migration left ${violations.length} foreign key violations`);
+      }
+
+      logger.info('Version 12 migration completed: Product variants added');
+    }
+
+    // Version 13: Prompt templates and the template behind every extraction
+    if (currentVer < 13) {
+      logger.info('Applying migration to version 13: Adding prompt registry...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          prompt_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          description TEXT,
+          system_template TEXT,
+          user_template TEXT NOT NULL,
+          first_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (prompt_id, hash)
+        );
+
+        ALTER TABLE product_revisions ADD COLUMN prompts TEXT;
+        ALTER TABLE verification_extractions ADD COLUMN prompt_id TEXT;
+        ALTER TABLE verification_extractions ADD COLUMN prompt_version INTEGER;
+        ALTER TABLE verification_extractions ADD COLUMN prompt_hash TEXT;
+      `);
+
+      logger.info('Version 13 migration completed: Prompt registry added');
+    }
+
+    // Version 14: Golden-set evaluation runs (leaderboard of provider/model/prompt combinations)
+    if (currentVer < 14) {
+      logger.info('Applying migration to version 14: Adding evaluation runs...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS eval_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          label TEXT,
+          golden_set_path TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          hybrid_extraction INTEGER NOT NULL,
+          prompts TEXT,
+          document_count INTEGER DEFAULT 0,
+          failed_count INTEGER DEFAULT 0,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+
+        CREATE TABLE IF NOT EXISTS eval_scores (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id INTEGER NOT NULL,
+          document TEXT NOT NULL,
+          category TEXT NOT NULL,
+          true_positives INTEGER NOT NULL,
+          predicted INTEGER NOT NULL,
+          expected INTEGER NOT NULL,
+          FOREIGN KEY (run_id) REFERENCES eval_runs(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_eval_scores_run ON eval_scores(run_id);
+      `);
+
+      logger.info('Version 14 migration completed: Evaluation runs added');
+    }
+
+    // Version 15: Token usage and cost of every API call, grouped by processing run
+    if (currentVer < 15) {
+      logger.info('Applying migration to version 15: Adding API call accounting...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS processing_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          command TEXT NOT NULL,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+
+        ALTER TABLE processing_log ADD COLUMN run_id INTEGER REFERENCES processing_runs(id);
+        ALTER TABLE processing_log ADD COLUMN language TEXT;
+        ALTER TABLE processing_log ADD COLUMN variant TEXT;
+        CREATE INDEX IF NOT EXISTS idx_processing_log_run ON processing_log(run_id);
+
+        CREATE TABLE IF NOT EXISTS api_calls (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          processing_log_id INTEGER NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_id TEXT,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cost_usd REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (processing_log_id) REFERENCES processing_log(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_api_calls_log ON api_calls(processing_log_id);
+      `);
+
+      logger.info('Version 15 migration completed: API call accounting added');
+    }
+
+    // Version 16: Message Batches submitted by process --batch-api, kept so polling survives restarts
+    if (currentVer < 16) {
+      logger.info('Applying migration to version 16: Adding message batches...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS message_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id TEXT NOT NULL UNIQUE,
+          model TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'in_progress',
+          request_count INTEGER NOT NULL,
+          submitted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          ended_at DATETIME,
+          processed_at DATETIME
+        );
+
+        CREATE TABLE IF NOT EXISTS message_batch_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message_batch_id INTEGER NOT NULL,
+          custom_id TEXT NOT NULL,
+          product_code TEXT NOT NULL,
+          language TEXT NOT NULL,
+          variant TEXT NOT NULL,
+          metadata TEXT NOT NULL,
+          part TEXT NOT NULL,
+          prompt_id TEXT NOT NULL,
+          prompt_version INTEGER NOT NULL,
+          prompt_hash TEXT NOT NULL,
+          cache_key TEXT NOT NULL,
+          pdf_hash TEXT NOT NULL,
+          result TEXT,
+          response_text TEXT,
+          error_message TEXT,
+          input_tokens INTEGER,
+          output_tokens INTEGER,
+          processed_at DATETIME,
+          FOREIGN KEY (message_batch_id) REFERENCES message_batches(id) ON DELETE CASCADE,
+          UNIQUE (message_batch_id, custom_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_message_batch_requests_batch ON message_batch_requests(message_batch_id);
+      `);
+
+      logger.info('Version 16 migration completed: Message batches added');
+    }
+
+    // Version 17: How each model reply was parsed (tool call vs JSON repair fallback)
+    if (currentVer < 17) {
+      logger.info('Applying migration to version 17: Adding reply parse outcomes...');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS reply_parses (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          processing_log_id INTEGER NOT NULL,
+          part TEXT NOT NULL,
+          strategy TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (processing_log_id) REFERENCES processing_log(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_reply_parses_log ON reply_parses(processing_log_id);
+      `);
+
+      logger.info('Version 17 migration completed: Reply parse outcomes added');
+    }
+
+    // Version 18: Stop reason of batch replies, so replies cut off at max_tokens can be re-issued
+    if (currentVer < 18) {
+      logger.info('Applying migration to version 18: Adding batch reply stop reasons...');
+
+      db.exec(`
+        ALTER TABLE message_batch_requests ADD COLUMN stop_reason TEXT;
+      `);
+
+      logger.info('Version 18 migration completed: Batch reply stop reasons added');
+    }
+
+    // Version 19: Page of the Supplement Facts panel, so reviewers open the PDF at it
+    if (currentVer < 19) {
+      logger.info('Applying migration to version 19: Adding supplement facts pages...');
+
+      db.exec(`
+        ALTER TABLE products ADD COLUMN supplement_facts_page INTEGER;
+      `);
+
+      logger.info('Version 19 migration completed: Supplement facts pages added');
+    }
+
     // Update schema version
     if (currentVersion.version === null) {
       db.prepare('INSERT INTO schema_version (version) VALUES (?)').run(SCHEMA_VERSION);
@@ -444,12 +969,16 @@ export function initializeDatabase(db: Database.Database): void {
 
     logger.info(`Database schema initialized successfully (version ${SCHEMA_VERSION})`);
   })();
+  db.pragma('foreign_keys = ON');
 }
 
 // Type definitions for database entities
 export interface Product {
   id?: number;
   product_code: string;
+  language?: string; // ISO 639-1; one row per product code and language
+  variant?: string; // '' unless the code has several PDFs per language (e.g. flavors)
+  variant_name?: string | null; // Display label, e.g. the variant folder name
   product_name: string;
   product_slogan?: string | null;
   product_description: string;
@@ -466,6 +995,10 @@ export interface Product {
   raw_ai_response?: string | null;
   id_verification_hash?: string | null;
   raw_text_extraction?: string | null;
+  pdf_file_hash?: string | null;
+  pdf_modified_at?: string | null;
+  orphaned_at?: string | null; // Set when the source PDF is no longer found on disk
+  supplement_facts_page?: number | null; // 1-based; null when the text layer did not locate the panel
   created_at?: string;
   updated_at?: string;
 }
@@ -518,9 +1051,73 @@ export interface ProcessingLog {
   status: 'success' | 'error' | 'warning';
   error_message?: string | null;
   processing_time_ms?: number | null;
+  language?: string | null; // Set from schema version 15
+  variant?: string | null;
+  run_id?: number | null; // processing_runs row of the batch
   timestamp?: string;
 }
 
+export interface ProcessingRun {
+  id?: number;
+  command: string; // process, watch, retry-failed, reprocess
+  started_at?: string;
+  completed_at?: string | null;
+}
+
+export interface ApiCall {
+  id?: number;
+  processing_log_id: number; // Outcome of the PDF the call was made for
+  provider: string;
+  model: string;
+  prompt_id?: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd?: number | null; // null when the model was missing from the price table
+  created_at?: string;
+}
+
+export interface ReplyParseRecord {
+  id?: number;
+  processing_log_id: number;
+  part: string; // full, vision, text or fullProduct
+  strategy: string; // directParse, a repair cascade strategy, or failed
+  created_at?: string;
+}
+
+export interface MessageBatch {
+  id?: number;
+  batch_id: string; // Anthropic Message Batch ID
+  model: string;
+  status: 'in_progress' | 'canceling' | 'ended';
+  request_count: number;
+  submitted_at?: string;
+  ended_at?: string | null;
+  processed_at?: string | null; // Set once every PDF of the batch went through the pipeline
+}
+
+export interface MessageBatchRequestRow {
+  id?: number;
+  message_batch_id: number;
+  custom_id: string;
+  product_code: string;
+  language: string;
+  variant: string;
+  metadata: string; // JSON PDFFileMetadata of the source PDF
+  part: string; // full, or vision / text / fullProduct for hybrid extraction
+  prompt_id: string;
+  prompt_version: number;
+  prompt_hash: string;
+  cache_key: string;
+  pdf_hash: string;
+  result?: 'succeeded' | 'errored' | 'canceled' | 'expired' | null; // Set once results are downloaded
+  response_text?: string | null;
+  stop_reason?: string | null; // 'max_tokens' when the reply was cut off
+  error_message?: string | null;
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  processed_at?: string | null;
+}
+
 export interface VerificationExtraction {
   id?: number;
   product_id: number;
@@ -528,6 +1125,9 @@ export interface VerificationExtraction {
   supplement_facts_data?: string | null;
   extraction_time_ms?: number | null;
   model_version?: string | null;
+  prompt_id?: string | null;
+  prompt_version?: number | null;
+  prompt_hash?: string | null;
   created_at?: string;
 }
 
@@ -561,3 +1161,106 @@ export interface HumanReviewQueue {
   created_at?: string;
   reviewed_at?: string | null;
 }
+
+export interface ResponseCacheEntry {
+  cache_key: string;
+  provider: string;
+  model: string;
+  pdf_hash: string;
+  response_text: string;
+  hit_count?: number;
+  created_at?: string;
+  last_hit_at?: string | null;
+}
+
+export interface ProductRevision {
+  id?: number;
+  product_id: number;
+  product_code: string;
+  language?: string;
+  variant?: string;
+  revision_number: number;
+  extraction_data: string; // JSON-encoded ProductExtractionData
+  model?: string | null;
+  prompt_version?: string | null; // Single version number of revisions made before the prompt registry
+  prompts?: string | null; // JSON-encoded PromptRef[] of the model calls
+  pdf_file_hash?: string | null;
+  created_at?: string;
+}
+
+export interface FieldOverride {
+  id?: number;
+  product_code: string;
+  language?: string;
+  variant?: string;
+  field_path: string; // e.g. "supplementFacts.nutrients[Vitamin C].amount"
+  override_value: string | null;
+  extracted_value?: string | null; // Value from the latest extraction, restored when cleared
+  reason?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Template text as first used, so `prompts diff` works after the code has moved on
+export interface PromptTemplateRecord {
+  prompt_id: string;
+  version: number;
+  hash: string;
+  description?: string | null;
+  system_template?: string | null;
+  user_template: string;
+  first_used_at?: string;
+}
+
+export interface EvalRun {
+  id?: number;
+  label?: string | null;
+  golden_set_path: string;
+  provider: string;
+  model: string;
+  hybrid_extraction: number; // ENABLE_HYBRID_EXTRACTION during the run (0/1)
+  prompts?: string | null; // JSON-encoded PromptRef[] used by the run
+  document_count?: number;
+  failed_count?: number; // Documents whose extraction failed (scored with zero recall)
+  started_at?: string;
+  completed_at?: string | null;
+}
+
+// Field counts of one golden document in one accuracy category (verification/accuracy.ts)
+export interface EvalScore {
+  id?: number;
+  run_id: number;
+  document: string; // Golden JSON path relative to the golden set
+  category: string;
+  true_positives: number;
+  predicted: number;
+  expected: number;
+}
+
+export interface VerificationRun {
+  id?: number;
+  command: string;
+  similarity_threshold: number;
+  products_compared: number;
+  average_similarity: number | null;
+  min_similarity: number | null;
+  below_threshold_count: number;
+  started_at?: string;
+  completed_at?: string | null;
+}
+
+export interface VerificationResult {
+  id?: number;
+  run_id: number | null;
+  product_id: number;
+  product_code: string;
+  similarity_score: number;
+  field_total: number;
+  field_matching: number;
+  field_different: number;
+  field_missing: number;
+  discrepancy_count: number;
+  recommends_review: number;
+  created_at?: string;
+}
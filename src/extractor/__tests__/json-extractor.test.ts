@@ -5,6 +5,7 @@ import {
   extractFromCodeBlock,
   findBalancedJSON,
   repairCommonJSONErrors,
+  summarizeParseStrategies,
   tryJSON5Parse,
 } from '../json-extractor.js';
 
@@ -462,4 +463,18 @@ Citation 3"}`;
       expect(result.strategy).toBe('directParse');
     });
   });
+
+  describe('summarizeParseStrategies', () => {
+    it('counts replies that needed the repair fallback', () => {
+      const summary = summarizeParseStrategies([
+        { strategy: 'directParse', replies: 16 },
+        { strategy: 'repair', replies: 2 },
+        { strategy: 'json5', replies: 1 },
+        { strategy: 'failed', replies: 1 },
+      ]);
+
+      expect(summary).toEqual({ replies: 20, direct: 16, fallback: 3, failed: 1, fallbackRate: 15 });
+      expect(summarizeParseStrategies([]).fallbackRate).toBe(0);
+    });
+  });
 });
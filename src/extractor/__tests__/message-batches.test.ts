@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import Anthropic from '@anthropic-ai/sdk';
+import { batchRequestBytes, MessageBatchClient, MessageBatchRequest } from '../message-batches.js';
+
+// Minimal Message Batches endpoint: a batch ends on its first retrieve and answers every request
+// whose custom_id does not start with "bad" with "reply to <custom_id>"
+function startMockServer(): Promise<{ server: http.Server; baseURL: string; submitted: unknown[] }> {
+  const submitted: unknown[] = [];
+  let customIds: string[] = [];
+  let polls = 0;
+
+  const batch = (baseURL: string) => ({
+    id: 'msgbatch_test',
+    type: 'message_batch',
+    processing_status: polls > 0 ? 'ended' : 'in_progress',
+    request_counts: {
+      processing: polls > 0 ? 0 : customIds.length,
+      succeeded: polls > 0 ? customIds.filter((id) => !id.startsWith('bad')).length : 0,
+      errored: polls > 0 ? customIds.filter((id) => id.startsWith('bad')).length : 0,
+      canceled: 0,
+      expired: 0,
+    },
+    created_at: '2026-01-01T00:00:00Z',
+    ended_at: polls > 0 ? '2026-01-01T01:00:00Z' : null,
+    expires_at: '2026-01-02T00:00:00Z',
+    archived_at: null,
+    cancel_initiated_at: null,
+    results_url: polls > 0 ? `${baseURL}/v1/messages/batches/msgbatch_test/results` : null,
+  });
+
+  const server = http.createServer((req, res) => {
+    const baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = (req.url || '').split('?')[0];
+
+      if (req.method === 'POST' && url === '/v1/messages/batches') {
+        const payload = JSON.parse(body);
+        submitted.push(payload);
+        customIds = payload.requests.map((request: { custom_id: string }) => request.custom_id);
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(batch(baseURL)));
+      } else if (req.method === 'GET' && url === '/v1/messages/batches/msgbatch_test') {
+        const response = batch(baseURL);
+        polls++;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify(response));
+      } else if (req.method === 'GET' && url === '/v1/messages/batches/msgbatch_test/results') {
+        const lines = customIds.map((customId) =>
+          JSON.stringify({
+            custom_id: customId,
+            result: customId.startsWith('bad')
+              ? { type: 'errored', error: { type: 'error', error: { type: 'invalid_request_error', message: 'PDF too large' } } }
+              : {
+                  type: 'succeeded',
+                  message: {
+                    id: `msg_${customId}`,
+                    type: 'message',
+                    role: 'assistant',
+                    model: 'claude-sonnet-4-5-20250929',
+                    content: [{ type: 'text', text: `reply to ${customId}` }],
+                    stop_reason: customId.endsWith('text') ? 'max_tokens' : 'end_turn',
+                    stop_sequence: null,
+                    usage: { input_tokens: 100, output_tokens: 20 },
+                  },
+                },
+          })
+        );
+        res.setHeader('content-type', 'application/binary');
+        res.end(lines.reverse().join('\n') + '\n');
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: url } }));
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseURL: `http://127.0.0.1:${port}`, submitted });
+    });
+  });
+}
+
+const request = (customId: string): MessageBatchRequest => ({
+  customId,
+  params: {
+    model: 'claude-sonnet-4-5-20250929',
+    max_tokens: 100,
+    messages: [{ role: 'user', content: `prompt for ${customId}` }],
+  },
+});
+
+describe('MessageBatchClient', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+  let client: MessageBatchClient;
+
+  beforeAll(async () => {
+    mock = await startMockServer();
+    client = new MessageBatchClient(new Anthropic({ apiKey: 'test', baseURL: mock.baseURL, maxRetries: 0 }));
+  });
+
+  afterAll(() => {
+    mock.server.close();
+  });
+
+  it('submits requests, polls until the batch ends and reads results by custom ID', async () => {
+    const submitted = await client.submit([request('pdf0-vision'), request('pdf0-text'), request('bad1-full')]);
+    expect(submitted).toMatchObject({ id: 'msgbatch_test', status: 'in_progress', processing: 3 });
+    expect(mock.submitted[0]).toMatchObject({
+      requests: [{ custom_id: 'pdf0-vision', params: { messages: [{ role: 'user', content: 'prompt for pdf0-vision' }] } }, {}, {}],
+    });
+
+    expect((await client.retrieve('msgbatch_test')).status).toBe('in_progress');
+    const ended = await client.retrieve('msgbatch_test');
+    expect(ended).toMatchObject({ status: 'ended', processing: 0, succeeded: 2, errored: 1, endedAt: '2026-01-01T01:00:00Z' });
+
+    const replies = [];
+    for await (const reply of client.results('msgbatch_test')) {
+      replies.push(reply);
+    }
+
+    expect(replies.map((reply) => reply.customId)).toEqual(['bad1-full', 'pdf0-text', 'pdf0-vision']);
+    expect(replies[1]).toEqual({
+      customId: 'pdf0-text',
+      result: 'succeeded',
+      text: 'reply to pdf0-text',
+      stopReason: 'max_tokens',
+      inputTokens: 100,
+      outputTokens: 20,
+    });
+    expect(replies[2].stopReason).toBe('end_turn');
+    expect(replies[0]).toMatchObject({ result: 'errored', text: null, stopReason: null, inputTokens: 0, error: 'invalid_request_error: PDF too large' });
+  });
+
+  it('sizes requests by their serialized payload', () => {
+    const small = batchRequestBytes(request('a'));
+    const large = batchRequestBytes({ ...request('a'), params: { ...request('a').params, system: 'x'.repeat(1000) } });
+    expect(large - small).toBeGreaterThanOrEqual(1000);
+  });
+});
@@ -0,0 +1,84 @@
+import { beforeAll, describe, it, expect, vi } from 'vitest';
+import { PDFDocument, rgb } from 'pdf-lib';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import '../../utils/polyfills.js';
+
+vi.mock('../../config/env.js', () => ({ env: { PDF_RENDER_DPI: 144 } }));
+vi.mock('../../utils/logger.js', () => ({
+  default: { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined },
+}));
+
+const { renderPDFPages } = await import('../pdf-converter.js');
+
+// Color of one pixel of a rendered PNG
+async function pixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const image = await loadImage(png);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0);
+  return Array.from(context.getImageData(x, y, 1, 1).data.slice(0, 3));
+}
+
+describe('renderPDFPages', () => {
+  let pdfBytes: Uint8Array;
+
+  // Two 200x100 pt pages; the first is red on the left half and blue on the right
+  beforeAll(async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([200, 100]);
+    page.drawRectangle({ x: 0, y: 0, width: 100, height: 100, color: rgb(1, 0, 0) });
+    page.drawRectangle({ x: 100, y: 0, width: 100, height: 100, color: rgb(0, 0, 1) });
+    pdf.addPage([200, 100]);
+    pdfBytes = await pdf.save();
+  });
+
+  it('renders every page at PDF_RENDER_DPI by default', async () => {
+    const pages = await renderPDFPages(pdfBytes);
+
+    expect(pages.map(({ page, width, height }) => ({ page, width, height }))).toEqual([
+      { page: 0, width: 400, height: 200 },
+      { page: 1, width: 400, height: 200 },
+    ]);
+    expect(pages[0].png.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('scales down to the maximum size, keeping the aspect ratio', async () => {
+    const [fitted] = await renderPDFPages(pdfBytes, { pages: [0], dpi: 288, maxWidth: 300, maxHeight: 400 });
+    expect([fitted.width, fitted.height]).toEqual([300, 150]);
+
+    const [smaller] = await renderPDFPages(pdfBytes, { pages: [0], dpi: 72, maxWidth: 1000 });
+    expect([smaller.width, smaller.height]).toEqual([200, 100]); // Never scaled up past the DPI
+  });
+
+  it('renders only the crop region', async () => {
+    const [right] = await renderPDFPages(pdfBytes, {
+      pages: [0],
+      dpi: 72,
+      crop: { x: 0.5, y: 0, width: 0.5, height: 1 },
+    });
+
+    expect([right.width, right.height]).toEqual([100, 100]);
+    expect(await pixel(right.png, 10, 50)).toEqual([0, 0, 255]);
+
+    const [left] = await renderPDFPages(pdfBytes, {
+      pages: [0],
+      dpi: 72,
+      maxHeight: 50,
+      crop: { x: 0, y: 0, width: 0.5, height: 1 },
+    });
+    expect([left.width, left.height]).toEqual([50, 50]);
+    expect(await pixel(left.png, 40, 25)).toEqual([255, 0, 0]);
+  });
+
+  it('rejects crop regions outside the page and pages outside the PDF', async () => {
+    for (const crop of [
+      { x: 0.6, y: 0, width: 0.5, height: 1 },
+      { x: 0, y: -0.1, width: 1, height: 0.5 },
+      { x: 0, y: 0, width: 0, height: 1 },
+    ]) {
+      await expect(renderPDFPages(pdfBytes, { crop })).rejects.toThrow('must lie within the page');
+    }
+
+    await expect(renderPDFPages(pdfBytes, { pages: [2] })).rejects.toThrow('Pages 3 not in a 2-page PDF');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { computeCallCost, DEFAULT_PRICE_TABLE, findModelPrice, priceTableSchema } from '../pricing.js';
+
+describe('Pricing', () => {
+  it('prices dated models by their family prefix', () => {
+    expect(findModelPrice('claude-sonnet-4-5-20250929', DEFAULT_PRICE_TABLE)).toEqual({ inputPerMTok: 3, outputPerMTok: 15 });
+    expect(findModelPrice('grok-2-vision-1212', DEFAULT_PRICE_TABLE)).toEqual({ inputPerMTok: 2, outputPerMTok: 10 });
+  });
+
+  it('prefers the longest matching prefix', () => {
+    expect(findModelPrice('claude-opus-4-5-20251101', DEFAULT_PRICE_TABLE)?.inputPerMTok).toBe(5);
+    expect(findModelPrice('claude-opus-4-1-20250805', DEFAULT_PRICE_TABLE)?.inputPerMTok).toBe(15);
+  });
+
+  it('computes the cost of a call in dollars', () => {
+    const table = { 'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 } };
+    expect(computeCallCost('claude-sonnet-4-5-20250929', 10_000, 2_000, table)).toBeCloseTo(0.06);
+    expect(computeCallCost('claude-sonnet-4-5-20250929', 0, 0, table)).toBe(0);
+  });
+
+  it('leaves unknown models unpriced', () => {
+    expect(findModelPrice('llava:13b', DEFAULT_PRICE_TABLE)).toBeNull();
+    expect(computeCallCost('llava:13b', 1000, 1000, DEFAULT_PRICE_TABLE)).toBeNull();
+  });
+
+  it('validates price table files', () => {
+    expect(priceTableSchema.safeParse({ 'llava:13b': { inputPerMTok: 0, outputPerMTok: 0 } }).success).toBe(true);
+    expect(priceTableSchema.safeParse({ 'llava:13b': { inputPerMTok: -1, outputPerMTok: 0 } }).success).toBe(false);
+    expect(priceTableSchema.safeParse({ 'llava:13b': { input: 1 } }).success).toBe(false);
+  });
+});
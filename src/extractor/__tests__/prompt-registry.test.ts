@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clearPromptOverrides,
+  diffPromptText,
+  formatPromptRef,
+  hashPromptTemplate,
+  listPromptTemplates,
+  overridePromptTemplate,
+  renderPrompt,
+  templateVariables,
+} from '../prompt-registry.js';
+import {
+  buildExtractionPrompt,
+  buildFullProductPrompt,
+  buildSimplifiedPrompt,
+  buildSupplementFactsOnlyPrompt,
+  buildTextFieldsPrompt,
+  buildTextStructuringPrompt,
+} from '../prompt-builder.js';
+import type { PDFFileMetadata } from '../../scanner/file-parser.js';
+
+const metadata: PDFFileMetadata = {
+  productCode: '0358',
+  productName: 'Yummies',
+  subbrand: 'Solis',
+  filePath: '/pdfs/0358 Yummies/0358-PI_EN.pdf',
+  folderPath: '/pdfs/0358 Yummies',
+  fileName: '0358-PI_EN.pdf',
+};
+
+describe('Prompt Registry', () => {
+  it('has unique template IDs', () => {
+    const ids = listPromptTemplates().map((template) => template.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('hashes the template text, not the version', () => {
+    const hash = hashPromptTemplate({ system: 'Extract {{productCode}}', user: 'Go' });
+    expect(hash).toMatch(/^[0-9a-f]{12}$/);
+    expect(hashPromptTemplate({ system: 'Extract {{productCode}}', user: 'Go' })).toBe(hash);
+    expect(hashPromptTemplate({ system: 'Extract {{productCode}}.', user: 'Go' })).not.toBe(hash);
+    expect(hashPromptTemplate({ user: 'Go' })).not.toBe(hashPromptTemplate({ system: '', user: 'Go' }));
+  });
+
+  it('lists template variables in order of appearance', () => {
+    expect(templateVariables({ system: '{{a}} {{b}}', user: '{{b}} {{c}}' })).toEqual(['a', 'b', 'c']);
+    expect(templateVariables({ user: 'No placeholders' })).toEqual([]);
+  });
+
+  it('renders variables and tags the prompt with its template', () => {
+    const prompt = renderPrompt('text-structuring', {
+      ingredientsText: 'Organic Sugar, Gelatin',
+      directionsText: 'Not found',
+      cautionText: 'Keep out of reach of children',
+    });
+
+    expect(prompt.system).toBeUndefined();
+    expect(prompt.user).toContain('Ingredients: Organic Sugar, Gelatin');
+    expect(prompt.user).not.toMatch(/\{\{\w+\}\}/);
+    expect(prompt.ref.id).toBe('text-structuring');
+    expect(formatPromptRef(prompt.ref)).toBe(`text-structuring@v${prompt.ref.version} (${prompt.ref.hash})`);
+  });
+
+  it('renders an overriding template version until the overrides are cleared', () => {
+    const variables = { ingredientsText: 'Sugar', directionsText: 'Daily', cautionText: 'None' };
+    const current = renderPrompt('text-structuring', variables);
+
+    overridePromptTemplate({ id: 'text-structuring', version: 1, description: 'Earlier', user: 'Only {{ingredientsText}}' });
+    const earlier = renderPrompt('text-structuring', variables);
+    clearPromptOverrides();
+
+    expect(earlier.user).toBe('Only Sugar');
+    expect(earlier.ref).toEqual({ id: 'text-structuring', version: 1, hash: hashPromptTemplate({ user: 'Only {{ingredientsText}}' }) });
+    expect(renderPrompt('text-structuring', variables)).toEqual(current);
+  });
+
+  it('rejects missing variables and unknown templates', () => {
+    expect(() => renderPrompt('text-structuring', { ingredientsText: 'Sugar' })).toThrow('needs variable "directionsText"');
+    expect(() => renderPrompt('no-such-prompt', {})).toThrow('Unknown prompt template');
+  });
+
+  it('builds every prompt from a registered template', () => {
+    const prompts = [
+      buildExtractionPrompt(metadata),
+      buildSimplifiedPrompt(metadata),
+      buildSupplementFactsOnlyPrompt(metadata),
+      buildFullProductPrompt(metadata),
+      buildTextFieldsPrompt(metadata),
+      buildTextStructuringPrompt({
+        ingredientsText: null,
+        directionsText: null,
+        cautionText: null,
+        productName: metadata.productName,
+        productCode: metadata.productCode,
+      }),
+    ];
+
+    expect(prompts.map((prompt) => prompt.ref.id).sort()).toEqual(listPromptTemplates().map((t) => t.id).sort());
+    for (const prompt of prompts) {
+      expect(`${prompt.system ?? ''}${prompt.user}`).not.toMatch(/\{\{\w+\}\}/);
+    }
+    expect(buildExtractionPrompt(metadata).user).toContain('Subbrand: Solis');
+    expect(buildExtractionPrompt({ ...metadata, subbrand: null }).user).not.toContain('Subbrand:');
+  });
+
+  it('diffs template text line by line', () => {
+    expect(diffPromptText('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+    expect(diffPromptText('same', 'same')).toEqual([{ type: 'same', text: 'same' }]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { findSupplementFactsPage } from '../section-markers.js';
+
+const panel = 'Supplement Facts\nServing Size 1 Capsule\nServings Per Container 60\nAmount Per Serving  % Daily Value\nVitamin C 90 mg 100%';
+
+describe('findSupplementFactsPage', () => {
+  it('finds a page that only carries the heading', () => {
+    expect(findSupplementFactsPage(['Front label', 'SUPPLEMENT FACTS', 'Directions: take one daily'])).toBe(1);
+    expect(findSupplementFactsPage(['nutrition facts'])).toBe(0);
+  });
+
+  it('prefers the panel over a page that only mentions Supplement Facts', () => {
+    const mention = 'See the Supplement Facts panel on the back for details.';
+    expect(findSupplementFactsPage([mention, panel])).toBe(1);
+    expect(findSupplementFactsPage([panel, mention])).toBe(0);
+  });
+
+  it('returns null when no page has the heading', () => {
+    expect(findSupplementFactsPage(['Ingredients: rice flour', 'Serving Size 1 Capsule'])).toBeNull();
+    expect(findSupplementFactsPage([])).toBeNull();
+  });
+});
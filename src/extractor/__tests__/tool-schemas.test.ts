@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { extractionToolFor, replyText, toJsonSchema } from '../tool-schemas.js';
+
+describe('Tool schemas', () => {
+  it('converts zod schemas to JSON Schema', () => {
+    const schema = z.object({
+      name: z.string().min(1),
+      amount: z.string().regex(/^[\d.]+ mg$/, 'Amount in mg').nullable().optional(),
+      organic: z.boolean().default(false),
+      tags: z.array(z.string()),
+      unit: z.enum(['mg', 'g']),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        amount: { type: ['string', 'null'], pattern: '^[\\d.]+ mg$', description: 'Amount in mg' },
+        organic: { type: 'boolean', default: false },
+        tags: { type: 'array', items: { type: 'string' } },
+        unit: { type: 'string', enum: ['mg', 'g'] },
+      },
+      required: ['name', 'tags', 'unit'],
+    });
+  });
+
+  it('defines a tool for each extraction prompt', () => {
+    const product = extractionToolFor('full-extraction')!;
+    expect(product.name).toBe('record_product');
+    expect(product.input_schema).toMatchObject({
+      type: 'object',
+      required: ['productName', 'productDescription', 'directions'],
+    });
+    expect((product.input_schema.properties as Record<string, any>).supplementFacts.properties.nutrients.items.required).toEqual(['name']);
+
+    expect(extractionToolFor('supplement-facts')?.name).toBe('record_supplement_facts');
+    expect(extractionToolFor('text-structuring')?.name).toBe('record_text_fields');
+    expect(extractionToolFor('text-fields')?.name).toBe('record_text_fields');
+    expect(extractionToolFor('full-product')?.name).toBe('record_product_metadata');
+    expect(extractionToolFor('unknown')).toBeNull();
+  });
+
+  it('reads tool arguments, falling back to the text of the reply', () => {
+    expect(replyText([{ type: 'tool_use', input: { servings: '1' } }])).toBe('{"servings":"1"}');
+    expect(replyText([{ type: 'text', text: 'Here you go' }, { type: 'tool_use', input: {} }])).toBe('{}');
+    expect(replyText([{ type: 'text', text: '{"a":1}' }])).toBe('{"a":1}');
+    expect(replyText([])).toBeNull();
+  });
+});
@@ -1,8 +1,16 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../config/env.js';
 import { PDFFileMetadata } from '../scanner/file-parser.js';
-import { convertPDFToBase64, validatePDF } from './pdf-converter.js';
-import { buildExtractionPrompt, buildSimplifiedPrompt, buildSupplementFactsOnlyPrompt, buildTextStructuringPrompt, buildFullProductPrompt } from './prompt-builder.js';
+import { convertPDFPagesToBase64, convertPDFToBase64, validatePDF } from './pdf-converter.js';
+import {
+  buildExtractionPrompt,
+  buildSimplifiedPrompt,
+  buildSupplementFactsOnlyPrompt,
+  buildTextFieldsPrompt,
+  buildTextStructuringPrompt,
+  buildFullProductPrompt,
+} from './prompt-builder.js';
+import { PromptRef } from './prompt-registry.js';
 import {
   validateProductExtraction,
   ProductExtractionData,
@@ -13,8 +21,15 @@ import {
 } from '../parser/json-validator.js';
 import { normalizeProductData } from '../parser/data-normalizer.js';
 import logger, { logApiRequest, logApiResponse } from '../utils/logger.js';
-import { extractAllStrategies } from './json-extractor.js';
+import { extractAllStrategies, repairCommonJSONErrors, tryJSON5Parse } from './json-extractor.js';
 import { extractAllSections } from './text-extractor.js';
+import { ApiUsage, budgetExhaustedError, CallBudget, ExtractionProvider, ProviderConfig } from './provider.js';
+import { RateLimiter } from './rate-limiter.js';
+import { ResponseCache, computeCacheKey, hashPDF } from './response-cache.js';
+import { estimateCallCost } from '../config/pricing.js';
+import { BATCH_PRICE_FACTOR } from './pricing.js';
+import { MessageBatchClient, MessageBatchParams } from './message-batches.js';
+import { extractionToolFor, replyText } from './tool-schemas.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -32,22 +47,145 @@ export interface ExtractionResult {
   processingTimeMs: number;
   retryCount: number;
   validationWarnings?: ValidationWarning[];
+  model?: string; // Model that produced the response
+  prompts?: PromptRef[]; // Templates of the model calls behind the result
+  usage?: ApiUsage[]; // API calls made for the result, including failed attempts
+  parses?: ReplyParse[]; // How each reply was parsed
+  truncations?: TruncationEvent[]; // Replies cut off at max_tokens
+  pdfText?: string | null; // Text layer read by hybrid extractions (null: none); undefined when not read
+  supplementFactsPage?: number | null; // 0-based page of the panel in pdfText (see findSupplementFactsPage)
+}
+
+// Raw model replies from the three hybrid extraction calls, stored as raw_ai_response
+export interface HybridResponses {
+  vision: string;
+  text: string | null;
+  fullProduct: string | null;
+}
+
+type TextSections = Awaited<ReturnType<typeof extractAllSections>>;
+
+// One model call of an extraction: the only call of a full extraction, or one of the three hybrid calls
+export type ExtractionPart = 'full' | 'vision' | 'text' | 'fullProduct';
+
+// How the JSON of one reply was obtained: 'directParse' for well-formed replies (every tool call),
+// another strategy of the repair cascade when the fallback had to salvage it, or 'failed'
+export interface ReplyParse {
+  part: ExtractionPart;
+  strategy: string;
+}
+
+// Follow-up calls made to complete one reply cut off at max_tokens
+const MAX_CONTINUATIONS = 2;
+
+// A reply cut off at max_tokens and what was done about it: continued where it stopped, re-issued
+// split by section, re-issued outside its Message Batch, or left truncated for the JSON repair cascade
+export interface TruncationEvent {
+  promptId: string;
+  maxTokens: number;
+  resolution: 'continued' | 'split' | 'reissued' | 'truncated';
+  extraCalls: number; // Calls made after the truncated one to complete it
+}
+
+// "supplement-facts reply hit the 4096 token limit; completed in 1 more call"
+export function describeTruncation(event: TruncationEvent): string {
+  const calls = `${event.extraCalls} more call${event.extraCalls === 1 ? '' : 's'}`;
+  const outcomes: Record<TruncationEvent['resolution'], string> = {
+    continued: `completed in ${calls}`,
+    split: 're-issued split by section',
+    reissued: 're-issued outside the batch',
+    truncated: `still truncated after ${calls}`,
+  };
+
+  return `${event.promptId} reply hit the ${event.maxTokens} token limit; ${outcomes[event.resolution]}`;
+}
+
+// One model call of an extraction sent through the Message Batches API
+export interface BatchExtractionRequest {
+  part: ExtractionPart;
+  prompt: PromptRef;
+  params: MessageBatchParams;
+  cacheKey: string; // Response cache entry the reply is stored under
+  pdfHash: string;
+}
+
+export interface BatchRequestPlan {
+  success: boolean;
+  requests?: BatchExtractionRequest[];
+  error?: string;
+}
+
+// Outcome of a BatchExtractionRequest once its batch has ended
+export interface BatchPartReply {
+  part: ExtractionPart;
+  prompt: PromptRef;
+  cacheKey: string;
+  pdfHash: string;
+  text: string | null;
+  stopReason: string | null; // 'max_tokens' when the reply was cut off
+  error?: string; // Set when the request errored, expired or was canceled (and was not billed)
+  inputTokens: number;
+  outputTokens: number;
 }
 
-export class AIExtractor {
+interface MessageRequest {
+  system?: string;
+  user: string;
+  document?: string; // Base64 PDF attached ahead of the prompt
+  pages?: number[]; // Pages (0-based) of the source PDF the document was cut down to
+  promptId: string;
+  freeText?: boolean; // Sent without the prompt's tool
+  splitOnTruncation?: boolean; // Return a truncated reply as is, for the caller to split the request
+}
+
+// Text of one reply, flagged when it is still cut off at max_tokens
+interface MessageReply {
+  text: string;
+  truncated: boolean;
+}
+
+export class AIExtractor implements ExtractionProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
   private client: Anthropic;
   private rateLimiter: RateLimiter;
+  private cache: ResponseCache;
+  private config: ProviderConfig;
+  private budget?: CallBudget;
 
-  constructor() {
+  constructor(config: ProviderConfig) {
+    this.config = config;
+    this.model = config.model;
     this.client = new Anthropic({
-      apiKey: env.ANTHROPIC_API_KEY,
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
     });
-    this.rateLimiter = new RateLimiter(env.RATE_LIMIT_PER_MINUTE);
+    this.rateLimiter = new RateLimiter(config.rateLimitPerMinute, 'Anthropic');
+    this.cache = new ResponseCache(this.name);
+  }
+
+  setBudget(budget: CallBudget | undefined): void {
+    this.budget = budget;
   }
 
+  // ExtractionProvider entry point: hybrid or full-vision extraction depending on config
+  async extractProduct(metadata: PDFFileMetadata, retryCount = 0): Promise<ExtractionResult> {
+    const usage: ApiUsage[] = [];
+    const truncations: TruncationEvent[] = [];
+    const result = env.ENABLE_HYBRID_EXTRACTION
+      ? await this.extractProductInfoHybrid(metadata, retryCount, usage, truncations)
+      : await this.extractProductInfo(metadata, retryCount, usage, truncations);
+
+    return { ...result, model: this.config.model, usage, truncations };
+  }
+
+  // API calls are appended to `usage` as they complete, so failed extractions are accounted for too.
+  // A reply cut off at max_tokens is re-issued split by section, as a hybrid extraction.
   async extractProductInfo(
     metadata: PDFFileMetadata,
-    retryCount = 0
+    retryCount = 0,
+    usage: ApiUsage[] = [],
+    truncations: TruncationEvent[] = []
   ): Promise<ExtractionResult> {
     const startTime = Date.now();
 
@@ -76,46 +214,29 @@ export class AIExtractor {
         };
       }
 
-      // Wait for rate limiter
-      await this.rateLimiter.acquire();
-
       // Build prompt
       const prompt = retryCount > 0
         ? buildSimplifiedPrompt(metadata)
         : buildExtractionPrompt(metadata);
 
-      // Call Anthropic Vision API
-      // Note: PDFs are supported by the API but TypeScript definitions don't include them yet
-      // Using type assertion to bypass outdated type definitions
-      const response = await this.client.messages.create({
-        model: env.AI_MODEL,
-        max_tokens: env.AI_MAX_TOKENS,
-        temperature: env.AI_TEMPERATURE,
-        system: prompt.system,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'document',
-                source: {
-                  type: 'base64',
-                  media_type: 'application/pdf',
-                  data: conversionResult.base64Data!,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt.user,
-              },
-            ] as any, // Type assertion for PDF support
-          },
-        ],
-      });
+      // Call Anthropic Vision API (or reuse the cached reply)
+      const pdfHash = hashPDF(conversionResult.base64Data!);
+      const cacheKeys: string[] = [];
+      const reply = await this.sendMessage(
+        {
+          system: prompt.system,
+          user: prompt.user,
+          document: conversionResult.base64Data!,
+          promptId: prompt.ref.id,
+          splitOnTruncation: true,
+        },
+        pdfHash,
+        cacheKeys,
+        usage,
+        truncations
+      );
 
-      // Extract text response
-      const textContent = response.content.find((block) => block.type === 'text');
-      if (!textContent || textContent.type !== 'text') {
+      if (reply === null) {
         return {
           success: false,
           error: 'No text content in API response',
@@ -124,87 +245,19 @@ export class AIExtractor {
         };
       }
 
-      const rawResponse = textContent.text;
-
-      // Parse JSON response
-      const jsonData = this.extractJSON(rawResponse);
-      if (!jsonData) {
-        // Save to debug file
-        const debugDir = process.env.LOG_DIR || './logs';
-        if (!fs.existsSync(debugDir)) {
-          fs.mkdirSync(debugDir, { recursive: true });
-        }
-        const debugPath = path.join(
-          debugDir,
-          `failed-extraction-${metadata.productCode}-${Date.now()}.txt`
-        );
-        fs.writeFileSync(debugPath, rawResponse, 'utf-8');
-        logger.error(`Full AI response saved to: ${debugPath}`);
-
-        return {
-          success: false,
-          error: 'Failed to extract JSON from response (see logs for details)',
-          rawResponse,
-          processingTimeMs: Date.now() - startTime,
-          retryCount,
-        };
+      if (reply.truncated) {
+        logger.warn(`Reply for ${metadata.productCode} hit the token limit, re-issuing it split by section`);
+        return this.extractProductInfoHybrid(metadata, retryCount, usage, truncations, true);
       }
 
-      // Validate extracted data
-      const validationResult = validateProductExtraction(jsonData);
-      if (!validationResult.success) {
-        // Try to salvage what we can
-        const partialData = safeParseProductExtraction(jsonData);
-        if (partialData) {
-          logger.warn(
-            `Partial extraction for ${metadata.productCode}: ${validationResult.error}`
-          );
-          const normalizedData = normalizeProductData(partialData);
-
-          // Parse validation warnings from the error string
-          const validationWarnings = this.parseValidationWarnings(validationResult.error || '');
-          if (validationWarnings.length > 0) {
-            logger.warn(
-              `Validation warnings for ${metadata.productCode}: ${validationWarnings.length} issues (${validationWarnings.filter(w => w.severity === 'high').length} high severity)`
-            );
-          }
+      const rawResponse = reply.text;
 
-          const processingTimeMs = Date.now() - startTime;
-          logApiResponse(metadata.productCode, true, processingTimeMs);
-
-          return {
-            success: true,
-            data: normalizedData,
-            rawResponse,
-            error: `Partial extraction: ${validationResult.error}`,
-            processingTimeMs,
-            retryCount,
-            validationWarnings,
-          };
-        }
-
-        return {
-          success: false,
-          error: validationResult.error,
-          rawResponse,
-          processingTimeMs: Date.now() - startTime,
-          retryCount,
-        };
+      const parses: ReplyParse[] = [];
+      const result = this.parseFullResponse(metadata, rawResponse, startTime, retryCount, parses);
+      if (!result.success) {
+        this.cache.evict(cacheKeys);
       }
-
-      // Normalize data
-      const normalizedData = normalizeProductData(validationResult.data!);
-
-      const processingTimeMs = Date.now() - startTime;
-      logApiResponse(metadata.productCode, true, processingTimeMs);
-
-      return {
-        success: true,
-        data: normalizedData,
-        rawResponse,
-        processingTimeMs,
-        retryCount,
-      };
+      return { ...result, prompts: [prompt.ref], parses };
     } catch (error) {
       const processingTimeMs = Date.now() - startTime;
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -221,10 +274,15 @@ export class AIExtractor {
     }
   }
 
-  // Hybrid extraction: Text extraction for ingredients/directions, Vision for supplement facts
+  // Hybrid extraction: Text extraction for ingredients/directions, Vision for supplement facts.
+  // `splitSections` is set when a truncated full extraction is re-issued as the separate calls;
+  // sheets without a text layer then have their text fields read from the PDF instead.
   async extractProductInfoHybrid(
     metadata: PDFFileMetadata,
-    retryCount = 0
+    retryCount = 0,
+    usage: ApiUsage[] = [],
+    truncations: TruncationEvent[] = [],
+    splitSections = false
   ): Promise<ExtractionResult> {
     const startTime = Date.now();
 
@@ -239,9 +297,9 @@ export class AIExtractor {
         // Note: productSlogan not available yet; will use Vision API result for description
       );
 
-      if (!textExtraction.success) {
+      if (!textExtraction.success && !splitSections) {
         logger.warn(`Text extraction failed for ${metadata.productCode}, falling back to full vision extraction`);
-        return this.extractProductInfo(metadata, retryCount);
+        return this.extractProductInfo(metadata, retryCount, usage, truncations);
       }
 
       // Step 2: Extract supplement facts using vision API
@@ -269,41 +327,31 @@ export class AIExtractor {
         };
       }
 
-      // Wait for rate limiter
-      await this.rateLimiter.acquire();
+      const pdfHash = hashPDF(conversionResult.base64Data!);
+      const cacheKeys: string[] = [];
+
+      // Send only the page holding the Supplement Facts panel when the text layer locates it
+      const supplementPages = await this.routeSupplementFactsPage(metadata, textExtraction.supplementFactsPage);
 
       // Build prompt for supplement facts only
       const supplementPrompt = buildSupplementFactsOnlyPrompt(metadata);
 
       // Call Claude Vision API for supplement facts
-      const visionResponse = await this.client.messages.create({
-        model: env.AI_MODEL,
-        max_tokens: env.AI_MAX_TOKENS,
-        temperature: env.AI_TEMPERATURE,
-        system: supplementPrompt.system,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'document',
-                source: {
-                  type: 'base64',
-                  media_type: 'application/pdf',
-                  data: conversionResult.base64Data!,
-                },
-              },
-              {
-                type: 'text',
-                text: supplementPrompt.user,
-              },
-            ] as any,
-          },
-        ],
-      });
+      const vision = await this.sendMessage(
+        {
+          system: supplementPrompt.system,
+          user: supplementPrompt.user,
+          document: supplementPages?.document ?? conversionResult.base64Data!,
+          pages: supplementPages?.pages,
+          promptId: supplementPrompt.ref.id,
+        },
+        pdfHash,
+        cacheKeys,
+        usage,
+        truncations
+      );
 
-      const visionTextContent = visionResponse.content.find((block) => block.type === 'text');
-      if (!visionTextContent || visionTextContent.type !== 'text') {
+      if (vision === null) {
         return {
           success: false,
           error: 'No text content in vision API response',
@@ -312,45 +360,49 @@ export class AIExtractor {
         };
       }
 
-      const supplementFactsJson = this.extractSupplementFactsJSON(visionTextContent.text);
+      const parses: ReplyParse[] = [];
+      const supplementFactsJson = this.extractSupplementFactsJSON(vision.text, parses);
       if (!supplementFactsJson) {
         logger.error(`Failed to extract supplement facts JSON for ${metadata.productCode}`);
+        this.cache.evict(cacheKeys);
         return {
           success: false,
           error: 'Failed to parse supplement facts JSON',
           processingTimeMs: Date.now() - startTime,
           retryCount,
+          parses,
         };
       }
 
-      // Step 3: Structure text fields with minimal AI assistance
+      // Step 3: Structure text fields with minimal AI assistance (read them from the PDF when there is
+      // no text layer to structure)
       logger.debug(`Structuring text fields for ${metadata.productCode}`);
 
-      const textStructuringPrompt = buildTextStructuringPrompt({
-        ingredientsText: textExtraction.ingredients || null,
-        directionsText: textExtraction.directions || null,
-        cautionText: textExtraction.caution || null,
-        productName: metadata.productName,
-        productCode: metadata.productCode
-      });
+      const textStructuringPrompt = textExtraction.success
+        ? buildTextStructuringPrompt({
+            ingredientsText: textExtraction.ingredients || null,
+            directionsText: textExtraction.directions || null,
+            cautionText: textExtraction.caution || null,
+            productName: metadata.productName,
+            productCode: metadata.productCode
+          })
+        : buildTextFieldsPrompt(metadata);
 
       // Use same model as main extraction for consistency
-      await this.rateLimiter.acquire();
-
-      const textResponse = await this.client.messages.create({
-        model: env.AI_MODEL,
-        max_tokens: env.AI_MAX_TOKENS,
-        temperature: env.AI_TEMPERATURE,
-        messages: [
-          {
-            role: 'user',
-            content: textStructuringPrompt,
-          },
-        ],
-      });
+      const structuredText = await this.sendMessage(
+        {
+          system: textStructuringPrompt.system,
+          user: textStructuringPrompt.user,
+          document: textExtraction.success ? undefined : conversionResult.base64Data!,
+          promptId: textStructuringPrompt.ref.id,
+        },
+        pdfHash,
+        cacheKeys,
+        usage,
+        truncations
+      );
 
-      const textContent = textResponse.content.find((block) => block.type === 'text');
-      if (!textContent || textContent.type !== 'text') {
+      if (structuredText === null) {
         return {
           success: false,
           error: 'No text content in structuring API response',
@@ -359,145 +411,692 @@ export class AIExtractor {
         };
       }
 
-      const structuredTextData = this.extractTextStructuringJSON(textContent.text);
-      if (!structuredTextData) {
-        logger.error(`Failed to structure text data for ${metadata.productCode}`);
-        // Fall back to raw text if structuring fails
-        logger.warn('Falling back to raw text extraction');
-      }
-
       // Step 4: Extract full product fields (description, slogan, dietary, references) via Vision
       logger.debug(`Extracting full product fields with vision for ${metadata.productCode}`);
 
       const fullProductPrompt = buildFullProductPrompt(metadata);
-      await this.rateLimiter.acquire();
-
-      const fullProductResponse = await this.client.messages.create({
-        model: env.AI_MODEL,
-        max_tokens: env.AI_MAX_TOKENS,
-        temperature: env.AI_TEMPERATURE,
-        system: fullProductPrompt.system,
-        messages: [
+      const fullProduct = await this.sendMessage(
+        {
+          system: fullProductPrompt.system,
+          user: fullProductPrompt.user,
+          document: conversionResult.base64Data!,
+          promptId: fullProductPrompt.ref.id,
+        },
+        pdfHash,
+        cacheKeys,
+        usage,
+        truncations
+      );
+
+      // Step 5: Combine all extracted data with priority (Vision > Text extraction > Fallback)
+      const result = this.buildHybridResult(
+        metadata,
+        { vision: vision.text, text: structuredText.text, fullProduct: fullProduct?.text ?? null },
+        supplementFactsJson,
+        textExtraction,
+        startTime,
+        retryCount,
+        parses
+      );
+      if (!result.success) {
+        this.cache.evict(cacheKeys);
+      }
+      return { ...result, prompts: [supplementPrompt.ref, textStructuringPrompt.ref, fullProductPrompt.ref], parses };
+    } catch (error) {
+      const processingTimeMs = Date.now() - startTime;
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error(`Hybrid extraction failed for ${metadata.productCode}: ${errorMsg}`, error);
+      logApiResponse(metadata.productCode, false, processingTimeMs);
+
+      return {
+        success: false,
+        error: errorMsg,
+        processingTimeMs,
+        retryCount,
+      };
+    }
+  }
+
+  // Single-page PDF of the Supplement Facts panel; null (send the whole sheet) when page routing is
+  // off, the page was not found, or the sheet has only that page
+  private async routeSupplementFactsPage(
+    metadata: PDFFileMetadata,
+    page: number | null | undefined
+  ): Promise<{ document: string; pages: number[] } | null> {
+    if (!env.ENABLE_PAGE_ROUTING) {
+      return null;
+    }
+
+    if (page === null || page === undefined) {
+      logger.debug(`No Supplement Facts page located for ${metadata.productCode}, sending every page`);
+      return null;
+    }
+
+    const split = await convertPDFPagesToBase64(metadata.filePath, [page]);
+    if (!split.success || split.pageCount === 1) {
+      return null;
+    }
+
+    logger.debug(`Sending page ${page + 1} of ${split.pageCount} for ${metadata.productCode} supplement facts`);
+    return { document: split.base64Data!, pages: [page] };
+  }
+
+  // Call the Messages API, or serve the reply from the response cache, and return its text.
+  // Keys are collected in `cacheKeys` so replies that fail to parse can be evicted; billed
+  // tokens are appended to `usage`. Replies cut off at max_tokens are continued unless the
+  // request is split instead, and recorded in `truncations`; ones still truncated are not cached.
+  private async sendMessage(
+    request: MessageRequest,
+    pdfHash: string,
+    cacheKeys: string[],
+    usage: ApiUsage[],
+    truncations: TruncationEvent[]
+  ): Promise<MessageReply | null> {
+    const cacheKey = this.cacheKeyFor(request, pdfHash);
+    cacheKeys.push(cacheKey);
+
+    const cached = this.cache.get(cacheKey);
+    if (cached !== null) {
+      return { text: cached, truncated: false };
+    }
+
+    const response = await this.createMessage(request, usage);
+    let reply: MessageReply | null = null;
+    const text = replyText(response.content);
+
+    if (text !== null && response.stop_reason === 'max_tokens') {
+      if (request.splitOnTruncation) {
+        truncations.push({ promptId: request.promptId, maxTokens: this.config.maxTokens, resolution: 'split', extraCalls: 0 });
+        return { text, truncated: true };
+      }
+      reply = await this.continueReply(request, response, usage, truncations);
+    } else if (text !== null) {
+      reply = { text, truncated: false };
+    }
+
+    if (reply && !reply.truncated) {
+      this.cache.set(cacheKey, pdfHash, this.config.model, reply.text);
+    }
+    return reply;
+  }
+
+  /**
+   * Complete a reply cut off at max_tokens by sending it back as the start of the assistant turn,
+   * at most MAX_CONTINUATIONS times. Tool arguments cannot be continued that way, so a truncated
+   * tool call is first re-issued as free text.
+   */
+  private async continueReply(
+    request: MessageRequest,
+    truncatedResponse: Anthropic.Message,
+    usage: ApiUsage[],
+    truncations: TruncationEvent[]
+  ): Promise<MessageReply | null> {
+    const event: TruncationEvent = {
+      promptId: request.promptId,
+      maxTokens: this.config.maxTokens,
+      resolution: 'truncated',
+      extraCalls: 0,
+    };
+    truncations.push(event);
+
+    const freeTextRequest = { ...request, freeText: true };
+    let response = truncatedResponse;
+    if (this.toolFor(request)) {
+      response = await this.createMessage(freeTextRequest, usage);
+      event.extraCalls++;
+    }
+
+    let text = replyText(response.content);
+    while (text !== null && response.stop_reason === 'max_tokens' && event.extraCalls < MAX_CONTINUATIONS) {
+      const prefill = text.trimEnd(); // The API rejects a final assistant turn ending in whitespace
+      response = await this.createMessage(freeTextRequest, usage, prefill);
+      text = prefill + (replyText(response.content) ?? '');
+      event.extraCalls++;
+    }
+
+    const truncated = response.stop_reason === 'max_tokens';
+    if (!truncated) {
+      event.resolution = 'continued';
+    }
+    logger.warn(describeTruncation(event));
+
+    return text === null ? null : { text, truncated };
+  }
+
+  // One Messages API call, billed to `usage` and the run budget (which may refuse it)
+  private async createMessage(request: MessageRequest, usage: ApiUsage[], prefill?: string): Promise<Anthropic.Message> {
+    const exhausted = this.budget?.checkCall();
+    if (exhausted) {
+      throw budgetExhaustedError(exhausted);
+    }
+
+    await this.rateLimiter.acquire();
+
+    const response = await this.client.messages.create(this.messageParams(request, prefill));
+
+    const call: ApiUsage = {
+      provider: this.name,
+      model: this.config.model,
+      promptId: request.promptId,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      costUsd: estimateCallCost(this.config.model, response.usage.input_tokens, response.usage.output_tokens),
+    };
+    usage.push(call);
+    this.budget?.recordCall(call);
+
+    return response;
+  }
+
+  // Requests sent with an extraction tool get their own keys, so free-text replies cached before
+  // (or with ENABLE_TOOL_OUTPUT=false) are not served for them
+  private cacheKeyFor(request: MessageRequest, pdfHash: string): string {
+    const tool = this.toolFor(request);
+    const prompt: unknown[] = [request.system ?? null, request.user];
+    if (request.pages) prompt.push(request.pages);
+    if (tool) prompt.push({ tool: tool.name });
+
+    return computeCacheKey({
+      pdfHash,
+      prompt: JSON.stringify(prompt),
+      model: this.config.model,
+      temperature: this.config.temperature,
+    });
+  }
+
+  private toolFor(request: MessageRequest): Anthropic.Tool | null {
+    return env.ENABLE_TOOL_OUTPUT && !request.freeText ? extractionToolFor(request.promptId) : null;
+  }
+
+  // Request body shared by direct calls and Message Batches requests; `prefill` is the start of
+  // the reply when continuing one that was cut off
+  private messageParams(request: MessageRequest, prefill?: string): Anthropic.MessageCreateParamsNonStreaming {
+    // Note: PDFs are supported by the API but TypeScript definitions don't include them yet
+    // Using type assertion to bypass outdated type definitions
+    const content = request.document
+      ? ([
           {
-            role: 'user',
-            content: [
-              {
-                type: 'document',
-                source: {
-                  type: 'base64',
-                  media_type: 'application/pdf',
-                  data: conversionResult.base64Data!,
-                },
-              },
-              {
-                type: 'text',
-                text: fullProductPrompt.user,
-              },
-            ] as any,
+            type: 'document',
+            source: {
+              type: 'base64',
+              media_type: 'application/pdf',
+              data: request.document,
+            },
           },
-        ],
-      });
+          {
+            type: 'text',
+            text: request.user,
+          },
+        ] as any)
+      : request.user;
+
+    // The model is made to call the prompt's tool, so the reply arrives as structured arguments
+    const tool = this.toolFor(request);
+
+    return {
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      system: request.system,
+      messages: [
+        { role: 'user', content },
+        ...(prefill ? [{ role: 'assistant' as const, content: prefill }] : []),
+      ],
+      ...(tool ? { tools: [tool], tool_choice: { type: 'tool' as const, name: tool.name } } : {}),
+    };
+  }
 
-      const fullProductTextContent = fullProductResponse.content.find((block) => block.type === 'text');
-      let fullProductData: {
-        productDescription?: string;
-        productSlogan?: string | null;
-        subbrand?: string | null;
-        dietaryAttributes?: string[];
-        references?: string | null;
-      } | null = null;
-
-      if (fullProductTextContent && fullProductTextContent.type === 'text') {
-        fullProductData = this.extractFullProductJSON(fullProductTextContent.text);
-        if (!fullProductData) {
-          logger.warn(`Failed to extract full product JSON for ${metadata.productCode}, using text extraction fallback`);
-        }
+  // ===== MESSAGE BATCHES =====
+
+  createBatchClient(): MessageBatchClient {
+    return new MessageBatchClient(this.client);
+  }
+
+  /**
+   * The Messages API requests extractProduct would make for a PDF, built for a Message Batch.
+   * Hybrid extraction submits its three calls side by side (none depends on another's reply);
+   * PDFs without a usable text layer fall back to one full-vision request, as in extractProduct.
+   * The response cache is not consulted: every request is submitted.
+   */
+  async prepareBatchRequests(metadata: PDFFileMetadata): Promise<BatchRequestPlan> {
+    try {
+      const validation = await validatePDF(metadata.filePath);
+      if (!validation.isValid) {
+        return { success: false, error: `Invalid PDF: ${validation.error}` };
       }
 
-      // Step 5: Combine all extracted data with priority (Vision > Text extraction > Fallback)
-      const combinedData = {
-        productName: metadata.productName,
-        productDescription: fullProductData?.productDescription || textExtraction.description || metadata.productName,
-        subbrand: fullProductData?.subbrand || metadata.subbrand || null,
-        supplementFacts: supplementFactsJson,
-        ingredients: (structuredTextData as any)?.ingredients || [],
-        directions: (structuredTextData as any)?.directions || textExtraction.directions || '',
-        caution: (structuredTextData as any)?.caution || textExtraction.caution || null,
-        dietaryAttributes: fullProductData?.dietaryAttributes || textExtraction.dietaryAttributes || [],
-        references: fullProductData?.references || textExtraction.references || null,
-        productSlogan: fullProductData?.productSlogan || null
-      };
+      const conversionResult = await convertPDFToBase64(metadata.filePath);
+      if (!conversionResult.success) {
+        return { success: false, error: `PDF conversion failed: ${conversionResult.error}` };
+      }
 
-      // Validate combined data
-      const validationResult = validateProductExtraction(combinedData);
-      if (!validationResult.success) {
-        const partialData = safeParseProductExtraction(combinedData);
-        if (partialData) {
-          logger.warn(`Partial hybrid extraction for ${metadata.productCode}: ${validationResult.error}`);
-          const normalizedData = normalizeProductData(partialData);
-
-          // Parse validation warnings from the error string
-          const validationWarnings = this.parseValidationWarnings(validationResult.error || '');
-          if (validationWarnings.length > 0) {
-            logger.warn(
-              `Validation warnings for ${metadata.productCode}: ${validationWarnings.length} issues (${validationWarnings.filter(w => w.severity === 'high').length} high severity)`
-            );
-          }
+      const document = conversionResult.base64Data!;
+      const pdfHash = hashPDF(document);
 
-          const processingTimeMs = Date.now() - startTime;
-          logApiResponse(metadata.productCode, true, processingTimeMs);
+      if (env.ENABLE_HYBRID_EXTRACTION) {
+        const textExtraction = await extractAllSections(metadata.filePath, metadata.productName);
+
+        if (textExtraction.success) {
+          const supplementPages = await this.routeSupplementFactsPage(metadata, textExtraction.supplementFactsPage);
+          const supplementPrompt = buildSupplementFactsOnlyPrompt(metadata);
+          const textStructuringPrompt = buildTextStructuringPrompt({
+            ingredientsText: textExtraction.ingredients || null,
+            directionsText: textExtraction.directions || null,
+            cautionText: textExtraction.caution || null,
+            productName: metadata.productName,
+            productCode: metadata.productCode
+          });
+          const fullProductPrompt = buildFullProductPrompt(metadata);
 
           return {
             success: true,
-            data: normalizedData,
-            rawResponse: JSON.stringify({ vision: visionTextContent.text, text: textContent.text }),
-            error: `Partial extraction: ${validationResult.error}`,
-            processingTimeMs,
-            retryCount,
-            validationWarnings,
+            requests: [
+              this.batchRequest('vision', supplementPrompt.ref, pdfHash, {
+                system: supplementPrompt.system,
+                user: supplementPrompt.user,
+                document: supplementPages?.document ?? document,
+                pages: supplementPages?.pages,
+                promptId: supplementPrompt.ref.id,
+              }),
+              this.batchRequest('text', textStructuringPrompt.ref, pdfHash, {
+                user: textStructuringPrompt.user,
+                promptId: textStructuringPrompt.ref.id,
+              }),
+              this.batchRequest('fullProduct', fullProductPrompt.ref, pdfHash, {
+                system: fullProductPrompt.system,
+                user: fullProductPrompt.user,
+                document,
+                promptId: fullProductPrompt.ref.id,
+              }),
+            ],
           };
         }
 
+        logger.warn(`Text extraction failed for ${metadata.productCode}, falling back to full vision extraction`);
+      }
+
+      const prompt = buildExtractionPrompt(metadata);
+      return {
+        success: true,
+        requests: [
+          this.batchRequest('full', prompt.ref, pdfHash, {
+            system: prompt.system,
+            user: prompt.user,
+            document,
+            promptId: prompt.ref.id,
+          }),
+        ],
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Parse the replies to a PDF's batch requests into an ExtractionResult, as extractProduct would
+   * have. Billed requests are priced at the batch discount; replies of a successful extraction
+   * are added to the response cache.
+   */
+  async extractFromBatchReplies(metadata: PDFFileMetadata, replies: BatchPartReply[]): Promise<ExtractionResult> {
+    const usage: ApiUsage[] = replies
+      .filter((reply) => !reply.error)
+      .map((reply) => ({
+        provider: this.name,
+        model: this.config.model,
+        promptId: reply.prompt.id,
+        inputTokens: reply.inputTokens,
+        outputTokens: reply.outputTokens,
+        costUsd: estimateCallCost(this.config.model, reply.inputTokens, reply.outputTokens, BATCH_PRICE_FACTOR),
+      }));
+    const provenance = { model: this.config.model, prompts: replies.map((reply) => reply.prompt), usage };
+    const failed = (error: string): ExtractionResult => ({
+      success: false,
+      error,
+      processingTimeMs: 0,
+      retryCount: 0,
+      ...provenance,
+    });
+    const replyTo = (part: ExtractionPart) => replies.find((reply) => reply.part === part);
+
+    const truncated = replies.filter((reply) => reply.text !== null && reply.stopReason === 'max_tokens');
+    if (truncated.length > 0) {
+      return this.reissueTruncatedBatchReplies(metadata, replies, truncated, usage);
+    }
+
+    let rawResponse: string;
+    const full = replyTo('full');
+    if (full) {
+      if (full.text === null) {
+        return failed(full.error || 'No text content in API response');
+      }
+      rawResponse = full.text;
+    } else {
+      const vision = replyTo('vision');
+      const text = replyTo('text');
+      if (!vision || vision.text === null) {
+        return failed(vision?.error || 'No text content in vision API response');
+      }
+      if (!text || text.text === null) {
+        return failed(text?.error || 'No text content in structuring API response');
+      }
+
+      const hybrid: HybridResponses = { vision: vision.text, text: text.text, fullProduct: replyTo('fullProduct')?.text ?? null };
+      rawResponse = JSON.stringify(hybrid);
+    }
+
+    const result = await this.replayResponse(metadata, rawResponse);
+    if (result.success) {
+      for (const reply of replies) {
+        if (reply.text !== null) {
+          this.cache.set(reply.cacheKey, reply.pdfHash, this.config.model, reply.text);
+        }
+      }
+    }
+
+    return { ...result, ...provenance };
+  }
+
+  /**
+   * Replies cut off at max_tokens cannot be continued inside a batch, so the extraction is re-issued
+   * live: a truncated full extraction is split by section, and a truncated hybrid call is sent again
+   * (and continued) while the calls that did complete are served from the response cache.
+   */
+  private async reissueTruncatedBatchReplies(
+    metadata: PDFFileMetadata,
+    replies: BatchPartReply[],
+    truncated: BatchPartReply[],
+    usage: ApiUsage[]
+  ): Promise<ExtractionResult> {
+    const split = truncated.some((reply) => reply.part === 'full');
+    const truncations: TruncationEvent[] = truncated.map((reply) => ({
+      promptId: reply.prompt.id,
+      maxTokens: this.config.maxTokens,
+      resolution: reply.part === 'full' ? 'split' : 'reissued',
+      extraCalls: 0,
+    }));
+
+    for (const reply of replies) {
+      if (reply.text !== null && !truncated.includes(reply)) {
+        this.cache.set(reply.cacheKey, reply.pdfHash, this.config.model, reply.text);
+      }
+    }
+
+    logger.warn(
+      `Batch reply for ${metadata.productCode} hit the token limit, re-issuing it ${split ? 'split by section' : 'outside the batch'}`
+    );
+    const result = await this.extractProductInfoHybrid(metadata, 0, usage, truncations, split);
+    return { ...result, model: this.config.model, usage, truncations };
+  }
+
+  private batchRequest(part: ExtractionPart, prompt: PromptRef, pdfHash: string, request: MessageRequest): BatchExtractionRequest {
+    return {
+      part,
+      prompt,
+      params: this.messageParams(request),
+      cacheKey: this.cacheKeyFor(request, pdfHash),
+      pdfHash,
+    };
+  }
+
+  /**
+   * Re-run parsing, validation and normalization on a stored raw_ai_response
+   * without calling the API. Hybrid responses are recombined with the PDF text layer.
+   */
+  async replayResponse(
+    metadata: PDFFileMetadata,
+    rawResponse: string,
+    retryCount = 0
+  ): Promise<ExtractionResult> {
+    const startTime = Date.now();
+    const parses: ReplyParse[] = [];
+
+    try {
+      const hybrid = parseHybridResponses(rawResponse);
+      if (!hybrid) {
+        return { ...this.parseFullResponse(metadata, rawResponse, startTime, retryCount, parses), parses };
+      }
+
+      const supplementFactsJson = this.extractSupplementFactsJSON(hybrid.vision, parses);
+      if (!supplementFactsJson) {
         return {
           success: false,
-          error: validationResult.error,
-          rawResponse: JSON.stringify({ vision: visionTextContent.text, text: textContent.text }),
+          error: 'Failed to parse supplement facts JSON',
+          rawResponse,
           processingTimeMs: Date.now() - startTime,
           retryCount,
+          parses,
         };
       }
 
-      // Normalize data
-      const normalizedData = normalizeProductData(validationResult.data!);
-      const processingTimeMs = Date.now() - startTime;
-      logApiResponse(metadata.productCode, true, processingTimeMs);
+      // The text layer is local, so it can be re-read; a missing PDF just loses the fallbacks
+      const textExtraction = await extractAllSections(metadata.filePath, metadata.productName);
 
-      return {
-        success: true,
-        data: normalizedData,
-        rawResponse: JSON.stringify({ vision: visionTextContent.text, text: textContent.text }),
-        processingTimeMs,
+      const result = this.buildHybridResult(
+        metadata,
+        hybrid,
+        supplementFactsJson,
+        textExtraction,
+        startTime,
         retryCount,
-      };
+        parses
+      );
+      return { ...result, parses };
     } catch (error) {
-      const processingTimeMs = Date.now() - startTime;
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-
-      logger.error(`Hybrid extraction failed for ${metadata.productCode}: ${errorMsg}`, error);
-      logApiResponse(metadata.productCode, false, processingTimeMs);
+      logger.error(`Replay failed for ${metadata.productCode}: ${errorMsg}`, error);
 
       return {
         success: false,
         error: errorMsg,
-        processingTimeMs,
+        rawResponse,
+        processingTimeMs: Date.now() - startTime,
         retryCount,
       };
     }
   }
 
-  private extractJSON(text: string): unknown {
+  // Combine the three hybrid responses with the PDF text layer into one validated result
+  private buildHybridResult(
+    metadata: PDFFileMetadata,
+    responses: HybridResponses,
+    supplementFactsJson: unknown,
+    textExtraction: TextSections,
+    startTime: number,
+    retryCount: number,
+    parses: ReplyParse[]
+  ): ExtractionResult {
+    const rawResponse = JSON.stringify(responses);
+    const pdfText = textExtraction.rawText?.trim() ? textExtraction.rawText : null;
+    const supplementFactsPage = textExtraction.supplementFactsPage ?? null;
+
+    const structuredTextData = responses.text ? this.extractTextStructuringJSON(responses.text, parses) : null;
+    if (!structuredTextData) {
+      logger.error(`Failed to structure text data for ${metadata.productCode}`);
+      // Fall back to raw text if structuring fails
+      logger.warn('Falling back to raw text extraction');
+    }
+
+    let fullProductData: {
+      productDescription?: string;
+      productSlogan?: string | null;
+      subbrand?: string | null;
+      dietaryAttributes?: string[];
+      references?: string | null;
+    } | null = null;
+
+    if (responses.fullProduct) {
+      fullProductData = this.extractFullProductJSON(responses.fullProduct, parses);
+      if (!fullProductData) {
+        logger.warn(`Failed to extract full product JSON for ${metadata.productCode}, using text extraction fallback`);
+      }
+    }
+
+    // Combine all extracted data with priority (Vision > Text extraction > Fallback)
+    const combinedData = {
+      productName: metadata.productName,
+      productDescription: fullProductData?.productDescription || textExtraction.description || metadata.productName,
+      subbrand: fullProductData?.subbrand || metadata.subbrand || null,
+      supplementFacts: supplementFactsJson,
+      ingredients: (structuredTextData as any)?.ingredients || [],
+      directions: (structuredTextData as any)?.directions || textExtraction.directions || '',
+      caution: (structuredTextData as any)?.caution || textExtraction.caution || null,
+      dietaryAttributes: fullProductData?.dietaryAttributes || textExtraction.dietaryAttributes || [],
+      references: fullProductData?.references || textExtraction.references || null,
+      productSlogan: fullProductData?.productSlogan || null
+    };
+
+    // Validate combined data
+    const validationResult = validateProductExtraction(combinedData);
+    if (!validationResult.success) {
+      const partialData = safeParseProductExtraction(combinedData);
+      if (partialData) {
+        logger.warn(`Partial hybrid extraction for ${metadata.productCode}: ${validationResult.error}`);
+        const normalizedData = normalizeProductData(partialData);
+
+        // Parse validation warnings from the error string
+        const validationWarnings = this.parseValidationWarnings(validationResult.error || '');
+        if (validationWarnings.length > 0) {
+          logger.warn(
+            `Validation warnings for ${metadata.productCode}: ${validationWarnings.length} issues (${validationWarnings.filter(w => w.severity === 'high').length} high severity)`
+          );
+        }
+
+        const processingTimeMs = Date.now() - startTime;
+        logApiResponse(metadata.productCode, true, processingTimeMs);
+
+        return {
+          success: true,
+          data: normalizedData,
+          rawResponse,
+          error: `Partial extraction: ${validationResult.error}`,
+          processingTimeMs,
+          retryCount,
+          validationWarnings,
+          pdfText,
+          supplementFactsPage,
+        };
+      }
+
+      return {
+        success: false,
+        error: validationResult.error,
+        rawResponse,
+        processingTimeMs: Date.now() - startTime,
+        retryCount,
+      };
+    }
+
+    // Normalize data
+    const normalizedData = normalizeProductData(validationResult.data!);
+    const processingTimeMs = Date.now() - startTime;
+    logApiResponse(metadata.productCode, true, processingTimeMs);
+
+    return {
+      success: true,
+      data: normalizedData,
+      rawResponse,
+      processingTimeMs,
+      retryCount,
+      pdfText,
+      supplementFactsPage,
+    };
+  }
+
+  // Parse, validate and normalize a single full-extraction response
+  private parseFullResponse(
+    metadata: PDFFileMetadata,
+    rawResponse: string,
+    startTime: number,
+    retryCount: number,
+    parses: ReplyParse[]
+  ): ExtractionResult {
+    // Parse JSON response
+    const jsonData = this.extractJSON(rawResponse, parses);
+    if (!jsonData) {
+      // Save to debug file
+      const debugDir = process.env.LOG_DIR || './logs';
+      if (!fs.existsSync(debugDir)) {
+        fs.mkdirSync(debugDir, { recursive: true });
+      }
+      const debugPath = path.join(
+        debugDir,
+        `failed-extraction-${metadata.productCode}-${Date.now()}.txt`
+      );
+      fs.writeFileSync(debugPath, rawResponse, 'utf-8');
+      logger.error(`Full AI response saved to: ${debugPath}`);
+
+      return {
+        success: false,
+        error: 'Failed to extract JSON from response (see logs for details)',
+        rawResponse,
+        processingTimeMs: Date.now() - startTime,
+        retryCount,
+      };
+    }
+
+    // Validate extracted data
+    const validationResult = validateProductExtraction(jsonData);
+    if (!validationResult.success) {
+      // Try to salvage what we can
+      const partialData = safeParseProductExtraction(jsonData);
+      if (partialData) {
+        logger.warn(
+          `Partial extraction for ${metadata.productCode}: ${validationResult.error}`
+        );
+        const normalizedData = normalizeProductData(partialData);
+
+        // Parse validation warnings from the error string
+        const validationWarnings = this.parseValidationWarnings(validationResult.error || '');
+        if (validationWarnings.length > 0) {
+          logger.warn(
+            `Validation warnings for ${metadata.productCode}: ${validationWarnings.length} issues (${validationWarnings.filter(w => w.severity === 'high').length} high severity)`
+          );
+        }
+
+        const processingTimeMs = Date.now() - startTime;
+        logApiResponse(metadata.productCode, true, processingTimeMs);
+
+        return {
+          success: true,
+          data: normalizedData,
+          rawResponse,
+          error: `Partial extraction: ${validationResult.error}`,
+          processingTimeMs,
+          retryCount,
+          validationWarnings,
+        };
+      }
+
+      return {
+        success: false,
+        error: validationResult.error,
+        rawResponse,
+        processingTimeMs: Date.now() - startTime,
+        retryCount,
+      };
+    }
+
+    // Normalize data
+    const normalizedData = normalizeProductData(validationResult.data!);
+
+    const processingTimeMs = Date.now() - startTime;
+    logApiResponse(metadata.productCode, true, processingTimeMs);
+
+    return {
+      success: true,
+      data: normalizedData,
+      rawResponse,
+      processingTimeMs,
+      retryCount,
+    };
+  }
+
+  // The extract*JSON methods append how the reply was parsed to `parses`
+  private extractJSON(text: string, parses: ReplyParse[]): unknown {
     try {
       const result = extractAllStrategies(text);
+      parses.push({ part: 'full', strategy: result.success ? result.strategy! : 'failed' });
 
       if (result.success) {
         logger.debug(`JSON extracted using strategy: ${result.strategy}`);
@@ -534,10 +1133,11 @@ export class AIExtractor {
     }
   }
 
-  private extractSupplementFactsJSON(text: string): unknown {
+  private extractSupplementFactsJSON(text: string, parses: ReplyParse[]): unknown {
     try {
       // Use a modified version of extractAllStrategies that validates supplement facts instead of full products
       const result = this.extractJSONWithValidator(text, isLikelySupplementFacts);
+      parses.push({ part: 'vision', strategy: result.success ? result.strategy! : 'failed' });
 
       if (result.success) {
         logger.debug(`Supplement facts JSON extracted using strategy: ${result.strategy}`);
@@ -565,10 +1165,11 @@ export class AIExtractor {
     }
   }
 
-  private extractTextStructuringJSON(text: string): unknown {
+  private extractTextStructuringJSON(text: string, parses: ReplyParse[]): unknown {
     try {
       // Use text structuring validator (ingredients/directions/caution)
       const result = this.extractJSONWithValidator(text, isLikelyTextStructuring);
+      parses.push({ part: 'text', strategy: result.success ? result.strategy! : 'failed' });
 
       if (result.success) {
         logger.debug(`Text structuring JSON extracted using strategy: ${result.strategy}`);
@@ -588,7 +1189,7 @@ export class AIExtractor {
     }
   }
 
-  private extractFullProductJSON(text: string): {
+  private extractFullProductJSON(text: string, parses: ReplyParse[]): {
     productDescription?: string;
     productSlogan?: string | null;
     subbrand?: string | null;
@@ -600,6 +1201,7 @@ export class AIExtractor {
       const result = this.extractJSONWithValidator(text, isLikelyFullProduct);
 
       if (result.success) {
+        parses.push({ part: 'fullProduct', strategy: result.strategy! });
         logger.debug(`Full product JSON extracted using strategy: ${result.strategy}`);
         return result.data as {
           productDescription?: string;
@@ -612,6 +1214,7 @@ export class AIExtractor {
 
       // Fallback: try to parse any valid JSON even if it doesn't match expected structure
       const fallbackResult = this.extractJSONWithValidator(text, (data) => typeof data === 'object' && data !== null);
+      parses.push({ part: 'fullProduct', strategy: fallbackResult.success ? 'looseObject' : 'failed' });
       if (fallbackResult.success) {
         logger.warn('Full product extraction used fallback parsing');
         return fallbackResult.data as {
@@ -742,8 +1345,6 @@ export class AIExtractor {
   }
 
   private tryRepairWithValidator(text: string, validator: (data: unknown) => boolean): { success: boolean; data?: unknown } {
-    // Import repair function from json-extractor
-    const { repairCommonJSONErrors } = require('./json-extractor.js');
     const result = repairCommonJSONErrors(text);
     if (result.success && validator(result.data)) {
       return { success: true, data: result.data };
@@ -752,8 +1353,6 @@ export class AIExtractor {
   }
 
   private tryJSON5WithValidator(text: string, validator: (data: unknown) => boolean): { success: boolean; data?: unknown } {
-    // Import JSON5 parse function from json-extractor
-    const { tryJSON5Parse } = require('./json-extractor.js');
     const result = tryJSON5Parse(text);
     if (result.success && validator(result.data)) {
       return { success: true, data: result.data };
@@ -937,34 +1536,19 @@ export class AIExtractor {
   }
 }
 
-// Rate limiter to respect API limits
-class RateLimiter {
-  private requestTimes: number[] = [];
-  private maxRequestsPerMinute: number;
-
-  constructor(maxRequestsPerMinute: number) {
-    this.maxRequestsPerMinute = maxRequestsPerMinute;
-  }
-
-  async acquire(): Promise<void> {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-
-    // Remove old requests
-    this.requestTimes = this.requestTimes.filter((time) => time > oneMinuteAgo);
-
-    // Check if we need to wait
-    if (this.requestTimes.length >= this.maxRequestsPerMinute) {
-      const oldestRequest = this.requestTimes[0];
-      const waitTime = 60000 - (now - oldestRequest) + 100; // Add 100ms buffer
-
-      if (waitTime > 0) {
-        logger.debug(`Rate limit reached, waiting ${waitTime}ms`);
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        return this.acquire(); // Recursive call after waiting
-      }
+// Detect the JSON envelope written by hybrid extraction ({ vision, text, fullProduct })
+export function parseHybridResponses(rawResponse: string): HybridResponses | null {
+  try {
+    const parsed = JSON.parse(rawResponse);
+    if (typeof parsed !== 'object' || parsed === null || typeof parsed.vision !== 'string') {
+      return null;
     }
-
-    this.requestTimes.push(now);
+    return {
+      vision: parsed.vision,
+      text: typeof parsed.text === 'string' ? parsed.text : null,
+      fullProduct: typeof parsed.fullProduct === 'string' ? parsed.fullProduct : null,
+    };
+  } catch {
+    return null;
   }
 }
@@ -1,42 +1,82 @@
 import OpenAI from 'openai';
-import { env } from '../config/env.js';
 import { PDFFileMetadata } from '../scanner/file-parser.js';
 import { convertPDFToImages } from './pdf-converter.js';
+import { locateSupplementFactsPage } from './text-extractor.js';
 import { buildSupplementFactsOnlyPrompt } from './prompt-builder.js';
 import { SupplementFactsData } from '../parser/json-validator.js';
 import logger from '../utils/logger.js';
 import { extractBalancedBraces, extractFromCodeBlock } from './json-extractor.js';
 import JSON5 from 'json5';
+import { ApiUsage, budgetExhaustedError, CallBudget, ExtractionProvider, ProviderConfig, SupplementFactsResult } from './provider.js';
+import { RateLimiter } from './rate-limiter.js';
+import { ResponseCache, computeCacheKey, hashPDF } from './response-cache.js';
+import { readFileSync } from 'fs';
+import { env } from '../config/env.js';
+import { estimateCallCost } from '../config/pricing.js';
 
-export interface GrokVerificationResult {
-  success: boolean;
-  supplementFacts?: SupplementFactsData;
-  rawResponse?: string;
-  error?: string;
-  extractionTimeMs?: number;
-}
-
-export class GrokExtractor {
+// Supplement facts extraction over the OpenAI chat completions API.
+// Registered as "grok" (api.x.ai) and as "openai-compatible" for self-hosted models.
+export class GrokExtractor implements ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
   private client: OpenAI;
   private rateLimiter: RateLimiter;
-
-  constructor() {
-    // Grok uses OpenAI-compatible API
+  private cache: ResponseCache;
+  private config: ProviderConfig;
+  private budget?: CallBudget;
+
+  constructor(name: string, config: ProviderConfig) {
+    this.name = name;
+    this.model = config.model;
+    this.config = config;
     this.client = new OpenAI({
-      apiKey: env.GROK_API_KEY,
-      baseURL: 'https://api.x.ai/v1'
+      apiKey: config.apiKey,
+      baseURL: config.baseURL
     });
-    this.rateLimiter = new RateLimiter(env.GROK_RATE_LIMIT_PER_MINUTE);
+    this.rateLimiter = new RateLimiter(config.rateLimitPerMinute, name);
+    this.cache = new ResponseCache(name);
+  }
+
+  setBudget(budget: CallBudget | undefined): void {
+    this.budget = budget;
   }
 
-  async verifySupplementFacts(
+  async extractSupplementFacts(
     metadata: PDFFileMetadata
-  ): Promise<GrokVerificationResult> {
+  ): Promise<SupplementFactsResult> {
     const startTime = Date.now();
+    let cacheKey: string | null = null;
+    const usage: ApiUsage[] = [];
 
     try {
+      // Build focused prompt for ONLY supplement facts
+      const prompt = buildSupplementFactsOnlyPrompt(metadata);
+
+      // Render only the page holding the Supplement Facts panel when the text layer locates it
+      const page = env.ENABLE_PAGE_ROUTING ? await locateSupplementFactsPage(metadata.filePath) : null;
+
+      // Reuse a cached reply before paying for image conversion and the API call
+      const pdfHash = hashPDF(readFileSync(metadata.filePath));
+      cacheKey = computeCacheKey({
+        pdfHash,
+        prompt: JSON.stringify(page === null ? [prompt.system, prompt.user] : [prompt.system, prompt.user, [page]]),
+        model: this.config.model,
+        temperature: this.config.temperature,
+      });
+
+      const cached = this.cache.get(cacheKey);
+      if (cached !== null) {
+        return {
+          success: true,
+          supplementFacts: parseSupplementFactsResponse(cached),
+          rawResponse: cached,
+          extractionTimeMs: Date.now() - startTime,
+          prompt: prompt.ref
+        };
+      }
+
       // Convert PDF to PNG images (Grok doesn't support PDF directly)
-      const conversionResult = await convertPDFToImages(metadata.filePath);
+      const conversionResult = await convertPDFToImages(metadata.filePath, page === null ? undefined : [page]);
       if (!conversionResult.success || !conversionResult.images) {
         return {
           success: false,
@@ -45,13 +85,20 @@ export class GrokExtractor {
         };
       }
 
+      const exhausted = this.budget?.checkCall();
+      if (exhausted) {
+        return {
+          success: false,
+          error: budgetExhaustedError(exhausted).message,
+          extractionTimeMs: Date.now() - startTime,
+          budgetExhausted: true
+        };
+      }
+
       // Rate limit
       await this.rateLimiter.acquire();
 
-      // Build focused prompt for ONLY supplement facts
-      const prompt = buildSupplementFactsOnlyPrompt(metadata);
-
-      logger.debug(`Calling Grok API for product ${metadata.productCode} with ${conversionResult.images.length} page images`);
+      logger.debug(`Calling ${this.name} API for product ${metadata.productCode} with ${conversionResult.images.length} page images`);
 
       // Build content array with images first, then text prompt
       const userContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
@@ -69,9 +116,9 @@ export class GrokExtractor {
         }
       ];
 
-      // Call Grok Vision API
+      // Call vision chat completions API
       const response = await this.client.chat.completions.create({
-        model: env.GROK_MODEL || 'grok-2-vision-1212',
+        model: this.config.model,
         messages: [
           {
             role: 'system',
@@ -82,126 +129,119 @@ export class GrokExtractor {
             content: userContent
           }
         ],
-        temperature: 0,
-        max_tokens: 2000
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens
       });
 
+      // Some OpenAI-compatible servers omit the usage block; the call is still counted
+      const inputTokens = response.usage?.prompt_tokens ?? 0;
+      const outputTokens = response.usage?.completion_tokens ?? 0;
+      const call: ApiUsage = {
+        provider: this.name,
+        model: this.config.model,
+        promptId: prompt.ref.id,
+        inputTokens,
+        outputTokens,
+        costUsd: estimateCallCost(this.config.model, inputTokens, outputTokens)
+      };
+      usage.push(call);
+      this.budget?.recordCall(call);
+
       const rawResponse = response.choices[0].message.content || '';
 
       if (!rawResponse) {
         return {
           success: false,
-          error: 'Empty response from Grok API',
-          extractionTimeMs: Date.now() - startTime
+          error: `Empty response from ${this.name} API`,
+          extractionTimeMs: Date.now() - startTime,
+          usage
         };
       }
 
       // Parse supplement facts from response
-      const supplementFacts = this.parseSupplementFacts(rawResponse);
+      const supplementFacts = parseSupplementFactsResponse(rawResponse);
+      this.cache.set(cacheKey, pdfHash, this.config.model, rawResponse);
 
-      logger.debug(`Grok extraction completed for ${metadata.productCode} in ${Date.now() - startTime}ms`);
+      logger.debug(`${this.name} extraction completed for ${metadata.productCode} in ${Date.now() - startTime}ms`);
 
       return {
         success: true,
         supplementFacts,
         rawResponse,
-        extractionTimeMs: Date.now() - startTime
+        extractionTimeMs: Date.now() - startTime,
+        prompt: prompt.ref,
+        usage
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Grok verification failed for ${metadata.productCode}: ${errorMsg}`, error);
+      logger.error(`${this.name} verification failed for ${metadata.productCode}: ${errorMsg}`, error);
+
+      // A cached reply that no longer parses should not be served again
+      if (cacheKey) {
+        this.cache.evict([cacheKey]);
+      }
 
       return {
         success: false,
         error: errorMsg,
-        extractionTimeMs: Date.now() - startTime
+        extractionTimeMs: Date.now() - startTime,
+        usage
       };
     }
   }
+}
 
-  private parseSupplementFacts(rawResponse: string): SupplementFactsData {
-    // Try multiple extraction strategies for supplement facts JSON
-    let data: any = null;
+// Parse a supplement-facts-only reply (live or stored) into structured data
+export function parseSupplementFactsResponse(rawResponse: string): SupplementFactsData {
+  // Try multiple extraction strategies for supplement facts JSON
+  let data: any = null;
 
-    // Strategy 1: Try extracting from code block
-    const codeBlockResult = extractFromCodeBlock(rawResponse);
-    if (codeBlockResult.success) {
-      data = codeBlockResult.data;
-    }
+  // Strategy 1: Try extracting from code block
+  const codeBlockResult = extractFromCodeBlock(rawResponse);
+  if (codeBlockResult.success) {
+    data = codeBlockResult.data;
+  }
 
-    // Strategy 2: Try balanced braces extraction
-    if (!data) {
-      const bracesResult = extractBalancedBraces(rawResponse);
-      if (bracesResult.success) {
-        data = bracesResult.data;
-      }
+  // Strategy 2: Try balanced braces extraction
+  if (!data) {
+    const bracesResult = extractBalancedBraces(rawResponse);
+    if (bracesResult.success) {
+      data = bracesResult.data;
     }
+  }
 
-    // Strategy 3: Try direct JSON parse
-    if (!data) {
-      try {
-        data = JSON.parse(rawResponse.trim());
-      } catch {
-        // Continue to next strategy
-      }
+  // Strategy 3: Try direct JSON parse
+  if (!data) {
+    try {
+      data = JSON.parse(rawResponse.trim());
+    } catch {
+      // Continue to next strategy
     }
+  }
 
-    // Strategy 4: Try JSON5 lenient parse
-    if (!data) {
-      try {
-        const firstBrace = rawResponse.indexOf('{');
-        const lastBrace = rawResponse.lastIndexOf('}');
-        if (firstBrace !== -1 && lastBrace > firstBrace) {
-          data = JSON5.parse(rawResponse.substring(firstBrace, lastBrace + 1));
-        }
-      } catch {
-        // All strategies failed
+  // Strategy 4: Try JSON5 lenient parse
+  if (!data) {
+    try {
+      const firstBrace = rawResponse.indexOf('{');
+      const lastBrace = rawResponse.lastIndexOf('}');
+      if (firstBrace !== -1 && lastBrace > firstBrace) {
+        data = JSON5.parse(rawResponse.substring(firstBrace, lastBrace + 1));
       }
+    } catch {
+      // All strategies failed
     }
-
-    if (!data) {
-      logger.debug(`Grok raw response: ${rawResponse.substring(0, 500)}...`);
-      throw new Error('Failed to parse Grok response as JSON');
-    }
-
-    // Validate the structure has required supplement facts fields
-    if (!data.servings && !data.servingsPerContainer && !data.nutrients) {
-      logger.debug(`Grok parsed data missing fields: ${JSON.stringify(data).substring(0, 500)}`);
-      throw new Error('Missing required supplement facts fields (servings, servingsPerContainer, or nutrients)');
-    }
-
-    return data as SupplementFactsData;
   }
-}
-
-// Rate limiter to respect API limits
-class RateLimiter {
-  private requestTimes: number[] = [];
-  private maxRequestsPerMinute: number;
 
-  constructor(maxRequestsPerMinute: number) {
-    this.maxRequestsPerMinute = maxRequestsPerMinute;
+  if (!data) {
+    logger.debug(`Grok raw response: ${rawResponse.substring(0, 500)}...`);
+    throw new Error('Failed to parse Grok response as JSON');
   }
 
-  async acquire(): Promise<void> {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-
-    // Remove old requests
-    this.requestTimes = this.requestTimes.filter((time) => time > oneMinuteAgo);
-
-    // Check if we need to wait
-    if (this.requestTimes.length >= this.maxRequestsPerMinute) {
-      const oldestRequest = this.requestTimes[0];
-      const waitTime = 60000 - (now - oldestRequest) + 100; // Add 100ms buffer
-
-      if (waitTime > 0) {
-        logger.debug(`Grok rate limit reached, waiting ${waitTime}ms`);
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        return this.acquire(); // Recursive call after waiting
-      }
-    }
-
-    this.requestTimes.push(now);
+  // Validate the structure has required supplement facts fields
+  if (!data.servings && !data.servingsPerContainer && !data.nutrients) {
+    logger.debug(`Grok parsed data missing fields: ${JSON.stringify(data).substring(0, 500)}`);
+    throw new Error('Missing required supplement facts fields (servings, servingsPerContainer, or nutrients)');
   }
+
+  return data as SupplementFactsData;
 }
@@ -66,6 +66,30 @@ export function extractAllStrategies(text: string): ExtractionResult {
   };
 }
 
+export interface ParseStrategySummary {
+  replies: number;
+  direct: number; // Parsed as-is (every tool call does)
+  fallback: number; // Salvaged by a later strategy of the cascade
+  failed: number;
+  fallbackRate: number; // Percentage of replies that needed the fallback
+}
+
+/**
+ * Totals over reply counts per strategy ('directParse', a later cascade strategy, or 'failed'),
+ * used to track how often the repair cascade still fires
+ */
+export function summarizeParseStrategies(counts: Array<{ strategy: string; replies: number }>): ParseStrategySummary {
+  const total = (predicate: (strategy: string) => boolean) =>
+    counts.filter((count) => predicate(count.strategy)).reduce((sum, count) => sum + count.replies, 0);
+
+  const replies = total(() => true);
+  const direct = total((strategy) => strategy === 'directParse');
+  const failed = total((strategy) => strategy === 'failed');
+  const fallback = replies - direct - failed;
+
+  return { replies, direct, fallback, failed, fallbackRate: replies > 0 ? (fallback / replies) * 100 : 0 };
+}
+
 /**
  * Strategy 1: Try to parse the entire response as JSON
  */
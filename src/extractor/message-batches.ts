@@ -0,0 +1,105 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { BatchCreateParams, BetaMessageBatch } from '@anthropic-ai/sdk/resources/beta/messages/batches.js';
+import { replyText } from './tool-schemas.js';
+
+// Limits of one Message Batch (the API allows 100,000 requests or 256 MB, whichever comes first)
+export const MAX_BATCH_REQUESTS = 100_000;
+export const MAX_BATCH_BYTES = 200 * 1024 * 1024; // Headroom below 256 MB for the request envelope
+
+export type MessageBatchParams = BatchCreateParams.Request['params'];
+
+export interface MessageBatchRequest {
+  customId: string; // Unique within the batch, [a-zA-Z0-9_-]{1,64}
+  params: MessageBatchParams;
+}
+
+export type MessageBatchProcessingStatus = BetaMessageBatch['processing_status'];
+
+export interface MessageBatchStatus {
+  id: string;
+  status: MessageBatchProcessingStatus;
+  processing: number;
+  succeeded: number;
+  errored: number;
+  canceled: number;
+  expired: number;
+  endedAt: string | null;
+}
+
+// Outcome of one request once its batch has ended
+export interface MessageBatchReply {
+  customId: string;
+  result: 'succeeded' | 'errored' | 'canceled' | 'expired';
+  text: string | null; // Text of a succeeded reply (tool arguments as JSON when a tool was called)
+  stopReason: string | null; // Why a succeeded reply ended ('max_tokens' when it was cut off)
+  inputTokens: number;
+  outputTokens: number;
+  error?: string;
+}
+
+/**
+ * Thin wrapper over the Message Batches API. Takes the client rather than building one, so it can
+ * be pointed at a local mock server (see ANTHROPIC_BASE_URL) in tests.
+ */
+export class MessageBatchClient {
+  constructor(private client: Anthropic) {}
+
+  async submit(requests: MessageBatchRequest[]): Promise<MessageBatchStatus> {
+    const batch = await this.client.beta.messages.batches.create({
+      requests: requests.map((request) => ({ custom_id: request.customId, params: request.params })),
+    });
+    return toStatus(batch);
+  }
+
+  async retrieve(batchId: string): Promise<MessageBatchStatus> {
+    return toStatus(await this.client.beta.messages.batches.retrieve(batchId));
+  }
+
+  // Results stream in no particular order; match them to requests by customId
+  async *results(batchId: string): AsyncGenerator<MessageBatchReply> {
+    const decoder = await this.client.beta.messages.batches.results(batchId);
+
+    for await (const entry of decoder) {
+      const { result } = entry;
+
+      if (result.type === 'succeeded') {
+        yield {
+          customId: entry.custom_id,
+          result: 'succeeded',
+          text: replyText(result.message.content),
+          stopReason: result.message.stop_reason,
+          inputTokens: result.message.usage.input_tokens,
+          outputTokens: result.message.usage.output_tokens,
+        };
+      } else {
+        yield {
+          customId: entry.custom_id,
+          result: result.type,
+          text: null,
+          stopReason: null,
+          inputTokens: 0,
+          outputTokens: 0,
+          error: result.type === 'errored' ? `${result.error.error.type}: ${result.error.error.message}` : `Request ${result.type}`,
+        };
+      }
+    }
+  }
+}
+
+// Size a request adds to the batch payload
+export function batchRequestBytes(request: MessageBatchRequest): number {
+  return Buffer.byteLength(JSON.stringify({ custom_id: request.customId, params: request.params }));
+}
+
+function toStatus(batch: BetaMessageBatch): MessageBatchStatus {
+  return {
+    id: batch.id,
+    status: batch.processing_status,
+    processing: batch.request_counts.processing,
+    succeeded: batch.request_counts.succeeded,
+    errored: batch.request_counts.errored,
+    canceled: batch.request_counts.canceled,
+    expired: batch.request_counts.expired,
+    endedAt: batch.ended_at,
+  };
+}
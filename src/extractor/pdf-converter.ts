@@ -1,8 +1,8 @@
-import { readFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
-import { execSync } from 'child_process';
-import { tmpdir } from 'os';
-import { join } from 'path';
+import { readFileSync } from 'fs';
 import { PDFDocument } from 'pdf-lib';
+import { createIsomorphicCanvasFactory, getDocumentProxy } from 'unpdf';
+import type { Canvas } from '@napi-rs/canvas';
+import { env } from '../config/env.js';
 import logger from '../utils/logger.js';
 
 export interface PDFConversionResult {
@@ -48,6 +48,41 @@ export async function convertPDFToBase64(pdfPath: string): Promise<PDFConversion
   }
 }
 
+// Copy the given pages (0-based) into a new PDF and return it as base64, so the vision model
+// only sees the part of the sheet it is asked about. pageCount is the page count of the source.
+export async function convertPDFPagesToBase64(pdfPath: string, pageIndexes: number[]): Promise<PDFConversionResult> {
+  try {
+    const sourceDoc = await PDFDocument.load(readFileSync(pdfPath));
+    const pageCount = sourceDoc.getPageCount();
+
+    const outOfRange = pageIndexes.filter((index) => index < 0 || index >= pageCount);
+    if (pageIndexes.length === 0 || outOfRange.length > 0) {
+      throw new Error(`Pages ${outOfRange.map((index) => index + 1).join(', ') || '(none)'} not in a ${pageCount}-page PDF`);
+    }
+
+    const pageDoc = await PDFDocument.create();
+    const pages = await pageDoc.copyPages(sourceDoc, pageIndexes);
+    pages.forEach((page) => pageDoc.addPage(page));
+
+    const base64Data = Buffer.from(await pageDoc.save()).toString('base64');
+    logger.debug(`Split pages ${pageIndexes.map((index) => index + 1).join(', ')} of ${pageCount} from ${pdfPath}`);
+
+    return {
+      success: true,
+      base64Data,
+      pageCount,
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to split PDF pages: ${errorMsg}`, error);
+
+    return {
+      success: false,
+      error: errorMsg,
+    };
+  }
+}
+
 // Validate PDF file before conversion
 export async function validatePDF(pdfPath: string): Promise<{ isValid: boolean; error?: string }> {
   try {
@@ -107,58 +142,108 @@ export interface PDFToImagesResult {
   error?: string;
 }
 
-// Convert PDF to PNG images for APIs that don't support PDF (like Grok)
-// Uses ImageMagick CLI directly (requires ImageMagick + Ghostscript installed)
-export async function convertPDFToImages(pdfPath: string): Promise<PDFToImagesResult> {
-  const tempDir = join(tmpdir(), 'pdf-convert-' + Date.now());
-  const tempFiles: string[] = [];
+// Part of a page to render, as fractions (0-1) of its width and height from the top-left corner
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
-  try {
-    logger.debug(`Converting PDF to images: ${pdfPath}`);
+export interface RenderOptions {
+  pages?: number[]; // 0-based; every page when omitted
+  dpi?: number; // Defaults to PDF_RENDER_DPI
+  maxWidth?: number; // Pixels; the render is scaled down to fit
+  maxHeight?: number;
+  crop?: CropRegion; // Whole page when omitted
+}
 
-    // Get page count first
-    const pdfBytes = readFileSync(pdfPath);
-    const pdfDoc = await PDFDocument.load(pdfBytes);
-    const pageCount = pdfDoc.getPageCount();
+export interface RenderedPage {
+  page: number; // 0-based
+  width: number;
+  height: number;
+  png: Buffer;
+}
+
+const FULL_PAGE: CropRegion = { x: 0, y: 0, width: 1, height: 1 };
 
-    logger.debug(`PDF has ${pageCount} pages, converting to PNG images`);
+// Rasterize PDF pages to PNG in-process with pdf.js (bundled by unpdf) on a @napi-rs/canvas backend.
+// Needs the Node 20 polyfills in utils/polyfills.ts.
+export async function renderPDFPages(pdfBytes: Uint8Array, options: RenderOptions = {}): Promise<RenderedPage[]> {
+  const crop = options.crop ?? FULL_PAGE;
+  if (
+    [crop.x, crop.y, crop.width, crop.height].some((value) => !(value >= 0 && value <= 1)) ||
+    crop.width === 0 || crop.height === 0 ||
+    crop.x + crop.width > 1 || crop.y + crop.height > 1
+  ) {
+    throw new Error(`Crop region ${JSON.stringify(crop)} must lie within the page (fractions 0-1)`);
+  }
+
+  const CanvasFactory = await createIsomorphicCanvasFactory(() => import('@napi-rs/canvas'));
+  const pdf = await getDocumentProxy(new Uint8Array(pdfBytes), { CanvasFactory });
 
-    // Create temp directory
-    if (!existsSync(tempDir)) {
-      mkdirSync(tempDir, { recursive: true });
+  try {
+    const pages = options.pages ?? Array.from({ length: pdf.numPages }, (_, page) => page);
+    const outOfRange = pages.filter((page) => page < 0 || page >= pdf.numPages);
+    if (outOfRange.length > 0) {
+      throw new Error(`Pages ${outOfRange.map((page) => page + 1).join(', ')} not in a ${pdf.numPages}-page PDF`);
     }
 
-    const images: string[] = [];
-
-    // Convert each page using ImageMagick CLI
-    for (let page = 0; page < pageCount; page++) {
-      const outputPath = join(tempDir, `page-${page}.png`);
-      tempFiles.push(outputPath);
-
-      // ImageMagick command: magick -density 150 "input.pdf[page]" -resize 1200x1600 "output.png"
-      const cmd = `magick -density 150 "${pdfPath}[${page}]" -resize 1200x1600 "${outputPath}"`;
-
-      try {
-        execSync(cmd, { encoding: 'utf8', stdio: 'pipe' });
-
-        if (existsSync(outputPath)) {
-          const buffer = readFileSync(outputPath);
-          const base64 = buffer.toString('base64');
-          images.push(base64);
-          logger.debug(`Converted page ${page + 1}/${pageCount}`);
-        } else {
-          throw new Error(`Output file not created for page ${page + 1}`);
-        }
-      } catch (cmdError: any) {
-        throw new Error(`ImageMagick failed on page ${page + 1}: ${cmdError.message}`);
-      }
+    const rendered: RenderedPage[] = [];
+    for (const page of pages) {
+      const pdfPage = await pdf.getPage(page + 1);
+      const pageSize = pdfPage.getViewport({ scale: 1 }); // PDF points (1/72 inch)
+      const cropWidth = pageSize.width * crop.width;
+      const cropHeight = pageSize.height * crop.height;
+
+      const scale = Math.min(
+        (options.dpi ?? env.PDF_RENDER_DPI) / 72,
+        options.maxWidth ? options.maxWidth / cropWidth : Infinity,
+        options.maxHeight ? options.maxHeight / cropHeight : Infinity
+      );
+      const width = Math.max(1, Math.round(cropWidth * scale));
+      const height = Math.max(1, Math.round(cropHeight * scale));
+
+      const { canvas, context } = new CanvasFactory().create(width, height);
+      type RenderParameters = Parameters<typeof pdfPage.render>[0];
+      await pdfPage.render({
+        canvas: canvas as unknown as RenderParameters['canvas'],
+        canvasContext: context as unknown as RenderParameters['canvasContext'],
+        viewport: pdfPage.getViewport({ scale }),
+        // Shift the page so the crop region starts at the canvas origin
+        transform: [1, 0, 0, 1, -pageSize.width * crop.x * scale, -pageSize.height * crop.y * scale],
+      }).promise;
+
+      rendered.push({ page, width, height, png: (canvas as Canvas).toBuffer('image/png') });
+      pdfPage.cleanup();
     }
 
-    logger.debug(`Successfully converted ${images.length} pages to PNG images`);
+    return rendered;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Convert PDF to PNG images for APIs that don't support PDF (like Grok); only `pageIndexes`
+// (0-based) when given. Pages are fitted to 1200x1600 pixels.
+export async function convertPDFToImages(pdfPath: string, pageIndexes?: number[]): Promise<PDFToImagesResult> {
+  try {
+    logger.debug(`Converting PDF to images: ${pdfPath}`);
+
+    const pdfBytes = readFileSync(pdfPath);
+    const pageCount = (await PDFDocument.load(pdfBytes)).getPageCount();
+
+    const rendered = await renderPDFPages(pdfBytes, {
+      pages: pageIndexes,
+      maxWidth: 1200,
+      maxHeight: 1600,
+    });
+
+    logger.debug(`Rendered ${rendered.length} of ${pageCount} pages to PNG images`);
 
     return {
       success: true,
-      images,
+      images: rendered.map((page) => page.png.toString('base64')),
       pageCount
     };
   } catch (error) {
@@ -169,16 +254,5 @@ export async function convertPDFToImages(pdfPath: string): Promise<PDFToImagesRe
       success: false,
       error: errorMsg
     };
-  } finally {
-    // Clean up temp files
-    for (const file of tempFiles) {
-      try {
-        if (existsSync(file)) {
-          unlinkSync(file);
-        }
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
 }
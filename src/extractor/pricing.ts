@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+// USD per million tokens
+export const modelPriceSchema = z.object({
+  inputPerMTok: z.number().min(0),
+  outputPerMTok: z.number().min(0),
+});
+
+// Keys are model names or prefixes ("claude-sonnet-4-5" prices "claude-sonnet-4-5-20250929")
+export const priceTableSchema = z.record(z.string().min(1), modelPriceSchema);
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+export type PriceTable = z.infer<typeof priceTableSchema>;
+
+// List prices at the time of writing; override or extend with a MODEL_PRICING_PATH JSON file
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'grok-2-vision': { inputPerMTok: 2, outputPerMTok: 10 },
+  'grok-4': { inputPerMTok: 3, outputPerMTok: 15 },
+};
+
+// Requests sent through the Message Batches API are billed at half the list price
+export const BATCH_PRICE_FACTOR = 0.5;
+
+// Longest matching key wins, so a dated model can be priced apart from its family
+export function findModelPrice(model: string, table: PriceTable): ModelPrice | null {
+  const key = Object.keys(table)
+    .filter((prefix) => model === prefix || model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : null;
+}
+
+// Cost of one call in USD, or null for models missing from the table
+export function computeCallCost(model: string, inputTokens: number, outputTokens: number, table: PriceTable): number | null {
+  const price = findModelPrice(model, table);
+  if (!price) {
+    return null;
+  }
+  return (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1_000_000;
+}
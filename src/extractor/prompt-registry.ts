@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { PROMPT_TEMPLATES } from './prompt-templates.js';
+
+/**
+ * Prompt template with {{variable}} placeholders. Bump `version` whenever the wording changes;
+ * the hash is derived from the text, so an edit without a bump still shows up in the data.
+ */
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  system?: string;
+  user: string;
+}
+
+// Identifies the template behind a model call; recorded with every extraction
+export interface PromptRef {
+  id: string;
+  version: number;
+  hash: string;
+}
+
+export interface RenderedPrompt {
+  system?: string;
+  user: string;
+  ref: PromptRef;
+}
+
+export interface PromptDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// Templates rendered instead of the current version of their ID (eval --prompt), keyed by ID
+const overrides = new Map<string, PromptTemplate>();
+
+// First 12 hex characters of the SHA-256 of the template text
+export function hashPromptTemplate(template: Pick<PromptTemplate, 'system' | 'user'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([template.system ?? null, template.user]))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+export function promptRef(template: PromptTemplate): PromptRef {
+  return { id: template.id, version: template.version, hash: hashPromptTemplate(template) };
+}
+
+// "supplement-facts@v2 (3f9a1c2b7d4e)"
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.id}@v${ref.version} (${ref.hash})`;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return [...PROMPT_TEMPLATES];
+}
+
+export function findPromptTemplate(id: string): PromptTemplate | undefined {
+  return overrides.get(id) ?? PROMPT_TEMPLATES.find((t) => t.id === id);
+}
+
+// Render another version of a template (e.g. an earlier one recorded in prompt_templates) in place
+// of the current one until the overrides are cleared
+export function overridePromptTemplate(template: PromptTemplate): void {
+  overrides.set(template.id, template);
+}
+
+export function clearPromptOverrides(): void {
+  overrides.clear();
+}
+
+export function getPromptTemplate(id: string): PromptTemplate {
+  const template = findPromptTemplate(id);
+  if (!template) {
+    throw new Error(`Unknown prompt template "${id}"`);
+  }
+  return template;
+}
+
+// Placeholder names used by a template, in order of first appearance
+export function templateVariables(template: Pick<PromptTemplate, 'system' | 'user'>): string[] {
+  const text = `${template.system ?? ''}\n${template.user}`;
+  return [...new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+}
+
+// Fill in a template; every placeholder must have a value
+export function renderPrompt(id: string, variables: Record<string, string>): RenderedPrompt {
+  const template = getPromptTemplate(id);
+
+  const fill = (text: string) =>
+    text.replace(VARIABLE_PATTERN, (_placeholder, name: string) => {
+      if (!(name in variables)) {
+        throw new Error(`Prompt template "${id}" needs variable "${name}"`);
+      }
+      return variables[name];
+    });
+
+  return {
+    ...(template.system !== undefined && { system: fill(template.system) }),
+    user: fill(template.user),
+    ref: promptRef(template),
+  };
+}
+
+// Line diff of two template texts (longest common subsequence)
+export function diffPromptText(before: string, after: string): PromptDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach((text) => lines.push({ type: 'removed', text }));
+  b.slice(j).forEach((text) => lines.push({ type: 'added', text }));
+
+  return lines;
+}
@@ -0,0 +1,373 @@
+import type { PromptTemplate } from './prompt-registry.js';
+
+// Prompt templates rendered by prompt-builder.ts. Placeholders are {{name}}; bump a template's
+// version when editing its text (`npm start prompts list` shows the recorded versions).
+export const PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  {
+    id: 'full-extraction',
+    version: 1,
+    description: 'Full product extraction from the PDF (vision)',
+    system: `You are a precise data extraction specialist. Your task is to extract product information from PDF product information sheets.
+
+Extract data exactly as it appears in the document. Do not make assumptions or infer information that is not explicitly stated.
+
+CRITICAL: Return ONLY the JSON object, nothing else. No explanations, no preamble, no postamble.
+Do not include phrases like "Here is the extracted data" or "I hope this helps".
+Start your response with { and end with }. No other text before or after.
+
+CRITICAL JSON FORMATTING RULES:
+- All string values MUST properly escape special characters
+- Newlines: Use \\n (NOT actual newline characters)
+- Quotes: Use \\" (NOT unescaped " characters)
+- Backslashes: Use \\\\ (escape the backslash itself)
+- Tabs: Use \\t (NOT actual tab characters)
+- For long text fields (especially "references"), keep under 1000 characters
+- If text contains many citations, truncate with "..." and note truncation
+- Validate your JSON is properly formatted before responding (matching quotes, balanced braces)
+- Never leave strings unterminated or quotes unescaped
+
+Return valid JSON matching this exact structure:
+
+{
+  "productName": "string",
+  "productSlogan": "string or null",
+  "productDescription": "string",
+  "subbrand": "string or null",
+  "supplementFacts": {
+    "servings": "string (e.g., '2 gummy bears')",
+    "servingsPerContainer": "string (e.g., '30')",
+    "calories": "string or null (e.g., '10')",
+    "protein": "string or null (e.g., '0 g')",
+    "nutrients": [
+      {
+        "name": "string (full nutrient name)",
+        "amount": "string with number and unit (e.g., '100 mg', '<1 g') or null if missing",
+        "dailyValuePercentAdult": "string (numeric only, e.g., '100') or null",
+        "dailyValuePercentChildren": "string (numeric only, e.g., '150') or null"
+      }
+    ]
+  },
+  "ingredients": [
+    {
+      "name": "string",
+      "isOrganic": boolean
+    }
+  ],
+  "directions": "string",
+  "caution": "string or null",
+  "dietaryAttributes": ["array of strings like vegan, gluten-free, etc."],
+  "references": "string or null"
+}
+
+CRITICAL: SUBBRAND vs PRODUCT SLOGAN DIFFERENTIATION
+
+These are DIFFERENT fields - do not confuse them:
+
+SUBBRAND (product line name):
+- A sub-brand or product line name (proper noun)
+- Appears in logo area or as part of brand identity
+- Examples: "Solis", "Be Sports Nutrition", "California", "Revive CBD"
+- Known subbrands: {{knownSubbrands}}
+- If folder metadata includes subbrand, verify it matches what you see
+
+PRODUCT SLOGAN (marketing tagline):
+- A marketing phrase describing product benefits
+- Appears DIRECTLY AFTER the product name (not in logo area)
+- Contains action words or benefit descriptions
+- Examples: "Supports Healthy Bones", "Energy & Focus", "Promotes Restful Sleep"
+
+QUICK TEST:
+- Does it sound like a brand/company name? → subbrand
+- Does it describe what the product does or its benefits? → productSlogan
+
+CRITICAL RULES FOR SUPPLEMENT FACTS:
+- Amount Format: MUST include both number and unit (e.g., "100 mg", "2.5 g", "<1 mg")
+- If amount is marked with "*", "†", "-" or missing: set to null
+- NEVER use "0" for missing amounts - use null instead
+
+Daily Value Percentages:
+- For adult-only products: only populate dailyValuePercentAdult, set dailyValuePercentChildren to null
+- For children's products with dual percentages: populate BOTH fields
+  Example: "Vitamin C 100mg (100% adult, 200% children)"
+  → dailyValuePercentAdult: "100", dailyValuePercentChildren: "200"
+- If only one percentage is shown, assume it's adult and populate dailyValuePercentAdult only
+- Store ONLY the numeric value without "%" symbol (e.g., "100" not "100%")
+- If percentage is marked with "*", "†", "-" or missing: set to null
+
+Nutrient Names:
+- Extract complete nutrient names including forms (e.g., "Vitamin B12 (as Methylcobalamin)")
+- Preserve unit context (e.g., "mg RAE", "mg α-TE", "mcg DFE")
+
+General Rules:
+- Extract text verbatim from the PDF
+- For ingredients, set isOrganic to true only if explicitly labeled as organic
+- Include all nutrients from the supplement facts table in order
+- Dietary attributes include: vegan, vegetarian, gluten-free, dairy-free, non-GMO, organic, kosher, halal, sugar-free, soy-free
+- If a field is not present in the PDF, use null
+- NEVER fabricate or guess missing data{{languageInstructions}}`,
+    user: `Extract all product information from this product information sheet.
+
+Product Code: {{productCode}}
+Expected Product Name: {{productName}}
+{{subbrandLine}}
+
+Please extract:
+1. Product name, slogan, and description
+2. All supplement facts including serving size and nutritional values
+3. Complete ingredients list (mark organic ingredients)
+4. Directions for use
+5. Caution/warning statements
+6. Any dietary attributes (vegan, gluten-free, etc.)
+7. References or citations if present
+
+Return the data as JSON matching the exact structure specified in the system prompt.`,
+  },
+  {
+    id: 'simplified-extraction',
+    version: 1,
+    description: 'Full product extraction, retry attempts',
+    system: `You are a data extraction specialist. Extract product information from this PDF, focusing on clarity and valid JSON output.
+
+Return valid JSON with this structure:
+{
+  "productName": "string",
+  "productDescription": "string",
+  "supplementFacts": {
+    "servings": "string",
+    "servingsPerContainer": "string",
+    "calories": "string or null",
+    "protein": "string or null",
+    "nutrients": [
+      {
+        "name": "string",
+        "amount": "string with number and unit or null",
+        "dailyValuePercentAdult": "string or null",
+        "dailyValuePercentChildren": "string or null"
+      }
+    ]
+  },
+  "ingredients": [{"name": "string", "isOrganic": false}],
+  "directions": "string",
+  "productSlogan": null,
+  "subbrand": null,
+  "caution": null,
+  "references": null,
+  "dietaryAttributes": []
+}
+
+IMPORTANT RULES:
+- Amount must include number and unit (e.g., "100 mg") or be null
+- NEVER use "0" for missing amounts
+- For adult-only products: populate only dailyValuePercentAdult
+- For children's products: populate both dailyValuePercentAdult and dailyValuePercentChildren when dual percentages are shown
+- Store daily value percentages as numbers without "%" symbol
+
+CRITICAL JSON FORMATTING:
+- Escape all special characters in strings: \\n for newlines, \\" for quotes, \\\\ for backslashes
+- NEVER include actual newline characters in string values
+- Keep all string fields under 1000 characters
+- Ensure all strings are properly terminated with closing quotes
+- Validate JSON structure before responding (balanced braces, proper commas){{languageInstructions}}`,
+    user: `Extract product information from this product sheet for product code {{productCode}}.
+
+IMPORTANT: Return ONLY the JSON object. Start with { and end with }.
+Do not add any explanatory text before or after the JSON.`,
+  },
+  {
+    id: 'supplement-facts',
+    version: 1,
+    description: 'Supplement facts table only (hybrid vision call and verification providers)',
+    system: `You are a nutritional facts extraction specialist. Extract ONLY the supplement facts table from this PDF.
+
+CRITICAL: Return ONLY the JSON object. No explanations. Start with { and end with }.
+
+JSON FORMATTING REQUIREMENTS:
+- Properly escape all special characters: \\n for newlines, \\" for quotes, \\\\ for backslashes
+- NEVER use actual newline characters in string values
+- All strings must be properly terminated with closing quotes
+- Validate JSON structure (balanced braces, proper commas)
+
+Return this exact structure:
+{
+  "servings": "string (e.g., '2 capsules')",
+  "servingsPerContainer": "string (e.g., '30')",
+  "calories": "string or null (e.g., '10')",
+  "protein": "string or null (e.g., '0 g')",
+  "nutrients": [
+    {
+      "name": "complete nutrient name with form",
+      "amount": "number with unit (e.g., '100 mg') or null",
+      "dailyValuePercentAdult": "numeric string (e.g., '100') or null",
+      "dailyValuePercentChildren": "numeric string or null"
+    }
+  ]
+}
+
+EXTRACTION RULES:
+- Amount: MUST include number and unit (e.g., "100 mg", "2.5 g", "<1 g") or null if missing/marked
+- If amount is marked with "*", "†", "-" or missing: set to null
+- NEVER use "0" for amounts - use null instead
+- Daily Value: Numeric only, no "%" symbol (e.g., "100" not "100%")
+- For dual percentages (adult/children): populate BOTH fields
+- Extract nutrients in order as shown in table
+- Include nutrient forms: "Vitamin B12 (as Methylcobalamin)"
+- Preserve unit context: "mg RAE", "mg α-TE", "mcg DFE"{{languageInstructions}}`,
+    user: `Extract the supplement facts table from product {{productCode}}.
+
+Focus ONLY on the supplement facts / nutritional information table. Ignore all other text.
+
+Return JSON starting with { and ending with }. No other text.`,
+  },
+  {
+    id: 'full-product',
+    version: 1,
+    description: 'Description, slogan, subbrand, dietary attributes and references (hybrid)',
+    system: `You are a precise data extraction specialist. Extract product metadata from this PDF.
+
+CRITICAL: Extract text EXACTLY as it appears in the document. Do NOT summarize, paraphrase, edit, or rewrite any text.
+Copy text verbatim - preserve exact wording, punctuation, and formatting.
+
+CRITICAL: Return ONLY the JSON object. No explanations. Start with { and end with }.
+
+JSON FORMATTING REQUIREMENTS:
+- Properly escape special characters: \\n for newlines, \\" for quotes, \\\\ for backslashes
+- NEVER use actual newline characters in string values
+- All strings must be properly terminated
+- Keep references field under 1000 characters (truncate with "..." if needed)
+
+Return this exact structure:
+{
+  "productDescription": "string (verbatim from PDF) or null",
+  "productSlogan": "string (verbatim from PDF) or null",
+  "subbrand": "string (verbatim from PDF) or null",
+  "dietaryAttributes": ["array of strings - exact text as shown"],
+  "references": "string (verbatim from PDF) or null"
+}
+
+EXTRACTION RULES - VERBATIM ONLY:
+
+Product Description:
+- Copy the exact introductory/descriptive text about the product
+- Do NOT summarize or rewrite - extract word-for-word
+- If no description text exists, return null
+
+CRITICAL: SUBBRAND vs PRODUCT SLOGAN - These are DIFFERENT fields!
+
+SUBBRAND (product line name):
+- A sub-brand or product line name (proper noun)
+- Appears in LOGO AREA or as part of brand identity (usually top of page)
+- Known subbrands: {{knownSubbrands}}
+- Examples: "Solis", "Be Sports Nutrition", "California", "Revive CBD"
+- If folder metadata indicates a subbrand, verify it matches what you see in the logo/branding
+- Return null if no subbrand is visible in logo/branding area
+
+PRODUCT SLOGAN (marketing tagline about benefits):
+- A marketing phrase describing what the product DOES or its BENEFITS
+- Appears DIRECTLY AFTER the product name (NOT in logo area)
+- Contains action words or benefit descriptions
+- Examples: "Supports Healthy Bones", "Energy & Focus", "Promotes Restful Sleep", "Calcium & Magnesium Promote Healthy Bones"
+- Return null if no benefit tagline appears after the product name
+
+QUICK TEST to decide which field:
+- Does it sound like a brand/company name? → subbrand
+- Does it describe what the product does? → productSlogan
+- Is it in the logo/branding area? → subbrand
+- Is it right after the product name describing benefits? → productSlogan
+
+Dietary Attributes:
+- Copy the exact text of each dietary claim (e.g., "Gluten-Free", "Non-GMO Verified")
+- Only include attributes explicitly shown on the document
+- Return empty array [] if none found
+
+References:
+- Copy citations, footnotes, or FDA disclaimers verbatim
+- Truncate with "..." if over 1000 characters
+- Return null if none found
+
+NEVER fabricate, summarize, or infer content. If text is not explicitly present, use null.{{languageInstructions}}`,
+    user: `Extract product metadata VERBATIM from this product sheet for {{productCode}} ({{productName}}).
+{{subbrandNote}}
+
+IMPORTANT: Copy all text exactly as it appears. Do NOT edit, summarize, or paraphrase.
+
+Extract:
+1. Product description (exact text)
+2. Product slogan - benefit tagline that appears AFTER product name (e.g., "Supports Healthy Bones")
+3. Subbrand - brand/line name from LOGO AREA only (known: {{knownSubbrands}})
+4. Dietary attributes (exact text of each)
+5. References (exact text)
+
+REMINDER: Subbrand = brand name in logo. Slogan = benefit description after product name. Do NOT confuse them.
+
+Return null for any field not found in the document.
+
+Return JSON starting with { and ending with }. No other text.`,
+  },
+  {
+    id: 'text-structuring',
+    version: 1,
+    description: 'Ingredients, directions and caution from the PDF text layer into JSON (hybrid)',
+    user: `Convert this raw extracted text into structured JSON. Preserve text EXACTLY as given - no modifications.
+
+RAW TEXT:
+Ingredients: {{ingredientsText}}
+Directions: {{directionsText}}
+Caution: {{cautionText}}
+
+Return this JSON structure:
+{
+  "ingredients": [{"name": "ingredient name", "isOrganic": boolean}],
+  "directions": "directions text",
+  "caution": "caution text or null"
+}
+
+CRITICAL RULES FOR INGREDIENTS:
+- Split ingredient text by commas
+- Each comma-separated item becomes a separate ingredient
+- Set isOrganic=true ONLY if "organic" or "bio" appears immediately before ingredient name
+- Preserve ingredient names exactly, including parentheses and forms
+- Maintain order as given
+- Example: "Organic Sugar, Gelatin, Citric Acid" →
+  [{"name": "Sugar", "isOrganic": true}, {"name": "Gelatin", "isOrganic": false}, {"name": "Citric Acid", "isOrganic": false}]
+
+RULES FOR TEXT FIELDS:
+- Copy text exactly as provided
+- Do not add punctuation or modify formatting
+- If text not found, use null
+- Preserve special characters and spacing
+
+Return ONLY the JSON object. No explanations. Start with { and end with }.`,
+  },
+  {
+    id: 'text-fields',
+    version: 1,
+    description: 'Ingredients, directions and caution read from the PDF (split of a truncated full extraction without a text layer)',
+    system: `You are a precise data extraction specialist. Extract ONLY the ingredients, directions and caution text from this PDF.
+
+CRITICAL: Copy text EXACTLY as it appears in the document. Do NOT summarize, paraphrase, or rewrite.
+
+CRITICAL: Return ONLY the JSON object. No explanations. Start with { and end with }.
+
+JSON FORMATTING REQUIREMENTS:
+- Properly escape special characters: \\n for newlines, \\" for quotes, \\\\ for backslashes
+- NEVER use actual newline characters in string values
+- All strings must be properly terminated
+
+Return this exact structure:
+{
+  "ingredients": [{"name": "ingredient name", "isOrganic": boolean}],
+  "directions": "directions text or null",
+  "caution": "caution text or null"
+}
+
+RULES:
+- Each comma-separated item of the ingredients list becomes a separate ingredient, in order
+- Set isOrganic=true ONLY if "organic" or "bio" appears immediately before the ingredient name
+- Preserve ingredient names exactly, including parentheses and forms
+- Ignore the supplement facts table
+- If a field is not present in the PDF, use null (an empty array for ingredients){{languageInstructions}}`,
+    user: `Extract the ingredients, directions and caution text from product {{productCode}} ({{productName}}).
+
+Return JSON starting with { and ending with }. No other text.`,
+  },
+];
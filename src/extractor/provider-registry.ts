@@ -0,0 +1,130 @@
+import { env } from '../config/env.js';
+import { AIExtractor } from './ai-extractor.js';
+import { GrokExtractor } from './grok-extractor.js';
+import { ReplayProvider } from './replay-provider.js';
+import {
+  ExtractionProvider,
+  ProductExtractionProvider,
+  ProviderCapability,
+  ProviderConfig,
+  ProviderRegistration,
+  VerificationProvider,
+} from './provider.js';
+
+const registry = new Map<string, ProviderRegistration>();
+
+// Register a provider under a name that can be selected from env.ts
+export function registerProvider(name: string, registration: ProviderRegistration): void {
+  registry.set(name, registration);
+}
+
+export function listProviders(): string[] {
+  return Array.from(registry.keys()).sort();
+}
+
+// Instantiate a registered provider with its configuration, optionally overriding parts of it
+export function createProvider(name: string, overrides: Partial<ProviderConfig> = {}): ExtractionProvider {
+  const registration = registry.get(name);
+  if (!registration) {
+    throw new Error(
+      `Unknown extraction provider "${name}" (registered: ${listProviders().join(', ')})`
+    );
+  }
+  return registration.create({ ...registration.config(), ...overrides });
+}
+
+const CAPABILITY_LABELS: Record<ProviderCapability, string> = {
+  extraction: 'full product extraction',
+  verification: 'supplement facts verification',
+};
+
+// Fail before any work starts when EXTRACTION_PROVIDER or VERIFICATION_PROVIDER (if verification is
+// enabled) names a provider that is not registered for that role
+export function validateProviderSelection(): void {
+  requireCapability('EXTRACTION_PROVIDER', env.EXTRACTION_PROVIDER, 'extraction');
+  if (env.ENABLE_GROK_VERIFICATION) {
+    requireCapability('VERIFICATION_PROVIDER', env.VERIFICATION_PROVIDER, 'verification');
+  }
+}
+
+function requireCapability(variable: string, name: string, capability: ProviderCapability): void {
+  const registration = registry.get(name);
+  if (!registration) {
+    throw new Error(`${variable}: unknown extraction provider "${name}" (registered: ${listProviders().join(', ')})`);
+  }
+
+  if (!registration.capabilities.includes(capability)) {
+    const capable = listProviders().filter((other) => registry.get(other)!.capabilities.includes(capability));
+    throw new Error(
+      `${variable}: provider "${name}" does not support ${CAPABILITY_LABELS[capability]} (providers that do: ${capable.join(', ')})`
+    );
+  }
+}
+
+// Provider used for full product extraction (EXTRACTION_PROVIDER)
+export function getExtractionProvider(): ProductExtractionProvider {
+  const provider = createProvider(env.EXTRACTION_PROVIDER);
+  if (!provider.extractProduct) {
+    throw new Error(`Provider "${provider.name}" does not support full product extraction`);
+  }
+  return provider as ProductExtractionProvider;
+}
+
+// Provider used to cross-check supplement facts (VERIFICATION_PROVIDER)
+export function getVerificationProvider(): VerificationProvider {
+  const provider = createProvider(env.VERIFICATION_PROVIDER);
+  if (!provider.extractSupplementFacts) {
+    throw new Error(`Provider "${provider.name}" does not support supplement facts verification`);
+  }
+  return provider as VerificationProvider;
+}
+
+// ===== BUILT-IN PROVIDERS =====
+
+registerProvider('anthropic', {
+  create: (config) => new AIExtractor(config),
+  config: () => ({
+    apiKey: env.ANTHROPIC_API_KEY,
+    baseURL: env.ANTHROPIC_BASE_URL || undefined,
+    model: env.AI_MODEL,
+    maxTokens: env.AI_MAX_TOKENS,
+    temperature: env.AI_TEMPERATURE,
+    rateLimitPerMinute: env.RATE_LIMIT_PER_MINUTE,
+  }),
+  capabilities: ['extraction'],
+});
+
+registerProvider('grok', {
+  create: (config) => new GrokExtractor('grok', config),
+  config: () => ({
+    apiKey: env.GROK_API_KEY,
+    baseURL: 'https://api.x.ai/v1',
+    model: env.GROK_MODEL,
+    maxTokens: 2000,
+    temperature: 0,
+    rateLimitPerMinute: env.GROK_RATE_LIMIT_PER_MINUTE,
+  }),
+  capabilities: ['verification'],
+});
+
+// Any server exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...). Verification
+// only: full extraction relies on Anthropic PDF input and tool calls.
+registerProvider('openai-compatible', {
+  create: (config) => new GrokExtractor('openai-compatible', config),
+  config: () => ({
+    apiKey: env.OPENAI_COMPAT_API_KEY,
+    baseURL: env.OPENAI_COMPAT_BASE_URL,
+    model: env.OPENAI_COMPAT_MODEL,
+    maxTokens: env.OPENAI_COMPAT_MAX_TOKENS,
+    temperature: 0,
+    rateLimitPerMinute: env.OPENAI_COMPAT_RATE_LIMIT_PER_MINUTE,
+  }),
+  capabilities: ['verification'],
+});
+
+// Offline replay of stored replies; shares the Anthropic parsing configuration
+registerProvider('replay', {
+  create: (config) => new ReplayProvider(config),
+  config: () => registry.get('anthropic')!.config(),
+  capabilities: ['extraction', 'verification'],
+});
@@ -0,0 +1,76 @@
+import { PDFFileMetadata } from '../scanner/file-parser.js';
+import { SupplementFactsData } from '../parser/json-validator.js';
+import { ExtractionResult } from './ai-extractor.js';
+import { PromptRef } from './prompt-registry.js';
+
+// Connection and sampling settings for a single provider
+export interface ProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  rateLimitPerMinute: number;
+}
+
+// Tokens billed for one API call (replies served from the response cache are not calls)
+export interface ApiUsage {
+  provider: string;
+  model: string;
+  promptId?: string; // Template of the request
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // Under the configured price table; null when the model is not priced
+}
+
+// Run budget a provider checks before every API call and reports each call to (see processor/budget.ts)
+export interface CallBudget {
+  checkCall(): string | null; // Why no further call may be made; null when it may
+  recordCall(call: ApiUsage): void;
+}
+
+// Error for a call the budget refused; the PDF fails with this message
+export function budgetExhaustedError(reason: string): Error {
+  return new Error(`Budget exhausted: ${reason}`);
+}
+
+export interface SupplementFactsResult {
+  success: boolean;
+  supplementFacts?: SupplementFactsData;
+  rawResponse?: string;
+  error?: string;
+  extractionTimeMs?: number;
+  modelVersion?: string; // Overrides the provider model when replaying stored replies
+  prompt?: PromptRef; // Template of the request
+  usage?: ApiUsage[];
+  budgetExhausted?: boolean; // The run budget refused the call; `error` gives the reason
+}
+
+/**
+ * Common contract for anything that can turn a product PDF into structured data.
+ * A provider implements full product extraction, supplement-facts-only extraction
+ * (used for cross-checking), or both.
+ */
+export interface ExtractionProvider {
+  readonly name: string;
+  readonly model: string;
+  extractProduct?(metadata: PDFFileMetadata, retryCount?: number): Promise<ExtractionResult>;
+  extractSupplementFacts?(metadata: PDFFileMetadata): Promise<SupplementFactsResult>;
+  setBudget?(budget: CallBudget | undefined): void; // Budget of the running batch; undefined between runs
+}
+
+export type ProductExtractionProvider = ExtractionProvider &
+  Required<Pick<ExtractionProvider, 'extractProduct'>>;
+
+export type VerificationProvider = ExtractionProvider &
+  Required<Pick<ExtractionProvider, 'extractSupplementFacts'>>;
+
+// What a provider can be selected for: EXTRACTION_PROVIDER needs 'extraction' (extractProduct),
+// VERIFICATION_PROVIDER needs 'verification' (extractSupplementFacts)
+export type ProviderCapability = 'extraction' | 'verification';
+
+export interface ProviderRegistration {
+  create: (config: ProviderConfig) => ExtractionProvider;
+  config: () => ProviderConfig;
+  capabilities: ProviderCapability[];
+}
@@ -0,0 +1,35 @@
+import logger from '../utils/logger.js';
+
+// Sliding-window rate limiter shared by all extraction providers
+export class RateLimiter {
+  private requestTimes: number[] = [];
+  private maxRequestsPerMinute: number;
+  private label: string;
+
+  constructor(maxRequestsPerMinute: number, label = 'API') {
+    this.maxRequestsPerMinute = maxRequestsPerMinute;
+    this.label = label;
+  }
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const oneMinuteAgo = now - 60000;
+
+    // Remove old requests
+    this.requestTimes = this.requestTimes.filter((time) => time > oneMinuteAgo);
+
+    // Check if we need to wait
+    if (this.requestTimes.length >= this.maxRequestsPerMinute) {
+      const oldestRequest = this.requestTimes[0];
+      const waitTime = 60000 - (now - oldestRequest) + 100; // Add 100ms buffer
+
+      if (waitTime > 0) {
+        logger.debug(`${this.label} rate limit reached, waiting ${waitTime}ms`);
+        await new Promise((resolve) => setTimeout(resolve, waitTime));
+        return this.acquire(); // Recursive call after waiting
+      }
+    }
+
+    this.requestTimes.push(now);
+  }
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { env } from '../config/env.js';
+import { ProductRepository } from '../database/repository.js';
+import logger from '../utils/logger.js';
+
+export interface CacheKeyParts {
+  pdfHash: string;
+  prompt: string;
+  model: string;
+  temperature: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// Hit/miss counters for the current process, shared by all providers
+const stats = { hits: 0, misses: 0 };
+
+// SHA-256 of the PDF bytes (accepts the raw buffer or its base64 encoding)
+export function hashPDF(data: Buffer | string): string {
+  const hash = crypto.createHash('sha256');
+  if (typeof data === 'string') {
+    hash.update(data, 'base64');
+  } else {
+    hash.update(data);
+  }
+  return hash.digest('hex');
+}
+
+// Content-addressed key: any change to the PDF, prompt, model or temperature is a miss
+export function computeCacheKey(parts: CacheKeyParts): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([parts.pdfHash, parts.prompt, parts.model, parts.temperature]))
+    .digest('hex');
+}
+
+export function getCacheStats(): CacheStats {
+  const total = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: total > 0 ? (stats.hits / total) * 100 : 0,
+  };
+}
+
+/**
+ * Response cache backed by the response_cache table. Disabled entirely by
+ * ENABLE_RESPONSE_CACHE=false, in which case every lookup is a (silent) miss.
+ */
+export class ResponseCache {
+  private provider: string;
+  private repository: ProductRepository | null = null;
+
+  constructor(provider: string) {
+    this.provider = provider;
+  }
+
+  get(cacheKey: string): string | null {
+    if (!env.ENABLE_RESPONSE_CACHE) {
+      return null;
+    }
+
+    const entry = this.getRepository().getCachedResponse(cacheKey);
+    if (entry) {
+      stats.hits++;
+      logger.debug(`Response cache hit (${this.provider}): ${cacheKey.slice(0, 12)}`);
+      return entry.response_text;
+    }
+
+    stats.misses++;
+    return null;
+  }
+
+  set(cacheKey: string, pdfHash: string, model: string, responseText: string): void {
+    if (!env.ENABLE_RESPONSE_CACHE) {
+      return;
+    }
+
+    this.getRepository().setCachedResponse({
+      cache_key: cacheKey,
+      provider: this.provider,
+      model,
+      pdf_hash: pdfHash,
+      response_text: responseText,
+    });
+  }
+
+  // Drop replies that could not be parsed so the next run calls the API again
+  evict(cacheKeys: string[]): void {
+    if (!env.ENABLE_RESPONSE_CACHE || cacheKeys.length === 0) {
+      return;
+    }
+
+    this.getRepository().deleteCachedResponses(cacheKeys);
+  }
+
+  private getRepository(): ProductRepository {
+    if (!this.repository) {
+      this.repository = new ProductRepository();
+    }
+    return this.repository;
+  }
+}
@@ -0,0 +1,39 @@
+// Headings that open (and therefore end) the label sections found in the PDF text layer
+export const SECTION_MARKERS = {
+  ingredients: ['INGREDIENTS:', 'Ingredients:', 'INGREDIENT LIST:', 'Other Ingredients:'],
+  directions: ['DIRECTIONS:', 'Directions:', 'HOW TO USE:', 'SUGGESTED USE:', 'Suggested Use:'],
+  caution: ['CAUTION:', 'WARNING:', 'WARNINGS:', 'Caution:', 'Warning:', 'Warnings:'],
+  supplementFacts: ['SUPPLEMENT FACTS', 'NUTRITIONAL INFORMATION', 'Supplement Facts', 'NUTRITION FACTS'],
+  // New markers for additional fields
+  description: ['PRODUCT DESCRIPTION', 'Description:', 'DESCRIPTION:', 'About this product', 'About This Product', 'ABOUT THIS PRODUCT'],
+  references: ['REFERENCES', 'References:', 'REFERENCES:', 'Citations:', 'CITATIONS:', '*These statements', '†These statements', '* These statements', '† These statements'],
+  dietaryAttributes: ['✓', '✔', 'Vegan', 'VEGAN', 'Vegetarian', 'VEGETARIAN', 'Gluten-Free', 'GLUTEN-FREE', 'Gluten Free', 'Non-GMO', 'NON-GMO', 'Kosher', 'KOSHER', 'Halal', 'HALAL', 'Dairy-Free', 'DAIRY-FREE', 'Soy-Free', 'SOY-FREE', 'Sugar-Free', 'SUGAR-FREE', 'Organic', 'ORGANIC'],
+};
+
+// Lines that only appear inside a Supplement Facts panel; used to tell the panel from a mention of it
+const SUPPLEMENT_PANEL_TERMS = ['Serving Size', 'Servings Per Container', 'Amount Per Serving', 'Daily Value'];
+
+/**
+ * Index (0-based) of the page holding the Supplement Facts panel, or null when no page has a
+ * SECTION_MARKERS.supplementFacts heading (e.g. scanned PDFs without a text layer).
+ * When several pages mention the heading, the one that also reads like a panel wins.
+ */
+export function findSupplementFactsPage(pageTexts: string[]): number | null {
+  let bestPage: number | null = null;
+  let bestScore = 0;
+
+  pageTexts.forEach((pageText, index) => {
+    const text = pageText.toLowerCase();
+    if (!SECTION_MARKERS.supplementFacts.some(marker => text.includes(marker.toLowerCase()))) {
+      return;
+    }
+
+    const score = 1 + SUPPLEMENT_PANEL_TERMS.filter(term => text.includes(term.toLowerCase())).length;
+    if (score > bestScore) {
+      bestPage = index;
+      bestScore = score;
+    }
+  });
+
+  return bestPage;
+}
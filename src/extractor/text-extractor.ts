@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import logger from '../utils/logger.js';
 import { extractText } from 'unpdf';
+import { SECTION_MARKERS, findSupplementFactsPage } from './section-markers.js';
 
 export interface PDFTextExtraction {
   success: boolean;
@@ -14,17 +15,6 @@ export interface PDFTextExtraction {
   error?: string;
 }
 
-const SECTION_MARKERS = {
-  ingredients: ['INGREDIENTS:', 'Ingredients:', 'INGREDIENT LIST:', 'Other Ingredients:'],
-  directions: ['DIRECTIONS:', 'Directions:', 'HOW TO USE:', 'SUGGESTED USE:', 'Suggested Use:'],
-  caution: ['CAUTION:', 'WARNING:', 'WARNINGS:', 'Caution:', 'Warning:', 'Warnings:'],
-  supplementFacts: ['SUPPLEMENT FACTS', 'NUTRITIONAL INFORMATION', 'Supplement Facts', 'NUTRITION FACTS'],
-  // New markers for additional fields
-  description: ['PRODUCT DESCRIPTION', 'Description:', 'DESCRIPTION:', 'About this product', 'About This Product', 'ABOUT THIS PRODUCT'],
-  references: ['REFERENCES', 'References:', 'REFERENCES:', 'Citations:', 'CITATIONS:', '*These statements', '†These statements', '* These statements', '† These statements'],
-  dietaryAttributes: ['✓', '✔', 'Vegan', 'VEGAN', 'Vegetarian', 'VEGETARIAN', 'Gluten-Free', 'GLUTEN-FREE', 'Gluten Free', 'Non-GMO', 'NON-GMO', 'Kosher', 'KOSHER', 'Halal', 'HALAL', 'Dairy-Free', 'DAIRY-FREE', 'Soy-Free', 'SOY-FREE', 'Sugar-Free', 'SUGAR-FREE', 'Organic', 'ORGANIC'],
-};
-
 /**
  * Find the position after the product name/slogan in the raw text.
  * Used to anchor description extraction to the correct location.
@@ -102,6 +92,16 @@ function findDescriptionEndBoundary(rawText: string, startPos: number): number {
   return endPos;
 }
 
+/**
+ * Page of the Supplement Facts panel (see findSupplementFactsPage), read from the PDF text layer;
+ * null for single-page sheets, where there is nothing to route
+ */
+export async function locateSupplementFactsPage(pdfPath: string): Promise<number | null> {
+  const textExtraction = await extractTextFromPDF(pdfPath);
+  const pageTexts = textExtraction.pageTexts || [];
+  return pageTexts.length > 1 ? findSupplementFactsPage(pageTexts) : null;
+}
+
 /**
  * Extract all text from a PDF file
  */
@@ -382,6 +382,7 @@ export async function extractAllSections(
   description?: string | null;
   references?: string | null;
   dietaryAttributes?: string[];
+  supplementFactsPage?: number | null; // 0-based, see findSupplementFactsPage
   rawText?: string;
   error?: string;
 }> {
@@ -404,6 +405,7 @@ export async function extractAllSections(
     description: extractDescriptionText(rawText, productName, productSlogan),
     references: extractReferencesText(rawText),
     dietaryAttributes: extractDietaryAttributesText(rawText),
+    supplementFactsPage: findSupplementFactsPage(textExtraction.pageTexts || []),
     rawText
   };
 }
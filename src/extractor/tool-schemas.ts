@@ -0,0 +1,138 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import {
+  fullProductFieldsSchema,
+  productExtractionSchema,
+  supplementFactsSchema,
+  textStructuringSchema,
+} from '../parser/json-validator.js';
+
+export type JsonSchema = { [key: string]: unknown };
+
+// Tool the model is made to call for each prompt, so replies arrive as structured arguments
+// instead of free text. Prompts without an entry are sent without a tool.
+const EXTRACTION_TOOLS: Record<string, { name: string; description: string; schema: z.ZodTypeAny }> = {
+  'full-extraction': {
+    name: 'record_product',
+    description: 'Record the product information extracted from the product sheet',
+    schema: productExtractionSchema,
+  },
+  'simplified-extraction': {
+    name: 'record_product',
+    description: 'Record the product information extracted from the product sheet',
+    schema: productExtractionSchema,
+  },
+  'supplement-facts': {
+    name: 'record_supplement_facts',
+    description: 'Record the supplement facts table extracted from the product sheet',
+    schema: supplementFactsSchema,
+  },
+  'full-product': {
+    name: 'record_product_metadata',
+    description: 'Record the description, slogan, subbrand, dietary attributes and references of the product',
+    schema: fullProductFieldsSchema,
+  },
+  'text-fields': {
+    name: 'record_text_fields',
+    description: 'Record the ingredients, directions and caution text',
+    schema: textStructuringSchema,
+  },
+  'text-structuring': {
+    name: 'record_text_fields',
+    description: 'Record the structured ingredients, directions and caution text',
+    schema: textStructuringSchema,
+  },
+};
+
+export function extractionToolFor(promptId: string): Anthropic.Tool | null {
+  const tool = EXTRACTION_TOOLS[promptId];
+  if (!tool) {
+    return null;
+  }
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: toJsonSchema(tool.schema) as Anthropic.Tool.InputSchema,
+  };
+}
+
+/**
+ * JSON Schema for the subset of zod used by the extraction schemas (objects, arrays, strings with
+ * regex checks, numbers, booleans, enums, nullable/optional/default wrappers and refinements).
+ * Fields that are optional or have a default are left out of `required`.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.entries(shape)
+        .filter(([, field]) => !field.isOptional() && !(field instanceof z.ZodDefault))
+        .map(([key]) => key);
+
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: toJsonSchema(def.type) };
+
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const regex = (def.checks as Array<{ kind: string; regex?: RegExp; message?: string }>).find(
+        (check) => check.kind === 'regex'
+      );
+      return {
+        type: 'string',
+        ...(regex?.regex ? { pattern: regex.regex.source } : {}),
+        ...(regex?.message ? { description: regex.message } : {}),
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return { type: 'number' };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = toJsonSchema(def.innerType);
+      return typeof inner.type === 'string'
+        ? { ...inner, type: [inner.type, 'null'] }
+        : { anyOf: [inner, { type: 'null' }] };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+
+    default:
+      throw new Error(`Cannot convert zod type ${def.typeName} to JSON Schema`);
+  }
+}
+
+/**
+ * Text of a Messages API reply: the tool call's arguments as JSON when the model called a tool,
+ * otherwise the first text block (null when there is neither)
+ */
+export function replyText(content: Array<{ type: string; text?: string; input?: unknown }>): string | null {
+  const toolUse = content.find((block) => block.type === 'tool_use');
+  if (toolUse) {
+    return JSON.stringify(toolUse.input);
+  }
+
+  const textBlock = content.find((block) => block.type === 'text');
+  return textBlock?.text ?? null;
+}
@@ -1,6 +1,11 @@
 #!/usr/bin/env node
 
-import { BatchProcessor } from './processor/batch-processor.js';
+import './utils/polyfills.js';
+import { BatchProcessor, ProcessingResult } from './processor/batch-processor.js';
+import { BudgetLimits, formatBudgetSummary } from './processor/budget.js';
+import { PDFWatcher } from './processor/pdf-watcher.js';
+import { createProvider, validateProviderSelection } from './extractor/provider-registry.js';
+import { ProductExtractionProvider, VerificationProvider } from './extractor/provider.js';
 import { ProductRepository } from './database/repository.js';
 import { scanPDFDirectory } from './scanner/pdf-scanner.js';
 import logger from './utils/logger.js';
@@ -12,18 +17,38 @@ import {
   resolveReview,
   showVerificationStats
 } from './commands/review-commands.js';
+import { showCacheStats, pruneCache } from './commands/cache-commands.js';
+import { showInventory } from './commands/inventory-commands.js';
+import { showPrompts, diffPrompts } from './commands/prompt-commands.js';
+import { runEval, showEvalLeaderboard } from './commands/eval-commands.js';
+import { showCosts } from './commands/cost-commands.js';
+import { showProductHistory } from './commands/history-commands.js';
+import { showOverrides, setOverride, clearOverride } from './commands/override-commands.js';
+import { getCacheStats } from './extractor/response-cache.js';
+import { REPORT_FORMATS, ReportFormat } from './verification/comparison-report.js';
+import { DEFAULT_LANGUAGE, languageOf, normalizeLanguage, productKey } from './scanner/language.js';
+import { DEFAULT_VARIANT, normalizeVariant, variantOf } from './scanner/variants.js';
 
 // CLI Commands
 const COMMANDS = {
   PROCESS: 'process',
   RETRY: 'retry-failed',
+  REPROCESS: 'reprocess',
+  WATCH: 'watch',
   REPORT: 'report',
   VERIFY: 'verify',
+  INVENTORY: 'inventory',
   REVIEW_QUEUE: 'review-queue',
   DISCREPANCIES: 'discrepancies',
+  HISTORY: 'history',
+  OVERRIDE: 'override',
   COMPARISON_REPORT: 'comparison-report',
   RESOLVE: 'resolve',
   VERIFICATION_STATS: 'verification-stats',
+  CACHE: 'cache',
+  PROMPTS: 'prompts',
+  EVAL: 'eval',
+  COSTS: 'costs',
   HELP: 'help',
 } as const;
 
@@ -32,17 +57,35 @@ type Command = typeof COMMANDS[keyof typeof COMMANDS];
 async function main() {
   const args = process.argv.slice(2);
   const command = (args[0] || COMMANDS.PROCESS) as Command;
+  const language = takeLanguageOption(args);
+  const variant = takeVariantOption(args);
+  const budget = takeBudgetOptions(args);
 
   printBanner();
 
   try {
+    validateProviderSelection();
+
     switch (command) {
       case COMMANDS.PROCESS:
-        await processCommand();
+        await processCommand(args, budget);
         break;
 
       case COMMANDS.RETRY:
-        await retryCommand();
+        await retryCommand(budget);
+        break;
+
+      case COMMANDS.REPROCESS:
+        if (!args.includes('--from-raw')) {
+          console.error('\nError: --from-raw is required');
+          console.log('Usage: npm start reprocess --from-raw\n');
+          process.exit(1);
+        }
+        await reprocessCommand();
+        break;
+
+      case COMMANDS.WATCH:
+        await watchCommand();
         break;
 
       case COMMANDS.REPORT:
@@ -53,6 +96,13 @@ async function main() {
         await verifyCommand();
         break;
 
+      case COMMANDS.INVENTORY: {
+        // npm start inventory [--output <file.json>]
+        const outputIndex = args.indexOf('--output');
+        await showInventory(outputIndex >= 0 ? args[outputIndex + 1] : undefined);
+        break;
+      }
+
       case COMMANDS.REVIEW_QUEUE:
         await showReviewQueue(args[1]);
         break;
@@ -60,15 +110,60 @@ async function main() {
       case COMMANDS.DISCREPANCIES:
         if (args.length < 2) {
           console.error('\nError: Product code required');
-          console.log('Usage: npm start discrepancies <product_code>\n');
+          console.log('Usage: npm start discrepancies <product_code> [--lang <code>] [--variant <name>]\n');
+          process.exit(1);
+        }
+        await showDiscrepancies(args[1], language, variant);
+        break;
+
+      case COMMANDS.HISTORY:
+        if (args.length < 2) {
+          console.error('\nError: Product code required');
+          console.log('Usage: npm start history <product_code> [--lang <code>] [--variant <name>]\n');
           process.exit(1);
         }
-        await showDiscrepancies(args[1]);
+        await showProductHistory(args[1], language, variant);
         break;
 
-      case COMMANDS.COMPARISON_REPORT:
-        await generateComparisonReport();
+      case COMMANDS.OVERRIDE: {
+        const [action, productCode, fieldPath, ...rest] = args.slice(1);
+        const reasonIndex = rest.indexOf('--reason');
+        const valueArgs = reasonIndex >= 0 ? rest.slice(0, reasonIndex) : rest;
+        const reason = reasonIndex >= 0 ? rest.slice(reasonIndex + 1).join(' ') : undefined;
+
+        if (action === 'list' && productCode) {
+          await showOverrides(productCode, language, variant);
+        } else if (action === 'set' && productCode && fieldPath && valueArgs.length > 0) {
+          await setOverride(productCode, fieldPath, valueArgs.join(' '), reason, language, variant);
+        } else if (action === 'clear' && productCode && fieldPath) {
+          await clearOverride(productCode, fieldPath, language, variant);
+        } else {
+          console.error('\nError: Invalid override command');
+          console.log('Usage: npm start override list <product_code> [--lang <code>] [--variant <name>]');
+          console.log('       npm start override set <product_code> <field_path> <value> [--reason <text>] [--lang <code>] [--variant <name>]');
+          console.log('       npm start override clear <product_code> <field_path> [--lang <code>] [--variant <name>]\n');
+          process.exit(1);
+        }
+        break;
+      }
+
+      case COMMANDS.COMPARISON_REPORT: {
+        // npm start comparison-report [--output <path>] [--format html,csv,json]
+        const outputIndex = args.indexOf('--output');
+        const formatIndex = args.indexOf('--format');
+        const formats = formatIndex >= 0 ? args[formatIndex + 1]?.split(',') : undefined;
+
+        if (formats && formats.some(f => !REPORT_FORMATS.includes(f as ReportFormat))) {
+          console.error(`\nError: --format must be a comma-separated list of ${REPORT_FORMATS.join(', ')}\n`);
+          process.exit(1);
+        }
+
+        await generateComparisonReport(
+          outputIndex >= 0 ? args[outputIndex + 1] : undefined,
+          formats as ReportFormat[] | undefined
+        );
         break;
+      }
 
       case COMMANDS.RESOLVE:
         if (args.length < 2) {
@@ -79,8 +174,75 @@ async function main() {
         await resolveReview(parseInt(args[1]), args.slice(2).join(' ') || 'Resolved');
         break;
 
-      case COMMANDS.VERIFICATION_STATS:
-        await showVerificationStats();
+      case COMMANDS.VERIFICATION_STATS: {
+        // npm start verification-stats [--below [threshold]]
+        const belowIndex = args.indexOf('--below');
+        const thresholdArg = belowIndex >= 0 ? args[belowIndex + 1] : undefined;
+        const threshold = thresholdArg && /^\d+(\.\d+)?$/.test(thresholdArg) ? parseFloat(thresholdArg) : undefined;
+        await showVerificationStats(threshold, belowIndex >= 0);
+        break;
+      }
+
+      case COMMANDS.CACHE:
+        if (args[1] === 'prune') {
+          const daysArg = args[2] && args[2] !== '--all' ? args[2] : undefined;
+          if (daysArg !== undefined && !/^\d+$/.test(daysArg)) {
+            console.error(`\nError: Days must be a non-negative integer, got "${daysArg}"`);
+            console.log('Usage: npm start cache [stats|prune [days]|prune --all]\n');
+            process.exit(1);
+          }
+          await pruneCache(daysArg !== undefined ? parseInt(daysArg) : undefined, args.includes('--all'));
+        } else if (!args[1] || args[1] === 'stats') {
+          await showCacheStats();
+        } else {
+          console.error(`\nError: Unknown cache action "${args[1]}"`);
+          console.log('Usage: npm start cache [stats|prune [days]|prune --all]\n');
+          process.exit(1);
+        }
+        break;
+
+      case COMMANDS.PROMPTS:
+        if (!args[1] || args[1] === 'list') {
+          await showPrompts();
+        } else if (args[1] === 'diff' && args[2]) {
+          await diffPrompts(args[2], args[3]);
+        } else {
+          console.error(`\nError: Unknown prompts action "${args[1]}"`);
+          console.log('Usage: npm start prompts [list|diff <id|id@vN|hash> [<id|id@vN|hash>]]\n');
+          process.exit(1);
+        }
+        break;
+
+      case COMMANDS.EVAL: {
+        // npm start eval run <golden_dir> [limit] [--provider <name>] [--model <model>] [--prompt <id@vN>]... [--label <text>]
+        const option = (name: string) => {
+          const index = args.indexOf(name);
+          return index >= 0 ? args.splice(index, 2)[1] : undefined;
+        };
+        const provider = option('--provider');
+        const model = option('--model');
+        const label = option('--label');
+        const prompts: string[] = [];
+        for (let prompt = option('--prompt'); prompt; prompt = option('--prompt')) {
+          prompts.push(prompt);
+        }
+
+        if (args[1] === 'run' && args[2]) {
+          await runEval(args[2], { provider, model, label, prompts, limit: args[3] ? parseInt(args[3]) : undefined });
+        } else if (args[1] === 'leaderboard') {
+          await showEvalLeaderboard(args[2] ? parseInt(args[2]) : undefined);
+        } else {
+          console.error('\nError: Invalid eval command');
+          console.log('Usage: npm start eval run <golden_dir> [limit] [--provider <name>] [--model <model>] [--prompt <id@vN>]... [--label <text>]');
+          console.log('       npm start eval leaderboard [limit]\n');
+          process.exit(1);
+        }
+        break;
+      }
+
+      case COMMANDS.COSTS:
+        // npm start costs [runs]
+        await showCosts(args[1] ? parseInt(args[1]) : undefined);
         break;
 
       case COMMANDS.HELP:
@@ -107,21 +269,120 @@ function printBanner() {
   console.log('='.repeat(70) + '\n');
 }
 
+// Remove "--lang <code>" from the arguments; sheets default to DEFAULT_LANGUAGE
+function takeLanguageOption(args: string[]): string {
+  const index = args.indexOf('--lang');
+  if (index < 0) {
+    return DEFAULT_LANGUAGE;
+  }
+
+  const [, value] = args.splice(index, 2);
+  const language = normalizeLanguage(value);
+  if (!language) {
+    console.error(`\nError: Invalid language "${value ?? ''}" (expected a code such as en, fr, de)\n`);
+    process.exit(1);
+  }
+
+  return language;
+}
+
+// Remove "--variant <name>" from the arguments; products with a single sheet have DEFAULT_VARIANT
+function takeVariantOption(args: string[]): string {
+  const index = args.indexOf('--variant');
+  if (index < 0) {
+    return DEFAULT_VARIANT;
+  }
+
+  const [, value] = args.splice(index, 2);
+  const variant = normalizeVariant(value);
+  if (!variant) {
+    console.error(`\nError: Invalid variant "${value ?? ''}"\n`);
+    process.exit(1);
+  }
+
+  return variant;
+}
+
+// Remove "--max-cost <usd>", "--max-tokens <n>" and "--max-calls <n>"; unset limits use BUDGET_MAX_*
+function takeBudgetOptions(args: string[]): BudgetLimits {
+  const budget: BudgetLimits = {};
+  const options = [
+    ['--max-cost', 'maxCostUsd'],
+    ['--max-tokens', 'maxTokens'],
+    ['--max-calls', 'maxCalls'],
+  ] as const;
+
+  for (const [option, key] of options) {
+    const index = args.indexOf(option);
+    if (index < 0) continue;
+
+    const [, value] = args.splice(index, 2);
+    const limit = Number(value);
+    if (!value || !Number.isFinite(limit) || limit < 0 || (key !== 'maxCostUsd' && !Number.isInteger(limit))) {
+      console.error(`\nError: Invalid ${option} "${value ?? ''}" (expected a non-negative number, 0 for unlimited)\n`);
+      process.exit(1);
+    }
+    budget[key] = limit;
+  }
+
+  return budget;
+}
+
 function printHelp() {
   console.log('Usage: npm run <command> [options]\n');
   console.log('Available commands:\n');
   console.log('Processing:');
   console.log('  process [limit]        Process PDFs (default: all, limit: number to process)');
   console.log('                         Example: npm start process 5  (process first 5)');
+  console.log('  process --changed      Re-extract only new PDFs and PDFs modified since extraction');
+  console.log('  process --batch-api    Submit the pending PDFs as Message Batches (half price, results within');
+  console.log('                         24 hours) and poll until they end; a stopped run resumes its batches');
   console.log('  retry-failed           Retry extraction for failed products');
+  console.log('                         process and retry-failed take --max-cost <usd>, --max-tokens <n>');
+  console.log('                         and --max-calls <n> (default: BUDGET_MAX_*); the run stops starting');
+  console.log('                         PDFs once a budget is used up and leaves the rest pending');
+  console.log('  reprocess --from-raw   Re-run parsing, validation and comparison on stored');
+  console.log('                         model responses (no API calls)');
+  console.log('  watch                  Watch PDF_ROOT_PATH and process new or modified PDFs as they land');
+  console.log('                         (Ctrl+C finishes the PDFs in flight, then exits)');
   console.log('  report                 Generate quality report');
-  console.log('  verify                 Verify database integrity and scan PDFs\n');
+  console.log('  verify                 Verify database integrity and scan PDFs');
+  console.log('  inventory [--output <file.json>]');
+  console.log('                         Reconcile PDFs on disk with the database (unprocessed PDFs,');
+  console.log('                         missing files, folder/name mismatches, stuck rows)\n');
   console.log('Verification & Review:');
   console.log('  review-queue [status]  Show human review queue (status: pending|in_progress|resolved|dismissed)');
   console.log('  discrepancies <code>   Show discrepancies for a product code');
-  console.log('  comparison-report      Generate comparison report between Claude and Grok');
+  console.log('  history <code>         Show extraction revisions and field changes for a product');
+  console.log('                         discrepancies, history and override take --lang <code> (default: en)');
+  console.log('                         and --variant <name> for codes with several sheets (e.g. flavors)');
+  console.log('  override list <code>   Show manual field overrides for a product');
+  console.log('  override set <code> <field_path> <value> [--reason <text>]');
+  console.log('                         Override a value, e.g. "supplementFacts.nutrients[Vitamin C].amount" "90 mg"');
+  console.log('  override clear <code> <field_path>  Remove an override and restore the extracted value');
+  console.log('  comparison-report [--output <path>] [--format html,csv,json]');
+  console.log('                         Write the Claude vs Grok report (similarity, discrepancies, nutrients)');
   console.log('  resolve <id> [notes]   Mark a review item as resolved');
-  console.log('  verification-stats     Show verification system statistics\n');
+  console.log('  verification-stats     Show verification statistics (similarity distribution, recent runs)');
+  console.log('  verification-stats --below [n]  List all products below n% similarity');
+  console.log('                         (default: VERIFICATION_SIMILARITY_THRESHOLD)\n');
+  console.log('Response Cache:');
+  console.log('  cache [stats]          Show cached responses per provider/model');
+  console.log('  cache prune [days]     Delete entries unused for N days (default: RESPONSE_CACHE_MAX_AGE_DAYS)');
+  console.log('  cache prune --all      Delete every cached response\n');
+  console.log('Costs:');
+  console.log('  costs [n]              Token usage and spend per run (last n, default: 10), model,');
+  console.log('                         subbrand and product, and cost per successful extraction\n');
+  console.log('Evaluation:');
+  console.log('  eval run <dir> [limit] [--provider <name>] [--model <model>] [--label <text>]');
+  console.log('                         Extract the PDFs of a golden set (<name>.pdf + hand-verified');
+  console.log('                         <name>.json) and score field precision/recall;');
+  console.log('                         --prompt id@vN (repeatable) uses a recorded prompt version');
+  console.log('  eval leaderboard [n]   Rank the last n evaluation runs by F1 (default: 20)\n');
+  console.log('Prompts:');
+  console.log('  prompts [list]         Show prompt templates (version, hash, uses) and earlier recorded versions');
+  console.log('  prompts diff <a> [b]   Line diff of two prompt versions (ID, ID@vN or hash); with one');
+  console.log('                         argument, compares with the current template\n');
   console.log('Other:');
   console.log('  help                   Show this help message\n');
   console.log('Configuration:');
@@ -130,58 +391,112 @@ function printHelp() {
   console.log(`  Concurrency: ${env.CONCURRENT_PROCESSES}`);
   console.log(`  Max Retries: ${env.MAX_RETRIES}`);
   console.log(`  Rate Limit: ${env.RATE_LIMIT_PER_MINUTE} req/min`);
-  console.log(`  Grok Verification: ${env.ENABLE_GROK_VERIFICATION ? 'Enabled' : 'Disabled'}`);
-  console.log(`  Hybrid Extraction: ${env.ENABLE_HYBRID_EXTRACTION ? 'Enabled' : 'Disabled'}\n`);
+  console.log(`  Extraction Provider: ${env.EXTRACTION_PROVIDER}`);
+  console.log(`  Grok Verification: ${env.ENABLE_GROK_VERIFICATION ? `Enabled (${env.VERIFICATION_PROVIDER})` : 'Disabled'}`);
+  console.log(`  Hybrid Extraction: ${env.ENABLE_HYBRID_EXTRACTION ? 'Enabled' : 'Disabled'}`);
+  console.log(`  Response Cache: ${env.ENABLE_RESPONSE_CACHE ? 'Enabled' : 'Disabled'}\n`);
 }
 
-async function processCommand() {
+async function processCommand(args: string[], budget: BudgetLimits) {
   logger.info('Starting PDF processing...');
 
-  // Parse limit from command line args (e.g., npm start process 10)
-  const args = process.argv.slice(2);
-  const limitArg = args[1] ? parseInt(args[1]) : undefined;
-  const limit = limitArg && limitArg > 0 ? limitArg : undefined;
+  // Parse limit and flags from command line args (e.g., npm start process 10 --changed)
+  const changedOnly = args.includes('--changed');
+  const batchApi = args.includes('--batch-api');
+  const limitArg = args.slice(1).find((arg) => /^\d+$/.test(arg));
+  const limit = limitArg ? parseInt(limitArg) : undefined;
 
   if (limit) {
     logger.info(`Processing limited to ${limit} PDFs`);
   }
 
+  if (changedOnly) {
+    logger.info('Processing only new or modified PDFs');
+  }
+
+  if (batchApi) {
+    logger.info('Submitting through the Message Batches API (results can take up to 24 hours)');
+  }
+
   const processor = new BatchProcessor();
-  const result = await processor.processAll({
+  const options = {
     skipExisting: true,
     concurrency: env.CONCURRENT_PROCESSES,
     limit,
-  });
+    changedOnly,
+    budget,
+  };
+  const result = batchApi ? await processor.processAllWithBatchApi(options) : await processor.processAll(options);
 
   logger.info('\nProcessing Summary:');
   logger.info(`  Total Processed: ${result.totalProcessed}`);
   logger.info(`  Success: ${result.successCount}`);
   logger.info(`  Failed: ${result.failureCount}`);
   logger.info(`  Skipped: ${result.skippedCount}`);
+  if (result.orphanedCount) {
+    logger.info(`  Orphaned (PDF missing): ${result.orphanedCount}`);
+  }
   logger.info(`  Success Rate: ${result.successRate.toFixed(2)}%`);
-  logger.info(`  Duration: ${formatDuration(result.elapsedMs)}\n`);
+  logger.info(`  Duration: ${formatDuration(result.elapsedMs)}`);
+  logBudget(result);
+  logCacheStats();
 
   // Generate report
   processor.generateReport();
 }
 
-async function retryCommand() {
+async function retryCommand(budget: BudgetLimits) {
   logger.info('Retrying failed products...');
 
   const processor = new BatchProcessor();
-  const result = await processor.retryFailed();
+  const result = await processor.retryFailed({ budget });
 
   logger.info('\nRetry Summary:');
   logger.info(`  Total Retried: ${result.totalProcessed}`);
   logger.info(`  Success: ${result.successCount}`);
   logger.info(`  Still Failed: ${result.failureCount}`);
   logger.info(`  Success Rate: ${result.successRate.toFixed(2)}%`);
-  logger.info(`  Duration: ${formatDuration(result.elapsedMs)}\n`);
+  logger.info(`  Duration: ${formatDuration(result.elapsedMs)}`);
+  logBudget(result);
+  logCacheStats();
 
   // Generate updated report
   processor.generateReport();
 }
 
+async function reprocessCommand() {
+  logger.info('Reprocessing from stored raw responses (offline)...');
+
+  // The replay provider serves both the extraction and the verification replies
+  const replay = createProvider('replay');
+  const processor = new BatchProcessor({
+    extractor: replay as ProductExtractionProvider,
+    verifier: replay as VerificationProvider,
+  });
+  const result = await processor.reprocessFromRaw();
+
+  logger.info('\nReprocess Summary:');
+  logger.info(`  Total Reprocessed: ${result.totalProcessed}`);
+  logger.info(`  Success: ${result.successCount}`);
+  logger.info(`  Failed: ${result.failureCount}`);
+  logger.info(`  Success Rate: ${result.successRate.toFixed(2)}%`);
+  logger.info(`  Duration: ${formatDuration(result.elapsedMs)}\n`);
+
+  processor.generateReport();
+}
+
+async function watchCommand() {
+  logger.info('Starting watch mode...');
+
+  const processor = new BatchProcessor();
+  const watcher = new PDFWatcher(processor);
+  processor.onShutdown(() => watcher.stop());
+  watcher.start();
+
+  // Runs until SIGINT/SIGTERM; ShutdownHandler stops the watcher and exits the process
+  await new Promise<never>(() => {});
+}
+
 async function reportCommand() {
   logger.info('Generating quality report...');
 
@@ -198,6 +513,16 @@ async function reportCommand() {
       logger.info(`    Error: ${product.error_message}`);
     });
   }
+
+  const orphanedProducts = repository.getOrphanedProducts();
+
+  if (orphanedProducts.length > 0) {
+    logger.info('Orphaned Products (PDF no longer on disk):');
+    orphanedProducts.forEach((product) => {
+      logger.info(`  ${product.product_code} - ${product.product_name}`);
+      logger.info(`    Last path: ${product.pdf_file_path} (missing since ${product.orphaned_at})`);
+    });
+  }
 }
 
 async function verifyCommand() {
@@ -208,20 +533,36 @@ async function verifyCommand() {
   try {
     const scanResult = await scanPDFDirectory();
     logger.info(`   ✓ Found ${scanResult.validFiles} valid PDFs`);
+    Object.entries(scanResult.ruleMatches).forEach(([rule, count]) =>
+      logger.info(`     - rule ${rule}: ${count} files`)
+    );
+
+    if (scanResult.unmatchedFiles > 0) {
+      logger.info(`   ℹ ${scanResult.unmatchedFiles} other PDFs match no naming rule (ignored)`);
+    }
 
     if (scanResult.invalidFiles > 0) {
       logger.warn(`   ⚠ Found ${scanResult.invalidFiles} invalid files`);
       scanResult.errors.forEach((error) => logger.warn(`     - ${error}`));
     }
 
-    // Check for duplicate product codes
+    Object.entries(scanResult.languages).forEach(([lang, count]) =>
+      logger.info(`     - language ${lang}: ${count} files`)
+    );
+
+    if (scanResult.variantFiles > 0) {
+      logger.info(`     - ${scanResult.variantFiles} files stored as variants of a shared product code`);
+    }
+
+    // Check for duplicate product codes (language versions and variants share a code)
     const codes = new Set<string>();
     const duplicates: string[] = [];
     scanResult.metadata.forEach((pdf) => {
-      if (codes.has(pdf.productCode)) {
-        duplicates.push(pdf.productCode);
+      const key = productKey(pdf.productCode, languageOf(pdf), variantOf(pdf));
+      if (codes.has(key)) {
+        duplicates.push(key);
       }
-      codes.add(pdf.productCode);
+      codes.add(key);
     });
 
     if (duplicates.length > 0) {
@@ -285,12 +626,37 @@ async function verifyCommand() {
   logger.info(`   ✓ API Key: ${env.ANTHROPIC_API_KEY ? 'Set' : 'Missing'}`);
   logger.info(`   ✓ PDF Root: ${env.PDF_ROOT_PATH}`);
   logger.info(`   ✓ Database Path: ${env.DATABASE_PATH}`);
+  logger.info(`   ✓ Extraction Provider: ${env.EXTRACTION_PROVIDER}`);
   logger.info(`   ✓ Model: ${env.AI_MODEL}`);
   logger.info(`   ✓ Concurrency: ${env.CONCURRENT_PROCESSES}`);
 
   logger.info('\n✓ Verification complete\n');
 }
 
+function logBudget(result: ProcessingResult) {
+  if (!result.budget) {
+    return;
+  }
+
+  logger.info(`  Budget Used: ${formatBudgetSummary(result.budget)}`);
+  if (result.budget.stopReason) {
+    logger.info(`  Stopped Early: ${result.budget.stopReason}`);
+    logger.info(`  Left Pending: ${result.unstartedCount ?? 0} (run the command again to continue)`);
+  }
+}
+
+function logCacheStats() {
+  if (!env.ENABLE_RESPONSE_CACHE) {
+    logger.info('  Response Cache: Disabled\n');
+    return;
+  }
+
+  const cache = getCacheStats();
+  logger.info(
+    `  Response Cache: ${cache.hits} hits, ${cache.misses} misses (${cache.hitRate.toFixed(1)}% hit rate)\n`
+  );
+}
+
 function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
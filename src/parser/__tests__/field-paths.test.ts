@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { diffFieldValues, flattenProductFields, listItemLabels, parseFieldPath } from '../field-paths.js';
+import { ProductExtractionData } from '../json-validator.js';
+
+describe('Field Paths', () => {
+  const product: ProductExtractionData = {
+    productName: 'Test Product',
+    productDescription: 'A test product',
+    supplementFacts: {
+      servings: '1 capsule',
+      servingsPerContainer: '30',
+      nutrients: [
+        { name: 'Vitamin C', amount: '100 mg', dailyValuePercentAdult: '111' },
+        { name: 'Zinc', amount: '5 mg', dailyValuePercentAdult: '45' },
+      ],
+    },
+    ingredients: [{ name: 'Rice Flour', isOrganic: true }],
+    directions: 'Take one daily',
+    dietaryAttributes: ['Vegan'],
+  };
+
+  describe('flattenProductFields', () => {
+    it('should key nutrients by name', () => {
+      const fields = flattenProductFields(product);
+
+      expect(fields['productName']).toBe('Test Product');
+      expect(fields['supplementFacts.nutrients[Vitamin C].amount']).toBe('100 mg');
+      expect(fields['supplementFacts.nutrients[Zinc].dailyValuePercentAdult']).toBe('45');
+      expect(fields['ingredients[Rice Flour].isOrganic']).toBe('true');
+      expect(fields['dietaryAttributes[Vegan]']).toBe('true');
+    });
+
+    it('should store missing optional fields as null', () => {
+      const fields = flattenProductFields(product);
+
+      expect(fields['caution']).toBeNull();
+      expect(fields['supplementFacts.calories']).toBeNull();
+    });
+  });
+
+  describe('listItemLabels', () => {
+    it('should number repeated names', () => {
+      expect(listItemLabels(['Zinc', 'Iron', 'Zinc'])).toEqual(['Zinc', 'Iron', 'Zinc#2']);
+    });
+  });
+
+  describe('diffFieldValues', () => {
+    it('should report changed, added and removed fields', () => {
+      const updated: ProductExtractionData = {
+        ...product,
+        caution: 'Keep out of reach of children',
+        supplementFacts: {
+          ...product.supplementFacts!,
+          nutrients: [{ name: 'Vitamin C', amount: '120 mg', dailyValuePercentAdult: '133' }],
+        },
+      };
+
+      const changes = diffFieldValues(flattenProductFields(product), flattenProductFields(updated));
+      const byPath = Object.fromEntries(changes.map((c) => [c.fieldPath, c]));
+
+      expect(byPath['supplementFacts.nutrients[Vitamin C].amount']).toEqual({
+        fieldPath: 'supplementFacts.nutrients[Vitamin C].amount',
+        before: '100 mg',
+        after: '120 mg',
+        changeType: 'changed',
+      });
+      expect(byPath['caution'].changeType).toBe('added');
+      expect(byPath['supplementFacts.nutrients[Zinc].amount'].changeType).toBe('removed');
+      expect(byPath['productName']).toBeUndefined();
+    });
+
+    it('should return no changes for identical extractions', () => {
+      const fields = flattenProductFields(product);
+      expect(diffFieldValues(fields, { ...fields })).toEqual([]);
+    });
+  });
+
+  describe('parseFieldPath', () => {
+    it('should parse nutrient paths including repeated names', () => {
+      expect(parseFieldPath('supplementFacts.nutrients[Vitamin C].amount')).toEqual({
+        kind: 'nutrient',
+        name: 'Vitamin C',
+        occurrence: 1,
+        field: 'amount',
+      });
+      expect(parseFieldPath('supplementFacts.nutrients[Zinc#2].dailyValuePercentAdult')).toEqual({
+        kind: 'nutrient',
+        name: 'Zinc',
+        occurrence: 2,
+        field: 'dailyValuePercentAdult',
+      });
+    });
+
+    it('should parse product, ingredient and dietary attribute paths', () => {
+      expect(parseFieldPath('directions')).toEqual({ kind: 'product', field: 'directions' });
+      expect(parseFieldPath('supplementFacts.servings')).toEqual({ kind: 'supplementFacts', field: 'servings' });
+      expect(parseFieldPath('ingredients[Rice Flour].isOrganic')).toEqual({
+        kind: 'ingredient',
+        name: 'Rice Flour',
+        occurrence: 1,
+        field: 'isOrganic',
+      });
+      expect(parseFieldPath('dietaryAttributes[Vegan]')).toEqual({ kind: 'dietaryAttribute', name: 'Vegan' });
+    });
+
+    it('should round-trip every flattened path', () => {
+      const fields = flattenProductFields(product);
+      for (const path of Object.keys(fields)) {
+        expect(parseFieldPath(path)).not.toBeNull();
+      }
+    });
+
+    it('should reject unknown paths', () => {
+      expect(parseFieldPath('supplementFacts.nutrients[Zinc].color')).toBeNull();
+      expect(parseFieldPath('productColor')).toBeNull();
+    });
+  });
+});
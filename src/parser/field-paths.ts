@@ -0,0 +1,142 @@
+import { ProductExtractionData } from './json-validator.js';
+
+// Flat view of an extraction, keyed by field path, e.g.
+// "productName" or "supplementFacts.nutrients[Vitamin C].amount"
+export type FieldValues = Record<string, string | null>;
+
+export interface FieldChange {
+  fieldPath: string;
+  before: string | null;
+  after: string | null;
+  changeType: 'added' | 'removed' | 'changed';
+}
+
+const PRODUCT_FIELDS = [
+  'productName',
+  'productSlogan',
+  'productDescription',
+  'subbrand',
+  'directions',
+  'caution',
+  'references',
+] as const;
+
+const SUPPLEMENT_FACTS_FIELDS = ['servings', 'servingsPerContainer', 'calories', 'protein'] as const;
+
+const NUTRIENT_FIELDS = ['amount', 'dailyValuePercentAdult', 'dailyValuePercentChildren'] as const;
+
+// Row a field path points at, as used by field overrides
+export type FieldTarget =
+  | { kind: 'product'; field: (typeof PRODUCT_FIELDS)[number] }
+  | { kind: 'supplementFacts'; field: (typeof SUPPLEMENT_FACTS_FIELDS)[number] }
+  | { kind: 'nutrient'; name: string; occurrence: number; field: (typeof NUTRIENT_FIELDS)[number] }
+  | { kind: 'ingredient'; name: string; occurrence: number; field: 'isOrganic' }
+  | { kind: 'dietaryAttribute'; name: string };
+
+// Inverse of listItemLabels: "Zinc#2" -> { name: "Zinc", occurrence: 2 }
+function parseItemLabel(label: string): { name: string; occurrence: number } {
+  const match = label.match(/^(.*)#(\d+)$/);
+  return match
+    ? { name: match[1], occurrence: parseInt(match[2]) }
+    : { name: label, occurrence: 1 };
+}
+
+// Parse a path produced by flattenProductFields; returns null for unknown paths
+export function parseFieldPath(fieldPath: string): FieldTarget | null {
+  if ((PRODUCT_FIELDS as readonly string[]).includes(fieldPath)) {
+    return { kind: 'product', field: fieldPath as (typeof PRODUCT_FIELDS)[number] };
+  }
+
+  let match = fieldPath.match(/^supplementFacts\.(\w+)$/);
+  if (match && (SUPPLEMENT_FACTS_FIELDS as readonly string[]).includes(match[1])) {
+    return { kind: 'supplementFacts', field: match[1] as (typeof SUPPLEMENT_FACTS_FIELDS)[number] };
+  }
+
+  match = fieldPath.match(/^supplementFacts\.nutrients\[(.+)\]\.(\w+)$/);
+  if (match && (NUTRIENT_FIELDS as readonly string[]).includes(match[2])) {
+    return {
+      kind: 'nutrient',
+      ...parseItemLabel(match[1]),
+      field: match[2] as (typeof NUTRIENT_FIELDS)[number],
+    };
+  }
+
+  match = fieldPath.match(/^ingredients\[(.+)\]\.isOrganic$/);
+  if (match) {
+    return { kind: 'ingredient', ...parseItemLabel(match[1]), field: 'isOrganic' };
+  }
+
+  match = fieldPath.match(/^dietaryAttributes\[(.+)\]$/);
+  if (match) {
+    return { kind: 'dietaryAttribute', name: match[1] };
+  }
+
+  return null;
+}
+
+// Path labels for list items; repeated names get a "#2", "#3" suffix so paths stay unique
+export function listItemLabels(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}#${count}`;
+  });
+}
+
+export function flattenProductFields(data: ProductExtractionData): FieldValues {
+  const fields: FieldValues = {};
+
+  for (const field of PRODUCT_FIELDS) {
+    fields[field] = data[field] ?? null;
+  }
+
+  if (data.supplementFacts) {
+    const facts = data.supplementFacts;
+    for (const field of SUPPLEMENT_FACTS_FIELDS) {
+      fields[`supplementFacts.${field}`] = facts[field] ?? null;
+    }
+
+    const labels = listItemLabels(facts.nutrients.map((n) => n.name));
+    facts.nutrients.forEach((nutrient, index) => {
+      for (const field of NUTRIENT_FIELDS) {
+        fields[`supplementFacts.nutrients[${labels[index]}].${field}`] = nutrient[field] ?? null;
+      }
+    });
+  }
+
+  const ingredientLabels = listItemLabels(data.ingredients.map((i) => i.name));
+  data.ingredients.forEach((ingredient, index) => {
+    fields[`ingredients[${ingredientLabels[index]}].isOrganic`] = String(ingredient.isOrganic);
+  });
+
+  for (const attribute of data.dietaryAttributes) {
+    fields[`dietaryAttributes[${attribute}]`] = 'true';
+  }
+
+  return fields;
+}
+
+// Field-by-field differences between two flattened extractions (null and missing are equal)
+export function diffFieldValues(before: FieldValues, after: FieldValues): FieldChange[] {
+  const paths = new Set([...Object.keys(after), ...Object.keys(before)]);
+  const changes: FieldChange[] = [];
+
+  for (const fieldPath of paths) {
+    const oldValue = before[fieldPath] ?? null;
+    const newValue = after[fieldPath] ?? null;
+
+    if (oldValue === newValue) {
+      continue;
+    }
+
+    changes.push({
+      fieldPath,
+      before: oldValue,
+      after: newValue,
+      changeType: oldValue === null ? 'added' : newValue === null ? 'removed' : 'changed',
+    });
+  }
+
+  return changes;
+}
@@ -48,6 +48,22 @@ export const productExtractionSchema = z.object({
   references: z.string().nullable().optional(),
 });
 
+// Text fields structured from the PDF text layer (hybrid extraction)
+export const textStructuringSchema = z.object({
+  ingredients: z.array(ingredientSchema).default([]),
+  directions: z.string().nullable().optional(),
+  caution: z.string().nullable().optional(),
+});
+
+// Product metadata read from the sheet alongside the supplement facts (hybrid extraction)
+export const fullProductFieldsSchema = z.object({
+  productDescription: z.string().nullable().optional(),
+  productSlogan: z.string().nullable().optional(),
+  subbrand: z.string().nullable().optional(),
+  dietaryAttributes: z.array(z.string()).default([]),
+  references: z.string().nullable().optional(),
+});
+
 // Type exports
 export type NutrientData = z.infer<typeof nutrientSchema>;
 export type SupplementFactsData = z.infer<typeof supplementFactsSchema>;
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { formatBudgetSummary, RunBudget } from '../budget.js';
+import type { ApiUsage } from '../../extractor/provider.js';
+
+const call = (inputTokens: number, outputTokens: number, costUsd: number | null): ApiUsage => ({
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-5-20250929',
+  inputTokens,
+  outputTokens,
+  costUsd,
+});
+
+describe('RunBudget', () => {
+  it('never stops a run without limits', () => {
+    const budget = new RunBudget({ maxCostUsd: 0 });
+    budget.record([call(1_000_000, 1_000_000, 100)]);
+
+    expect(budget.hasLimits()).toBe(false);
+    expect(budget.checkNext(10)).toBeNull();
+  });
+
+  it('starts the first PDFs before any usage is known', () => {
+    const budget = new RunBudget({ maxCalls: 1 });
+    expect(budget.checkNext(0)).toBeNull();
+    expect(budget.checkNext(4)).toBeNull();
+  });
+
+  it('stops before a PDF the remaining budget cannot cover', () => {
+    const budget = new RunBudget({ maxCostUsd: 1 });
+    budget.record([call(1000, 100, 0.2), call(1000, 100, 0.1)]);
+
+    expect(budget.checkNext(0)).toBeNull(); // 0.3 + 0.3 fits
+    expect(budget.checkNext(2)).toBe('cost budget of $1 reached ($0.3000 spent)'); // 0.3 + 3 x 0.3 does not
+    expect(budget.checkNext(0)).toBe('cost budget of $1 reached ($0.3000 spent)'); // Stays stopped
+    expect(budget.summary.stopReason).toContain('cost budget');
+  });
+
+  it('checks tokens and calls, and ignores unpriced calls for dollars', () => {
+    const tokens = new RunBudget({ maxTokens: 2000, maxCostUsd: 1 });
+    tokens.record([call(1000, 200, null)]);
+    expect(tokens.checkNext()).toBe('token budget of 2000 reached (1200 used)');
+    expect(tokens.summary.consumed).toEqual({ costUsd: 0, tokens: 1200, calls: 1 });
+
+    const calls = new RunBudget({ maxCalls: 5 });
+    calls.record([call(1, 1, 0), call(1, 1, 0), call(1, 1, 0)]);
+    expect(calls.checkNext()).toBe('API call budget of 5 reached (3 made)');
+  });
+
+  it('keeps going while PDFs are served from the cache', () => {
+    const budget = new RunBudget({ maxCalls: 2 });
+    budget.record([call(10, 10, 0.01), call(10, 10, 0.01)]);
+    budget.record([]);
+
+    expect(budget.checkNext()).toBe('API call budget of 2 reached (2 made)');
+
+    const cached = new RunBudget({ maxCalls: 2 });
+    cached.record([]);
+    expect(cached.checkNext(3)).toBeNull();
+  });
+
+  it('refuses API calls once a limit is used up, including calls of PDFs still in flight', () => {
+    const budget = new RunBudget({ maxCalls: 2 });
+    expect(budget.checkCall()).toBeNull(); // The first PDF is checked too
+
+    const first = call(10, 10, 0.01);
+    budget.recordCall(first);
+    expect(budget.checkCall()).toBeNull();
+    budget.recordCall(call(10, 10, 0.01));
+    expect(budget.checkCall()).toBe('API call budget of 2 reached (2 made)');
+    expect(budget.checkNext()).toBe('API call budget of 2 reached (2 made)');
+
+    // Calls already counted when made are not counted again when the PDF finishes
+    budget.record([first]);
+    expect(budget.summary.consumed.calls).toBe(2);
+  });
+
+  it('formats consumption against the limits that are set', () => {
+    const budget = new RunBudget({ maxCostUsd: 5, maxCalls: 100 });
+    budget.record([call(1000, 500, 0.0105)]);
+
+    expect(formatBudgetSummary(budget.summary)).toBe('$0.0105 of $5 | 1500 tokens | 1 of 100 calls');
+  });
+});
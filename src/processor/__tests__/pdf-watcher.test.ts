@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { BatchProcessor, ProcessingResult } from '../batch-processor.js';
+
+// The watcher only needs fs.watch's listener; events are emitted by the tests
+const watchers = vi.hoisted(() => [] as Array<(event: string, fileName: string) => void>);
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return {
+    ...actual,
+    watch: (_root: string, _options: unknown, listener: (event: string, fileName: string) => void) => {
+      watchers.push(listener);
+      return { on: () => undefined, close: () => undefined };
+    },
+  };
+});
+vi.mock('../../config/env.js', () => ({ env: { PDF_ROOT_PATH: '.', WATCH_DEBOUNCE_MS: 1000 } }));
+vi.mock('../../utils/logger.js', () => ({
+  default: { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined },
+}));
+
+const { PDFWatcher } = await import('../pdf-watcher.js');
+
+const result = (totalProcessed: number): ProcessingResult => ({
+  totalProcessed,
+  successCount: totalProcessed,
+  failureCount: 0,
+  skippedCount: 0,
+  elapsedMs: 0,
+  successRate: 100,
+});
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('PDFWatcher', () => {
+  let root: string;
+  let processFiles: ReturnType<typeof vi.fn>;
+  let watcher: InstanceType<typeof PDFWatcher>;
+
+  const emit = (fileName: string) => watchers[watchers.length - 1]('change', fileName);
+  const write = (fileName: string, content = 'pdf') => writeFileSync(path.join(root, fileName), content);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    root = mkdtempSync(path.join(os.tmpdir(), 'pdf-watcher-'));
+    processFiles = vi.fn(async (files: string[]) => result(files.length));
+
+    const processor = {
+      processAll: async () => result(0),
+      processFiles,
+      isShuttingDown: () => false,
+    } as unknown as BatchProcessor;
+
+    watcher = new PDFWatcher(processor, { rootPath: root, debounceMs: 1000 });
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0); // Initial catch-up scan
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    vi.useRealTimers();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('queues a PDF once it stopped changing for the debounce interval', async () => {
+    write('0101.pdf');
+    emit('0101.pdf');
+    emit('notes.txt');
+
+    await vi.advanceTimersByTimeAsync(600);
+    emit('0101.pdf'); // Written again: the interval restarts
+    await vi.advanceTimersByTimeAsync(600);
+    expect(processFiles).not.toHaveBeenCalled();
+
+    appendFileSync(path.join(root, '0101.pdf'), ' more'); // Still being copied when the timer fires
+    await vi.advanceTimersByTimeAsync(400);
+    expect(processFiles).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(processFiles).toHaveBeenCalledTimes(1);
+    expect(processFiles).toHaveBeenCalledWith([path.join(root, '0101.pdf')]);
+  });
+
+  it('ignores PDFs removed before they settled', async () => {
+    write('0101.pdf');
+    emit('0101.pdf');
+    rmSync(path.join(root, '0101.pdf'));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(processFiles).not.toHaveBeenCalled();
+  });
+
+  it('collects PDFs that settle during a batch into the next one', async () => {
+    const first = deferred();
+    processFiles.mockImplementationOnce(async (files: string[]) => {
+      await first.promise;
+      return result(files.length);
+    });
+
+    write('0101.pdf');
+    emit('0101.pdf');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(processFiles).toHaveBeenCalledTimes(1);
+
+    write('0102.pdf');
+    write('0103.pdf');
+    emit('0102.pdf');
+    emit('0103.pdf');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(processFiles).toHaveBeenCalledTimes(1); // Waits for the batch in flight
+
+    first.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(processFiles).toHaveBeenCalledTimes(2);
+    expect(processFiles.mock.calls[1][0]).toEqual([path.join(root, '0102.pdf'), path.join(root, '0103.pdf')]);
+  });
+
+  it('waits for the batch in flight on stop and leaves the rest queued', async () => {
+    const first = deferred();
+    processFiles.mockImplementationOnce(async (files: string[]) => {
+      await first.promise;
+      return result(files.length);
+    });
+
+    write('0101.pdf');
+    emit('0101.pdf');
+    await vi.advanceTimersByTimeAsync(1000);
+    write('0102.pdf');
+    emit('0102.pdf');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    let stopped = false;
+    const stopping = watcher.stop().then(() => (stopped = true));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    first.resolve();
+    await stopping;
+    expect(stopped).toBe(true);
+    expect(processFiles).toHaveBeenCalledTimes(1);
+
+    emit('0101.pdf'); // Events after stop are ignored
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(processFiles).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,12 +1,42 @@
-import { scanPDFDirectory } from '../scanner/pdf-scanner.js';
+import path from 'path';
+import { scanPDFDirectory, scanPDFFiles, getFileFingerprint } from '../scanner/pdf-scanner.js';
 import { PDFFileMetadata } from '../scanner/file-parser.js';
-import { AIExtractor } from '../extractor/ai-extractor.js';
-import { GrokExtractor } from '../extractor/grok-extractor.js';
-import { ComparisonEngine } from '../verification/comparison-engine.js';
+import { getExtractionProvider, getVerificationProvider } from '../extractor/provider-registry.js';
+import { ApiUsage, ProductExtractionProvider, VerificationProvider } from '../extractor/provider.js';
+import {
+  AIExtractor,
+  ExtractionPart,
+  ExtractionResult,
+  BatchPartReply,
+  describeTruncation,
+  ReplyParse,
+  TruncationEvent,
+  ValidationWarning,
+} from '../extractor/ai-extractor.js';
+import { extractTextFromPDF } from '../extractor/text-extractor.js';
+import { findSupplementFactsPage } from '../extractor/section-markers.js';
+import { summarizeParseStrategies } from '../extractor/json-extractor.js';
+import {
+  batchRequestBytes,
+  MAX_BATCH_BYTES,
+  MAX_BATCH_REQUESTS,
+  MessageBatchClient,
+  MessageBatchReply,
+  MessageBatchRequest,
+} from '../extractor/message-batches.js';
+import { ComparisonEngine, ComparisonResult } from '../verification/comparison-engine.js';
+import { NutrientConfidence, scoreNutrientConfidence } from '../verification/nutrient-confidence.js';
+import { evaluateReview, ReviewPolicy } from '../verification/review-policy.js';
+import { getReviewPolicy } from '../config/review-policy.js';
 import { ProductRepository } from '../database/repository.js';
+import { DEFAULT_LANGUAGE, languageOf, productKey } from '../scanner/language.js';
+import { DEFAULT_VARIANT, variantOf } from '../scanner/variants.js';
+import { MessageBatch, MessageBatchRequestRow, ProcessingLog, Product } from '../database/schema.js';
 import { ErrorHandler, ShutdownHandler } from './error-handler.js';
 import { ProgressTracker } from '../utils/progress-tracker.js';
+import { BudgetLimits, BudgetSummary, formatBudgetSummary, RunBudget } from './budget.js';
 import { checkDataCompleteness } from '../parser/data-normalizer.js';
+import { ProductExtractionData } from '../parser/json-validator.js';
 import logger, { logProcessingStart, logProcessingComplete } from '../utils/logger.js';
 import { env } from '../config/env.js';
 
@@ -15,6 +45,8 @@ export interface ProcessingOptions {
   concurrency?: number;
   retryFailed?: boolean;
   limit?: number; // Maximum number of PDFs to process
+  changedOnly?: boolean; // Only new PDFs and PDFs whose content changed since extraction
+  budget?: BudgetLimits; // Overrides BUDGET_MAX_* for this run
 }
 
 export interface ProcessingResult {
@@ -24,19 +56,35 @@ export interface ProcessingResult {
   skippedCount: number;
   elapsedMs: number;
   successRate: number;
+  orphanedCount?: number; // Products whose PDF was not found by the scan
+  unstartedCount?: number; // PDFs left pending because the budget ran out or shutdown was requested
+  budget?: BudgetSummary;
+}
+
+export interface BatchProcessorOptions {
+  extractor?: ProductExtractionProvider; // Defaults to EXTRACTION_PROVIDER
+  verifier?: VerificationProvider; // Always verifies when set; otherwise follows ENABLE_GROK_VERIFICATION
+  reviewPolicy?: ReviewPolicy; // Defaults to env thresholds / REVIEW_POLICY_PATH
 }
 
 export class BatchProcessor {
-  private extractor: AIExtractor;
+  private extractor: ProductExtractionProvider;
+  private verifier?: VerificationProvider;
   private repository: ProductRepository;
   private errorHandler: ErrorHandler;
   private shutdownHandler: ShutdownHandler;
+  private processingRunId?: number; // Open processing_runs row while a batch is running
+  private verificationRunId?: number; // Open verification_runs row while a batch is running
+  private budget?: RunBudget; // Limits of the running batch
+  private reviewPolicy: ReviewPolicy;
 
-  constructor() {
-    this.extractor = new AIExtractor();
+  constructor(options: BatchProcessorOptions = {}) {
+    this.extractor = options.extractor || getExtractionProvider();
+    this.verifier = options.verifier;
     this.repository = new ProductRepository();
     this.errorHandler = new ErrorHandler();
     this.shutdownHandler = new ShutdownHandler();
+    this.reviewPolicy = options.reviewPolicy || getReviewPolicy();
   }
 
   // Process all PDFs in directory
@@ -47,16 +95,13 @@ export class BatchProcessor {
     const limit = options.limit;
 
     logger.info('Starting batch processing...');
-    logger.info(`Configuration: concurrency=${concurrency}, skipExisting=${skipExisting}${limit ? `, limit=${limit}` : ''}`);
-
-    // Scan directory
-    const scanResult = await scanPDFDirectory();
     logger.info(
-      `Scan complete: ${scanResult.validFiles} valid PDFs found, ${scanResult.invalidFiles} invalid`
+      `Configuration: concurrency=${concurrency}, skipExisting=${skipExisting}` +
+      `${options.changedOnly ? ', changedOnly=true' : ''}${limit ? `, limit=${limit}` : ''}`
     );
 
-    if (scanResult.validFiles === 0) {
-      logger.warn('No valid PDFs found to process');
+    const selection = await this.selectPDFs(options);
+    if (!selection) {
       return {
         totalProcessed: 0,
         successCount: 0,
@@ -67,25 +112,79 @@ export class BatchProcessor {
       };
     }
 
-    // Filter PDFs (skip already processed)
-    let pdfsToProcess = skipExisting
-      ? scanResult.metadata.filter((pdf) => !this.repository.isProductProcessed(pdf.productCode))
-      : scanResult.metadata;
-
-    const skippedCount = scanResult.metadata.length - pdfsToProcess.length;
+    const { pdfs: pdfsToProcess, skippedCount, orphanedCount } = selection;
 
-    if (skippedCount > 0) {
-      logger.info(`Skipping ${skippedCount} already processed PDFs`);
+    if (pdfsToProcess.length === 0) {
+      logger.info('All PDFs already processed');
+      return {
+        totalProcessed: 0,
+        successCount: 0,
+        failureCount: 0,
+        skippedCount,
+        elapsedMs: Date.now() - startTime,
+        successRate: 100,
+        orphanedCount,
+      };
     }
 
-    // Apply limit if specified
-    if (limit && limit > 0 && pdfsToProcess.length > limit) {
-      logger.info(`Limiting processing to first ${limit} PDFs (${pdfsToProcess.length} available)`);
-      pdfsToProcess = pdfsToProcess.slice(0, limit);
+    logProcessingStart(pdfsToProcess.length);
+
+    // Initialize progress tracker
+    const progress = new ProgressTracker(pdfsToProcess.length);
+
+    // Process PDFs with concurrency control
+    this.startRun('process', options.budget);
+    const { successCount, failureCount } = await this.processConcurrently(pdfsToProcess, concurrency, progress);
+    const budget = this.finishRun();
+
+    const elapsedMs = Date.now() - startTime;
+    const totalProcessed = successCount + failureCount;
+    const successRate = totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0;
+    const unstartedCount = pdfsToProcess.length - totalProcessed;
+
+    logProcessingComplete(successCount, failureCount, elapsedMs);
+
+    // Log final summary
+    const summary = progress.getSummary();
+    logger.info('\n' + '='.repeat(70));
+    logger.info('PROCESSING COMPLETE');
+    logger.info(`Total: ${summary.total} | Success: ${summary.completed} | Failed: ${summary.failed}`);
+    logger.info(`Success Rate: ${summary.successRate.toFixed(2)}%`);
+    logger.info(`Elapsed Time: ${this.formatDuration(summary.elapsedMs)}`);
+    logger.info(`Budget: ${formatBudgetSummary(budget)}`);
+    if (budget.stopReason) {
+      logger.info(`Stopped early: ${budget.stopReason}; ${unstartedCount} PDFs left pending`);
     }
+    logger.info('='.repeat(70) + '\n');
+
+    return {
+      totalProcessed,
+      successCount,
+      failureCount,
+      skippedCount,
+      elapsedMs,
+      successRate,
+      orphanedCount,
+      unstartedCount,
+      budget,
+    };
+  }
+
+  // Process the given PDFs (e.g. from the watcher) if they are new or changed since extraction.
+  // Only they and the sheets sharing their product codes are scanned, so variants are assigned
+  // against their siblings without re-reading the whole root.
+  async processFiles(filePaths: string[], options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const concurrency = options.concurrency || env.CONCURRENT_PROCESSES;
+    const requested = new Set(filePaths.map((filePath) => path.resolve(filePath)));
+
+    const sheets = await scanPDFFiles(filePaths, undefined, this.repository.getLanguagesByFileHash());
+    this.repository.moveRenamedVariants(sheets);
+    const candidates = sheets.filter((pdf) => requested.has(path.resolve(pdf.filePath)));
+    const pdfsToProcess = this.filterChanged(candidates);
+    const skippedCount = filePaths.length - pdfsToProcess.length;
 
     if (pdfsToProcess.length === 0) {
-      logger.info('All PDFs already processed');
       return {
         totalProcessed: 0,
         successCount: 0,
@@ -98,21 +197,172 @@ export class BatchProcessor {
 
     logProcessingStart(pdfsToProcess.length);
 
-    // Initialize progress tracker
     const progress = new ProgressTracker(pdfsToProcess.length);
+    this.startRun('watch', options.budget);
+    const { successCount, failureCount } = await this.processConcurrently(pdfsToProcess, concurrency, progress);
+    const budget = this.finishRun();
 
-    // Process PDFs with concurrency control
+    const elapsedMs = Date.now() - startTime;
+    const totalProcessed = successCount + failureCount;
+    logProcessingComplete(successCount, failureCount, elapsedMs);
+
+    return {
+      totalProcessed,
+      successCount,
+      failureCount,
+      skippedCount,
+      elapsedMs,
+      successRate: totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0,
+      unstartedCount: pdfsToProcess.length - totalProcessed,
+      budget,
+    };
+  }
+
+  /**
+   * process --batch-api: submit the pending PDFs as Message Batches instead of calling the API per
+   * PDF, wait for the batches to end, then take each PDF's replies through the same validation,
+   * verification, review and storage steps as processAll. Batch IDs and results are stored as they
+   * arrive, so a run that is stopped or crashes resumes its batches when started again (PDFs found
+   * since then are submitted by the run after that).
+   */
+  async processAllWithBatchApi(options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const concurrency = options.concurrency || env.CONCURRENT_PROCESSES;
+
+    if (!(this.extractor instanceof AIExtractor)) {
+      throw new Error(`--batch-api needs the anthropic extraction provider (EXTRACTION_PROVIDER is "${this.extractor.name}")`);
+    }
+    const extractor = this.extractor;
+    const client = extractor.createBatchClient();
+
+    // Spend is committed when a batch is submitted, so run budgets cannot stop it part way
+    if (new RunBudget(this.budgetLimits(options.budget)).hasLimits()) {
+      logger.warn('Run budget limits are ignored with --batch-api: submitted batches are billed in full');
+    }
+    this.startRun('process --batch-api', { maxCostUsd: 0, maxTokens: 0, maxCalls: 0 });
+
+    let batches = this.repository.getUnprocessedMessageBatches();
+    let skippedCount = 0;
+    let orphanedCount: number | undefined;
+    let failureCount = 0;
+
+    if (batches.length > 0) {
+      logger.info(`Resuming ${batches.length} message batches submitted earlier`);
+    } else {
+      const selection = await this.selectPDFs(options);
+      skippedCount = selection?.skippedCount ?? 0;
+      orphanedCount = selection?.orphanedCount;
+
+      if (selection && selection.pdfs.length > 0) {
+        ({ batches, failureCount } = await this.submitMessageBatches(extractor, client, selection.pdfs));
+      } else if (selection) {
+        logger.info('All PDFs already processed');
+      }
+    }
+
+    const ended = await this.waitForMessageBatches(client, batches);
+
+    // Results of ended batches, grouped per PDF; PDFs handled before a restart are left out
+    const work: Array<{ metadata: PDFFileMetadata; requests: MessageBatchRequestRow[] }> = [];
+    if (ended) {
+      for (const batch of batches) {
+        await this.downloadMessageBatchResults(client, batch);
+        work.push(...this.groupBatchRequests(this.repository.getMessageBatchRequests(batch.id!, true)));
+      }
+    }
+
+    const progress = new ProgressTracker(work.length);
+    let successCount = 0;
+    let processedCount = 0;
+
+    for (let i = 0; i < work.length; i += concurrency) {
+      if (this.shutdownHandler.isShuttingDownNow()) {
+        logger.warn('Shutdown requested, stopping processing');
+        break;
+      }
+
+      const group = work.slice(i, i + concurrency);
+      const results = await Promise.allSettled(
+        group.map(async ({ metadata, requests }) => {
+          const replies = requests.map((request) => this.toBatchPartReply(request));
+          const success = await this.processSinglePDF(metadata, progress, {
+            name: extractor.name,
+            model: extractor.model,
+            extractProduct: () => extractor.extractFromBatchReplies(metadata, replies),
+          });
+          this.repository.markMessageBatchRequestsProcessed(requests.map((request) => request.id!));
+          return success;
+        })
+      );
+
+      processedCount += results.length;
+      for (const result of results) {
+        if (result.status === 'fulfilled' && result.value) {
+          successCount++;
+        } else {
+          failureCount++;
+        }
+      }
+    }
+
+    for (const batch of batches) {
+      if (batch.status === 'ended' && this.repository.getMessageBatchRequests(batch.id!, true).length === 0) {
+        this.repository.completeMessageBatch(batch.id!);
+      }
+    }
+
+    const budget = this.finishRun();
+
+    const elapsedMs = Date.now() - startTime;
+    const totalProcessed = successCount + failureCount;
+    logProcessingComplete(successCount, failureCount, elapsedMs);
+
+    if (!ended) {
+      logger.info('Message batches are still running; run process --batch-api again to collect their results');
+    }
+
+    return {
+      totalProcessed,
+      successCount,
+      failureCount,
+      skippedCount,
+      elapsedMs,
+      successRate: totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0,
+      orphanedCount,
+      unstartedCount: work.length - processedCount,
+      budget,
+    };
+  }
+
+  // Run after SIGINT/SIGTERM once the PDFs in flight have finished
+  onShutdown(callback: () => Promise<void>): void {
+    this.shutdownHandler.onShutdown(callback);
+  }
+
+  isShuttingDown(): boolean {
+    return this.shutdownHandler.isShuttingDownNow();
+  }
+
+  // Process PDFs `concurrency` at a time, stopping between groups when shutdown is requested
+  // and before any PDF the run budget cannot cover
+  private async processConcurrently(
+    pdfs: PDFFileMetadata[],
+    concurrency: number,
+    progress: ProgressTracker
+  ): Promise<{ successCount: number; failureCount: number }> {
     let successCount = 0;
     let failureCount = 0;
 
-    for (let i = 0; i < pdfsToProcess.length; i += concurrency) {
+    for (let i = 0; i < pdfs.length; i += concurrency) {
       // Check for shutdown
       if (this.shutdownHandler.isShuttingDownNow()) {
         logger.warn('Shutdown requested, stopping processing');
         break;
       }
 
-      const batch = pdfsToProcess.slice(i, i + concurrency);
+      const group = pdfs.slice(i, i + concurrency);
+      const startable = group.findIndex((_pdf, inFlight) => this.budget?.checkNext(inFlight));
+      const batch = startable >= 0 ? group.slice(0, startable) : group;
       const batchPromises = batch.map((pdf) => this.processSinglePDF(pdf, progress));
 
       const results = await Promise.allSettled(batchPromises);
@@ -125,49 +375,286 @@ export class BatchProcessor {
           failureCount++;
         }
       }
+
+      if (batch.length < group.length) {
+        logger.warn(`Stopping: ${this.budget?.summary.stopReason}`);
+        break;
+      }
     }
 
-    const elapsedMs = Date.now() - startTime;
-    const successRate = (successCount / (successCount + failureCount)) * 100;
+    return { successCount, failureCount };
+  }
 
-    logProcessingComplete(successCount, failureCount, elapsedMs);
+  // Build every PDF's requests and submit them as Message Batches, starting a new batch before the
+  // size limits are reached (a PDF's requests always share a batch). PDFs whose requests cannot be
+  // built are logged as failed right away.
+  private async submitMessageBatches(
+    extractor: AIExtractor,
+    client: MessageBatchClient,
+    pdfs: PDFFileMetadata[]
+  ): Promise<{ batches: MessageBatch[]; failureCount: number }> {
+    const batches: MessageBatch[] = [];
+    let failureCount = 0;
+    let pending: Array<MessageBatchRequest & { row: Omit<MessageBatchRequestRow, 'id' | 'message_batch_id'> }> = [];
+    let pendingBytes = 0;
 
-    // Log final summary
-    const summary = progress.getSummary();
-    logger.info('\n' + '='.repeat(70));
-    logger.info('PROCESSING COMPLETE');
-    logger.info(`Total: ${summary.total} | Success: ${summary.completed} | Failed: ${summary.failed}`);
-    logger.info(`Success Rate: ${summary.successRate.toFixed(2)}%`);
-    logger.info(`Elapsed Time: ${this.formatDuration(summary.elapsedMs)}`);
-    logger.info('='.repeat(70) + '\n');
+    const submit = async () => {
+      const status = await client.submit(pending);
+      const id = this.repository.insertMessageBatch(
+        { batch_id: status.id, model: extractor.model, status: status.status },
+        pending.map((request) => request.row)
+      );
+      batches.push({ id, batch_id: status.id, model: extractor.model, status: status.status, request_count: pending.length });
+      logger.info(`Submitted message batch ${status.id} (${pending.length} requests)`);
 
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    for (const [index, pdf] of pdfs.entries()) {
+      const plan = await extractor.prepareBatchRequests(pdf);
+      if (!plan.success || !plan.requests) {
+        this.repository.markProductAsFailed(pdf, plan.error || 'Could not build batch requests');
+        this.logProcessing(pdf, { action: 'extract', status: 'error', error_message: plan.error, processing_time_ms: 0 }, []);
+        logger.error(`Failed to prepare ${pdf.productCode}: ${plan.error}`);
+        failureCount++;
+        continue;
+      }
+
+      const requests = plan.requests.map((request) => ({
+        customId: `pdf${index}-${request.part}`,
+        params: request.params,
+        row: {
+          custom_id: `pdf${index}-${request.part}`,
+          product_code: pdf.productCode,
+          language: languageOf(pdf),
+          variant: variantOf(pdf),
+          metadata: JSON.stringify(pdf),
+          part: request.part,
+          prompt_id: request.prompt.id,
+          prompt_version: request.prompt.version,
+          prompt_hash: request.prompt.hash,
+          cache_key: request.cacheKey,
+          pdf_hash: request.pdfHash,
+        },
+      }));
+      const bytes = requests.reduce((sum, request) => sum + batchRequestBytes(request), 0);
+
+      if (
+        pending.length > 0 &&
+        (pending.length + requests.length > MAX_BATCH_REQUESTS || pendingBytes + bytes > MAX_BATCH_BYTES)
+      ) {
+        await submit();
+      }
+      pending.push(...requests);
+      pendingBytes += bytes;
+    }
+
+    if (pending.length > 0) {
+      await submit();
+    }
+
+    return { batches, failureCount };
+  }
+
+  // Poll every BATCH_POLL_INTERVAL_SECONDS until all batches have ended; false when shutdown was
+  // requested first (the batches keep running and are picked up by the next run)
+  private async waitForMessageBatches(client: MessageBatchClient, batches: MessageBatch[]): Promise<boolean> {
+    let running = batches.filter((batch) => batch.status !== 'ended');
+
+    while (running.length > 0) {
+      for (const batch of running) {
+        const status = await client.retrieve(batch.batch_id);
+        this.repository.updateMessageBatchStatus(batch.id!, status.status, status.endedAt);
+        batch.status = status.status;
+
+        logger.info(
+          `Message batch ${status.id}: ${status.status} (${status.processing} processing, ` +
+          `${status.succeeded} succeeded, ${status.errored} errored, ${status.canceled + status.expired} canceled or expired)`
+        );
+      }
+
+      running = running.filter((batch) => batch.status !== 'ended');
+      if (running.length === 0) {
+        break;
+      }
+
+      if (this.shutdownHandler.isShuttingDownNow()) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, env.BATCH_POLL_INTERVAL_SECONDS * 1000));
+    }
+
+    return true;
+  }
+
+  // Store the results of an ended batch unless they were downloaded before a restart
+  private async downloadMessageBatchResults(client: MessageBatchClient, batch: MessageBatch): Promise<void> {
+    const requests = this.repository.getMessageBatchRequests(batch.id!);
+    if (requests.every((request) => request.result)) {
+      return;
+    }
+
+    const replies: MessageBatchReply[] = [];
+    for await (const reply of client.results(batch.batch_id)) {
+      replies.push(reply);
+    }
+    this.repository.saveMessageBatchResults(batch.id!, replies);
+  }
+
+  // Requests of the same PDF, in submission order
+  private groupBatchRequests(
+    requests: MessageBatchRequestRow[]
+  ): Array<{ metadata: PDFFileMetadata; requests: MessageBatchRequestRow[] }> {
+    const groups = new Map<string, MessageBatchRequestRow[]>();
+    for (const request of requests) {
+      const key = productKey(request.product_code, request.language, request.variant);
+      groups.set(key, [...(groups.get(key) || []), request]);
+    }
+
+    return Array.from(groups.values()).map((group) => ({
+      metadata: JSON.parse(group[0].metadata) as PDFFileMetadata,
+      requests: group,
+    }));
+  }
+
+  private toBatchPartReply(request: MessageBatchRequestRow): BatchPartReply {
     return {
-      totalProcessed: successCount + failureCount,
-      successCount,
-      failureCount,
-      skippedCount,
-      elapsedMs,
-      successRate,
+      part: request.part as ExtractionPart,
+      prompt: { id: request.prompt_id, version: request.prompt_version, hash: request.prompt_hash },
+      cacheKey: request.cache_key,
+      pdfHash: request.pdf_hash,
+      text: request.response_text ?? null,
+      stopReason: request.stop_reason ?? null,
+      error: request.result === 'succeeded' ? undefined : request.error_message || `Request ${request.result ?? 'missing from results'}`,
+      inputTokens: request.input_tokens ?? 0,
+      outputTokens: request.output_tokens ?? 0,
     };
   }
 
+  // Scan PDF_ROOT_PATH, flag orphaned products and pick the PDFs a process run should extract;
+  // null when the scan found no valid PDFs
+  private async selectPDFs(
+    options: ProcessingOptions
+  ): Promise<{ pdfs: PDFFileMetadata[]; skippedCount: number; orphanedCount: number } | null> {
+    const skipExisting = options.skipExisting ?? true;
+    const limit = options.limit;
+
+    // Scan directory
+    const scanResult = await scanPDFDirectory(undefined, this.repository.getLanguagesByFileHash());
+    logger.info(
+      `Scan complete: ${scanResult.validFiles} valid PDFs found, ${scanResult.invalidFiles} invalid`
+    );
+
+    if (scanResult.validFiles === 0) {
+      logger.warn('No valid PDFs found to process');
+      return null;
+    }
+
+    // Carry rows over to sheets whose variant changed, then flag products whose PDF is gone (and
+    // clear the flag on any that came back)
+    this.repository.moveRenamedVariants(scanResult.metadata);
+    const orphanedCount = this.repository.markOrphanedProducts(
+      scanResult.metadata.map((pdf) => productKey(pdf.productCode, languageOf(pdf), variantOf(pdf)))
+    );
+    if (orphanedCount > 0) {
+      logger.warn(`${orphanedCount} products no longer have a PDF on disk (marked orphaned)`);
+    }
+
+    // Filter PDFs (only changed, or skip already processed)
+    let pdfs = options.changedOnly
+      ? this.filterChanged(scanResult.metadata)
+      : skipExisting
+        ? scanResult.metadata.filter((pdf) => !this.repository.isProductProcessed(pdf.productCode, languageOf(pdf), variantOf(pdf)))
+        : scanResult.metadata;
+
+    const skippedCount = scanResult.metadata.length - pdfs.length;
+
+    if (skippedCount > 0) {
+      logger.info(`Skipping ${skippedCount} already processed PDFs`);
+    }
+
+    // Apply limit if specified
+    if (limit && limit > 0 && pdfs.length > limit) {
+      logger.info(`Limiting processing to first ${limit} PDFs (${pdfs.length} available)`);
+      pdfs = pdfs.slice(0, limit);
+    }
+
+    return { pdfs, skippedCount, orphanedCount };
+  }
+
+  // Keep new PDFs and PDFs whose content changed since they were last extracted
+  private filterChanged(pdfs: PDFFileMetadata[]): PDFFileMetadata[] {
+    const fingerprints = this.repository.getFileFingerprints();
+    let newCount = 0;
+    let modifiedCount = 0;
+    let backfilledCount = 0;
+
+    const changed = pdfs.filter((pdf) => {
+      const stored = fingerprints.get(productKey(pdf.productCode, languageOf(pdf), variantOf(pdf)));
+      if (!stored) {
+        newCount++;
+        return true;
+      }
+
+      // Unreadable file: leave the existing extraction alone
+      if (!pdf.fileHash || !pdf.fileModifiedAt) {
+        return false;
+      }
+
+      if (stored.pdf_file_hash) {
+        const modified = stored.pdf_file_hash !== pdf.fileHash;
+        if (modified) modifiedCount++;
+        return modified;
+      }
+
+      // Extracted before fingerprints were recorded: compare mtime once, then store the hash
+      const lastExtracted = stored.updated_at ? Date.parse(`${stored.updated_at.replace(' ', 'T')}Z`) : 0;
+      if (Date.parse(pdf.fileModifiedAt) > lastExtracted) {
+        modifiedCount++;
+        return true;
+      }
+
+      this.repository.updateFileFingerprint(
+        pdf.productCode,
+        languageOf(pdf),
+        variantOf(pdf),
+        pdf.fileHash,
+        pdf.fileModifiedAt
+      );
+      backfilledCount++;
+      return false;
+    });
+
+    logger.info(
+      `Change detection: ${newCount} new, ${modifiedCount} modified, ${pdfs.length - changed.length} unchanged` +
+      `${backfilledCount > 0 ? ` (${backfilledCount} fingerprints recorded)` : ''}`
+    );
+
+    return changed;
+  }
+
   // Process a single PDF
   private async processSinglePDF(
     metadata: PDFFileMetadata,
-    progress: ProgressTracker
+    progress: ProgressTracker,
+    extractor: ProductExtractionProvider = this.extractor
   ): Promise<boolean> {
     const startTime = Date.now();
+    const usage: ApiUsage[] = []; // API calls made for this PDF, stored with its processing_log row
+    const parses: ReplyParse[] = []; // How each reply was parsed, likewise
 
     try {
       progress.start(metadata.productCode);
 
-      // Step 1: Extract data with retry logic (use hybrid extraction if enabled)
+      // Step 1: Extract data with retry logic
       const extractionResult = await this.errorHandler.withRetry(
-        () => env.ENABLE_HYBRID_EXTRACTION
-          ? this.extractor.extractProductInfoHybrid(metadata)
-          : this.extractor.extractProductInfo(metadata),
+        () => extractor.extractProduct(metadata),
         `Extract ${metadata.productCode}`
       );
+      usage.push(...(extractionResult.usage || []));
+      parses.push(...(extractionResult.parses || []));
+      this.logTruncations(metadata, extractionResult.truncations || []);
 
       if (!extractionResult.success || !extractionResult.data) {
         // Mark as failed
@@ -177,32 +664,34 @@ export class BatchProcessor {
           extractionResult.rawResponse
         );
 
-        this.repository.logProcessing({
-          product_code: metadata.productCode,
-          pdf_file_path: metadata.filePath,
+        this.logProcessing(metadata, {
           action: 'extract',
           status: 'error',
           error_message: extractionResult.error,
           processing_time_ms: extractionResult.processingTimeMs,
-        });
+        }, usage, parses);
 
         logger.error(`Failed to extract ${metadata.productCode}: ${extractionResult.error}`);
         progress.complete(false);
         return false;
       }
 
-      // Step 2: Grok verification (supplement facts only) if enabled
+      // Step 2: Cross-check supplement facts with the verification provider if enabled
       let grokResult = null;
       let comparisonResult = null;
+      let verificationModel: string | undefined;
 
-      if (env.ENABLE_GROK_VERIFICATION && extractionResult.data.supplementFacts) {
+      if (this.isVerificationEnabled() && extractionResult.data.supplementFacts) {
         try {
-          const grokExtractor = new GrokExtractor();
-          grokResult = await grokExtractor.verifySupplementFacts(metadata);
+          const verifier = this.verifier || getVerificationProvider();
+          verifier.setBudget?.(this.budget);
+          grokResult = await verifier.extractSupplementFacts(metadata);
+          usage.push(...(grokResult.usage || []));
+          verificationModel = grokResult.modelVersion || verifier.model;
 
           // Step 3: Compare supplement facts if Grok succeeded
           if (grokResult.success && grokResult.supplementFacts) {
-            const comparisonEngine = new ComparisonEngine();
+            const comparisonEngine = new ComparisonEngine(this.reviewPolicy);
             comparisonResult = comparisonEngine.compareSupplementFacts(
               extractionResult.data.supplementFacts,
               grokResult.supplementFacts
@@ -214,21 +703,30 @@ export class BatchProcessor {
               `Similarity ${comparisonResult.similarityScore.toFixed(1)}%, ` +
               `${comparisonResult.discrepancies.length} discrepancies`
             );
-
-            // Flag for review if needed
-            if (comparisonResult.recommendsReview) {
-              logger.warn(
-                `Product ${metadata.productCode} flagged for review: ` +
-                `${comparisonResult.discrepancies.filter(d => d.severity === 'high').length} high-severity issues`
-              );
-            }
           }
         } catch (error) {
-          logger.warn(`Grok verification failed for ${metadata.productCode}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          logger.warn(`Verification failed for ${metadata.productCode}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           // Continue with Claude-only extraction
         }
       }
 
+      // Verification refused by the run budget: fail the PDF rather than store it unverified (its
+      // extraction replies are cached, so retry-failed only pays for the verification call)
+      if (grokResult?.budgetExhausted) {
+        const reason = grokResult.error || 'Budget exhausted';
+        this.repository.markProductAsFailed(metadata, reason, extractionResult.rawResponse);
+        this.logProcessing(metadata, {
+          action: 'verify',
+          status: 'error',
+          error_message: reason,
+          processing_time_ms: Date.now() - startTime,
+        }, usage, parses);
+
+        logger.error(`Failed to verify ${metadata.productCode}: ${reason}`);
+        progress.complete(false);
+        return false;
+      }
+
       // Check data completeness
       const completeness = checkDataCompleteness(extractionResult.data);
       if (completeness.completenessPercent < 50) {
@@ -237,6 +735,17 @@ export class BatchProcessor {
         );
       }
 
+      // Score each nutrient from the comparison, the PDF text layer, DV% and validation warnings
+      const validationWarnings = extractionResult.validationWarnings || [];
+      const textLayer = await this.readTextLayer(metadata, extractionResult);
+      const nutrientConfidence = this.scoreNutrients(
+        metadata,
+        extractionResult.data,
+        comparisonResult,
+        validationWarnings,
+        textLayer.text
+      );
+
       // Step 4: Insert into database with verification data
       const productId = this.repository.insertProduct(
         metadata,
@@ -246,12 +755,17 @@ export class BatchProcessor {
           rawResponse: grokResult.rawResponse || '',
           supplementFacts: grokResult.supplementFacts,
           extractionTimeMs: grokResult.extractionTimeMs,
-          modelVersion: env.GROK_MODEL
-        } : undefined
+          modelVersion: verificationModel,
+          prompt: grokResult.prompt,
+          comparison: comparisonResult || undefined,
+          runId: this.verificationRunId,
+        } : undefined,
+        { model: extractionResult.model, prompts: extractionResult.prompts },
+        nutrientConfidence
       );
+      this.repository.setSupplementFactsPage(productId, textLayer.supplementFactsPage);
 
       // Step 5: Insert validation warnings if any
-      const validationWarnings = extractionResult.validationWarnings || [];
       if (validationWarnings.length > 0) {
         const source = env.ENABLE_HYBRID_EXTRACTION ? 'hybrid' : 'claude';
         this.repository.insertValidationWarnings(productId, validationWarnings, source);
@@ -262,41 +776,50 @@ export class BatchProcessor {
         this.repository.insertDiscrepancies(productId, comparisonResult.discrepancies);
       }
 
-      // Step 7: Determine if product needs review
-      // Review needed if:
-      // - Comparison recommends review, OR
-      // - Any high-severity validation warnings, OR
-      // - More than 2 medium-severity validation warnings
-      const needsReview =
-        (comparisonResult?.recommendsReview) ||
-        validationWarnings.some(w => w.severity === 'high') ||
-        validationWarnings.filter(w => w.severity === 'medium').length > 2;
+      // Step 7: Route through the review policy (auto-accept, queue for review, or auto-reject)
+      const review = evaluateReview({ comparison: comparisonResult, validationWarnings }, this.reviewPolicy);
+
+      if (review.decision === 'auto_reject') {
+        const reason = `Rejected by review policy: ${review.reasons.join(', ')}`;
+        this.repository.markProductAsFailed(metadata, reason, extractionResult.rawResponse);
+        // Otherwise retry-failed would replay the same cached replies and be rejected again
+        const pdfHash = metadata.fileHash ?? getFileFingerprint(metadata.filePath).fileHash;
+        if (pdfHash) {
+          this.repository.deleteCachedResponsesForPdf(pdfHash);
+        }
+        this.logProcessing(metadata, {
+          action: 'review',
+          status: 'warning',
+          error_message: reason,
+          processing_time_ms: Date.now() - startTime,
+        }, usage, parses);
+
+        logger.warn(`Product ${metadata.productCode} ${reason.charAt(0).toLowerCase()}${reason.slice(1)}`);
+        progress.complete(false);
+        return false;
+      }
 
+      const needsReview = review.decision === 'review';
       if (needsReview) {
-        const discrepancies = comparisonResult?.discrepancies || [];
         this.repository.addToReviewQueue(
           productId,
           metadata.productCode,
-          discrepancies,
-          validationWarnings
+          comparisonResult?.discrepancies || [],
+          validationWarnings,
+          review.priority
         );
 
-        if (validationWarnings.length > 0) {
-          const highCount = validationWarnings.filter(w => w.severity === 'high').length;
-          logger.warn(
-            `Product ${metadata.productCode} flagged for review: ` +
-            `${highCount} high-severity validation warnings`
-          );
-        }
+        logger.warn(
+          `Product ${metadata.productCode} flagged for review (priority ${review.priority}): ` +
+          review.reasons.join(', ')
+        );
       }
 
-      this.repository.logProcessing({
-        product_code: metadata.productCode,
-        pdf_file_path: metadata.filePath,
+      this.logProcessing(metadata, {
         action: 'extract',
         status: 'success',
         processing_time_ms: Date.now() - startTime,
-      });
+      }, usage, parses);
 
       const reviewFlag = needsReview ? ' [NEEDS REVIEW]' : '';
       logger.info(
@@ -309,14 +832,12 @@ export class BatchProcessor {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
 
       this.repository.markProductAsFailed(metadata, errorMsg);
-      this.repository.logProcessing({
-        product_code: metadata.productCode,
-        pdf_file_path: metadata.filePath,
+      this.logProcessing(metadata, {
         action: 'extract',
         status: 'error',
         error_message: errorMsg,
         processing_time_ms: Date.now() - startTime,
-      });
+      }, usage, parses);
 
       logger.error(`Error processing ${metadata.productCode}: ${errorMsg}`, error);
       progress.complete(false);
@@ -325,7 +846,7 @@ export class BatchProcessor {
   }
 
   // Retry failed products
-  async retryFailed(): Promise<ProcessingResult> {
+  async retryFailed(options: Pick<ProcessingOptions, 'budget'> = {}): Promise<ProcessingResult> {
     logger.info('Retrying failed products...');
 
     const failedProducts = this.repository.getFailedProducts();
@@ -342,14 +863,10 @@ export class BatchProcessor {
       };
     }
 
-    // Convert to metadata format
-    const metadata: PDFFileMetadata[] = failedProducts.map((product) => ({
-      productCode: product.product_code,
-      productName: product.product_name,
-      subbrand: product.subbrand || null,
-      filePath: product.pdf_file_path,
-      folderPath: product.folder_path,
-      fileName: product.pdf_file_path.split(/[\\/]/).pop() || '',
+    // Convert to metadata format (re-fingerprint, the PDF may have been fixed since)
+    const metadata = failedProducts.map((product) => ({
+      ...this.toMetadata(product),
+      ...getFileFingerprint(product.pdf_file_path),
     }));
 
     // Process with same logic as processAll
@@ -357,8 +874,15 @@ export class BatchProcessor {
     const progress = new ProgressTracker(metadata.length);
     let successCount = 0;
     let failureCount = 0;
+    this.startRun('retry-failed', options.budget);
 
     for (const pdf of metadata) {
+      const stopReason = this.budget?.checkNext();
+      if (stopReason) {
+        logger.warn(`Stopping: ${stopReason}`);
+        break;
+      }
+
       const success = await this.processSinglePDF(pdf, progress);
       if (success) {
         successCount++;
@@ -367,13 +891,64 @@ export class BatchProcessor {
       }
     }
 
+    const budget = this.finishRun();
+
     const elapsedMs = Date.now() - startTime;
-    const successRate = (successCount / (successCount + failureCount)) * 100;
+    const totalProcessed = successCount + failureCount;
+    const successRate = totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0;
 
     logger.info(`Retry complete: ${successCount} succeeded, ${failureCount} still failed`);
 
     return {
-      totalProcessed: successCount + failureCount,
+      totalProcessed,
+      successCount,
+      failureCount,
+      skippedCount: 0,
+      elapsedMs,
+      successRate,
+      unstartedCount: metadata.length - totalProcessed,
+      budget,
+    };
+  }
+
+  // Re-run parsing, validation, normalization and comparison over stored raw responses.
+  // Use with the replay provider so no API calls are made.
+  async reprocessFromRaw(): Promise<ProcessingResult> {
+    logger.info('Reprocessing products from stored raw responses...');
+
+    const products = this.repository.getProductsWithRawResponse();
+    logger.info(`Found ${products.length} products with stored responses`);
+
+    const startTime = Date.now();
+    const progress = new ProgressTracker(products.length);
+    let successCount = 0;
+    let failureCount = 0;
+    this.startRun('reprocess');
+
+    for (const product of products) {
+      if (this.shutdownHandler.isShuttingDownNow()) {
+        logger.warn('Shutdown requested, stopping reprocessing');
+        break;
+      }
+
+      const success = await this.processSinglePDF(this.toMetadata(product), progress);
+      if (success) {
+        successCount++;
+      } else {
+        failureCount++;
+      }
+    }
+
+    this.finishRun();
+
+    const elapsedMs = Date.now() - startTime;
+    const totalProcessed = successCount + failureCount;
+    const successRate = totalProcessed > 0 ? (successCount / totalProcessed) * 100 : 0;
+
+    logger.info(`Reprocess complete: ${successCount} succeeded, ${failureCount} failed`);
+
+    return {
+      totalProcessed,
       successCount,
       failureCount,
       skippedCount: 0,
@@ -408,9 +983,208 @@ export class BatchProcessor {
       logger.info(`  No completed products yet`);
     }
 
+    const parseCounts = this.repository.getReplyParseCounts();
+    const parsing = summarizeParseStrategies(parseCounts);
+    if (parsing.replies > 0) {
+      logger.info(`\nReply Parsing:`);
+      logger.info(`  Replies: ${parsing.replies}`);
+      logger.info(`  Parsed directly: ${parsing.direct}`);
+      logger.info(`  JSON repair fallback: ${parsing.fallback} (${parsing.fallbackRate.toFixed(1)}%)`);
+      logger.info(`  Unparseable: ${parsing.failed}`);
+      for (const count of parseCounts.filter((row) => row.strategy !== 'directParse')) {
+        logger.info(`    ${count.part}: ${count.strategy} x${count.replies}`);
+      }
+    }
+
     logger.info('\n' + '='.repeat(70) + '\n');
   }
 
+  // processing_log row for one PDF of the current run, with the API calls made for it
+  // (which are also counted against the run budget) and how their replies were parsed
+  private logProcessing(
+    metadata: PDFFileMetadata,
+    log: Pick<ProcessingLog, 'action' | 'status' | 'error_message' | 'processing_time_ms'>,
+    usage: ApiUsage[],
+    parses: ReplyParse[] = []
+  ): void {
+    this.repository.logProcessing(
+      {
+        ...log,
+        product_code: metadata.productCode,
+        language: languageOf(metadata),
+        variant: variantOf(metadata),
+        pdf_file_path: metadata.filePath,
+        run_id: this.processingRunId,
+      },
+      usage,
+      parses
+    );
+    this.budget?.record(usage);
+  }
+
+  // processing_log warning row for each reply of a PDF that was cut off at max_tokens
+  private logTruncations(metadata: PDFFileMetadata, truncations: TruncationEvent[]): void {
+    for (const truncation of truncations) {
+      this.repository.logProcessing({
+        product_code: metadata.productCode,
+        language: languageOf(metadata),
+        variant: variantOf(metadata),
+        pdf_file_path: metadata.filePath,
+        action: 'truncation',
+        status: 'warning',
+        error_message: describeTruncation(truncation),
+        run_id: this.processingRunId,
+      });
+    }
+  }
+
+  // Text layer and Supplement Facts page (0-based) of a PDF; only read here when the extraction
+  // did not already read them
+  private async readTextLayer(
+    metadata: PDFFileMetadata,
+    extraction: ExtractionResult
+  ): Promise<{ text: string | null; supplementFactsPage: number | null }> {
+    if (extraction.pdfText !== undefined) {
+      return { text: extraction.pdfText, supplementFactsPage: extraction.supplementFactsPage ?? null };
+    }
+
+    const text = await extractTextFromPDF(metadata.filePath);
+    return {
+      text: text.metadata?.hasText ? text.rawText ?? null : null,
+      supplementFactsPage: findSupplementFactsPage(text.pageTexts || []),
+    };
+  }
+
+  // Confidence per nutrient of an extraction; nutrients below NUTRIENT_CONFIDENCE_THRESHOLD are
+  // stored as needing verification
+  private scoreNutrients(
+    metadata: PDFFileMetadata,
+    data: ProductExtractionData,
+    comparison: ComparisonResult | null,
+    validationWarnings: ValidationWarning[],
+    pdfText: string | null
+  ): NutrientConfidence[] {
+    const nutrients = data.supplementFacts?.nutrients || [];
+    if (nutrients.length === 0) {
+      return [];
+    }
+
+    const scores = scoreNutrientConfidence(
+      {
+        nutrients,
+        discrepancies: comparison?.discrepancies,
+        pdfText,
+        validationWarnings,
+      },
+      env.NUTRIENT_CONFIDENCE_THRESHOLD
+    );
+
+    const flagged = nutrients
+      .map((nutrient, index) => ({ nutrient, score: scores[index] }))
+      .filter(({ score }) => score.needsVerification);
+    if (flagged.length > 0) {
+      logger.warn(
+        `${flagged.length} of ${nutrients.length} nutrients of ${metadata.productCode} need verification: ` +
+        flagged.map(({ nutrient, score }) => `${nutrient.name} (${score.confidence}: ${score.reasons.join(', ')})`).join('; ')
+      );
+    }
+
+    return scores;
+  }
+
+  private isVerificationEnabled(): boolean {
+    return !!this.verifier || env.ENABLE_GROK_VERIFICATION;
+  }
+
+  // Group the log rows and API calls of one batch so spend can be reported per run
+  private startRun(command: string, limits: BudgetLimits = {}): void {
+    this.processingRunId = this.repository.startProcessingRun(command);
+    this.budget = new RunBudget(this.budgetLimits(limits));
+    this.extractor.setBudget?.(this.budget);
+    this.startVerificationRun(command);
+
+    if (this.budget.hasLimits()) {
+      logger.info(`Run budget: ${formatBudgetSummary(this.budget.summary)}`);
+    }
+  }
+
+  // Budget limits not given for the run fall back to BUDGET_MAX_*
+  private budgetLimits(limits: BudgetLimits = {}): BudgetLimits {
+    return {
+      maxCostUsd: limits.maxCostUsd ?? env.BUDGET_MAX_COST_USD,
+      maxTokens: limits.maxTokens ?? env.BUDGET_MAX_TOKENS,
+      maxCalls: limits.maxCalls ?? env.BUDGET_MAX_API_CALLS,
+    };
+  }
+
+  // Returns what the run consumed of its budget
+  private finishRun(): BudgetSummary {
+    this.finishVerificationRun();
+
+    const runId = this.processingRunId!;
+    const budget = this.budget!.summary;
+    this.processingRunId = undefined;
+    this.budget = undefined;
+    this.extractor.setBudget?.(undefined);
+
+    this.repository.completeProcessingRun(runId);
+    const cost = this.repository.getRunCost(runId);
+    if (cost && cost.calls > 0) {
+      logger.info(
+        `Processing run ${cost.run_id}: ${cost.calls} API calls, ` +
+        `${cost.input_tokens + cost.output_tokens} tokens (${cost.input_tokens} in / ${cost.output_tokens} out), ` +
+        `$${cost.cost_usd.toFixed(4)}${cost.unpriced_calls > 0 ? ` (${cost.unpriced_calls} unpriced calls)` : ''}`
+      );
+    }
+
+    const parsing = summarizeParseStrategies(this.repository.getReplyParseCounts(runId));
+    if (parsing.replies > 0) {
+      logger.info(
+        `Reply parsing: ${parsing.replies} replies, ${parsing.fallback} needed the JSON repair fallback ` +
+        `(${parsing.fallbackRate.toFixed(1)}%), ${parsing.failed} unparseable`
+      );
+    }
+
+    return budget;
+  }
+
+  // Group the comparisons of one batch so similarity can be tracked run over run
+  private startVerificationRun(command: string): void {
+    if (this.isVerificationEnabled()) {
+      this.verificationRunId = this.repository.startVerificationRun(command, env.VERIFICATION_SIMILARITY_THRESHOLD);
+    }
+  }
+
+  private finishVerificationRun(): void {
+    if (this.verificationRunId === undefined) return;
+
+    const run = this.repository.completeVerificationRun(this.verificationRunId);
+    this.verificationRunId = undefined;
+
+    if (run.products_compared > 0) {
+      logger.info(
+        `Verification run ${run.id}: ${run.products_compared} compared, ` +
+        `average similarity ${run.average_similarity}%, ` +
+        `${run.below_threshold_count} below ${run.similarity_threshold}%`
+      );
+    }
+  }
+
+  // Rebuild scanner metadata from a stored product row
+  private toMetadata(product: Product): PDFFileMetadata {
+    return {
+      productCode: product.product_code,
+      productName: product.product_name,
+      subbrand: product.subbrand || null,
+      filePath: product.pdf_file_path,
+      folderPath: product.folder_path,
+      fileName: product.pdf_file_path.split(/[\\/]/).pop() || '',
+      language: product.language || DEFAULT_LANGUAGE,
+      variant: product.variant || DEFAULT_VARIANT,
+      variantName: product.variant_name ?? null,
+    };
+  }
+
   private formatDuration(ms: number): string {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -0,0 +1,122 @@
+import { ApiUsage, CallBudget } from '../extractor/provider.js';
+
+// Ceilings for one processing run; unset or 0 means unlimited
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number; // Input + output
+  maxCalls?: number;
+}
+
+export interface BudgetConsumption {
+  costUsd: number; // Priced calls only
+  tokens: number;
+  calls: number;
+}
+
+export interface BudgetSummary {
+  limits: BudgetLimits;
+  consumed: BudgetConsumption;
+  stopReason: string | null; // Set when the run stopped before every PDF was started
+}
+
+/**
+ * Spend of one batch run against its limits. Usage is recorded as each PDF finishes; a new PDF
+ * is only started if the PDFs already in flight and the new one, at the average usage per PDF so
+ * far, still fit. Providers also check it before every API call (see CallBudget), so a PDF that
+ * costs more than the average cannot run past a limit. Calls to models without a price count
+ * towards tokens and calls but not dollars.
+ */
+export class RunBudget implements CallBudget {
+  private consumedTotals: BudgetConsumption = { costUsd: 0, tokens: 0, calls: 0 };
+  private recordedCalls = new WeakSet<ApiUsage>(); // Counted by recordCall, skipped by record
+  private finishedPdfs = 0;
+  private stopReason: string | null = null;
+
+  constructor(readonly limits: BudgetLimits) {}
+
+  hasLimits(): boolean {
+    return !!(this.limits.maxCostUsd || this.limits.maxTokens || this.limits.maxCalls);
+  }
+
+  // Usage of one finished PDF; calls already counted by recordCall are not counted again
+  record(usage: ApiUsage[]): void {
+    this.finishedPdfs++;
+    for (const call of usage) {
+      if (!this.recordedCalls.has(call)) {
+        this.count(call);
+      }
+    }
+  }
+
+  // One API call, counted as soon as it is made
+  recordCall(call: ApiUsage): void {
+    this.recordedCalls.add(call);
+    this.count(call);
+  }
+
+  // Why no further API call may be made (null when it may): a limit is already used up. The run
+  // then stops starting PDFs as well.
+  checkCall(): string | null {
+    const reason = this.exceeded((used) => used, (used, limit) => used >= limit);
+    if (reason && !this.stopReason) {
+      this.stopReason = reason;
+    }
+    return reason;
+  }
+
+  /**
+   * Why the next PDF must not start (null when it may), given `inFlight` PDFs started but not
+   * finished. The first refusal is remembered as the run's stop reason.
+   */
+  checkNext(inFlight: number = 0): string | null {
+    if (this.stopReason) {
+      return this.stopReason;
+    }
+
+    const pending = inFlight + 1;
+    this.stopReason = this.exceeded(
+      (used) => used + (this.finishedPdfs > 0 ? (used / this.finishedPdfs) * pending : 0),
+      (projected, limit) => projected > limit
+    );
+
+    return this.stopReason;
+  }
+
+  private count(call: ApiUsage): void {
+    this.consumedTotals.costUsd += call.costUsd ?? 0;
+    this.consumedTotals.tokens += call.inputTokens + call.outputTokens;
+    this.consumedTotals.calls++;
+  }
+
+  // First limit that `over` finds exceeded by the `measure`d consumption
+  private exceeded(measure: (used: number) => number, over: (value: number, limit: number) => boolean): string | null {
+    const { costUsd, tokens, calls } = this.consumedTotals;
+    const { maxCostUsd, maxTokens, maxCalls } = this.limits;
+
+    if (maxCostUsd && over(measure(costUsd), maxCostUsd)) {
+      return `cost budget of $${maxCostUsd} reached ($${costUsd.toFixed(4)} spent)`;
+    } else if (maxTokens && over(measure(tokens), maxTokens)) {
+      return `token budget of ${maxTokens} reached (${tokens} used)`;
+    } else if (maxCalls && over(measure(calls), maxCalls)) {
+      return `API call budget of ${maxCalls} reached (${calls} made)`;
+    }
+    return null;
+  }
+
+  get summary(): BudgetSummary {
+    return { limits: this.limits, consumed: { ...this.consumedTotals }, stopReason: this.stopReason };
+  }
+}
+
+// "$1.2345 of $5 | 120000 of 1000000 tokens | 40 calls" (limits shown where set)
+export function formatBudgetSummary(summary: BudgetSummary): string {
+  const { consumed, limits } = summary;
+  const part = (used: string, limit: string | undefined, unit: string) =>
+    `${used}${limit ? ` of ${limit}` : ''}${unit}`;
+
+  return [
+    part(`$${consumed.costUsd.toFixed(4)}`, limits.maxCostUsd ? `$${limits.maxCostUsd}` : undefined, ''),
+    part(String(consumed.tokens), limits.maxTokens ? String(limits.maxTokens) : undefined, ' tokens'),
+    part(String(consumed.calls), limits.maxCalls ? String(limits.maxCalls) : undefined, ' calls'),
+  ].join(' | ');
+}
@@ -0,0 +1,159 @@
+import { watch, statSync, FSWatcher } from 'fs';
+import path from 'path';
+import { BatchProcessor } from './batch-processor.js';
+import logger from '../utils/logger.js';
+import { env } from '../config/env.js';
+
+export interface WatchOptions {
+  rootPath?: string; // Defaults to PDF_ROOT_PATH
+  debounceMs?: number; // Defaults to WATCH_DEBOUNCE_MS
+}
+
+interface PendingFile {
+  timer: NodeJS.Timeout;
+  size: number;
+  mtimeMs: number;
+}
+
+// Watches the PDF root recursively and queues new or changed PDFs through the batch processor.
+// A PDF is queued once its size and mtime have stayed the same for the debounce interval, so
+// files still being copied are never read half-written.
+export class PDFWatcher {
+  private rootPath: string;
+  private debounceMs: number;
+  private watcher?: FSWatcher;
+  private pending = new Map<string, PendingFile>(); // Files still settling
+  private queue = new Set<string>(); // Settled files waiting for the processor
+  private draining?: Promise<void>;
+  private stopped = false;
+
+  constructor(private processor: BatchProcessor, options: WatchOptions = {}) {
+    this.rootPath = path.resolve(options.rootPath || env.PDF_ROOT_PATH);
+    this.debounceMs = options.debounceMs ?? env.WATCH_DEBOUNCE_MS;
+  }
+
+  // Start watching, then catch up on PDFs that changed while nothing was watching
+  start(): void {
+    this.watcher = watch(this.rootPath, { recursive: true }, (_event, fileName) => {
+      if (fileName && fileName.toLowerCase().endsWith('.pdf')) {
+        this.schedule(path.join(this.rootPath, fileName));
+      }
+    });
+    this.watcher.on('error', (error) => logger.error(`Watcher error on ${this.rootPath}:`, error));
+
+    logger.info(`Watching ${this.rootPath} for PDFs (debounce ${this.debounceMs}ms)`);
+
+    this.draining = this.processor
+      .processAll({ changedOnly: true })
+      .then(
+        () => undefined,
+        (error) => {
+          logger.error('Initial watch scan failed:', error);
+        }
+      )
+      .finally(() => {
+        this.draining = undefined;
+        this.drain();
+      });
+  }
+
+  // Stop watching and wait for the batch in flight; queued files are picked up on the next start
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.watcher?.close();
+
+    for (const file of this.pending.values()) {
+      clearTimeout(file.timer);
+    }
+    this.pending.clear();
+
+    await this.draining;
+
+    if (this.queue.size > 0) {
+      logger.info(`Watch stopped with ${this.queue.size} PDFs still queued`);
+    }
+  }
+
+  // (Re)start the debounce timer of a file that was just written, renamed or removed
+  private schedule(filePath: string): void {
+    if (this.stopped) return;
+
+    const previous = this.pending.get(filePath);
+    if (previous) {
+      clearTimeout(previous.timer);
+    }
+
+    const stats = this.statFile(filePath);
+    this.pending.set(filePath, {
+      timer: setTimeout(() => this.settle(filePath), this.debounceMs),
+      size: stats?.size ?? -1,
+      mtimeMs: stats?.mtimeMs ?? -1,
+    });
+  }
+
+  // Queue the file if it stopped changing; otherwise keep waiting
+  private settle(filePath: string): void {
+    const recorded = this.pending.get(filePath);
+    if (!recorded) return;
+
+    const stats = this.statFile(filePath);
+    if (!stats) {
+      this.pending.delete(filePath);
+      logger.debug(`Ignoring removed PDF ${path.relative(this.rootPath, filePath)}`);
+      return;
+    }
+
+    if (stats.size !== recorded.size || stats.mtimeMs !== recorded.mtimeMs) {
+      this.schedule(filePath);
+      return;
+    }
+
+    this.pending.delete(filePath);
+    this.queue.add(filePath);
+    logger.info(`Queued ${path.relative(this.rootPath, filePath)}`);
+    this.drain();
+  }
+
+  // Hand queued files to the processor one batch at a time
+  private drain(): void {
+    if (this.draining || this.stopped || this.queue.size === 0) return;
+
+    this.draining = (async () => {
+      while (this.queue.size > 0 && !this.stopped && !this.processor.isShuttingDown()) {
+        const files = Array.from(this.queue);
+        this.queue.clear();
+
+        try {
+          const result = await this.processor.processFiles(files);
+          if (result.totalProcessed === 0) {
+            logger.info(`No new or changed content in ${files.length} queued PDFs`);
+          } else {
+            logger.info(
+              `Watch batch: ${result.successCount} succeeded, ${result.failureCount} failed` +
+              `${result.skippedCount > 0 ? `, ${result.skippedCount} unchanged` : ''}`
+            );
+          }
+          if (result.budget?.stopReason) {
+            logger.warn(
+              `Watch batch stopped: ${result.budget.stopReason}; ` +
+              `${result.unstartedCount} PDFs left pending (picked up by \`process --changed\`)`
+            );
+          }
+        } catch (error) {
+          logger.error('Watch batch failed:', error);
+        }
+      }
+    })().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  private statFile(filePath: string): { size: number; mtimeMs: number } | null {
+    try {
+      const stats = statSync(filePath);
+      return stats.isFile() ? { size: stats.size, mtimeMs: stats.mtimeMs } : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { comparableName, reconcileInventory, type InventoryProduct } from '../inventory.js';
+import type { PDFFileMetadata } from '../file-parser.js';
+
+function pdf(code: string, folder: string): PDFFileMetadata {
+  return {
+    productCode: code,
+    productName: folder.replace(/^\d+\s+/, ''),
+    subbrand: null,
+    filePath: `/pdfs/${folder}/${code}-PI_EN.pdf`,
+    folderPath: `/pdfs/${folder}`,
+    fileName: `${code}-PI_EN.pdf`,
+    language: 'en',
+    namingRule: 'pi-en',
+  };
+}
+
+function product(code: string, folder: string, overrides: Partial<InventoryProduct> = {}): InventoryProduct {
+  return {
+    product_code: code,
+    language: 'en',
+    variant: '',
+    product_name: folder.replace(/^\d+\s+/, ''),
+    pdf_file_path: `/pdfs/${folder}/${code}-PI_EN.pdf`,
+    folder_path: `/pdfs/${folder}`,
+    extraction_status: 'completed',
+    updated_at: '2026-01-01 00:00:00',
+    ...overrides,
+  };
+}
+
+describe('Inventory', () => {
+  it('reconciles scanned PDFs with product rows', () => {
+    const scanned = [pdf('0358', '0358 Yummies'), pdf('0400', '0400 Omega')];
+    const products = [
+      product('0358', '0358 Yummies'),
+      product('0500', '0500 Gone'),
+      product('0600', '0600 Fiber', { extraction_status: 'processing' }),
+    ];
+    const onDisk = new Set(scanned.map((p) => p.filePath).concat(products[2].pdf_file_path));
+
+    const report = reconcileInventory('/pdfs', scanned, products, (filePath) => onDisk.has(filePath));
+
+    expect(report.unprocessed_pdfs.map((p) => p.product_code)).toEqual(['0400']);
+    expect(report.missing_pdfs.map((p) => p.product_code)).toEqual(['0500']);
+    expect(report.stuck_processing.map((p) => p.product_code)).toEqual(['0600']);
+    expect(report.name_mismatches).toEqual([]);
+  });
+
+  it('reports extracted names that differ from the folder', () => {
+    const products = [
+      product('0358', '0358 Yummies', { product_name: 'YUMMIES!' }),
+      product('0359', '0359 Kids Multi', { product_name: 'Yummies Multivitamin' }),
+      product('0360', '0360 Kids Multi', { product_name: 'Other', extraction_status: 'failed' }),
+    ];
+
+    const report = reconcileInventory('/pdfs', [], products, () => true);
+
+    expect(report.name_mismatches).toEqual([
+      expect.objectContaining({ product_code: '0359', folder_name: 'Kids Multi', product_name: 'Yummies Multivitamin' }),
+    ]);
+  });
+
+  it('ignores case, punctuation and spacing when comparing names', () => {
+    expect(comparableName('  Kids  Multi-Vitamin ')).toBe(comparableName('kids multi vitamin'));
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguageFromText, languageOf, normalizeLanguage, productKey } from '../language.js';
+
+describe('Language', () => {
+  it('normalizes filename tags, locales and language names', () => {
+    expect(normalizeLanguage('EN')).toBe('en');
+    expect(normalizeLanguage('fr-CA')).toBe('fr');
+    expect(normalizeLanguage('de_DE')).toBe('de');
+    expect(normalizeLanguage('Spanish')).toBe('es');
+    expect(normalizeLanguage('english-ish')).toBeNull();
+    expect(normalizeLanguage(undefined)).toBeNull();
+  });
+
+  it('detects the language of a text layer', () => {
+    const french = 'Prendre une capsule par jour avec un repas. Ne pas dépasser la dose. Tenir hors de la portée des enfants et conserver dans un endroit sec pour la fraîcheur des produits.';
+    const german = 'Täglich eine Kapsel mit einer Mahlzeit und etwas Wasser verzehren. Die angegebene Verzehrsmenge nicht überschreiten und für Kinder unzugänglich aufbewahren, das Produkt ist kein Ersatz für eine ausgewogene Ernährung.';
+
+    expect(detectLanguageFromText(french)).toBe('fr');
+    expect(detectLanguageFromText(german)).toBe('de');
+  });
+
+  it('returns null when the text is inconclusive', () => {
+    expect(detectLanguageFromText('Vitamin C 500 mg 556%')).toBeNull();
+    expect(detectLanguageFromText('')).toBeNull();
+  });
+
+  it('keys products by code and language', () => {
+    expect(productKey('0358', languageOf({ language: 'fr' }))).toBe('0358:fr');
+    expect(productKey('0358', languageOf({}))).toBe('0358:en');
+  });
+});
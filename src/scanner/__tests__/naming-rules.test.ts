@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { compileNamingRules, DEFAULT_NAMING_RULES, matchNamingRule } from '../naming-rules.js';
+import { parseFileMetadata } from '../file-parser.js';
+
+describe('Naming Rules', () => {
+  const rules = compileNamingRules([
+    { name: 'pi-suffix', pattern: '^(?<code>\\d{3,6})-PI_(?<language>[A-Z]{2})\\.pdf$' },
+    { name: 'pi-prefix', pattern: '^PI_(?<code>\\d{3,6})_(?<language>[A-Z]{2})(?:_(?<variant>\\w+))?\\.pdf$' },
+    {
+      name: 'market-folder',
+      pattern: '^(?<market>[A-Z]{2})/.+/(?<code>\\d{3,6})\\.pdf$',
+      target: 'path',
+      subbrandFolder: 1,
+    },
+  ]);
+
+  it('keeps the <code>-PI_EN.pdf convention by default', () => {
+    const defaults = compileNamingRules(DEFAULT_NAMING_RULES);
+
+    expect(matchNamingRule('0358 Yummies/0358-PI_EN.pdf', defaults)).toMatchObject({
+      rule: 'pi-en',
+      productCode: '0358',
+      language: 'EN',
+    });
+    expect(matchNamingRule('0358 Yummies/0358-PI_FR.pdf', defaults)).toBeNull();
+  });
+
+  it('extracts named groups using the first matching rule', () => {
+    expect(matchNamingRule('0358-PI_FR.pdf', rules)).toEqual({
+      rule: 'pi-suffix',
+      productCode: '0358',
+      language: 'FR',
+      market: null,
+      variant: null,
+      subbrandFolder: 0,
+    });
+    expect(matchNamingRule('x/PI_0358_DE_Strawberry.pdf', rules)).toMatchObject({
+      rule: 'pi-prefix',
+      language: 'DE',
+      variant: 'Strawberry',
+    });
+    expect(matchNamingRule('DE\\Kids\\0358 Yummies\\0358.pdf', rules)).toMatchObject({
+      rule: 'market-folder',
+      productCode: '0358',
+      market: 'DE',
+    });
+    expect(matchNamingRule('0358 Yummies/label.pdf', rules)).toBeNull();
+  });
+
+  it('rejects rules without a code group or with an invalid regex', () => {
+    expect(() => compileNamingRules([{ name: 'no-code', pattern: '^(\\d+)\\.pdf$' }])).toThrow(/code/);
+    expect(() => compileNamingRules([{ name: 'broken', pattern: '^(?<code>\\d+' }])).toThrow(/Invalid regex/);
+    expect(() => compileNamingRules([])).toThrow();
+  });
+
+  it('detects the subbrand from the rule\'s folder level', () => {
+    const root = path.join(path.sep, 'products');
+
+    expect(parseFileMetadata(path.join(root, 'LifePlus Kids', '0359 Yummies', '0359-PI_EN.pdf'), root)).toMatchObject({
+      productCode: '0359',
+      productName: 'Yummies',
+      subbrand: 'LifePlus Kids',
+      namingRule: 'pi-en',
+    });
+    expect(parseFileMetadata(path.join(root, 'DE', 'LifePlus Kids', 'Gummies', '0358 Yummies', '0358.pdf'), root, rules))
+      .toMatchObject({ subbrand: 'LifePlus Kids', market: 'DE', namingRule: 'market-folder' });
+    expect(parseFileMetadata(path.join(root, 'DE', '0358 Yummies', '0358.pdf'), root, rules))
+      .toMatchObject({ subbrand: null, productName: 'Yummies' });
+  });
+});
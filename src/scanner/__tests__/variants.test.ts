@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { assignVariants, type PDFFileMetadata } from '../file-parser.js';
+import { productKey, productLabel } from '../language.js';
+import { normalizeVariant } from '../variants.js';
+
+function sheet(fileName: string, productName: string, overrides: Partial<PDFFileMetadata> = {}): PDFFileMetadata {
+  return {
+    productCode: '0358',
+    productName,
+    subbrand: null,
+    filePath: `/pdfs/${productName}/${fileName}`,
+    folderPath: `/pdfs/${productName}`,
+    fileName,
+    ...overrides
+  };
+}
+
+describe('Variants', () => {
+  it('normalizes variant names into keys', () => {
+    expect(normalizeVariant('Yummies Strawberry')).toBe('yummies-strawberry');
+    expect(normalizeVariant('Crème Brûlée')).toBe('creme-brulee');
+    expect(normalizeVariant('  --  ')).toBe('');
+    expect(normalizeVariant(null)).toBe('');
+  });
+
+  it('keys and labels products with a variant', () => {
+    expect(productKey('0358', 'en', 'strawberry')).toBe('0358:en:strawberry');
+    expect(productKey('0358', 'en')).toBe('0358:en');
+    expect(productLabel('0358', 'fr', 'strawberry')).toBe('0358 (fr, strawberry)');
+  });
+
+  it('names sheets sharing a code and language after their folders', () => {
+    const sheets = [
+      sheet('0358.pdf', 'Yummies Strawberry'),
+      sheet('0358.pdf', 'Yummies Grape'),
+      sheet('0358-fr.pdf', 'Yummies Fraise', { language: 'fr' })
+    ];
+
+    assignVariants(sheets);
+
+    expect(sheets.map(s => s.variant)).toEqual(['yummies-strawberry', 'yummies-grape', undefined]);
+    expect(sheets[0].variantName).toBe('Yummies Strawberry');
+  });
+
+  it('keeps variants from naming rules and suffixes collisions', () => {
+    const sheets = [
+      sheet('0358-grape.pdf', 'Yummies', { variant: 'grape' }),
+      sheet('0358-a.pdf', 'Yummies'),
+      sheet('0358-b.pdf', 'Yummies')
+    ];
+
+    assignVariants(sheets);
+
+    expect(sheets.map(s => s.variant)).toEqual(['grape', 'yummies', 'yummies-2']);
+  });
+
+  it('suffixes collisions in path order, whatever order the sheets were found in', () => {
+    const sheets = [sheet('0358-b.pdf', 'Yummies'), sheet('0358-a.pdf', 'Yummies')];
+
+    assignVariants(sheets);
+
+    expect(sheets.map(s => s.variant)).toEqual(['yummies-2', 'yummies']);
+  });
+});
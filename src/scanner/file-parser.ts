@@ -1,4 +1,12 @@
 import path from 'path';
+import {
+  CompiledNamingRule,
+  compileNamingRules,
+  DEFAULT_NAMING_RULES,
+  matchNamingRule,
+} from './naming-rules.js';
+import { languageOf, normalizeLanguage, productKey } from './language.js';
+import { normalizeVariant } from './variants.js';
 
 export interface PDFFileMetadata {
   productCode: string;
@@ -7,15 +15,20 @@ export interface PDFFileMetadata {
   filePath: string;
   folderPath: string;
   fileName: string;
+  fileHash?: string; // SHA-256 of the PDF bytes, set by the scanner
+  fileModifiedAt?: string; // ISO timestamp of the file's mtime
+  namingRule?: string; // Name of the naming rule that matched the file
+  language?: string | null; // ISO 639-1 (see language.ts); null when the naming rule has no language group
+  market?: string | null;
+  variant?: string | null; // Normalized key (see variants.ts); set by assignVariants when the folder names it
+  variantName?: string | null; // Display label, e.g. "Strawberry"
 }
 
-// Regex pattern for product code extraction (3-6 digits followed by -PI_EN.pdf)
-const PRODUCT_CODE_PATTERN = /^(\d{3,6})-PI_EN\.pdf$/;
+const DEFAULT_RULES = compileNamingRules(DEFAULT_NAMING_RULES);
 
 // Extract product code from filename
-export function extractProductCode(fileName: string): string | null {
-  const match = fileName.match(PRODUCT_CODE_PATTERN);
-  return match ? match[1] : null;
+export function extractProductCode(fileName: string, rules: CompiledNamingRule[] = DEFAULT_RULES): string | null {
+  return matchNamingRule(fileName, rules)?.productCode ?? null;
 }
 
 // Extract product name from folder name
@@ -30,27 +43,32 @@ export function extractProductName(folderName: string): string {
 // Detect subbrand from folder depth
 // Example: products/LifePlus Kids/0358 Yummies/0358-PI_EN.pdf -> "LifePlus Kids"
 // Example: products/0358 Yummies/0358-PI_EN.pdf -> null
-export function detectSubbrand(filePath: string, rootPath: string): string | null {
+// Example (subbrandFolder 1): products/FR/LifePlus Kids/Gummies/0358 Yummies/0358-PI_FR.pdf -> "LifePlus Kids"
+export function detectSubbrand(filePath: string, rootPath: string, subbrandFolder: number | null = 0): string | null {
   const relativePath = path.relative(rootPath, filePath);
   const parts = relativePath.split(path.sep);
 
-  // If there are more than 2 parts (folder + subfolder + file), first folder is subbrand
-  if (parts.length > 2) {
-    return parts[0];
+  // The subbrand folder must sit above the product folder (last two parts are folder + file)
+  if (subbrandFolder !== null && subbrandFolder < parts.length - 2) {
+    return parts[subbrandFolder];
   }
 
   return null;
 }
 
 // Parse PDF file metadata
-export function parseFileMetadata(filePath: string, rootPath: string): PDFFileMetadata | null {
+export function parseFileMetadata(
+  filePath: string,
+  rootPath: string,
+  rules: CompiledNamingRule[] = DEFAULT_RULES
+): PDFFileMetadata | null {
   const fileName = path.basename(filePath);
   const folderPath = path.dirname(filePath);
   const folderName = path.basename(folderPath);
 
-  // Extract product code from filename
-  const productCode = extractProductCode(fileName);
-  if (!productCode) {
+  // Extract product code (and language/market/variant) using the first matching naming rule
+  const match = matchNamingRule(path.relative(rootPath, filePath), rules);
+  if (!match) {
     return null;
   }
 
@@ -58,22 +76,30 @@ export function parseFileMetadata(filePath: string, rootPath: string): PDFFileMe
   const productName = extractProductName(folderName);
 
   // Detect subbrand from path depth
-  const subbrand = detectSubbrand(filePath, rootPath);
+  const subbrand = detectSubbrand(filePath, rootPath, match.subbrandFolder);
 
   return {
-    productCode,
+    productCode: match.productCode,
     productName,
     subbrand,
     filePath,
     folderPath,
     fileName,
+    namingRule: match.rule,
+    language: normalizeLanguage(match.language),
+    market: match.market,
+    variant: normalizeVariant(match.variant) || null,
+    variantName: match.variant,
   };
 }
 
-// Validate file path format
-export function isValidPDFPath(filePath: string): boolean {
-  const fileName = path.basename(filePath);
-  return PRODUCT_CODE_PATTERN.test(fileName);
+// Validate file path format (relative to the scan root when rules match on the path)
+export function isValidPDFPath(
+  filePath: string,
+  rootPath: string = path.dirname(filePath),
+  rules: CompiledNamingRule[] = DEFAULT_RULES
+): boolean {
+  return matchNamingRule(path.relative(rootPath, filePath), rules) !== null;
 }
 
 // Get all unique subbrands from a list of metadata
@@ -99,3 +125,36 @@ export function groupByProductCode(metadataList: PDFFileMetadata[]): Map<string,
 
   return grouped;
 }
+
+// Several sheets with the same code and language are variants (e.g. flavors) of one product.
+// Sheets whose naming rule has no variant group are named after their product folder; sheets are
+// taken in path order, so name clashes get the same -2, -3 suffixes on every scan.
+export function assignVariants(metadataList: PDFFileMetadata[]): void {
+  for (const group of groupByProductCode(metadataList).values()) {
+    const byLanguage = new Map<string, PDFFileMetadata[]>();
+    for (const metadata of group) {
+      const key = productKey(metadata.productCode, languageOf(metadata));
+      byLanguage.set(key, [...(byLanguage.get(key) || []), metadata]);
+    }
+
+    for (const sheets of byLanguage.values()) {
+      if (sheets.length < 2) continue;
+
+      const used = new Set(sheets.map((sheet) => sheet.variant).filter(Boolean));
+      const ordered = [...sheets].sort((a, b) => (a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0));
+      for (const sheet of ordered) {
+        if (sheet.variant) continue;
+
+        const base = normalizeVariant(sheet.productName) || normalizeVariant(path.parse(sheet.fileName).name);
+        let variant = base;
+        for (let n = 2; used.has(variant); n++) {
+          variant = `${base}-${n}`;
+        }
+
+        used.add(variant);
+        sheet.variant = variant;
+        sheet.variantName = sheet.productName;
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import path from 'path';
+import { extractProductName, PDFFileMetadata } from './file-parser.js';
+import { languageOf } from './language.js';
+import { variantOf } from './variants.js';
+
+// Product row fields the inventory compares against the scan
+export interface InventoryProduct {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string;
+  pdf_file_path: string;
+  folder_path: string;
+  extraction_status: string;
+  updated_at: string | null;
+}
+
+export interface UnprocessedPDF {
+  file_path: string;
+  product_code: string;
+  language: string;
+  variant: string;
+  naming_rule: string | null;
+}
+
+export interface MissingPDF {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string;
+  pdf_file_path: string;
+  extraction_status: string;
+}
+
+export interface NameMismatch {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string;
+  folder_name: string; // Product name derived from the folder ("0358 Yummies" -> "Yummies")
+}
+
+export interface StuckProduct {
+  product_code: string;
+  language: string;
+  variant: string;
+  product_name: string;
+  pdf_file_path: string;
+  updated_at: string | null;
+}
+
+// Filesystem vs database reconciliation; the API builds the same shape (api/src/services/inventory-service.ts)
+export interface InventoryReport {
+  generated_at: string;
+  root_path: string;
+  pdf_count: number;
+  product_count: number;
+  unprocessed_pdfs: UnprocessedPDF[]; // On disk, but no product row points at the file
+  missing_pdfs: MissingPDF[]; // Product rows whose PDF is no longer on disk
+  name_mismatches: NameMismatch[]; // Folder name differs from the stored product_name
+  stuck_processing: StuckProduct[]; // Rows left in 'processing' (e.g. by an interrupted run)
+}
+
+// Case, punctuation and spacing do not count as a mismatch
+export function comparableName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function reconcileInventory(
+  rootPath: string,
+  scanned: PDFFileMetadata[],
+  products: InventoryProduct[],
+  fileExists: (filePath: string) => boolean
+): InventoryReport {
+  const storedPaths = new Set(products.map((product) => path.resolve(product.pdf_file_path)));
+  const sheet = (product: InventoryProduct) => ({
+    product_code: product.product_code,
+    language: product.language,
+    variant: product.variant,
+    product_name: product.product_name,
+  });
+
+  const unprocessed_pdfs = scanned
+    .filter((pdf) => !storedPaths.has(path.resolve(pdf.filePath)))
+    .map((pdf) => ({
+      file_path: pdf.filePath,
+      product_code: pdf.productCode,
+      language: languageOf(pdf),
+      variant: variantOf(pdf),
+      naming_rule: pdf.namingRule ?? null,
+    }));
+
+  const missing_pdfs = products
+    .filter((product) => !fileExists(product.pdf_file_path))
+    .map((product) => ({
+      ...sheet(product),
+      pdf_file_path: product.pdf_file_path,
+      extraction_status: product.extraction_status,
+    }));
+
+  // Failed rows hold the folder name as a placeholder, so only extracted names are compared
+  const name_mismatches = products
+    .filter((product) => product.extraction_status === 'completed')
+    .map((product) => ({ ...sheet(product), folder_name: extractProductName(path.basename(product.folder_path)) }))
+    .filter((product) => comparableName(product.folder_name) !== comparableName(product.product_name));
+
+  const stuck_processing = products
+    .filter((product) => product.extraction_status === 'processing')
+    .map((product) => ({ ...sheet(product), pdf_file_path: product.pdf_file_path, updated_at: product.updated_at }));
+
+  return {
+    generated_at: new Date().toISOString(),
+    root_path: rootPath,
+    pdf_count: scanned.length,
+    product_count: products.length,
+    unprocessed_pdfs,
+    missing_pdfs,
+    name_mismatches,
+    stuck_processing,
+  };
+}
@@ -0,0 +1,146 @@
+import { DEFAULT_VARIANT } from './variants.js';
+
+// Language of a product information sheet (ISO 639-1, lowercase)
+export const DEFAULT_LANGUAGE = 'en';
+
+export interface LanguageProfile {
+  name: string;
+  // Frequent short words used to recognise the language from the PDF text layer
+  stopwords: string[];
+  // Section headings as printed on sheets in this language (prompt hints)
+  headings: {
+    supplementFacts: string[];
+    ingredients: string[];
+    directions: string[];
+    caution: string[];
+  };
+}
+
+export const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  en: {
+    name: 'English',
+    stopwords: ['the', 'and', 'with', 'for', 'of', 'per', 'daily', 'take', 'other', 'not', 'to', 'or'],
+    headings: {
+      supplementFacts: ['Supplement Facts', 'Nutrition Facts'],
+      ingredients: ['Ingredients', 'Other Ingredients'],
+      directions: ['Directions', 'Suggested Use'],
+      caution: ['Caution', 'Warning'],
+    },
+  },
+  fr: {
+    name: 'French',
+    stopwords: ['le', 'la', 'les', 'et', 'de', 'des', 'du', 'avec', 'pour', 'par', 'jour', 'ne', 'pas'],
+    headings: {
+      supplementFacts: ['Informations nutritionnelles', 'Valeurs nutritionnelles'],
+      ingredients: ['Ingrédients'],
+      directions: ['Mode d\'emploi', 'Utilisation'],
+      caution: ['Précautions', 'Avertissement'],
+    },
+  },
+  de: {
+    name: 'German',
+    stopwords: ['der', 'die', 'das', 'und', 'mit', 'für', 'pro', 'nicht', 'von', 'täglich', 'zu', 'oder'],
+    headings: {
+      supplementFacts: ['Nährwertangaben', 'Nährwerte'],
+      ingredients: ['Zutaten'],
+      directions: ['Verzehrempfehlung', 'Anwendung'],
+      caution: ['Warnhinweise', 'Hinweise'],
+    },
+  },
+  es: {
+    name: 'Spanish',
+    stopwords: ['el', 'la', 'los', 'las', 'y', 'de', 'con', 'para', 'por', 'día', 'no', 'del'],
+    headings: {
+      supplementFacts: ['Información nutricional'],
+      ingredients: ['Ingredientes'],
+      directions: ['Modo de empleo', 'Uso recomendado'],
+      caution: ['Precauciones', 'Advertencia'],
+    },
+  },
+  it: {
+    name: 'Italian',
+    stopwords: ['il', 'la', 'le', 'e', 'di', 'con', 'per', 'al', 'giorno', 'non', 'del', 'della'],
+    headings: {
+      supplementFacts: ['Informazioni nutrizionali', 'Valori nutrizionali'],
+      ingredients: ['Ingredienti'],
+      directions: ['Modalità d\'uso', 'Dose giornaliera'],
+      caution: ['Avvertenze'],
+    },
+  },
+  nl: {
+    name: 'Dutch',
+    stopwords: ['de', 'het', 'een', 'en', 'van', 'met', 'voor', 'per', 'dag', 'niet', 'te', 'of'],
+    headings: {
+      supplementFacts: ['Voedingswaarde', 'Voedingswaarden'],
+      ingredients: ['Ingrediënten'],
+      directions: ['Gebruik', 'Aanbevolen dagelijkse dosis'],
+      caution: ['Waarschuwing'],
+    },
+  },
+  pt: {
+    name: 'Portuguese',
+    stopwords: ['o', 'a', 'os', 'as', 'e', 'de', 'com', 'para', 'por', 'dia', 'não', 'do', 'da'],
+    headings: {
+      supplementFacts: ['Informação nutricional'],
+      ingredients: ['Ingredientes'],
+      directions: ['Modo de usar', 'Modo de utilização'],
+      caution: ['Advertências', 'Precauções'],
+    },
+  },
+};
+
+const LANGUAGE_NAMES = new Map(
+  Object.entries(LANGUAGE_PROFILES).map(([code, profile]) => [profile.name.toLowerCase(), code])
+);
+
+// Minimum stopword hits before a text-layer guess is trusted
+const MIN_STOPWORD_HITS = 5;
+
+// "EN", "en-US", "fr_CA", "French" -> "en", "en", "fr", "fr"; null for anything unrecognisable
+export function normalizeLanguage(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const trimmed = value.trim().toLowerCase();
+  const byName = LANGUAGE_NAMES.get(trimmed);
+  if (byName) return byName;
+
+  const match = trimmed.match(/^([a-z]{2})(?:[-_][a-z0-9]+)?$/);
+  return match ? match[1] : null;
+}
+
+export function languageOf(metadata: { language?: string | null }): string {
+  return metadata.language || DEFAULT_LANGUAGE;
+}
+
+// Guess the language of a text layer by counting stopwords; null when inconclusive
+export function detectLanguageFromText(text: string): string | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  const scores = Object.entries(LANGUAGE_PROFILES)
+    .map(([code, profile]) => ({
+      code,
+      hits: profile.stopwords.reduce((sum, word) => sum + (counts.get(word) || 0), 0),
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits < runnerUp.hits * 1.5) {
+    return null;
+  }
+
+  return best.code;
+}
+
+// Products are identified by code, language and variant; one key per stored sheet
+export function productKey(productCode: string, language: string, variant: string = DEFAULT_VARIANT): string {
+  return variant ? `${productCode}:${language}:${variant}` : `${productCode}:${language}`;
+}
+
+// "0358 (fr)" or "0358 (fr, strawberry)" for log and CLI output
+export function productLabel(productCode: string, language: string, variant: string = DEFAULT_VARIANT): string {
+  return `${productCode} (${variant ? `${language}, ${variant}` : language})`;
+}
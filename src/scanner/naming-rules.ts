@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+// Capture groups a rule may define; `code` is required
+export const NAMING_GROUPS = ['code', 'language', 'market', 'variant'] as const;
+
+export const namingRuleSchema = z.object({
+  name: z.string().min(1),
+  // Regex with named groups, e.g. ^(?<code>\d{3,6})-PI_(?<language>[A-Z]{2})\.pdf$
+  pattern: z.string().superRefine((pattern, ctx) => {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid regex: ${error instanceof Error ? error.message : error}` });
+      return;
+    }
+    if (!pattern.includes('(?<code>')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Pattern must define a (?<code>...) group' });
+    }
+  }),
+  target: z.enum(['fileName', 'path']).default('fileName'), // 'path' matches the path relative to the scan root, '/'-separated
+  caseInsensitive: z.boolean().default(false),
+  // Folder (counted from the scan root) that names the subbrand when the product folder is nested below it; null disables
+  subbrandFolder: z.number().int().min(0).nullable().default(0),
+});
+
+export const namingRulesSchema = z.array(namingRuleSchema).min(1);
+
+export type NamingRuleConfig = z.input<typeof namingRuleSchema>;
+export type NamingRule = z.output<typeof namingRuleSchema>;
+
+export interface CompiledNamingRule extends NamingRule {
+  regex: RegExp;
+}
+
+export interface NamingMatch {
+  rule: string;
+  productCode: string;
+  language: string | null;
+  market: string | null;
+  variant: string | null;
+  subbrandFolder: number | null;
+}
+
+export const DEFAULT_NAMING_RULES: NamingRuleConfig[] = [
+  { name: 'pi-en', pattern: '^(?<code>\\d{3,6})-PI_(?<language>EN)\\.pdf$' },
+];
+
+// Rules are tried in order; the first match wins
+export function compileNamingRules(rules: NamingRuleConfig[]): CompiledNamingRule[] {
+  return namingRulesSchema.parse(rules).map(rule => ({
+    ...rule,
+    regex: new RegExp(rule.pattern, rule.caseInsensitive ? 'i' : ''),
+  }));
+}
+
+export function matchNamingRule(relativePath: string, rules: CompiledNamingRule[]): NamingMatch | null {
+  const normalized = relativePath.split(/[\\/]/).join('/');
+  const fileName = normalized.slice(normalized.lastIndexOf('/') + 1);
+
+  for (const rule of rules) {
+    const groups = (rule.target === 'path' ? normalized : fileName).match(rule.regex)?.groups;
+    if (!groups?.code) {
+      continue;
+    }
+
+    return {
+      rule: rule.name,
+      productCode: groups.code,
+      language: groups.language || null,
+      market: groups.market || null,
+      variant: groups.variant || null,
+      subbrandFolder: rule.subbrandFolder,
+    };
+  }
+
+  return null;
+}
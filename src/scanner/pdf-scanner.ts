@@ -1,59 +1,83 @@
 import { glob } from 'glob';
 import path from 'path';
-import { parseFileMetadata, PDFFileMetadata, isValidPDFPath } from './file-parser.js';
+import crypto from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { assignVariants, parseFileMetadata, PDFFileMetadata } from './file-parser.js';
+import { CompiledNamingRule, matchNamingRule } from './naming-rules.js';
+import { DEFAULT_LANGUAGE, detectLanguageFromText, languageOf, productKey } from './language.js';
+import { variantOf } from './variants.js';
+import { extractTextFromPDF } from '../extractor/text-extractor.js';
 import logger from '../utils/logger.js';
 import { env } from '../config/env.js';
+import { getNamingRules } from '../config/naming-rules.js';
 
 export interface ScanResult {
-  totalFiles: number;
+  totalFiles: number; // PDFs matching a naming rule
   validFiles: number;
   invalidFiles: number;
+  unmatchedFiles: number; // PDFs under the root that match no naming rule (ignored)
+  ruleMatches: Record<string, number>; // Valid files per naming rule
+  languages: Record<string, number>; // Valid files per language
+  variantFiles: number; // Valid files stored as variants of a shared product code
   metadata: PDFFileMetadata[];
   errors: string[];
 }
 
+// All PDFs under the root; naming rules decide which ones are product information files
+async function findPDFFiles(absolutePath: string): Promise<string[]> {
+  return glob('**/*.pdf', {
+    cwd: absolutePath,
+    absolute: true,
+    nodir: true,
+    nocase: true,
+    windowsPathsNoEscape: true,
+  });
+}
+
+// Language stored per PDF hash (see ProductRepository.getLanguagesByFileHash); unchanged PDFs
+// whose filename carries no language reuse it instead of re-reading their text layer
+export type KnownLanguages = Map<string, string>;
+
 // Scan directory for PDF files matching the pattern
-export async function scanPDFDirectory(rootPath?: string): Promise<ScanResult> {
+export async function scanPDFDirectory(rootPath?: string, knownLanguages?: KnownLanguages): Promise<ScanResult> {
   const scanPath = rootPath || env.PDF_ROOT_PATH;
   const absolutePath = path.resolve(scanPath);
 
+  const rules = getNamingRules();
+
   logger.info(`Scanning directory: ${absolutePath}`);
-  logger.info('Looking for files matching pattern: **/*-PI_EN.pdf');
+  logger.info(`Naming rules: ${rules.map((rule) => `${rule.name} (${rule.pattern})`).join(', ')}`);
 
   const result: ScanResult = {
     totalFiles: 0,
     validFiles: 0,
     invalidFiles: 0,
+    unmatchedFiles: 0,
+    ruleMatches: Object.fromEntries(rules.map((rule) => [rule.name, 0])),
+    languages: {},
+    variantFiles: 0,
     metadata: [],
     errors: [],
   };
 
   try {
-    // Use glob to find all PDF files recursively
-    const pattern = '**/*-PI_EN.pdf';
-    const files = await glob(pattern, {
-      cwd: absolutePath,
-      absolute: true,
-      nodir: true,
-      windowsPathsNoEscape: true,
-    });
+    // Find all PDF files recursively and keep those matching a naming rule
+    const allFiles = await findPDFFiles(absolutePath);
+    const files = allFiles.filter((filePath) =>
+      matchNamingRule(path.relative(absolutePath, filePath), rules) !== null
+    );
 
     result.totalFiles = files.length;
-    logger.info(`Found ${files.length} PDF files`);
+    result.unmatchedFiles = allFiles.length - files.length;
+    logger.info(
+      `Found ${files.length} PDF files` +
+      `${result.unmatchedFiles > 0 ? ` (${result.unmatchedFiles} other PDFs match no naming rule)` : ''}`
+    );
 
     // Process each file
     for (const filePath of files) {
       try {
-        // Validate file path format
-        if (!isValidPDFPath(filePath)) {
-          result.invalidFiles++;
-          result.errors.push(`Invalid file format: ${filePath}`);
-          logger.warn(`Skipping invalid file: ${filePath}`);
-          continue;
-        }
-
-        // Parse file metadata
-        const metadata = parseFileMetadata(filePath, absolutePath);
+        const metadata = await scanFile(filePath, absolutePath, rules, knownLanguages);
         if (!metadata) {
           result.invalidFiles++;
           result.errors.push(`Failed to parse metadata: ${filePath}`);
@@ -63,11 +87,13 @@ export async function scanPDFDirectory(rootPath?: string): Promise<ScanResult> {
 
         result.metadata.push(metadata);
         result.validFiles++;
+        result.ruleMatches[metadata.namingRule!]++;
+        result.languages[metadata.language!] = (result.languages[metadata.language!] || 0) + 1;
 
         logger.debug(
           `Parsed: ${metadata.productCode} - ${metadata.productName}${
             metadata.subbrand ? ` (${metadata.subbrand})` : ''
-          }`
+          } [rule ${metadata.namingRule}, ${metadata.language}]`
         );
       } catch (error) {
         result.invalidFiles++;
@@ -77,10 +103,27 @@ export async function scanPDFDirectory(rootPath?: string): Promise<ScanResult> {
       }
     }
 
+    // Sheets sharing a code and language become variants of one product
+    assignVariants(result.metadata);
+    result.variantFiles = result.metadata.filter((m) => m.variant).length;
+
     logger.info(
       `Scan complete: ${result.validFiles} valid, ${result.invalidFiles} invalid`
     );
 
+    if (result.variantFiles > 0) {
+      logger.info(`Variants: ${result.variantFiles} files share a product code with another sheet`);
+    }
+
+    // Log which naming rules matched
+    logger.info(
+      `Naming rule matches: ${Object.entries(result.ruleMatches).map(([rule, count]) => `${rule}=${count}`).join(', ')}`
+    );
+
+    logger.info(
+      `Languages: ${Object.entries(result.languages).map(([language, count]) => `${language}=${count}`).join(', ')}`
+    );
+
     // Log subbrand summary
     const subbrands = new Set(
       result.metadata.filter((m) => m.subbrand).map((m) => m.subbrand!)
@@ -100,35 +143,128 @@ export async function scanPDFDirectory(rootPath?: string): Promise<ScanResult> {
   }
 }
 
-// Get specific PDF file by product code
+/**
+ * Scan only the given PDFs and the sheets sharing their product codes, which are needed to assign
+ * variants (e.g. for the files the watcher queued). Returns the metadata of every sheet scanned;
+ * given files that match no naming rule are left out.
+ */
+export async function scanPDFFiles(
+  filePaths: string[],
+  rootPath?: string,
+  knownLanguages?: KnownLanguages
+): Promise<PDFFileMetadata[]> {
+  const absolutePath = path.resolve(rootPath || env.PDF_ROOT_PATH);
+  const rules = getNamingRules();
+
+  const requested = new Set(filePaths.map((filePath) => path.resolve(filePath)));
+  const codes = new Set(
+    Array.from(requested)
+      .map((filePath) => parseFileMetadata(filePath, absolutePath, rules)?.productCode)
+      .filter((code): code is string => !!code)
+  );
+  if (codes.size === 0) {
+    return [];
+  }
+
+  const sheets = (await findPDFFiles(absolutePath)).filter((filePath) => {
+    const metadata = parseFileMetadata(filePath, absolutePath, rules);
+    return metadata !== null && codes.has(metadata.productCode);
+  });
+
+  const metadata: PDFFileMetadata[] = [];
+  for (const filePath of sheets) {
+    try {
+      const sheet = await scanFile(filePath, absolutePath, rules, knownLanguages);
+      if (sheet) metadata.push(sheet);
+    } catch (error) {
+      logger.error(`Error processing file ${filePath}:`, error);
+    }
+  }
+
+  assignVariants(metadata);
+  return metadata;
+}
+
+// Metadata, language and fingerprint of one PDF; null when no naming rule matches it
+async function scanFile(
+  filePath: string,
+  rootPath: string,
+  rules: CompiledNamingRule[],
+  knownLanguages?: KnownLanguages
+): Promise<PDFFileMetadata | null> {
+  const metadata = parseFileMetadata(filePath, rootPath, rules);
+  if (!metadata) {
+    return null;
+  }
+
+  const fingerprint = getFileFingerprint(filePath);
+
+  // Filename carries no language: reuse the one stored for this exact file, else fall back to
+  // the text layer, then the default
+  if (!metadata.language) {
+    const known = fingerprint.fileHash ? knownLanguages?.get(fingerprint.fileHash) : undefined;
+    metadata.language = known || (await detectPDFLanguage(filePath)) || DEFAULT_LANGUAGE;
+  }
+
+  return { ...metadata, ...fingerprint };
+}
+
+// Hash and mtime used to detect PDFs that changed since they were extracted
+export function getFileFingerprint(
+  filePath: string
+): Pick<PDFFileMetadata, 'fileHash' | 'fileModifiedAt'> {
+  try {
+    const stats = statSync(filePath);
+    const fileHash = crypto.createHash('sha256').update(readFileSync(filePath)).digest('hex');
+    return { fileHash, fileModifiedAt: stats.mtime.toISOString() };
+  } catch (error) {
+    logger.warn(`Could not fingerprint ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return {};
+  }
+}
+
+// Guess a sheet's language from its text layer (null for scanned/image-only PDFs)
+async function detectPDFLanguage(filePath: string): Promise<string | null> {
+  const extraction = await extractTextFromPDF(filePath);
+  const language = extraction.rawText ? detectLanguageFromText(extraction.rawText) : null;
+  logger.debug(`Text-layer language for ${filePath}: ${language || 'undetected'}`);
+  return language;
+}
+
+// Get specific PDF file by product code (and language/variant, when several sheets share the code)
 export async function findPDFByProductCode(
   productCode: string,
-  rootPath?: string
+  rootPath?: string,
+  language?: string,
+  variant?: string
 ): Promise<PDFFileMetadata | null> {
   const scanPath = rootPath || env.PDF_ROOT_PATH;
   const absolutePath = path.resolve(scanPath);
 
   try {
-    // Search for file with specific product code
-    const pattern = `**/${productCode}-PI_EN.pdf`;
-    const files = await glob(pattern, {
-      cwd: absolutePath,
-      absolute: true,
-      nodir: true,
-      windowsPathsNoEscape: true,
-    });
-
-    if (files.length === 0) {
+    // Search for files whose naming rule match yields this product code
+    const rules = getNamingRules();
+    const candidates = (await findPDFFiles(absolutePath))
+      .map((filePath) => parseFileMetadata(filePath, absolutePath, rules))
+      .filter((metadata): metadata is PDFFileMetadata => metadata?.productCode === productCode);
+    assignVariants(candidates);
+
+    const matches = candidates.filter((metadata) =>
+      (!language || languageOf(metadata) === language) &&
+      (variant === undefined || variantOf(metadata) === variant)
+    );
+
+    if (matches.length === 0) {
       return null;
     }
 
-    if (files.length > 1) {
+    if (matches.length > 1) {
       logger.warn(
-        `Multiple PDFs found for product code ${productCode}, using first match`
+        `Multiple PDFs found for product code ${productCode}${language ? ` (${language})` : ''}, using first match`
       );
     }
 
-    return parseFileMetadata(files[0], absolutePath);
+    return matches[0];
   } catch (error) {
     logger.error(`Error finding PDF for product code ${productCode}:`, error);
     return null;
@@ -171,12 +307,14 @@ export function validateScanResults(result: ScanResult): {
   return { isValid, warnings };
 }
 
-// Find duplicate product codes
+// Find duplicate product keys (language versions and variants are expected; only an explicit
+// variant named twice for the same code and language collides)
 function findDuplicateProductCodes(metadata: PDFFileMetadata[]): string[] {
   const codes = new Map<string, number>();
 
   for (const item of metadata) {
-    codes.set(item.productCode, (codes.get(item.productCode) || 0) + 1);
+    const key = productKey(item.productCode, languageOf(item), variantOf(item));
+    codes.set(key, (codes.get(key) || 0) + 1);
   }
 
   return Array.from(codes.entries())
@@ -0,0 +1,18 @@
+// Variant of a product code and language (e.g. a flavor); '' when the code has a single sheet
+export const DEFAULT_VARIANT = '';
+
+// "Yummies Strawberry" -> "yummies-strawberry"; '' for anything without letters or digits
+export function normalizeVariant(value: string | null | undefined): string {
+  if (!value) return DEFAULT_VARIANT;
+
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function variantOf(metadata: { variant?: string | null }): string {
+  return metadata.variant || DEFAULT_VARIANT;
+}
@@ -0,0 +1,15 @@
+// Runtime features missing from Node 20, imported once by the CLI entry point (src/index.ts)
+
+// pdf.js (bundled by unpdf) serializes fonts with ArrayBuffer.prototype.transferToFixedLength,
+// which Node only ships from 21. Without it, rendering pages to PNG fails.
+if (!('transferToFixedLength' in ArrayBuffer.prototype)) {
+  Object.defineProperty(ArrayBuffer.prototype, 'transferToFixedLength', {
+    value(this: ArrayBuffer, length = this.byteLength): ArrayBuffer {
+      const copy = new ArrayBuffer(length);
+      new Uint8Array(copy).set(new Uint8Array(this, 0, Math.min(length, this.byteLength)));
+      return copy;
+    },
+  });
+}
+
+export {};
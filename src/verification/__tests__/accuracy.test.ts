@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { categoryOf, comparableValue, scoreExtraction, summarizeCounts } from '../accuracy.js';
+import type { ProductExtractionData } from '../../parser/json-validator.js';
+
+const golden: ProductExtractionData = {
+  productName: 'CalMag Plus',
+  productSlogan: 'Promotes Healthy Bones',
+  productDescription: 'Calcium and magnesium.',
+  subbrand: null,
+  supplementFacts: {
+    servings: '3 Tablets',
+    servingsPerContainer: '100',
+    calories: null,
+    protein: null,
+    nutrients: [
+      { name: 'Vitamin C', amount: '72 mg', dailyValuePercentAdult: '80', dailyValuePercentChildren: null },
+      { name: 'Calcium', amount: '300 mg', dailyValuePercentAdult: '23', dailyValuePercentChildren: null },
+    ],
+  },
+  ingredients: [
+    { name: 'Calcium Carbonate', isOrganic: false },
+    { name: 'Sugar', isOrganic: true },
+  ],
+  directions: 'Take three tablets twice a day.',
+  caution: null,
+  dietaryAttributes: ['Gluten-Free'],
+  references: null,
+};
+
+describe('Accuracy', () => {
+  it('groups field paths into categories', () => {
+    expect(categoryOf('supplementFacts.servings')).toBe('nutrients');
+    expect(categoryOf('supplementFacts.nutrients[Vitamin C].amount')).toBe('nutrients');
+    expect(categoryOf('ingredients[Sugar].isOrganic')).toBe('ingredients');
+    expect(categoryOf('dietaryAttributes[Vegan]')).toBe('dietaryAttributes');
+    expect(categoryOf('productDescription')).toBe('textFields');
+  });
+
+  it('ignores case, spacing and typographic punctuation', () => {
+    expect(comparableValue('72 mg')).toBe(comparableValue('72mg'));
+    expect(comparableValue('Don’t exceed — 3 daily')).toBe(comparableValue("don't  exceed - 3 daily"));
+    expect(comparableValue('72 mg')).not.toBe(comparableValue('70 mg'));
+  });
+
+  it('scores a perfect extraction as 100% precision and recall', () => {
+    const score = scoreExtraction(golden, structuredClone(golden));
+    const overall = summarizeCounts(Object.values(score.counts));
+
+    expect(score.misses).toEqual([]);
+    expect(overall.precision).toBe(1);
+    expect(overall.recall).toBe(1);
+    expect(score.counts.nutrients).toEqual({ truePositives: 6, predicted: 6, expected: 6 });
+  });
+
+  it('counts wrong, missing and extra values per category', () => {
+    const actual = structuredClone(golden);
+    actual.supplementFacts!.nutrients[0].amount = '70 mg'; // wrong
+    actual.ingredients.pop(); // missing
+    actual.dietaryAttributes = ['gluten-free', 'Vegan']; // one extra; names match case-insensitively
+    actual.productName = 'CALMAG PLUS';
+
+    const score = scoreExtraction(golden, actual);
+
+    expect(score.counts.nutrients).toEqual({ truePositives: 5, predicted: 6, expected: 6 });
+    expect(score.counts.ingredients).toEqual({ truePositives: 1, predicted: 1, expected: 2 });
+    expect(score.counts.dietaryAttributes).toEqual({ truePositives: 1, predicted: 2, expected: 1 });
+    expect(score.counts.textFields).toEqual({ truePositives: 4, predicted: 4, expected: 4 });
+    expect(score.misses.map((miss) => [miss.fieldPath, miss.expected, miss.actual])).toEqual([
+      ['supplementFacts.nutrients[Vitamin C].amount', '72 mg', '70 mg'],
+      ['ingredients[Sugar].isOrganic', 'true', null],
+      ['dietaryAttributes[Vegan]', null, 'true'],
+    ]);
+  });
+
+  it('scores a failed extraction with zero recall', () => {
+    const score = scoreExtraction(golden, null);
+    const overall = summarizeCounts(Object.values(score.counts));
+
+    expect(overall.recall).toBe(0);
+    expect(overall.precision).toBeNull();
+    expect(overall.f1).toBeNull();
+  });
+
+  it('micro-averages counts across documents', () => {
+    const summary = summarizeCounts([
+      { truePositives: 9, predicted: 10, expected: 10 },
+      { truePositives: 1, predicted: 10, expected: 30 },
+    ]);
+
+    expect(summary.precision).toBe(0.5);
+    expect(summary.recall).toBe(0.25);
+    expect(summary.f1).toBeCloseTo(1 / 3);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildComparisonReport,
+  ComparisonInput,
+  generalizeFieldPath,
+  renderReportCSV,
+  renderReportHTML,
+} from '../comparison-report.js';
+import type { Discrepancy } from '../comparison-engine.js';
+
+function discrepancy(fieldPath: string, severity: Discrepancy['severity'], type: Discrepancy['type'] = 'different'): Discrepancy {
+  return { fieldPath, claudeValue: null, grokValue: null, type, severity, confidenceScore: 60, description: '' };
+}
+
+function input(
+  productCode: string,
+  similarityScore: number,
+  discrepancies: Discrepancy[],
+  grokNutrients: string[] = []
+): ComparisonInput {
+  return {
+    productCode,
+    productName: `Product ${productCode}`,
+    reviewStatus: discrepancies.length > 0 ? 'pending' : null,
+    claude: {
+      servings: '1 capsule',
+      servingsPerContainer: '60',
+      nutrients: [
+        { name: 'Vitamin C', amount: '100 mg' },
+        { name: 'Zinc', amount: '5 mg' },
+      ],
+    },
+    grok: {
+      servings: '1 capsule',
+      servingsPerContainer: '60',
+      nutrients: grokNutrients.map(name => ({ name, amount: '1 mg' })),
+    },
+    result: {
+      hasDiscrepancies: discrepancies.length > 0,
+      discrepancies,
+      similarityScore,
+      recommendsReview: discrepancies.some(d => d.severity === 'high'),
+      fieldCounts: { total: 10, matching: 10 - discrepancies.length, different: 0, missing: 0 },
+    },
+  };
+}
+
+describe('Comparison Report', () => {
+  const inputs = [
+    input('0001', 100, []),
+    input('0002', 80, [
+      discrepancy('supplementFacts.nutrients[1].amount', 'high'),
+      discrepancy('supplementFacts.nutrients[0].dailyValuePercentAdult', 'medium'),
+      discrepancy('supplementFacts.servings', 'low'),
+    ]),
+    input('0003', 90, [
+      discrepancy('supplementFacts.nutrients[1].amount', 'high'),
+      discrepancy('supplementFacts.nutrients[grok-0]', 'high', 'extra'),
+    ], ['Iron']),
+  ];
+
+  it('collapses nutrient indices in field paths', () => {
+    expect(generalizeFieldPath('supplementFacts.nutrients[12].amount')).toBe('supplementFacts.nutrients[].amount');
+    expect(generalizeFieldPath('supplementFacts.nutrients[grok-3]')).toBe('supplementFacts.nutrients[]');
+    expect(generalizeFieldPath('supplementFacts.servings')).toBe('supplementFacts.servings');
+  });
+
+  it('summarizes similarity and severities across products', () => {
+    const report = buildComparisonReport(inputs, new Date('2026-01-01T00:00:00Z'));
+
+    expect(report.generatedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(report.summary).toEqual({
+      productsCompared: 3,
+      averageSimilarity: 90,
+      minimumSimilarity: 80,
+      productsWithDiscrepancies: 2,
+      productsRecommendingReview: 2,
+      totalDiscrepancies: 5,
+      bySeverity: { high: 3, medium: 1, low: 1 },
+    });
+    expect(report.products.map(p => p.productCode)).toEqual(['0002', '0003', '0001']);
+  });
+
+  it('breaks discrepancies down by field path and severity', () => {
+    const report = buildComparisonReport(inputs);
+
+    expect(report.fields[0]).toEqual({ fieldPath: 'supplementFacts.nutrients[].amount', total: 2, high: 2, medium: 0, low: 0 });
+    expect(report.fields.find(f => f.fieldPath === 'supplementFacts.servings')).toMatchObject({ total: 1, low: 1 });
+  });
+
+  it('computes per-nutrient disagreement rates', () => {
+    const report = buildComparisonReport(inputs);
+    const byName = Object.fromEntries(report.nutrients.map(n => [n.nutrient, n]));
+
+    expect(byName['Zinc']).toMatchObject({ products: 3, disagreements: 2, disagreementRate: 66.7, amountMismatches: 2 });
+    expect(byName['Vitamin C']).toMatchObject({ products: 3, disagreements: 1, dailyValueMismatches: 1 });
+    expect(byName['Iron']).toMatchObject({ products: 1, disagreements: 1, disagreementRate: 100, foundByOneOnly: 1 });
+  });
+
+  it('renders CSV with escaped cells and self-contained HTML', () => {
+    const report = buildComparisonReport([{ ...input('0004', 95, []), productName: 'Calm, "Night" <Formula>' }]);
+
+    const csv = renderReportCSV(report);
+    expect(csv.products.split('\n')[1]).toBe('0004,"Calm, ""Night"" <Formula>",95,0,0,0,0,false,');
+
+    const html = renderReportHTML(report);
+    expect(html).toContain('Calm, &quot;Night&quot; &lt;Formula&gt;');
+    expect(html).not.toMatch(/<link|<script/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { expectedDailyValuePercent, scoreNutrientConfidence } from '../nutrient-confidence.js';
+
+const vitaminC = { name: 'Vitamin C (as Ascorbic Acid)', amount: '90 mg', dailyValuePercentAdult: '100' };
+const zinc = { name: 'Zinc', amount: '5.5 mg', dailyValuePercentAdult: '50' };
+const pdfText = 'Supplement Facts\nVitamin C (as Ascorbic Acid)   90mg   100%\nZinc 5,5 mg 50%';
+
+describe('scoreNutrientConfidence', () => {
+  it('keeps full confidence when every signal agrees or is unavailable', () => {
+    expect(scoreNutrientConfidence({ nutrients: [vitaminC, zinc], discrepancies: [], pdfText }, 0.7)).toEqual([
+      { confidence: 1, needsVerification: false, reasons: [] },
+      { confidence: 1, needsVerification: false, reasons: [] },
+    ]);
+    expect(scoreNutrientConfidence({ nutrients: [{ name: 'Elderberry Extract', amount: '300 mg' }] }, 0.7)[0].confidence).toBe(1);
+  });
+
+  it('lowers confidence for verification disagreement and amounts missing from the text', () => {
+    const [c, z] = scoreNutrientConfidence(
+      {
+        nutrients: [vitaminC, { ...zinc, amount: '55 mg', dailyValuePercentAdult: '500' }],
+        discrepancies: [{ fieldPath: 'supplementFacts.nutrients[1].amount' }, { fieldPath: 'supplementFacts.servings' }],
+        pdfText,
+      },
+      0.7
+    );
+
+    expect(c.confidence).toBe(1);
+    expect(z).toEqual({
+      confidence: 0.35,
+      needsVerification: true,
+      reasons: ['amount differs from the verification provider', 'amount not found in the PDF text'],
+    });
+  });
+
+  it('flags DV% that does not follow from the amount, and validation warnings', () => {
+    const [c] = scoreNutrientConfidence(
+      {
+        nutrients: [{ ...vitaminC, dailyValuePercentAdult: '10' }],
+        validationWarnings: [
+          { fieldPath: 'supplementFacts.nutrients.0.amount', severity: 'medium' },
+          { fieldPath: 'supplementFacts.nutrients.10.amount', severity: 'high' },
+        ],
+      },
+      0.7
+    );
+
+    expect(c.confidence).toBe(0.6);
+    expect(c.reasons).toEqual([
+      'DV% 10 does not match the amount (expected about 100)',
+      'medium validation warning on supplementFacts.nutrients.0.amount',
+    ]);
+  });
+
+  it('computes DV% against reference daily values in the nutrient unit', () => {
+    expect(expectedDailyValuePercent({ name: 'Vitamin D3', amount: '25 mcg' })).toBeCloseTo(125);
+    expect(expectedDailyValuePercent({ name: 'Calcium', amount: '0.65 g' })).toBeCloseTo(50);
+    expect(expectedDailyValuePercent({ name: 'Vitamin A', amount: '450 mcg RAE' })).toBeCloseTo(50);
+    expect(expectedDailyValuePercent({ name: 'Vitamin A', amount: '5000 IU' })).toBeNull();
+    expect(expectedDailyValuePercent({ name: 'Folic Acid', amount: '400 mcg' })).toBeNull();
+    expect(expectedDailyValuePercent({ name: 'Vitamin B1', amount: '1.2 mg' })).toBeCloseTo(100);
+    expect(expectedDailyValuePercent({ name: 'Vitamin B12', amount: '2.4 mcg' })).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REVIEW_POLICY,
+  evaluateReview,
+  mergeReviewPolicy,
+  reviewPolicyOverridesSchema,
+} from '../review-policy.js';
+
+type Severity = 'low' | 'medium' | 'high';
+
+function issues(...severities: Severity[]) {
+  return severities.map(severity => ({ severity }));
+}
+
+describe('Review Policy', () => {
+  it('auto-accepts clean comparisons', () => {
+    const result = evaluateReview(
+      { comparison: { similarityScore: 96, discrepancies: issues('low', 'medium') }, validationWarnings: issues('low') },
+      DEFAULT_REVIEW_POLICY
+    );
+
+    expect(result).toEqual({ decision: 'auto_accept', reasons: [], priority: 0 });
+  });
+
+  it('queues items that exceed severity limits with a weighted priority', () => {
+    const result = evaluateReview(
+      {
+        comparison: { similarityScore: 80, discrepancies: issues('high', 'medium') },
+        validationWarnings: issues('high', 'medium'),
+      },
+      DEFAULT_REVIEW_POLICY
+    );
+
+    expect(result.decision).toBe('review');
+    expect(result.reasons).toEqual([
+      'similarity 80% below 85%',
+      '1 high-severity discrepancies',
+      '1 high-severity validation warnings',
+    ]);
+    // 2 (comparison high) + 1 (comparison medium) + 3 (validation high) + 1 (validation medium) + 5 * 0.5 (gap)
+    expect(result.priority).toBe(10);
+  });
+
+  it('auto-rejects comparisons below the reject threshold', () => {
+    const input = { comparison: { similarityScore: 55, discrepancies: issues('high') } };
+    const result = evaluateReview(input, { ...DEFAULT_REVIEW_POLICY, rejectSimilarity: 70 });
+
+    expect(result.decision).toBe('auto_reject');
+    expect(result.reasons[0]).toBe('similarity 55% below 70%');
+    // Auto-reject is off by default, so the same comparison is queued instead
+    expect(evaluateReview(input, DEFAULT_REVIEW_POLICY).decision).toBe('review');
+  });
+
+  it('only considers validation warnings without a comparison', () => {
+    expect(evaluateReview({ comparison: null, validationWarnings: issues('medium', 'medium') }, DEFAULT_REVIEW_POLICY).decision)
+      .toBe('auto_accept');
+    expect(evaluateReview({ validationWarnings: issues('medium', 'medium', 'medium') }, DEFAULT_REVIEW_POLICY))
+      .toMatchObject({ decision: 'review', priority: 3 });
+  });
+
+  it('merges partial overrides and rejects inconsistent thresholds', () => {
+    const overrides = reviewPolicyOverridesSchema.parse({ acceptSimilarity: 90, priorityWeights: { validationHigh: 10 } });
+    const policy = mergeReviewPolicy(DEFAULT_REVIEW_POLICY, overrides);
+
+    expect(policy.acceptSimilarity).toBe(90);
+    expect(policy.rejectSimilarity).toBe(0);
+    expect(policy.priorityWeights).toEqual({ ...DEFAULT_REVIEW_POLICY.priorityWeights, validationHigh: 10 });
+    expect(() => mergeReviewPolicy(DEFAULT_REVIEW_POLICY, { rejectSimilarity: 95 })).toThrow(/must not exceed/);
+    expect(() => reviewPolicyOverridesSchema.parse({ acceptSimilarity: 90, unknownField: 1 })).toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+import { ProductExtractionData } from '../parser/json-validator.js';
+import { flattenProductFields, FieldValues } from '../parser/field-paths.js';
+
+// Field groups scored by `eval`; serving lines count towards the supplement facts panel (nutrients)
+export const ACCURACY_CATEGORIES = ['nutrients', 'ingredients', 'dietaryAttributes', 'textFields'] as const;
+
+export type AccuracyCategory = (typeof ACCURACY_CATEGORIES)[number];
+
+export interface CategoryCounts {
+  truePositives: number; // Extracted values equal to the golden value
+  predicted: number; // Non-null values extracted
+  expected: number; // Non-null values in the golden file
+}
+
+export interface CategoryScore extends CategoryCounts {
+  precision: number | null; // null when nothing was extracted / expected
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface FieldMiss {
+  fieldPath: string;
+  category: AccuracyCategory;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface DocumentScore {
+  counts: Record<AccuracyCategory, CategoryCounts>;
+  misses: FieldMiss[];
+}
+
+export function categoryOf(fieldPath: string): AccuracyCategory {
+  if (fieldPath.startsWith('supplementFacts.')) return 'nutrients';
+  if (fieldPath.startsWith('ingredients[')) return 'ingredients';
+  if (fieldPath.startsWith('dietaryAttributes[')) return 'dietaryAttributes';
+  return 'textFields';
+}
+
+// Case, spacing, typographic quotes and dashes do not count as errors ("72mg" matches "72 mg")
+export function comparableValue(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, '');
+}
+
+// Non-null values keyed by comparable path, e.g. "supplementFacts.nutrients[vitaminc].amount"
+function comparableFacts(fields: FieldValues): Map<string, { fieldPath: string; value: string }> {
+  const facts = new Map<string, { fieldPath: string; value: string }>();
+  for (const [fieldPath, value] of Object.entries(fields)) {
+    if (value === null) continue;
+    const key = fieldPath.replace(/\[(.+)\]/, (_match, label: string) => `[${comparableValue(label)}]`);
+    facts.set(key, { fieldPath, value });
+  }
+  return facts;
+}
+
+function emptyCounts(): Record<AccuracyCategory, CategoryCounts> {
+  return Object.fromEntries(
+    ACCURACY_CATEGORIES.map((category) => [category, { truePositives: 0, predicted: 0, expected: 0 }])
+  ) as Record<AccuracyCategory, CategoryCounts>;
+}
+
+/**
+ * Field-level comparison of an extraction with its hand-verified golden data.
+ * A failed extraction (null) scores zero recall on every golden value.
+ */
+export function scoreExtraction(expected: ProductExtractionData, actual: ProductExtractionData | null): DocumentScore {
+  const expectedFacts = comparableFacts(flattenProductFields(expected));
+  const actualFacts = actual ? comparableFacts(flattenProductFields(actual)) : new Map<string, { fieldPath: string; value: string }>();
+  const counts = emptyCounts();
+  const misses: FieldMiss[] = [];
+
+  for (const [key, fact] of expectedFacts) {
+    const category = categoryOf(fact.fieldPath);
+    counts[category].expected++;
+
+    const extracted = actualFacts.get(key);
+    if (extracted && comparableValue(extracted.value) === comparableValue(fact.value)) {
+      counts[category].truePositives++;
+    } else {
+      misses.push({ fieldPath: fact.fieldPath, category, expected: fact.value, actual: extracted?.value ?? null });
+    }
+  }
+
+  for (const [key, fact] of actualFacts) {
+    const category = categoryOf(fact.fieldPath);
+    counts[category].predicted++;
+
+    if (!expectedFacts.has(key)) {
+      misses.push({ fieldPath: fact.fieldPath, category, expected: null, actual: fact.value });
+    }
+  }
+
+  return { counts, misses };
+}
+
+// Micro-averaged precision, recall and F1 over documents
+export function summarizeCounts(counts: CategoryCounts[]): CategoryScore {
+  const total = counts.reduce(
+    (sum, c) => ({
+      truePositives: sum.truePositives + c.truePositives,
+      predicted: sum.predicted + c.predicted,
+      expected: sum.expected + c.expected,
+    }),
+    { truePositives: 0, predicted: 0, expected: 0 }
+  );
+
+  const precision = total.predicted > 0 ? total.truePositives / total.predicted : null;
+  const recall = total.expected > 0 ? total.truePositives / total.expected : null;
+  const f1 =
+    precision !== null && recall !== null
+      ? precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0
+      : null;
+
+  return { ...total, precision, recall, f1 };
+}
@@ -1,4 +1,6 @@
 import { SupplementFactsData, NutrientData } from '../parser/json-validator.js';
+import { getReviewPolicy } from '../config/review-policy.js';
+import { evaluateReview, ReviewPolicy } from './review-policy.js';
 import logger from '../utils/logger.js';
 
 export interface ComparisonResult {
@@ -25,6 +27,8 @@ export interface Discrepancy {
 }
 
 export class ComparisonEngine {
+  constructor(private policy: ReviewPolicy = getReviewPolicy()) {}
+
   /**
    * Main comparison function for supplement facts
    */
@@ -46,10 +50,9 @@ export class ComparisonEngine {
     // Calculate similarity score
     const similarityScore = this.calculateSimilarityScore(claude, grok, discrepancies);
 
-    // Determine if review needed
-    const highSeverityCount = discrepancies.filter(d => d.severity === 'high').length;
-    const mediumSeverityCount = discrepancies.filter(d => d.severity === 'medium').length;
-    const recommendsReview = highSeverityCount > 0 || mediumSeverityCount > 2 || similarityScore < 85;
+    // Anything the review policy would not auto-accept on the comparison alone
+    const recommendsReview =
+      evaluateReview({ comparison: { similarityScore, discrepancies } }, this.policy).decision !== 'auto_accept';
 
     logger.debug(`Comparison completed: ${discrepancies.length} discrepancies, similarity ${similarityScore.toFixed(1)}%`);
 
@@ -0,0 +1,341 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { SupplementFactsData } from '../parser/json-validator.js';
+import type { ComparisonResult, Discrepancy } from './comparison-engine.js';
+
+export type ReportFormat = 'html' | 'csv' | 'json';
+
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'csv', 'json'];
+
+// One verified product: both extractions and the engine's comparison of them
+export interface ComparisonInput {
+  productCode: string;
+  productName: string;
+  reviewStatus: string | null;
+  claude: SupplementFactsData;
+  grok: SupplementFactsData;
+  result: ComparisonResult;
+}
+
+export interface SeverityCounts {
+  high: number;
+  medium: number;
+  low: number;
+}
+
+export interface ProductComparisonRow extends SeverityCounts {
+  productCode: string;
+  productName: string;
+  similarityScore: number;
+  discrepancyCount: number;
+  recommendsReview: boolean;
+  reviewStatus: string | null;
+}
+
+export interface FieldBreakdownRow extends SeverityCounts {
+  fieldPath: string; // Nutrient indices collapsed, e.g. "supplementFacts.nutrients[].amount"
+  total: number;
+}
+
+export interface NutrientDisagreementRow {
+  nutrient: string;
+  products: number; // Products where either extraction listed the nutrient
+  disagreements: number; // Products with at least one discrepancy on it
+  disagreementRate: number; // 0-100
+  amountMismatches: number;
+  dailyValueMismatches: number;
+  foundByOneOnly: number;
+}
+
+export interface ComparisonReport {
+  generatedAt: string;
+  summary: {
+    productsCompared: number;
+    averageSimilarity: number;
+    minimumSimilarity: number;
+    productsWithDiscrepancies: number;
+    productsRecommendingReview: number;
+    totalDiscrepancies: number;
+    bySeverity: SeverityCounts;
+  };
+  products: ProductComparisonRow[];
+  fields: FieldBreakdownRow[];
+  nutrients: NutrientDisagreementRow[];
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+function countSeverities(discrepancies: Discrepancy[]): SeverityCounts {
+  return {
+    high: discrepancies.filter(d => d.severity === 'high').length,
+    medium: discrepancies.filter(d => d.severity === 'medium').length,
+    low: discrepancies.filter(d => d.severity === 'low').length,
+  };
+}
+
+// "supplementFacts.nutrients[3].amount" and "...nutrients[grok-1]" -> "supplementFacts.nutrients[]..."
+export function generalizeFieldPath(fieldPath: string): string {
+  return fieldPath.replace(/\[(?:grok-)?\d+\]/g, '[]');
+}
+
+// Name of the nutrient a comparison discrepancy refers to, if any
+function discrepancyNutrient(d: Discrepancy, input: ComparisonInput): string | null {
+  const match = d.fieldPath.match(/^supplementFacts\.nutrients\[(grok-)?(\d+)\]/);
+  if (!match) return null;
+  const list = match[1] ? input.grok.nutrients : input.claude.nutrients;
+  return list[parseInt(match[2])]?.name ?? null;
+}
+
+function buildNutrientRows(inputs: ComparisonInput[]): NutrientDisagreementRow[] {
+  const rows = new Map<string, NutrientDisagreementRow>();
+  const rowFor = (name: string): NutrientDisagreementRow => {
+    const key = name.trim().toLowerCase();
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        nutrient: name.trim(),
+        products: 0,
+        disagreements: 0,
+        disagreementRate: 0,
+        amountMismatches: 0,
+        dailyValueMismatches: 0,
+        foundByOneOnly: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const input of inputs) {
+    const listed = new Set<NutrientDisagreementRow>();
+    const disagreed = new Set<NutrientDisagreementRow>();
+
+    input.claude.nutrients.forEach(n => listed.add(rowFor(n.name)));
+
+    for (const d of input.result.discrepancies) {
+      const name = discrepancyNutrient(d, input);
+      if (!name) continue;
+
+      const row = rowFor(name);
+      listed.add(row);
+      disagreed.add(row);
+
+      if (d.fieldPath.endsWith('.amount')) {
+        row.amountMismatches++;
+      } else if (d.fieldPath.includes('.dailyValuePercent')) {
+        row.dailyValueMismatches++;
+      } else {
+        row.foundByOneOnly++;
+      }
+    }
+
+    listed.forEach(row => row.products++);
+    disagreed.forEach(row => row.disagreements++);
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, disagreementRate: round1((row.disagreements / row.products) * 100) }))
+    .sort((a, b) => b.disagreementRate - a.disagreementRate || b.products - a.products || a.nutrient.localeCompare(b.nutrient));
+}
+
+export function buildComparisonReport(inputs: ComparisonInput[], generatedAt = new Date()): ComparisonReport {
+  const products: ProductComparisonRow[] = inputs
+    .map(input => ({
+      productCode: input.productCode,
+      productName: input.productName,
+      similarityScore: input.result.similarityScore,
+      discrepancyCount: input.result.discrepancies.length,
+      ...countSeverities(input.result.discrepancies),
+      recommendsReview: input.result.recommendsReview,
+      reviewStatus: input.reviewStatus,
+    }))
+    .sort((a, b) => a.similarityScore - b.similarityScore || a.productCode.localeCompare(b.productCode));
+
+  const fieldRows = new Map<string, FieldBreakdownRow>();
+  for (const d of inputs.flatMap(input => input.result.discrepancies)) {
+    const fieldPath = generalizeFieldPath(d.fieldPath);
+    const row = fieldRows.get(fieldPath) ?? { fieldPath, total: 0, high: 0, medium: 0, low: 0 };
+    row.total++;
+    row[d.severity]++;
+    fieldRows.set(fieldPath, row);
+  }
+
+  const scores = products.map(p => p.similarityScore);
+  const bySeverity = products.reduce(
+    (sum, p) => ({ high: sum.high + p.high, medium: sum.medium + p.medium, low: sum.low + p.low }),
+    { high: 0, medium: 0, low: 0 }
+  );
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    summary: {
+      productsCompared: products.length,
+      averageSimilarity: scores.length > 0 ? round1(scores.reduce((a, b) => a + b, 0) / scores.length) : 0,
+      minimumSimilarity: scores.length > 0 ? Math.min(...scores) : 0,
+      productsWithDiscrepancies: products.filter(p => p.discrepancyCount > 0).length,
+      productsRecommendingReview: products.filter(p => p.recommendsReview).length,
+      totalDiscrepancies: bySeverity.high + bySeverity.medium + bySeverity.low,
+      bySeverity,
+    },
+    products,
+    fields: Array.from(fieldRows.values()).sort((a, b) => b.high - a.high || b.total - a.total),
+    nutrients: buildNutrientRows(inputs),
+  };
+}
+
+// ===== RENDERERS =====
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// CSV holds one table per file: products, field breakdown and nutrient disagreement
+export function renderReportCSV(report: ComparisonReport): { products: string; fields: string; nutrients: string } {
+  return {
+    products: toCSV(
+      ['product_code', 'product_name', 'similarity_score', 'discrepancies', 'high', 'medium', 'low', 'recommends_review', 'review_status'],
+      report.products.map(p => [
+        p.productCode, p.productName, p.similarityScore, p.discrepancyCount,
+        p.high, p.medium, p.low, p.recommendsReview, p.reviewStatus,
+      ])
+    ),
+    fields: toCSV(
+      ['field_path', 'total', 'high', 'medium', 'low'],
+      report.fields.map(f => [f.fieldPath, f.total, f.high, f.medium, f.low])
+    ),
+    nutrients: toCSV(
+      ['nutrient', 'products', 'disagreements', 'disagreement_rate', 'amount_mismatches', 'daily_value_mismatches', 'found_by_one_only'],
+      report.nutrients.map(n => [
+        n.nutrient, n.products, n.disagreements, n.disagreementRate,
+        n.amountMismatches, n.dailyValueMismatches, n.foundByOneOnly,
+      ])
+    ),
+  };
+}
+
+function escapeHTML(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlTable(headers: string[], rows: unknown[][], rowClass?: (index: number) => string): string {
+  const head = headers.map(h => `<th>${escapeHTML(h)}</th>`).join('');
+  const body = rows
+    .map((row, i) => {
+      const cls = rowClass?.(i);
+      return `<tr${cls ? ` class="${cls}"` : ''}>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join('')}</tr>`;
+    })
+    .join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+// Single file with inline styles so it can be attached to a sign-off without other assets
+export function renderReportHTML(report: ComparisonReport): string {
+  const { summary } = report;
+  const cards: [string, string | number][] = [
+    ['Products compared', summary.productsCompared],
+    ['Average similarity', `${summary.averageSimilarity}%`],
+    ['Lowest similarity', `${summary.minimumSimilarity}%`],
+    ['With discrepancies', summary.productsWithDiscrepancies],
+    ['Recommended for review', summary.productsRecommendingReview],
+    ['Discrepancies (high / medium / low)', `${summary.bySeverity.high} / ${summary.bySeverity.medium} / ${summary.bySeverity.low}`],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Claude vs Grok Comparison Report</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1a1a1a; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #e0e0e0; padding-bottom: 0.25rem; }
+  .meta { color: #666; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 1rem; margin-top: 1rem; }
+  .card { border: 1px solid #e0e0e0; border-radius: 4px; padding: 0.75rem 1rem; }
+  .card .value { font-size: 1.4rem; font-weight: 600; }
+  .card .label { font-size: 12px; color: #666; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th { background: #f0f0f0; text-align: left; font-size: 11px; text-transform: uppercase; }
+  th, td { padding: 0.35rem 0.75rem; border-bottom: 1px solid #e0e0e0; }
+  tr.needs-review td { background: #fef2f2; }
+</style>
+</head>
+<body>
+<h1>Claude vs Grok Comparison Report</h1>
+<p class="meta">Generated ${escapeHTML(report.generatedAt)}</p>
+<div class="cards">
+${cards.map(([label, value]) => `<div class="card"><div class="value">${escapeHTML(value)}</div><div class="label">${escapeHTML(label)}</div></div>`).join('\n')}
+</div>
+
+<h2>Products</h2>
+${htmlTable(
+  ['Code', 'Product', 'Similarity %', 'Discrepancies', 'High', 'Medium', 'Low', 'Review recommended', 'Review status'],
+  report.products.map(p => [
+    p.productCode, p.productName, p.similarityScore, p.discrepancyCount,
+    p.high, p.medium, p.low, p.recommendsReview ? 'yes' : 'no', p.reviewStatus ?? '',
+  ]),
+  i => (report.products[i].recommendsReview ? 'needs-review' : '')
+)}
+
+<h2>Discrepancies by Field</h2>
+${htmlTable(
+  ['Field path', 'Total', 'High', 'Medium', 'Low'],
+  report.fields.map(f => [f.fieldPath, f.total, f.high, f.medium, f.low])
+)}
+
+<h2>Nutrient Disagreement Rates</h2>
+${htmlTable(
+  ['Nutrient', 'Products', 'Disagreements', 'Rate %', 'Amount', 'Daily value', 'Found by one only'],
+  report.nutrients.map(n => [
+    n.nutrient, n.products, n.disagreements, n.disagreementRate,
+    n.amountMismatches, n.dailyValueMismatches, n.foundByOneOnly,
+  ])
+)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the report next to `basePath` (extension ignored) in each requested format.
+ * Returns the paths written.
+ */
+export function writeComparisonReport(
+  report: ComparisonReport,
+  basePath: string,
+  formats: ReportFormat[] = REPORT_FORMATS
+): string[] {
+  const parsed = path.parse(basePath);
+  const base = path.join(parsed.dir, parsed.name);
+  mkdirSync(parsed.dir || '.', { recursive: true });
+
+  const written: string[] = [];
+  const write = (file: string, contents: string) => {
+    writeFileSync(file, contents, 'utf-8');
+    written.push(file);
+  };
+
+  for (const format of formats) {
+    if (format === 'json') {
+      write(`${base}.json`, JSON.stringify(report, null, 2) + '\n');
+    } else if (format === 'html') {
+      write(`${base}.html`, renderReportHTML(report));
+    } else {
+      const csv = renderReportCSV(report);
+      write(`${base}.csv`, csv.products);
+      write(`${base}-fields.csv`, csv.fields);
+      write(`${base}-nutrients.csv`, csv.nutrients);
+    }
+  }
+
+  return written;
+}
@@ -0,0 +1,166 @@
+import type { NutrientData } from '../parser/json-validator.js';
+import type { Discrepancy } from './comparison-engine.js';
+import type { ValidationWarning } from '../extractor/ai-extractor.js';
+
+// Confidence lost per signal; a nutrient starts at 1 and is floored at 0
+export const CONFIDENCE_PENALTIES = {
+  missingInVerification: 0.4, // The verification provider did not find the nutrient
+  amountDisagrees: 0.4, // ...or read a different amount
+  dailyValueDisagrees: 0.15, // ...or a different DV% (per column)
+  notInTextLayer: 0.25, // The amount does not appear in the PDF text layer
+  dailyValueInconsistent: 0.25, // DV% does not follow from the amount and the reference daily value
+  warning: { high: 0.3, medium: 0.15, low: 0.05 }, // Per validation warning on the nutrient
+} as const;
+
+export interface NutrientConfidenceInput {
+  nutrients: NutrientData[];
+  discrepancies?: Pick<Discrepancy, 'fieldPath'>[]; // ComparisonEngine output; omit when not verified
+  pdfText?: string | null; // Text layer of the PDF; omit when it has none
+  validationWarnings?: Pick<ValidationWarning, 'fieldPath' | 'severity'>[];
+}
+
+export interface NutrientConfidence {
+  confidence: number; // 0-1
+  needsVerification: boolean; // Below the threshold
+  reasons: string[];
+}
+
+// FDA reference daily values (adults and children 4+). `basis` names the unit qualifier the DV is
+// expressed in; amounts without it (e.g. folic acid in plain mcg) are not checked.
+const REFERENCE_DAILY_VALUES: Array<{ name: RegExp; amount: number; unit: 'g' | 'mg' | 'mcg'; basis?: string }> = [
+  { name: /^vitamin a\b/, amount: 900, unit: 'mcg', basis: 'rae' },
+  { name: /^vitamin c\b/, amount: 90, unit: 'mg' },
+  { name: /^vitamin d\d?\b/, amount: 20, unit: 'mcg' },
+  { name: /^vitamin e\b/, amount: 15, unit: 'mg' },
+  { name: /^vitamin k\d?\b/, amount: 120, unit: 'mcg' },
+  { name: /^(thiamine?|vitamin b1)\b/, amount: 1.2, unit: 'mg' },
+  { name: /^(riboflavin|vitamin b2)\b/, amount: 1.3, unit: 'mg' },
+  { name: /^(niacin|vitamin b3)\b/, amount: 16, unit: 'mg' },
+  { name: /^vitamin b6\b/, amount: 1.7, unit: 'mg' },
+  { name: /^(folate|folic acid)\b/, amount: 400, unit: 'mcg', basis: 'dfe' },
+  { name: /^vitamin b12\b/, amount: 2.4, unit: 'mcg' },
+  { name: /^biotin\b/, amount: 30, unit: 'mcg' },
+  { name: /^(pantothenic acid|vitamin b5)\b/, amount: 5, unit: 'mg' },
+  { name: /^choline\b/, amount: 550, unit: 'mg' },
+  { name: /^calcium\b/, amount: 1300, unit: 'mg' },
+  { name: /^iron\b/, amount: 18, unit: 'mg' },
+  { name: /^phosphorus\b/, amount: 1250, unit: 'mg' },
+  { name: /^iodine\b/, amount: 150, unit: 'mcg' },
+  { name: /^magnesium\b/, amount: 420, unit: 'mg' },
+  { name: /^zinc\b/, amount: 11, unit: 'mg' },
+  { name: /^selenium\b/, amount: 55, unit: 'mcg' },
+  { name: /^copper\b/, amount: 0.9, unit: 'mg' },
+  { name: /^manganese\b/, amount: 2.3, unit: 'mg' },
+  { name: /^chromium\b/, amount: 35, unit: 'mcg' },
+  { name: /^molybdenum\b/, amount: 45, unit: 'mcg' },
+  { name: /^chloride\b/, amount: 2300, unit: 'mg' },
+  { name: /^potassium\b/, amount: 4700, unit: 'mg' },
+  { name: /^sodium\b/, amount: 2300, unit: 'mg' },
+  { name: /^total carbohydrates?\b/, amount: 275, unit: 'g' },
+  { name: /^(dietary )?fib(er|re)\b/, amount: 28, unit: 'g' },
+  { name: /^total fat\b/, amount: 78, unit: 'g' },
+  { name: /^saturated fat\b/, amount: 20, unit: 'g' },
+  { name: /^cholesterol\b/, amount: 300, unit: 'mg' },
+  { name: /^protein\b/, amount: 50, unit: 'g' },
+];
+
+const UNIT_FACTORS: Record<string, number> = { g: 1_000_000, mg: 1000, mcg: 1, 'µg': 1, 'μg': 1, ug: 1 };
+
+/**
+ * Confidence per nutrient (same order as `nutrients`) from the signals that are available: agreement
+ * with the verification provider, the amount appearing in the PDF text layer, DV% consistency and
+ * validation warnings. Signals that are missing (no verification, no text layer, a nutrient without
+ * a reference DV) neither add nor remove confidence.
+ */
+export function scoreNutrientConfidence(input: NutrientConfidenceInput, threshold: number): NutrientConfidence[] {
+  const pdfText = input.pdfText ? normalizeText(input.pdfText) : null;
+
+  return input.nutrients.map((nutrient, index) => {
+    const reasons: Array<[string, number]> = [];
+
+    if (input.discrepancies) {
+      const prefix = `supplementFacts.nutrients[${index}]`;
+      for (const { fieldPath } of input.discrepancies) {
+        if (fieldPath === prefix) {
+          reasons.push(['not found by the verification provider', CONFIDENCE_PENALTIES.missingInVerification]);
+        } else if (fieldPath === `${prefix}.amount`) {
+          reasons.push(['amount differs from the verification provider', CONFIDENCE_PENALTIES.amountDisagrees]);
+        } else if (fieldPath.startsWith(`${prefix}.dailyValuePercent`)) {
+          reasons.push(['DV% differs from the verification provider', CONFIDENCE_PENALTIES.dailyValueDisagrees]);
+        }
+      }
+    }
+
+    if (pdfText !== null && nutrient.amount && !amountInText(nutrient.amount, pdfText)) {
+      reasons.push(['amount not found in the PDF text', CONFIDENCE_PENALTIES.notInTextLayer]);
+    }
+
+    const expected = expectedDailyValuePercent(nutrient);
+    const stated = parseNumber(nutrient.dailyValuePercentAdult);
+    if (expected !== null && stated !== null && !dailyValueMatches(stated, expected)) {
+      reasons.push([`DV% ${stated} does not match the amount (expected about ${Math.round(expected)})`, CONFIDENCE_PENALTIES.dailyValueInconsistent]);
+    }
+
+    // Warning paths come from zod ("supplementFacts.nutrients.3.amount")
+    for (const warning of input.validationWarnings || []) {
+      if (warning.fieldPath === `supplementFacts.nutrients.${index}` || warning.fieldPath.startsWith(`supplementFacts.nutrients.${index}.`)) {
+        reasons.push([`${warning.severity} validation warning on ${warning.fieldPath}`, CONFIDENCE_PENALTIES.warning[warning.severity]]);
+      }
+    }
+
+    const penalty = reasons.reduce((sum, [, points]) => sum + points, 0);
+    const confidence = Math.round(Math.max(0, 1 - penalty) * 100) / 100;
+
+    return { confidence, needsVerification: confidence < threshold, reasons: reasons.map(([reason]) => reason) };
+  });
+}
+
+// DV% the amount works out to against the reference daily value; null when it cannot be checked
+export function expectedDailyValuePercent(nutrient: Pick<NutrientData, 'name' | 'amount'>): number | null {
+  const match = nutrient.amount?.trim().match(/^(\d+(?:[.,]\d+)?)\s*(g|mg|mcg|µg|μg|ug)\b(.*)$/i);
+  if (!match) {
+    return null; // Missing, "<1 g", IU and other units
+  }
+
+  const name = nutrient.name.toLowerCase().replace(/\s+/g, ' ').trim();
+  const reference = REFERENCE_DAILY_VALUES.find((entry) => entry.name.test(name));
+  if (!reference || (reference.basis && !match[3].toLowerCase().includes(reference.basis))) {
+    return null;
+  }
+
+  const amount = parseFloat(match[1].replace(',', '.')) * UNIT_FACTORS[match[2].toLowerCase()];
+  return (amount / (reference.amount * UNIT_FACTORS[reference.unit])) * 100;
+}
+
+// Labels round DV%, and small percentages are printed as "<1" or to the nearest whole number
+function dailyValueMatches(stated: number, expected: number): boolean {
+  return Math.abs(stated - expected) <= Math.max(2, expected * 0.1);
+}
+
+function parseNumber(value: string | null | undefined): number | null {
+  const match = value?.match(/^\s*(\d+(?:[.,]\d+)?)\s*%?\s*$/);
+  return match ? parseFloat(match[1].replace(',', '.')) : null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/[µμ]g/g, 'mcg').toLowerCase();
+}
+
+// "100 mg" matches "100mg" and "100 MG"; "2.5 g" matches "2,5 g"; "1 g" does not match "11 g"
+function amountInText(amount: string, text: string): boolean {
+  const match = normalizeText(amount.trim()).match(/^(<\s*)?(\d+)(?:[.,](\d+))?\s*(.*)$/);
+  if (!match) {
+    return text.includes(normalizeText(amount.trim()));
+  }
+
+  const [, lessThan, whole, fraction, unit] = match;
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern =
+    (lessThan ? '<\\s*' : '(?<![\\d.,])') +
+    escape(whole) +
+    (fraction ? `[.,]${escape(fraction)}` : '') +
+    '(?![\\d]|[.,]\\d)\\s*' +
+    escape(unit.split(' ')[0] || '');
+
+  return new RegExp(pattern).test(text);
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+type Severity = 'low' | 'medium' | 'high';
+
+export type ReviewDecision = 'auto_accept' | 'review' | 'auto_reject';
+
+// Weights applied to issue counts when computing human_review_queue.review_priority
+export const priorityWeightsSchema = z.object({
+  comparisonHigh: z.number().min(0),
+  comparisonMedium: z.number().min(0),
+  comparisonLow: z.number().min(0),
+  validationHigh: z.number().min(0),
+  validationMedium: z.number().min(0),
+  validationLow: z.number().min(0),
+  similarityGap: z.number().min(0), // Per percentage point below acceptSimilarity
+});
+
+export const reviewPolicySchema = z.object({
+  acceptSimilarity: z.number().min(0).max(100), // Comparisons at or above may be auto-accepted
+  rejectSimilarity: z.number().min(0).max(100), // Comparisons below are auto-rejected (0 disables)
+  maxHighSeverity: z.number().int().min(0), // Comparison discrepancies tolerated before review
+  maxMediumSeverity: z.number().int().min(0),
+  maxValidationHigh: z.number().int().min(0), // Validation warnings tolerated before review
+  maxValidationMedium: z.number().int().min(0),
+  priorityWeights: priorityWeightsSchema,
+});
+
+export type PriorityWeights = z.infer<typeof priorityWeightsSchema>;
+export type ReviewPolicy = z.infer<typeof reviewPolicySchema>;
+
+// Partial policy as accepted from a REVIEW_POLICY_PATH JSON file
+export const reviewPolicyOverridesSchema = reviewPolicySchema
+  .extend({ priorityWeights: priorityWeightsSchema.partial() })
+  .partial()
+  .strict();
+
+export type ReviewPolicyOverrides = z.infer<typeof reviewPolicyOverridesSchema>;
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  acceptSimilarity: 85,
+  rejectSimilarity: 0, // Auto-reject is opt-in
+  maxHighSeverity: 0,
+  maxMediumSeverity: 2,
+  maxValidationHigh: 0,
+  maxValidationMedium: 2,
+  priorityWeights: {
+    comparisonHigh: 2,
+    comparisonMedium: 1,
+    comparisonLow: 0,
+    validationHigh: 3,
+    validationMedium: 1,
+    validationLow: 0,
+    similarityGap: 0.5,
+  },
+};
+
+export interface ReviewInput {
+  comparison?: {
+    similarityScore: number;
+    discrepancies: { severity: Severity }[];
+  } | null;
+  validationWarnings?: { severity: Severity }[];
+}
+
+export interface ReviewEvaluation {
+  decision: ReviewDecision;
+  reasons: string[]; // Why the item was not auto-accepted
+  priority: number; // Weighted score for review_priority (0 when auto-accepted)
+}
+
+export function mergeReviewPolicy(base: ReviewPolicy, overrides: ReviewPolicyOverrides): ReviewPolicy {
+  const merged = {
+    ...base,
+    ...overrides,
+    priorityWeights: { ...base.priorityWeights, ...overrides.priorityWeights },
+  };
+
+  if (merged.rejectSimilarity > merged.acceptSimilarity) {
+    throw new Error(
+      `Review policy rejectSimilarity (${merged.rejectSimilarity}) must not exceed acceptSimilarity (${merged.acceptSimilarity})`
+    );
+  }
+
+  return merged;
+}
+
+function countBySeverity(items: { severity: Severity }[] = []): Record<Severity, number> {
+  return {
+    high: items.filter(i => i.severity === 'high').length,
+    medium: items.filter(i => i.severity === 'medium').length,
+    low: items.filter(i => i.severity === 'low').length,
+  };
+}
+
+/**
+ * Route an extraction to auto-accept, human review or auto-reject.
+ * Without a comparison (verification disabled or failed) only validation warnings are considered.
+ */
+export function evaluateReview(input: ReviewInput, policy: ReviewPolicy): ReviewEvaluation {
+  const comparison = countBySeverity(input.comparison?.discrepancies);
+  const validation = countBySeverity(input.validationWarnings);
+  const similarity = input.comparison?.similarityScore;
+  const weights = policy.priorityWeights;
+
+  const reasons: string[] = [];
+  if (similarity !== undefined && similarity < policy.acceptSimilarity) {
+    reasons.push(`similarity ${similarity}% below ${policy.acceptSimilarity}%`);
+  }
+  if (comparison.high > policy.maxHighSeverity) {
+    reasons.push(`${comparison.high} high-severity discrepancies`);
+  }
+  if (comparison.medium > policy.maxMediumSeverity) {
+    reasons.push(`${comparison.medium} medium-severity discrepancies`);
+  }
+  if (validation.high > policy.maxValidationHigh) {
+    reasons.push(`${validation.high} high-severity validation warnings`);
+  }
+  if (validation.medium > policy.maxValidationMedium) {
+    reasons.push(`${validation.medium} medium-severity validation warnings`);
+  }
+
+  if (reasons.length === 0) {
+    return { decision: 'auto_accept', reasons, priority: 0 };
+  }
+
+  const similarityGap = similarity !== undefined ? Math.max(0, policy.acceptSimilarity - similarity) : 0;
+  const priority = Math.round(
+    comparison.high * weights.comparisonHigh +
+    comparison.medium * weights.comparisonMedium +
+    comparison.low * weights.comparisonLow +
+    validation.high * weights.validationHigh +
+    validation.medium * weights.validationMedium +
+    validation.low * weights.validationLow +
+    similarityGap * weights.similarityGap
+  );
+
+  if (similarity !== undefined && similarity < policy.rejectSimilarity) {
+    reasons[0] = `similarity ${similarity}% below ${policy.rejectSimilarity}%`;
+    return { decision: 'auto_reject', reasons, priority };
+  }
+
+  return { decision: 'review', reasons, priority };
+}